@@ -6,6 +6,10 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import ResearchPage from "./pages/ResearchPage";
+import CompetitorsPage from "./pages/CompetitorsPage";
+import CompetitorProfilePage from "./pages/CompetitorProfilePage";
+import MonitorsPage from "./pages/MonitorsPage";
+import UsagePage from "./pages/UsagePage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -18,6 +22,11 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<ResearchPage />} />
+          <Route path="/session/:sessionId" element={<ResearchPage />} />
+          <Route path="/competitors" element={<CompetitorsPage />} />
+          <Route path="/competitors/:competitorId" element={<CompetitorProfilePage />} />
+          <Route path="/monitors" element={<MonitorsPage />} />
+          <Route path="/usage" element={<UsagePage />} />
           <Route path="/index" element={<Index />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
@@ -1,112 +1,293 @@
-
 import React, { useState, useEffect } from "react";
-import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { FirecrawlService } from "@/utils/FirecrawlService";
-import { SerpApiService } from "@/utils/SerpApiService";
-import { Loader2, Key } from "lucide-react";
+import { ApiKeyService } from "@/services/apiKeyService";
+import { Loader2, Key, RefreshCw, RotateCw, Trash2 } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScraperService } from "@/services/scraperService";
+import { SCRAPER_LABELS, ScraperPreference } from "@shared/scrapers";
+import {
+  API_KEY_LABELS,
+  API_KEY_PROVIDERS,
+  ApiKeyOverview,
+  ApiKeyProvider,
+  ApiKeyStatus,
+  ApiKeySummary,
+} from "@shared/apiKeys";
+import { formatDistanceToNow, parseISO } from "date-fns";
+
+const KEY_SIGNUP_URLS: Record<ApiKeyProvider, string> = {
+  firecrawl: 'https://firecrawl.dev/',
+  serpapi: 'https://serpapi.com/dashboard',
+  brave: 'https://brave.com/search/api/',
+  bing: 'https://www.microsoft.com/en-us/bing/apis/bing-web-search-api',
+};
+
+const STATUS_BADGES: Record<ApiKeyStatus, { label: string; className: string }> = {
+  valid: { label: 'Valid', className: 'border-green-300 text-green-700 dark:text-green-400' },
+  invalid: { label: 'Invalid', className: 'border-red-300 text-red-700 dark:text-red-400' },
+  unverified: { label: 'Unverified', className: 'border-amber-300 text-amber-700 dark:text-amber-400' },
+};
+
+const SCRAPER_OPTIONS: { value: ScraperPreference; label: string }[] = [
+  { value: 'auto', label: 'Automatic (FireCrawl when a key is saved)' },
+  { value: 'firecrawl', label: SCRAPER_LABELS.firecrawl },
+  { value: 'builtin', label: SCRAPER_LABELS.builtin },
+];
+
+type KeyAction = 'saving' | 'validating' | 'removing';
+
+const timeAgo = (timestamp: string) => formatDistanceToNow(parseISO(timestamp), { addSuffix: true });
 
 const ApiKeyManager: React.FC = () => {
-  const [firecrawlApiKey, setFirecrawlApiKey] = useState<string>("");
-  const [serpApiKey, setSerpApiKey] = useState<string>("");
-  const [isTestingFirecrawl, setIsTestingFirecrawl] = useState<boolean>(false);
-  const [hasFirecrawlApiKey, setHasFirecrawlApiKey] = useState<boolean>(false);
-  const [hasSerpApiKey, setHasSerpApiKey] = useState<boolean>(false);
+  const [overview, setOverview] = useState<ApiKeyOverview | null>(null);
+  const [drafts, setDrafts] = useState<Partial<Record<ApiKeyProvider, string>>>({});
+  const [rotating, setRotating] = useState<Partial<Record<ApiKeyProvider, boolean>>>({});
+  const [pending, setPending] = useState<Partial<Record<ApiKeyProvider, KeyAction>>>({});
+  const [scraperPreference, setScraperPreference] = useState<ScraperPreference>(() => ScraperService.getPreference());
   const { toast } = useToast();
 
   useEffect(() => {
-    const savedFirecrawlKey = FirecrawlService.getApiKey();
-    const savedSerpApiKey = SerpApiService.getApiKey();
-    setHasFirecrawlApiKey(!!savedFirecrawlKey);
-    setHasSerpApiKey(!!savedSerpApiKey);
-  }, []);
-
-  const handleSaveFirecrawlApiKey = async () => {
-    if (!firecrawlApiKey.trim()) {
+    let ignore = false;
+
+    const loadKeys = async () => {
+      try {
+        let keys = await ApiKeyService.listKeys();
+        // Keys saved in this browser by earlier versions move to the workspace once it can take them
+        const migrated = keys.canManage ? await ApiKeyService.migrateLegacyKeys() : [];
+        if (migrated.length > 0) {
+          toast({
+            title: "API Keys Moved",
+            description: `Your ${migrated.map(provider => API_KEY_LABELS[provider]).join(", ")} keys are now stored encrypted for your workspace and were removed from this browser.`,
+          });
+          keys = await ApiKeyService.listKeys();
+        }
+        if (!ignore) setOverview(keys);
+      } catch (error) {
+        console.error("Error loading API keys:", error);
+        if (!ignore) {
+          setOverview({ keys: [], projectKeys: [], searxngConfigured: false, canManage: false });
+          toast({
+            title: "Error",
+            description: "Failed to load your API keys. Please try again.",
+            variant: "destructive",
+          });
+        }
+      }
+    };
+
+    loadKeys();
+    return () => {
+      ignore = true;
+    };
+  }, [toast]);
+
+  const replaceKey = (provider: ApiKeyProvider, key: ApiKeySummary | null) => {
+    setOverview(prev => prev && {
+      ...prev,
+      keys: API_KEY_PROVIDERS
+        .map(id => id === provider ? key : prev.keys.find(existing => existing.provider === id))
+        .filter((existing): existing is ApiKeySummary => !!existing),
+    });
+  };
+
+  const runKeyAction = async (provider: ApiKeyProvider, action: KeyAction, task: () => Promise<void>) => {
+    setPending(prev => ({ ...prev, [provider]: action }));
+    try {
+      await task();
+    } finally {
+      setPending(prev => ({ ...prev, [provider]: undefined }));
+    }
+  };
+
+  const handleSaveKey = (provider: ApiKeyProvider) => {
+    const label = API_KEY_LABELS[provider];
+    const apiKey = drafts[provider]?.trim();
+    if (!apiKey) {
       toast({
         title: "Error",
-        description: "Please enter a valid FireCrawl API key.",
+        description: `Please enter a valid ${label} API key.`,
         variant: "destructive",
       });
       return;
     }
 
-    setIsTestingFirecrawl(true);
-    try {
-      const isValid = await FirecrawlService.testApiKey(firecrawlApiKey);
-      
-      if (isValid) {
-        FirecrawlService.saveApiKey(firecrawlApiKey);
-        setHasFirecrawlApiKey(true);
-        setFirecrawlApiKey("");
+    const rotated = !!overview?.keys.some(key => key.provider === provider);
+    return runKeyAction(provider, 'saving', async () => {
+      try {
+        const key = await ApiKeyService.saveKey(provider, apiKey);
+        replaceKey(provider, key);
+        setDrafts(prev => ({ ...prev, [provider]: "" }));
+        setRotating(prev => ({ ...prev, [provider]: false }));
         toast({
           title: "Success",
-          description: "FireCrawl API key saved successfully.",
+          description: key.status === 'valid'
+            ? `${label} API key ${rotated ? 'rotated' : 'saved'} successfully.`
+            : `${label} API key ${rotated ? 'rotated' : 'saved'}, but it could not be validated yet.`,
         });
-      } else {
+      } catch (error) {
         toast({
           title: "Invalid API Key",
-          description: "The provided FireCrawl API key is not valid. Please check and try again.",
+          description: error instanceof Error ? error.message : `Failed to save the ${label} API key. Please try again.`,
           variant: "destructive",
         });
       }
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to validate FireCrawl API key. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsTestingFirecrawl(false);
-    }
-  };
-
-  const handleRemoveFirecrawlApiKey = () => {
-    localStorage.removeItem('firecrawl_api_key');
-    setHasFirecrawlApiKey(false);
-    toast({
-      title: "API Key Removed",
-      description: "Your FireCrawl API key has been removed.",
     });
   };
 
-  const handleSaveSerpApiKey = () => {
-    if (!serpApiKey.trim()) {
+  const handleValidateKey = (provider: ApiKeyProvider) => runKeyAction(provider, 'validating', async () => {
+    const label = API_KEY_LABELS[provider];
+    try {
+      const key = await ApiKeyService.validateKey(provider);
+      replaceKey(provider, key);
+      toast({
+        title: key.status === 'valid' ? "API Key Valid" : "API Key Not Valid",
+        description: key.status === 'valid'
+          ? `${label} accepted the key.`
+          : key.validationError || `${label} did not accept the key.`,
+        variant: key.status === 'valid' ? undefined : "destructive",
+      });
+    } catch (error) {
       toast({
         title: "Error",
-        description: "Please enter a valid SerpAPI key.",
+        description: `Failed to validate the ${label} API key. Please try again.`,
         variant: "destructive",
       });
-      return;
     }
+  });
 
+  const handleRemoveKey = (provider: ApiKeyProvider) => runKeyAction(provider, 'removing', async () => {
+    const label = API_KEY_LABELS[provider];
     try {
-      SerpApiService.saveApiKey(serpApiKey);
-      setHasSerpApiKey(true);
-      setSerpApiKey("");
+      await ApiKeyService.removeKey(provider);
+      replaceKey(provider, null);
       toast({
-        title: "Success",
-        description: "SerpAPI key saved successfully.",
+        title: "API Key Removed",
+        description: `Your ${label} API key has been removed.`,
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to save SerpAPI key. Please try again.",
+        description: `Failed to remove the ${label} API key. Please try again.`,
         variant: "destructive",
       });
     }
+  });
+
+  const handleScraperPreferenceChange = (value: string) => {
+    const preference = value as ScraperPreference;
+    ScraperService.savePreference(preference);
+    setScraperPreference(preference);
   };
 
-  const handleRemoveSerpApiKey = () => {
-    localStorage.removeItem('serpapi_api_key');
-    setHasSerpApiKey(false);
-    toast({
-      title: "API Key Removed",
-      description: "Your SerpAPI key has been removed.",
-    });
+  const renderKeyInput = (provider: ApiKeyProvider) => (
+    <div className="flex gap-2">
+      <Input
+        type="password"
+        placeholder={`Enter your ${API_KEY_LABELS[provider]} API key`}
+        value={drafts[provider] ?? ""}
+        onChange={(e) => setDrafts(prev => ({ ...prev, [provider]: e.target.value }))}
+        disabled={!!pending[provider]}
+      />
+      <Button onClick={() => handleSaveKey(provider)} disabled={!!pending[provider]}>
+        {pending[provider] === 'saving' ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Validating...
+          </>
+        ) : (
+          <>
+            <Key className="mr-2 h-4 w-4" />
+            Save
+          </>
+        )}
+      </Button>
+    </div>
+  );
+
+  const renderKey = (provider: ApiKeyProvider) => {
+    const key = overview?.keys.find(existing => existing.provider === provider);
+    const hasProjectKey = !!overview?.projectKeys.includes(provider);
+    const canManage = !!overview?.canManage;
+    const action = pending[provider];
+
+    return (
+      <div key={provider} className="space-y-2 rounded-md border p-3">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-medium">{API_KEY_LABELS[provider]}</p>
+          {key ? (
+            <Badge variant="outline" className={`text-xs ${STATUS_BADGES[key.status].className}`}>
+              {STATUS_BADGES[key.status].label}
+            </Badge>
+          ) : (
+            <a
+              href={KEY_SIGNUP_URLS[provider]}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-blue-500 hover:underline"
+            >
+              Get a key
+            </a>
+          )}
+        </div>
+
+        {key ? (
+          <>
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>
+                <span className="font-mono text-foreground">{key.maskedKey}</span>
+                {" · "}
+                {key.lastUsedAt ? `Last used ${timeAgo(key.lastUsedAt)}` : "Not used yet"}
+              </p>
+              <p>
+                {key.rotatedAt ? `Rotated ${timeAgo(key.rotatedAt)}` : `Added ${timeAgo(key.createdAt)}`}
+                {key.validatedAt && ` · Checked ${timeAgo(key.validatedAt)}`}
+              </p>
+              {key.validationError && <p className="text-destructive">{key.validationError}</p>}
+            </div>
+            {canManage && rotating[provider] && renderKeyInput(provider)}
+            {canManage && (
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleValidateKey(provider)} disabled={!!action}>
+                  {action === 'validating'
+                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    : <RefreshCw className="mr-2 h-4 w-4" />}
+                  Validate
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRotating(prev => ({ ...prev, [provider]: !prev[provider] }))}
+                  disabled={!!action}
+                >
+                  <RotateCw className="mr-2 h-4 w-4" />
+                  {rotating[provider] ? "Cancel" : "Rotate"}
+                </Button>
+                <Button variant="destructive" size="sm" onClick={() => handleRemoveKey(provider)} disabled={!!action}>
+                  {action === 'removing'
+                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    : <Trash2 className="mr-2 h-4 w-4" />}
+                  Remove
+                </Button>
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            {hasProjectKey && (
+              <p className="text-xs text-muted-foreground">
+                {canManage ? "Research uses the project's key until you save your own." : "Research uses the project's key."}
+              </p>
+            )}
+            {canManage && renderKeyInput(provider)}
+          </>
+        )}
+      </div>
+    );
   };
 
   return (
@@ -115,103 +296,67 @@ const ApiKeyManager: React.FC = () => {
         <CardTitle>API Configuration</CardTitle>
       </CardHeader>
       <CardContent>
-        <Tabs defaultValue="firecrawl" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="firecrawl">FireCrawl API</TabsTrigger>
-            <TabsTrigger value="serpapi">SerpAPI</TabsTrigger>
+        <Tabs defaultValue="keys" className="w-full">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="keys">API Keys</TabsTrigger>
+            <TabsTrigger value="scraping">Scraping</TabsTrigger>
+            <TabsTrigger value="searxng">SearXNG</TabsTrigger>
           </TabsList>
-          
-          <TabsContent value="firecrawl">
-            {hasFirecrawlApiKey ? (
-              <div className="text-center">
-                <p className="mb-4 text-green-600">✓ FireCrawl API key is configured</p>
+
+          <TabsContent value="keys">
+            <p className="mb-4 text-sm text-muted-foreground">
+              Keys are stored encrypted for your workspace and only used by the Edge Functions;
+              they are never sent back to the browser.
+            </p>
+            {overview && !overview.canManage && (
+              <p className="mb-4 text-sm text-muted-foreground">
+                Sign in to save your own keys. Without signing in, research uses the keys the project is configured with.
+              </p>
+            )}
+            {overview ? (
+              <div className="space-y-3">
+                {API_KEY_PROVIDERS.map(renderKey)}
               </div>
             ) : (
-              <div className="space-y-4">
-                <p className="text-sm text-muted-foreground">
-                  To enable web scraping, please enter your FireCrawl API key below.
-                  <a
-                    href="https://firecrawl.dev/"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-500 hover:underline ml-1"
-                  >
-                    Get a key
-                  </a>
-                </p>
-                <div className="flex gap-2">
-                  <Input
-                    type="password"
-                    placeholder="Enter your FireCrawl API key"
-                    value={firecrawlApiKey}
-                    onChange={(e) => setFirecrawlApiKey(e.target.value)}
-                  />
-                </div>
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
               </div>
             )}
-            <div className="mt-4 flex justify-end gap-2">
-              {hasFirecrawlApiKey ? (
-                <Button variant="destructive" onClick={handleRemoveFirecrawlApiKey}>
-                  Remove FireCrawl API Key
-                </Button>
-              ) : (
-                <Button onClick={handleSaveFirecrawlApiKey} disabled={isTestingFirecrawl}>
-                  {isTestingFirecrawl ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Validating...
-                    </>
-                  ) : (
-                    <>
-                      <Key className="mr-2 h-4 w-4" />
-                      Save FireCrawl API Key
-                    </>
-                  )}
-                </Button>
-              )}
+          </TabsContent>
+
+          <TabsContent value="scraping">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Scraper</p>
+              <Select value={scraperPreference} onValueChange={handleScraperPreferenceChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCRAPER_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                The built-in scraper fetches pages itself and needs no API key.
+              </p>
             </div>
           </TabsContent>
-          
-          <TabsContent value="serpapi">
-            {hasSerpApiKey ? (
-              <div className="text-center">
-                <p className="mb-4 text-green-600">✓ SerpAPI key is configured</p>
+
+          <TabsContent value="searxng">
+            <p className="mb-4 text-sm text-muted-foreground">
+              All research searches the SearXNG instance the Edge Functions are configured with
+              (the SEARXNG_URL secret), so it is set up by the project rather than in this browser.
+            </p>
+            {!overview ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
               </div>
+            ) : overview.searxngConfigured ? (
+              <p className="text-sm text-green-600">✓ Configured</p>
             ) : (
-              <div className="space-y-4">
-                <p className="text-sm text-muted-foreground">
-                  To enable search result fetching, please enter your SerpAPI key below.
-                  <a
-                    href="https://serpapi.com/dashboard"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-500 hover:underline ml-1"
-                  >
-                    Get a key
-                  </a>
-                </p>
-                <div className="flex gap-2">
-                  <Input
-                    type="password"
-                    placeholder="Enter your SerpAPI key"
-                    value={serpApiKey}
-                    onChange={(e) => setSerpApiKey(e.target.value)}
-                  />
-                </div>
-              </div>
+              <p className="text-sm text-muted-foreground">No SearXNG instance is configured.</p>
             )}
-            <div className="mt-4 flex justify-end gap-2">
-              {hasSerpApiKey ? (
-                <Button variant="destructive" onClick={handleRemoveSerpApiKey}>
-                  Remove SerpAPI Key
-                </Button>
-              ) : (
-                <Button onClick={handleSaveSerpApiKey}>
-                  <Key className="mr-2 h-4 w-4" />
-                  Save SerpAPI Key
-                </Button>
-              )}
-            </div>
           </TabsContent>
         </Tabs>
       </CardContent>
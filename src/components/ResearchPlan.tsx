@@ -1,23 +1,246 @@
-
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { PlannerResponse, SearchTargetKind, getTargetKind } from "@/services/planner";
+import { ArrowDown, ArrowUp, Loader2, Lock, Plus, RefreshCw, Unlock, X } from "lucide-react";
 
-interface PlannerResponse {
-  intent: string;
-  searchFocus: string[];
-  informationGoals: string[];
-  originalQuestion: string;
-}
+type PlanList = 'searchFocus' | 'informationGoals';
+
+const LOCK_KEYS: Record<PlanList, 'lockedSearchFocus' | 'lockedInformationGoals'> = {
+  searchFocus: 'lockedSearchFocus',
+  informationGoals: 'lockedInformationGoals',
+};
 
 interface ResearchPlanProps {
   plan: PlannerResponse;
+  // Without onChange the plan is shown read-only, e.g. once research has started
+  onChange?: (plan: PlannerResponse) => void;
+  onRegenerate?: () => void;
+  regenerating?: boolean;
+}
+
+// Plan edits keep locks and URL/query marks attached to the entry text
+const renameItem = (plan: PlannerResponse, list: PlanList, index: number, text: string): PlannerResponse => {
+  const previous = plan[list][index];
+  const lockKey = LOCK_KEYS[list];
+  const next: PlannerResponse = {
+    ...plan,
+    [list]: plan[list].map((item, i) => i === index ? text : item),
+    [lockKey]: (plan[lockKey] ?? []).map(item => item === previous ? text : item),
+  };
+  if (list === 'searchFocus' && plan.targetKinds?.[previous]) {
+    const { [previous]: kind, ...rest } = plan.targetKinds;
+    next.targetKinds = { ...rest, [text]: kind };
+  }
+  return next;
+};
+
+const removeItem = (plan: PlannerResponse, list: PlanList, index: number): PlannerResponse => {
+  const removed = plan[list][index];
+  const remaining = plan[list].filter((_, i) => i !== index);
+  const lockKey = LOCK_KEYS[list];
+  const next: PlannerResponse = {
+    ...plan,
+    [list]: remaining,
+    [lockKey]: (plan[lockKey] ?? []).filter(item => item !== removed || remaining.includes(item)),
+  };
+  if (list === 'searchFocus' && plan.targetKinds?.[removed] && !remaining.includes(removed)) {
+    const { [removed]: _, ...rest } = plan.targetKinds;
+    next.targetKinds = rest;
+  }
+  return next;
+};
+
+const moveItem = (plan: PlannerResponse, list: PlanList, index: number, delta: number): PlannerResponse => {
+  const items = [...plan[list]];
+  const target = index + delta;
+  if (target < 0 || target >= items.length) return plan;
+  [items[index], items[target]] = [items[target], items[index]];
+  return { ...plan, [list]: items };
+};
+
+const toggleLock = (plan: PlannerResponse, list: PlanList, index: number): PlannerResponse => {
+  const item = plan[list][index];
+  const lockKey = LOCK_KEYS[list];
+  const locked = plan[lockKey] ?? [];
+  return {
+    ...plan,
+    [lockKey]: locked.includes(item) ? locked.filter(lockedItem => lockedItem !== item) : [...locked, item],
+  };
+};
+
+const setKind = (plan: PlannerResponse, target: string, kind: SearchTargetKind): PlannerResponse => ({
+  ...plan,
+  targetKinds: { ...(plan.targetKinds ?? {}), [target]: kind },
+});
+
+interface PlanItemRowProps {
+  value: string;
+  locked: boolean;
+  kind?: SearchTargetKind;
+  kindIsExplicit?: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  onCommit: (text: string) => void;
+  onKindChange?: (kind: SearchTargetKind) => void;
+  onToggleLock: () => void;
+  onMove: (delta: number) => void;
+  onRemove: () => void;
+}
+
+// Text is committed on blur or Enter so the plan is not saved on every keystroke
+const PlanItemRow: React.FC<PlanItemRowProps> = ({
+  value,
+  locked,
+  kind,
+  kindIsExplicit = false,
+  isFirst,
+  isLast,
+  onCommit,
+  onKindChange,
+  onToggleLock,
+  onMove,
+  onRemove,
+}) => {
+  const [text, setText] = useState(value);
+
+  useEffect(() => {
+    setText(value);
+  }, [value]);
+
+  const commit = () => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      setText(value);
+    } else if (trimmed !== value) {
+      onCommit(trimmed);
+    }
+  };
+
+  return (
+    <li className="flex items-center gap-1">
+      <Input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            commit();
+          }
+        }}
+        className="h-8"
+      />
+      {kind && onKindChange && (
+        <Button
+          variant={kindIsExplicit ? "secondary" : "ghost"}
+          size="sm"
+          className="h-8 w-16 shrink-0"
+          title={kindIsExplicit ? "Marked by you - click to switch" : "Detected automatically - click to switch"}
+          onClick={() => onKindChange(kind === 'url' ? 'query' : 'url')}
+        >
+          {kind === 'url' ? "URL" : "Query"}
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0"
+        title={locked ? "Unlock: regenerate may replace this" : "Lock: keep this when regenerating"}
+        onClick={onToggleLock}
+      >
+        {locked ? <Lock className="h-4 w-4 text-primary" /> : <Unlock className="h-4 w-4 text-muted-foreground" />}
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" title="Move up" onClick={() => onMove(-1)} disabled={isFirst}>
+        <ArrowUp className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" title="Move down" onClick={() => onMove(1)} disabled={isLast}>
+        <ArrowDown className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" title="Remove" onClick={onRemove}>
+        <X className="h-4 w-4" />
+      </Button>
+    </li>
+  );
+};
+
+interface PlanListEditorProps {
+  plan: PlannerResponse;
+  list: PlanList;
+  placeholder: string;
+  onChange: (plan: PlannerResponse) => void;
 }
 
-const ResearchPlan: React.FC<ResearchPlanProps> = ({ plan }) => {
+const PlanListEditor: React.FC<PlanListEditorProps> = ({ plan, list, placeholder, onChange }) => {
+  const [newItem, setNewItem] = useState("");
+  const items = plan[list];
+  const locked = plan[LOCK_KEYS[list]] ?? [];
+
+  const addItem = () => {
+    const text = newItem.trim();
+    if (!text) return;
+    onChange({ ...plan, [list]: [...items, text] });
+    setNewItem("");
+  };
+
+  return (
+    <ul className="space-y-1 mt-1">
+      {items.map((item, index) => (
+        <PlanItemRow
+          key={`${index}-${item}`}
+          value={item}
+          locked={locked.includes(item)}
+          kind={list === 'searchFocus' ? getTargetKind(plan, item) : undefined}
+          kindIsExplicit={!!plan.targetKinds?.[item]}
+          isFirst={index === 0}
+          isLast={index === items.length - 1}
+          onCommit={(text) => onChange(renameItem(plan, list, index, text))}
+          onKindChange={list === 'searchFocus' ? (kind) => onChange(setKind(plan, item, kind)) : undefined}
+          onToggleLock={() => onChange(toggleLock(plan, list, index))}
+          onMove={(delta) => onChange(moveItem(plan, list, index, delta))}
+          onRemove={() => onChange(removeItem(plan, list, index))}
+        />
+      ))}
+      <li className="flex items-center gap-1">
+        <Input
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addItem();
+            }
+          }}
+          placeholder={placeholder}
+          className="h-8"
+        />
+        <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" title="Add" onClick={addItem} disabled={!newItem.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </li>
+    </ul>
+  );
+};
+
+const ResearchPlan: React.FC<ResearchPlanProps> = ({ plan, onChange, onRegenerate, regenerating = false }) => {
+  const editable = !!onChange;
+  const lockedCount = (plan.lockedSearchFocus?.length ?? 0) + (plan.lockedInformationGoals?.length ?? 0);
+
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
         <CardTitle>Research Plan</CardTitle>
+        {onRegenerate && (
+          <Button variant="outline" size="sm" onClick={onRegenerate} disabled={regenerating}>
+            {regenerating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            {lockedCount > 0 ? "Regenerate unlocked" : "Regenerate"}
+          </Button>
+        )}
       </CardHeader>
       <CardContent className="space-y-4">
         <div>
@@ -36,20 +259,38 @@ const ResearchPlan: React.FC<ResearchPlanProps> = ({ plan }) => {
 
             <div>
               <span className="font-medium">Search Focus:</span>
-              <ul className="list-disc list-inside pl-4 mt-1">
-                {plan.searchFocus.map((item, index) => (
-                  <li key={index}>{item}</li>
-                ))}
-              </ul>
+              {editable ? (
+                <PlanListEditor
+                  plan={plan}
+                  list="searchFocus"
+                  placeholder="Add a search query or URL"
+                  onChange={onChange}
+                />
+              ) : (
+                <ul className="list-disc list-inside pl-4 mt-1">
+                  {plan.searchFocus.map((item, index) => (
+                    <li key={index}>{item}</li>
+                  ))}
+                </ul>
+              )}
             </div>
 
             <div>
               <span className="font-medium">Information Goals:</span>
-              <ul className="list-disc list-inside pl-4 mt-1">
-                {plan.informationGoals.map((item, index) => (
-                  <li key={index}>{item}</li>
-                ))}
-              </ul>
+              {editable ? (
+                <PlanListEditor
+                  plan={plan}
+                  list="informationGoals"
+                  placeholder="Add an information goal"
+                  onChange={onChange}
+                />
+              ) : (
+                <ul className="list-disc list-inside pl-4 mt-1">
+                  {plan.informationGoals.map((item, index) => (
+                    <li key={index}>{item}</li>
+                  ))}
+                </ul>
+              )}
             </div>
 
             <div>
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Competitor, parseCompetitor } from "@shared/competitors";
+
+interface CompetitorDialogProps {
+  // null closes the dialog; a competitor without an id creates a new one
+  competitor: Competitor | null;
+  saving?: boolean;
+  onSave: (competitor: Competitor) => void;
+  onDelete?: (competitorId: string) => void;
+  onClose: () => void;
+}
+
+interface CompetitorForm {
+  id?: string;
+  name: string;
+  domains: string;
+  products: string;
+  eventPages: string;
+  notes: string;
+}
+
+const toForm = (competitor: Competitor): CompetitorForm => ({
+  id: competitor.id,
+  name: competitor.name,
+  domains: competitor.domains.join("\n"),
+  products: competitor.products.join("\n"),
+  eventPages: competitor.eventPages.join("\n"),
+  notes: competitor.notes ?? "",
+});
+
+const fromForm = (form: CompetitorForm): Competitor => parseCompetitor({
+  id: form.id,
+  name: form.name,
+  domains: form.domains.split("\n"),
+  products: form.products.split("\n"),
+  eventPages: form.eventPages.split("\n"),
+  notes: form.notes,
+});
+
+const CompetitorDialog: React.FC<CompetitorDialogProps> = ({ competitor, saving = false, onSave, onDelete, onClose }) => {
+  const [form, setForm] = useState<CompetitorForm | null>(null);
+
+  useEffect(() => {
+    setForm(competitor ? toForm(competitor) : null);
+  }, [competitor]);
+
+  const updateForm = (field: keyof CompetitorForm, value: string) => {
+    setForm(prev => prev && { ...prev, [field]: value });
+  };
+
+  return (
+    <Dialog open={!!competitor} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{form?.id ? "Edit Competitor" : "New Competitor"}</DialogTitle>
+          <DialogDescription>
+            Verified facts naming the competitor, its products or its domains are filed under it after every research.
+          </DialogDescription>
+        </DialogHeader>
+        {form && (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (form.name.trim()) {
+                onSave(fromForm(form));
+              }
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="competitor-name">Name</Label>
+              <Input
+                id="competitor-name"
+                value={form.name}
+                onChange={(e) => updateForm("name", e.target.value)}
+                placeholder="e.g. Entrust"
+                autoFocus
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="competitor-domains">Domains (one per line)</Label>
+                <Textarea
+                  id="competitor-domains"
+                  value={form.domains}
+                  onChange={(e) => updateForm("domains", e.target.value)}
+                  placeholder="entrust.com"
+                  rows={3}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="competitor-products">Products (one per line)</Label>
+                <Textarea
+                  id="competitor-products"
+                  value={form.products}
+                  onChange={(e) => updateForm("products", e.target.value)}
+                  placeholder="nShield"
+                  rows={3}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="competitor-events">Known event pages (one URL per line)</Label>
+              <Textarea
+                id="competitor-events"
+                value={form.eventPages}
+                onChange={(e) => updateForm("eventPages", e.target.value)}
+                placeholder="https://www.entrust.com/events"
+                rows={3}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="competitor-notes">Notes</Label>
+              <Textarea
+                id="competitor-notes"
+                value={form.notes}
+                onChange={(e) => updateForm("notes", e.target.value)}
+                rows={2}
+              />
+            </div>
+            <DialogFooter>
+              {form.id && onDelete && (
+                <Button
+                  type="button"
+                  variant="destructive"
+                  className="mr-auto"
+                  onClick={() => form.id && onDelete(form.id)}
+                  disabled={saving}
+                >
+                  Delete
+                </Button>
+              )}
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!form.name.trim() || saving}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CompetitorDialog;
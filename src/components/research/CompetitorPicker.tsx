@@ -0,0 +1,45 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Competitor } from "@shared/competitors";
+import { Building2 } from "lucide-react";
+
+interface CompetitorPickerProps {
+  competitors: Competitor[];
+  value: string | null;
+  onChange: (competitorId: string | null) => void;
+  disabled?: boolean;
+}
+
+// Select items need a non-empty value, so "no competitor" gets a placeholder id
+const NO_COMPETITOR_VALUE = "none";
+
+const CompetitorPicker: React.FC<CompetitorPickerProps> = ({ competitors, value, onChange, disabled = false }) => {
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={value ?? NO_COMPETITOR_VALUE}
+        onValueChange={(selected) => onChange(selected === NO_COMPETITOR_VALUE ? null : selected)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-56" title="Seed the plan with a competitor's known pages">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_COMPETITOR_VALUE}>No competitor</SelectItem>
+          {competitors.map(competitor => (
+            <SelectItem key={competitor.id} value={competitor.id as string}>{competitor.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="icon" title="Competitor profiles" asChild>
+        <Link to={value ? `/competitors/${value}` : "/competitors"}>
+          <Building2 className="h-4 w-4" />
+        </Link>
+      </Button>
+    </div>
+  );
+};
+
+export default CompetitorPicker;
@@ -0,0 +1,94 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Scale } from "lucide-react";
+import { Contradiction, ContradictionClaim } from "@shared/contracts";
+import { getResolvedClaim, isSameClaim } from "@shared/contradictions";
+
+interface ContradictionsPanelProps {
+  contradictions: Contradiction[];
+  onResolve: (subjectKey: string, claim: ContradictionClaim | null) => void;
+  onOpenSource: (claim: ContradictionClaim) => void;
+}
+
+const ContradictionsPanel: React.FC<ContradictionsPanelProps> = ({ contradictions, onResolve, onOpenSource }) => {
+  if (contradictions.length === 0) return null;
+
+  const openCount = contradictions.filter(contradiction => !getResolvedClaim(contradiction)).length;
+
+  return (
+    <Card className="border-orange-200 bg-orange-50 dark:bg-orange-950 dark:border-orange-800">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-md flex items-center">
+          <Scale className="h-5 w-5 mr-2 text-orange-600 dark:text-orange-400" />
+          Conflicting Sources
+          <span className="ml-2 text-sm font-normal text-muted-foreground">
+            {openCount > 0 ? `${openCount} of ${contradictions.length} unresolved` : "All resolved"}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {contradictions.map(contradiction => {
+          const resolved = getResolvedClaim(contradiction);
+          return (
+            <div key={contradiction.subjectKey} className="rounded-md border bg-background p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium">{contradiction.subject}</p>
+                  {contradiction.summary && (
+                    <p className="text-xs text-muted-foreground">{contradiction.summary}</p>
+                  )}
+                </div>
+                {resolved && (
+                  <Button variant="ghost" size="sm" onClick={() => onResolve(contradiction.subjectKey, null)}>
+                    Clear
+                  </Button>
+                )}
+              </div>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {contradiction.claims.map((claim, index) => {
+                  const isAuthoritative = isSameClaim(resolved, claim);
+                  return (
+                    <div
+                      key={index}
+                      className={`rounded border p-2 space-y-1 ${isAuthoritative ? "border-green-400 bg-green-50 dark:bg-green-950" : ""} ${resolved && !isAuthoritative ? "opacity-60" : ""}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-semibold">{claim.value}</span>
+                        {isAuthoritative && (
+                          <Badge variant="outline" className="text-xs border-green-300 text-green-700 dark:text-green-400">
+                            Authoritative
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs">{claim.fact}</p>
+                      <p className="text-xs text-muted-foreground">{claim.category}</p>
+                      <div className="flex items-center justify-between gap-2">
+                        <button
+                          type="button"
+                          onClick={() => onOpenSource(claim)}
+                          className="text-xs text-blue-600 hover:text-blue-800 truncate"
+                          title={claim.source}
+                        >
+                          {claim.source}
+                        </button>
+                        {!isAuthoritative && (
+                          <Button variant="outline" size="sm" onClick={() => onResolve(contradiction.subjectKey, claim)}>
+                            Mark authoritative
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ContradictionsPanel;
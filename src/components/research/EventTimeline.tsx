@@ -0,0 +1,115 @@
+import React from "react";
+import { format, parseISO } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CalendarDays, Download, MapPin } from "lucide-react";
+import { EventRole, ResearchEvent } from "@shared/contracts";
+import { eventsToIcs, sortEvents } from "@shared/events";
+import { downloadFile } from "@/lib/download";
+
+interface EventTimelineProps {
+  events: ResearchEvent[];
+  // Used to name the exported calendar
+  title: string;
+  onOpenSource: (event: ResearchEvent) => void;
+}
+
+const ROLE_BADGES: Record<EventRole, string> = {
+  organizer: "border-purple-300 text-purple-700 dark:text-purple-400",
+  sponsor: "border-amber-300 text-amber-700 dark:text-amber-400",
+  speaker: "border-blue-300 text-blue-700 dark:text-blue-400",
+  exhibitor: "border-green-300 text-green-700 dark:text-green-400",
+  attendee: "border-gray-300 text-gray-700 dark:text-gray-400",
+  other: "border-gray-300 text-gray-700 dark:text-gray-400",
+};
+
+const UNDATED = "Date not stated";
+
+function formatDates(event: ResearchEvent): string {
+  if (!event.startDate) return UNDATED;
+  const start = parseISO(event.startDate);
+  if (!event.endDate) return format(start, "EEE d MMM yyyy");
+  return `${format(start, "d MMM")} – ${format(parseISO(event.endDate), "d MMM yyyy")}`;
+}
+
+// Month headings in chronological order, undated events last
+function groupByMonth(events: ResearchEvent[]): [string, ResearchEvent[]][] {
+  const groups = new Map<string, ResearchEvent[]>();
+  for (const event of sortEvents(events)) {
+    const month = event.startDate ? format(parseISO(event.startDate), "MMMM yyyy") : UNDATED;
+    groups.set(month, [...(groups.get(month) ?? []), event]);
+  }
+  return [...groups.entries()];
+}
+
+const EventTimeline: React.FC<EventTimelineProps> = ({ events, title, onOpenSource }) => {
+  const datedCount = events.filter(event => event.startDate).length;
+
+  const exportCalendar = () => {
+    const fileName = `${title.replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-|-$/g, "").toLowerCase() || "research"}-events.ics`;
+    downloadFile(fileName, eventsToIcs(events, title), "text/calendar;charset=utf-8");
+  };
+
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <p>No events were found in the sources.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {events.length} events, {datedCount} with dates
+        </p>
+        <Button variant="outline" size="sm" onClick={exportCalendar} disabled={datedCount === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export .ics
+        </Button>
+      </div>
+
+      {groupByMonth(events).map(([month, monthEvents]) => (
+        <div key={month} className="space-y-3">
+          <h3 className="text-sm font-semibold flex items-center">
+            <CalendarDays className="h-4 w-4 mr-2" />
+            {month}
+          </h3>
+          <ol className="border-l-2 border-gray-200 ml-2 space-y-4">
+            {monthEvents.map((event, index) => (
+              <li key={index} className="pl-4 relative">
+                <span className="absolute -left-[5px] top-1.5 h-2 w-2 rounded-full bg-gray-400" />
+                <p className="text-xs text-muted-foreground">{formatDates(event)}</p>
+                <p className="text-sm font-medium">
+                  {event.name}
+                  <Badge variant="outline" className={`ml-2 text-xs ${ROLE_BADGES[event.role]}`}>
+                    {event.participant ? `${event.participant}: ${event.role}` : event.role}
+                  </Badge>
+                </p>
+                {(event.venue || event.city) && (
+                  <p className="text-xs text-muted-foreground flex items-center mt-1">
+                    <MapPin className="h-3 w-3 mr-1" />
+                    {[event.venue, event.city].filter(Boolean).join(", ")}
+                  </p>
+                )}
+                {event.organizer && (
+                  <p className="text-xs text-muted-foreground">Organized by {event.organizer}</p>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onOpenSource(event)}
+                  className="text-xs text-blue-600 hover:text-blue-800 mt-1 inline-block"
+                >
+                  Source
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default EventTimeline;
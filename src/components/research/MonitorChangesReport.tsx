@@ -0,0 +1,126 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { MonitorChanges, MonitorFact, countChanges } from "@shared/monitoring";
+import { ArrowRight, Minus, Plus } from "lucide-react";
+
+interface MonitorChangesReportProps {
+  changes: MonitorChanges;
+}
+
+const FactSource: React.FC<{ fact: MonitorFact }> = ({ fact }) => (
+  <span className="text-xs text-muted-foreground ml-2">
+    {fact.category} ·{" "}
+    <a href={fact.source} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+      Source
+    </a>
+  </span>
+);
+
+const MonitorChangesReport: React.FC<MonitorChangesReportProps> = ({ changes }) => {
+  if (changes.baseline) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        First run: {changes.factCount} facts recorded to compare the next runs with.
+      </p>
+    );
+  }
+
+  const sourceChangeCount = changes.newSources.length + changes.removedSources.length + changes.changedSources.length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="secondary">{changes.newFacts.length} new</Badge>
+        <Badge variant="secondary">{changes.changedFacts.length} changed</Badge>
+        <Badge variant="secondary">{changes.removedFacts.length} removed</Badge>
+        <Badge variant="outline">{changes.unchangedFactCount} unchanged</Badge>
+      </div>
+
+      {countChanges(changes) === 0 && (
+        <p className="text-sm text-muted-foreground">No facts changed since the previous run.</p>
+      )}
+
+      {changes.changedFacts.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2">Changed values</h4>
+          <ul className="space-y-2">
+            {changes.changedFacts.map(change => (
+              <li key={`${change.previous.fact}-${change.current.fact}`} className="border-l-2 border-amber-300 pl-4 py-1 text-sm">
+                <p className="text-muted-foreground line-through">{change.previous.fact}</p>
+                <p className="flex items-start">
+                  <ArrowRight className="h-4 w-4 mr-1 mt-0.5 shrink-0 text-amber-600" />
+                  <span>
+                    {change.current.fact}
+                    <FactSource fact={change.current} />
+                  </span>
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {changes.newFacts.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2">New facts</h4>
+          <ul className="space-y-2">
+            {changes.newFacts.map(fact => (
+              <li key={fact.fact} className="flex items-start border-l-2 border-green-300 pl-4 py-1 text-sm">
+                <Plus className="h-4 w-4 mr-1 mt-0.5 shrink-0 text-green-600" />
+                <span>
+                  {fact.fact}
+                  <FactSource fact={fact} />
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {changes.removedFacts.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2">No longer found</h4>
+          <ul className="space-y-2">
+            {changes.removedFacts.map(fact => (
+              <li key={fact.fact} className="flex items-start border-l-2 border-red-300 pl-4 py-1 text-sm text-muted-foreground">
+                <Minus className="h-4 w-4 mr-1 mt-0.5 shrink-0 text-red-600" />
+                <span>
+                  {fact.fact}
+                  <FactSource fact={fact} />
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {sourceChangeCount > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2">Sources</h4>
+          <ul className="space-y-1 text-xs">
+            {changes.changedSources.map(source => (
+              <li key={source.url} className="truncate">
+                <span className="text-amber-600 mr-2">+{source.addedLines} / -{source.removedLines} lines</span>
+                <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">{source.url}</a>
+              </li>
+            ))}
+            {changes.newSources.map(url => (
+              <li key={url} className="truncate">
+                <span className="text-green-600 mr-2">new</span>
+                <a href={url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">{url}</a>
+              </li>
+            ))}
+            {changes.removedSources.map(url => (
+              <li key={url} className="truncate text-muted-foreground">
+                <span className="text-red-600 mr-2">gone</span>
+                {url}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MonitorChangesReport;
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface MonitorDialogProps {
+  open: boolean;
+  defaultName: string;
+  saving?: boolean;
+  onSave: (monitor: { name: string; intervalDays: number }) => void;
+  onClose: () => void;
+}
+
+const SCHEDULES = [
+  { days: 1, label: "Daily" },
+  { days: 7, label: "Weekly" },
+  { days: 14, label: "Every two weeks" },
+  { days: 30, label: "Monthly" },
+];
+
+const MonitorDialog: React.FC<MonitorDialogProps> = ({ open, defaultName, saving = false, onSave, onClose }) => {
+  const [name, setName] = useState(defaultName);
+  const [intervalDays, setIntervalDays] = useState(7);
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName);
+    }
+  }, [open, defaultName]);
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save as Monitor</DialogTitle>
+          <DialogDescription>
+            The plan is researched again on the server on this schedule, and every run reports what changed since the one before.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim()) {
+              onSave({ name, intervalDays });
+            }
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="monitor-name">Name</Label>
+            <Input
+              id="monitor-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="monitor-schedule">Schedule</Label>
+            <Select value={String(intervalDays)} onValueChange={(value) => setIntervalDays(Number(value))}>
+              <SelectTrigger id="monitor-schedule">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCHEDULES.map(schedule => (
+                  <SelectItem key={schedule.days} value={String(schedule.days)}>{schedule.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim()}>
+              {saving ? "Saving..." : "Save Monitor"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MonitorDialog;
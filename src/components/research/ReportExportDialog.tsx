@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ReportFormat, ReportService } from "@/services/reportService";
+import { REPORT_SECTIONS, REPORT_SECTION_LABELS, ReportInput, ReportSection, ReportTemplate } from "@shared/report";
+import { ChevronDown, ChevronUp, FileCode, FileText, Printer } from "lucide-react";
+
+interface ReportExportDialogProps {
+  open: boolean;
+  input: Omit<ReportInput, "generatedAt">;
+  onClose: () => void;
+}
+
+// Sections picked in the template's order, then the ones left out
+const orderSections = (template: ReportTemplate): ReportSection[] => [
+  ...template.sections,
+  ...REPORT_SECTIONS.filter(section => !template.sections.includes(section)),
+];
+
+const ReportExportDialog: React.FC<ReportExportDialogProps> = ({ open, input, onClose }) => {
+  const [template, setTemplate] = useState<ReportTemplate>(() => ReportService.getTemplate());
+  const [order, setOrder] = useState<ReportSection[]>(() => orderSections(template));
+
+  useEffect(() => {
+    if (open) {
+      const stored = ReportService.getTemplate();
+      setTemplate(stored);
+      setOrder(orderSections(stored));
+    }
+  }, [open]);
+
+  const toggleSection = (section: ReportSection, included: boolean) => {
+    setTemplate(prev => ({
+      ...prev,
+      sections: order.filter(candidate => candidate === section ? included : prev.sections.includes(candidate)),
+    }));
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    const next = [...order];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setOrder(next);
+    setTemplate(prev => ({ ...prev, sections: next.filter(section => prev.sections.includes(section)) }));
+  };
+
+  const exportAs = (format: ReportFormat) => {
+    ReportService.saveTemplate(template);
+    ReportService.exportReport(format, { ...input, generatedAt: new Date() }, template);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Report</DialogTitle>
+          <DialogDescription>
+            Facts cite their sources by number; the settings are kept for the next export from this browser.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="report-title">Title</Label>
+            <Input
+              id="report-title"
+              value={template.title}
+              onChange={(e) => setTemplate(prev => ({ ...prev, title: e.target.value }))}
+              placeholder="{question}"
+            />
+            <p className="text-xs text-muted-foreground">"{"{question}"}" is replaced with the research question.</p>
+          </div>
+          <div className="space-y-2">
+            <Label>Sections</Label>
+            <ul className="space-y-1">
+              {order.map((section, index) => (
+                <li key={section} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`report-section-${section}`}
+                    checked={template.sections.includes(section)}
+                    onCheckedChange={(checked) => toggleSection(section, checked === true)}
+                  />
+                  <Label htmlFor={`report-section-${section}`} className="flex-1 font-normal">
+                    {REPORT_SECTION_LABELS[section]}
+                  </Label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => moveSection(index, -1)}
+                    disabled={index === 0}
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => moveSection(index, 1)}
+                    disabled={index === order.length - 1}
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="report-quotes"
+              checked={template.includeQuotes}
+              onCheckedChange={(includeQuotes) => setTemplate(prev => ({ ...prev, includeQuotes }))}
+            />
+            <Label htmlFor="report-quotes" className="text-sm">Include supporting quotes</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="report-verified"
+              checked={template.verifiedOnly}
+              onCheckedChange={(verifiedOnly) => setTemplate(prev => ({ ...prev, verifiedOnly }))}
+            />
+            <Label htmlFor="report-verified" className="text-sm">Leave out unsupported and contradicted facts</Label>
+          </div>
+        </div>
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => exportAs("markdown")} disabled={template.sections.length === 0}>
+            <FileText className="h-4 w-4 mr-2" />
+            Markdown
+          </Button>
+          <Button variant="outline" onClick={() => exportAs("html")} disabled={template.sections.length === 0}>
+            <FileCode className="h-4 w-4 mr-2" />
+            HTML
+          </Button>
+          <Button onClick={() => exportAs("pdf")} disabled={template.sections.length === 0}>
+            <Printer className="h-4 w-4 mr-2" />
+            PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportExportDialog;
@@ -10,6 +10,8 @@ interface ResearchFormProps {
   loading: boolean;
   onQuestionChange: (value: string) => void;
   onSubmit: (e: React.FormEvent) => void;
+  // Settings shown next to the submit button, e.g. the competitor picker
+  children?: React.ReactNode;
 }
 
 const ResearchForm: React.FC<ResearchFormProps> = ({
@@ -17,6 +19,7 @@ const ResearchForm: React.FC<ResearchFormProps> = ({
   loading,
   onQuestionChange,
   onSubmit,
+  children,
 }) => {
   return (
     <Card className="mb-8">
@@ -32,7 +35,8 @@ const ResearchForm: React.FC<ResearchFormProps> = ({
             className="min-h-32"
           />
         </CardContent>
-        <CardFooter className="flex justify-end">
+        <CardFooter className="flex items-center justify-between gap-4">
+          <div>{children}</div>
           <Button type="submit" disabled={loading}>
             {loading ? (
               <>
@@ -0,0 +1,369 @@
+import React, { useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ResearchSessionService,
+  ResearchSessionSummary,
+  RESEARCH_SESSIONS_QUERY_KEY,
+} from "@/services/researchSessionService";
+import { SessionExportService } from "@/services/sessionExportService";
+import { Coins, Copy, Download, MoreHorizontal, Pencil, Pin, PinOff, Plus, Radar, Trash2, Upload } from "lucide-react";
+
+interface ResearchHistorySidebarProps {
+  activeSessionId?: string;
+  disabled?: boolean;
+}
+
+const sessionLabel = (session: ResearchSessionSummary) => session.title || session.question;
+
+const ResearchHistorySidebar: React.FC<ResearchHistorySidebarProps> = ({ activeSessionId, disabled = false }) => {
+  const [search, setSearch] = useState("");
+  const [renameTarget, setRenameTarget] = useState<ResearchSessionSummary | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [deleteTarget, setDeleteTarget] = useState<ResearchSessionSummary | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: RESEARCH_SESSIONS_QUERY_KEY,
+    queryFn: () => ResearchSessionService.listSessions(),
+  });
+
+  const refreshSessions = () => queryClient.invalidateQueries({ queryKey: RESEARCH_SESSIONS_QUERY_KEY });
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const pinMutation = useMutation({
+    mutationFn: (session: ResearchSessionSummary) =>
+      ResearchSessionService.setPinned(session.id, !session.pinned),
+    onSuccess: refreshSessions,
+    onError: () => showError("Failed to update the research session."),
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) =>
+      ResearchSessionService.renameSession(id, title),
+    onSuccess: () => {
+      setRenameTarget(null);
+      refreshSessions();
+    },
+    onError: () => showError("Failed to rename the research session."),
+  });
+
+  const duplicateMutation = useMutation({
+    mutationFn: (session: ResearchSessionSummary) => ResearchSessionService.duplicateSession(session.id),
+    onSuccess: (newSessionId) => {
+      refreshSessions();
+      navigate(`/session/${newSessionId}`);
+      toast({
+        title: "Session Duplicated",
+        description: "Edit the question and generate a new research plan.",
+      });
+    },
+    onError: () => showError("Failed to duplicate the research session."),
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: (session: ResearchSessionSummary) => SessionExportService.exportSession(session.id),
+    onError: () => showError("Failed to export the research session."),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (file: File) => SessionExportService.importSession(file),
+    onSuccess: (newSessionId) => {
+      refreshSessions();
+      navigate(`/session/${newSessionId}`);
+      toast({
+        title: "Session Imported",
+        description: "The research session was restored from the file.",
+      });
+    },
+    onError: (error) => showError(`Failed to import the research session: ${error.message}`),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (session: ResearchSessionSummary) => ResearchSessionService.deleteSession(session.id),
+    onSuccess: (_, session) => {
+      setDeleteTarget(null);
+      refreshSessions();
+      if (session.id === activeSessionId) {
+        navigate("/");
+      }
+    },
+    onError: () => showError("Failed to delete the research session."),
+  });
+
+  const filteredSessions = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return sessions;
+    return sessions.filter(session =>
+      session.question.toLowerCase().includes(term) ||
+      (session.title?.toLowerCase().includes(term) ?? false)
+    );
+  }, [sessions, search]);
+
+  const pinnedSessions = filteredSessions.filter(session => session.pinned);
+  const recentSessions = filteredSessions.filter(session => !session.pinned);
+
+  const openRename = (session: ResearchSessionSummary) => {
+    setRenameValue(sessionLabel(session));
+    setRenameTarget(session);
+  };
+
+  const renderSession = (session: ResearchSessionSummary) => (
+    <SidebarMenuItem key={session.id}>
+      <SidebarMenuButton
+        isActive={session.id === activeSessionId}
+        disabled={disabled}
+        onClick={() => navigate(`/session/${session.id}`)}
+        tooltip={session.question}
+      >
+        {session.pinned && <Pin className="h-3 w-3" />}
+        <span className="truncate">{sessionLabel(session)}</span>
+      </SidebarMenuButton>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <SidebarMenuAction showOnHover disabled={disabled}>
+            <MoreHorizontal />
+            <span className="sr-only">Session actions</span>
+          </SidebarMenuAction>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="right" align="start">
+          <DropdownMenuItem onClick={() => pinMutation.mutate(session)}>
+            {session.pinned ? (
+              <>
+                <PinOff className="mr-2 h-4 w-4" />
+                Unpin
+              </>
+            ) : (
+              <>
+                <Pin className="mr-2 h-4 w-4" />
+                Pin
+              </>
+            )}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => openRename(session)}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => duplicateMutation.mutate(session)}>
+            <Copy className="mr-2 h-4 w-4" />
+            Duplicate as new question
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => exportMutation.mutate(session)}>
+            <Download className="mr-2 h-4 w-4" />
+            Export as JSON
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setDeleteTarget(session)}
+            className="text-destructive focus:text-destructive"
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </SidebarMenuItem>
+  );
+
+  return (
+    <>
+      <Sidebar>
+        <SidebarHeader>
+          <Button
+            variant="outline"
+            className="w-full justify-start"
+            onClick={() => navigate("/")}
+            disabled={disabled}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New Research
+          </Button>
+          <Button
+            variant="ghost"
+            className="w-full justify-start"
+            onClick={() => navigate("/monitors")}
+          >
+            <Radar className="mr-2 h-4 w-4" />
+            Monitors
+          </Button>
+          <Button
+            variant="ghost"
+            className="w-full justify-start"
+            onClick={() => navigate("/usage")}
+          >
+            <Coins className="mr-2 h-4 w-4" />
+            Usage
+          </Button>
+          <Button
+            variant="ghost"
+            className="w-full justify-start"
+            onClick={() => importInputRef.current?.click()}
+            disabled={disabled || importMutation.isPending}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            Import Session
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) {
+                importMutation.mutate(file);
+              }
+              e.target.value = "";
+            }}
+          />
+          <SidebarInput
+            placeholder="Search past questions..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </SidebarHeader>
+        <SidebarContent>
+          {isLoading ? (
+            <SidebarGroup>
+              <SidebarMenu>
+                {Array.from({ length: 5 }).map((_, index) => (
+                  <SidebarMenuItem key={index}>
+                    <SidebarMenuSkeleton />
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroup>
+          ) : (
+            <>
+              {pinnedSessions.length > 0 && (
+                <SidebarGroup>
+                  <SidebarGroupLabel>Pinned</SidebarGroupLabel>
+                  <SidebarGroupContent>
+                    <SidebarMenu>{pinnedSessions.map(renderSession)}</SidebarMenu>
+                  </SidebarGroupContent>
+                </SidebarGroup>
+              )}
+              <SidebarGroup>
+                <SidebarGroupLabel>History</SidebarGroupLabel>
+                <SidebarGroupContent>
+                  {recentSessions.length > 0 ? (
+                    <SidebarMenu>{recentSessions.map(renderSession)}</SidebarMenu>
+                  ) : (
+                    <p className="px-2 text-xs text-muted-foreground">
+                      {search ? "No sessions match your search." : "No research sessions yet."}
+                    </p>
+                  )}
+                </SidebarGroupContent>
+              </SidebarGroup>
+            </>
+          )}
+        </SidebarContent>
+      </Sidebar>
+
+      <Dialog open={!!renameTarget} onOpenChange={(open) => !open && setRenameTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Research Session</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (renameTarget) {
+                renameMutation.mutate({ id: renameTarget.id, title: renameValue });
+              }
+            }}
+          >
+            <Input
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              placeholder={renameTarget?.question}
+              autoFocus
+            />
+            <DialogFooter className="mt-4">
+              <Button type="button" variant="outline" onClick={() => setRenameTarget(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={renameMutation.isPending}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete research session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleteTarget && sessionLabel(deleteTarget)}" and all of its plans, sources, insights
+              and logs will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ResearchHistorySidebar;
@@ -1,14 +1,7 @@
 
 import React from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { ScrapingResult } from "@/services/webScraperService";
-
-interface ResearchIteration {
-  targets: string[];
-  results: ScrapingResult[];
-  analysis?: string;
-  extractionFocus?: string;
-}
+import { ResearchIteration } from "@shared/contracts";
 
 interface ResearchIterationsProps {
   iterations: ResearchIteration[];
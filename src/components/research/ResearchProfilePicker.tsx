@@ -0,0 +1,246 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { ResearchProfileService, RESEARCH_PROFILES_QUERY_KEY } from "@/services/researchProfileService";
+import { DEFAULT_RESEARCH_PROFILE, ResearchProfile, parseResearchProfile } from "@shared/researchProfiles";
+import { Pencil, Plus } from "lucide-react";
+
+interface ResearchProfilePickerProps {
+  value: string | null;
+  onChange: (profileId: string | null) => void;
+  disabled?: boolean;
+}
+
+interface ProfileForm {
+  id?: string;
+  name: string;
+  fallbackSources: string;
+  country: string;
+  language: string;
+  dateWindowMonths: string;
+}
+
+// Select items need a non-empty value, so the built-in defaults get a placeholder id
+const DEFAULT_PROFILE_VALUE = "default";
+
+const toForm = (profile: ResearchProfile): ProfileForm => ({
+  id: profile.id,
+  name: profile.id ? profile.name : "",
+  fallbackSources: profile.fallbackSources.join("\n"),
+  country: profile.country ?? "",
+  language: profile.language ?? "",
+  dateWindowMonths: String(profile.dateWindowMonths),
+});
+
+const fromForm = (form: ProfileForm): ResearchProfile => parseResearchProfile({
+  id: form.id,
+  name: form.name,
+  fallbackSources: form.fallbackSources.split("\n"),
+  country: form.country,
+  language: form.language,
+  dateWindowMonths: Number(form.dateWindowMonths),
+});
+
+const ResearchProfilePicker: React.FC<ResearchProfilePickerProps> = ({ value, onChange, disabled = false }) => {
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: profiles = [] } = useQuery({
+    queryKey: RESEARCH_PROFILES_QUERY_KEY,
+    queryFn: () => ResearchProfileService.listProfiles(),
+  });
+
+  const selectedProfile = profiles.find(profile => profile.id === value);
+
+  const refreshProfiles = () => queryClient.invalidateQueries({ queryKey: RESEARCH_PROFILES_QUERY_KEY });
+
+  const saveMutation = useMutation({
+    mutationFn: (profile: ResearchProfile) => ResearchProfileService.saveProfile(profile),
+    onSuccess: (profile) => {
+      setForm(null);
+      refreshProfiles();
+      onChange(profile.id ?? null);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save the research profile.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (profileId: string) => ResearchProfileService.deleteProfile(profileId),
+    onSuccess: (_, profileId) => {
+      setForm(null);
+      refreshProfiles();
+      if (profileId === value) {
+        onChange(null);
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete the research profile.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateForm = (field: keyof ProfileForm, fieldValue: string) => {
+    setForm(prev => prev && { ...prev, [field]: fieldValue });
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-center">Research profile</p>
+      <div className="flex items-center justify-center gap-2">
+        <Select
+          value={value ?? DEFAULT_PROFILE_VALUE}
+          onValueChange={(selected) => onChange(selected === DEFAULT_PROFILE_VALUE ? null : selected)}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_PROFILE_VALUE}>Default (no locale, 12 months)</SelectItem>
+            {profiles.map(profile => (
+              <SelectItem key={profile.id} value={profile.id as string}>{profile.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Edit profile"
+          onClick={() => selectedProfile && setForm(toForm(selectedProfile))}
+          disabled={disabled || !selectedProfile}
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          title="New profile"
+          onClick={() => setForm(toForm(DEFAULT_RESEARCH_PROFILE))}
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Edit Research Profile" : "New Research Profile"}</DialogTitle>
+            <DialogDescription>
+              Search locale, date window and the sources to scrape when searches find nothing.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (form.name.trim()) {
+                  saveMutation.mutate(fromForm(form));
+                }
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="profile-name">Name</Label>
+                <Input
+                  id="profile-name"
+                  value={form.name}
+                  onChange={(e) => updateForm("name", e.target.value)}
+                  placeholder="e.g. Nordic competitors"
+                  autoFocus
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="profile-country">Country</Label>
+                  <Input
+                    id="profile-country"
+                    value={form.country}
+                    onChange={(e) => updateForm("country", e.target.value)}
+                    placeholder="e.g. us"
+                    maxLength={2}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-language">Language</Label>
+                  <Input
+                    id="profile-language"
+                    value={form.language}
+                    onChange={(e) => updateForm("language", e.target.value)}
+                    placeholder="e.g. en"
+                    maxLength={5}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-months">Months back</Label>
+                  <Input
+                    id="profile-months"
+                    type="number"
+                    min={1}
+                    max={120}
+                    value={form.dateWindowMonths}
+                    onChange={(e) => updateForm("dateWindowMonths", e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-fallbacks">Fallback sources (one URL per line)</Label>
+                <Textarea
+                  id="profile-fallbacks"
+                  value={form.fallbackSources}
+                  onChange={(e) => updateForm("fallbackSources", e.target.value)}
+                  placeholder="https://example.com/news"
+                  rows={4}
+                />
+              </div>
+              <DialogFooter>
+                {form.id && (
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    className="mr-auto"
+                    onClick={() => form.id && deleteMutation.mutate(form.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    Delete
+                  </Button>
+                )}
+                <Button type="button" variant="outline" onClick={() => setForm(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={!form.name.trim() || saveMutation.isPending}>
+                  Save
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ResearchProfilePicker;
@@ -2,8 +2,10 @@
 import React from "react";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { AlertCircle, Clock, Activity, Terminal } from "lucide-react";
+import { AlertCircle, Clock, Activity, Terminal, Coins } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import UsageBreakdownReport from "@/components/research/UsageBreakdownReport";
+import type { UsageBreakdown } from "@shared/usage";
 
 interface LogEntry {
   message: string;
@@ -19,6 +21,8 @@ interface ResearchProgressProps {
   logs: LogEntry[];
   currentStep: string;
   timeElapsed: number; // in seconds
+  // What the session's model calls, searches and crawls have cost so far
+  usage?: UsageBreakdown | null;
 }
 
 const ResearchProgress: React.FC<ResearchProgressProps> = ({
@@ -28,7 +32,8 @@ const ResearchProgress: React.FC<ResearchProgressProps> = ({
   timeoutMessage,
   logs,
   currentStep,
-  timeElapsed
+  timeElapsed,
+  usage
 }) => {
   if (!isResearching && !timeoutMessage && logs.length === 0) return null;
 
@@ -102,6 +107,20 @@ const ResearchProgress: React.FC<ResearchProgressProps> = ({
           </CardContent>
         </Card>
       )}
+
+      {usage && usage.iterations.length > 0 && (
+        <Card>
+          <CardHeader className="py-3">
+            <CardTitle className="text-md flex items-center">
+              <Coins className="h-4 w-4 mr-2" />
+              Research Cost
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0 pb-4">
+            <UsageBreakdownReport usage={usage} showIterations />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
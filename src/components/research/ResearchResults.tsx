@@ -1,51 +1,179 @@
 
 import React, { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { AlertCircle, BookOpen, FileText, CheckCircle2, ArrowRight } from "lucide-react";
+import { AlertCircle, BookOpen, FileText, CheckCircle2, ArrowRight, Download, FileSpreadsheet, Sheet } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ScrapingResult } from "@/services/webScraperService";
+import { CleanerResponse, ConfidenceLevel, Contradiction, ContradictionClaim, FactConfidence, FactVerificationStatus, InsightFact, PlannerResponse, ResearchEvent, ResearchIteration, ScrapingResult, SourceCoverageStatus } from "@shared/contracts";
+import { countCoverage } from "@shared/cleaning";
+import { TextSpan, getFactSpan } from "@shared/citations";
+import { countVerification } from "@shared/verification";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import SourceViewer from "./SourceViewer";
+import ContradictionsPanel from "./ContradictionsPanel";
+import EventTimeline from "./EventTimeline";
+import ReportExportDialog from "./ReportExportDialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FactExportFormat, SessionExportService } from "@/services/sessionExportService";
 import { Badge } from "@/components/ui/badge";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 
-interface CleanerResponse {
-  structuredInsights: Record<string, Array<{fact: string, source: string}>>;
-  relevantFindings: string[];
-  suggestedNextSteps?: string[];
-  analysis: string;
-}
+const COVERAGE_BADGES: Record<SourceCoverageStatus, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  full: { label: "Fully read", variant: "default" },
+  partial: { label: "Partially read", variant: "secondary" },
+  skipped: { label: "Not read", variant: "destructive" },
+};
+
+const VERIFICATION_BADGES: Record<FactVerificationStatus, { label: string; className: string }> = {
+  supported: { label: "Supported", className: "border-green-300 text-green-700 dark:text-green-400" },
+  unsupported: { label: "Unsupported", className: "border-amber-300 text-amber-700 dark:text-amber-400" },
+  contradicted: { label: "Contradicted", className: "border-red-300 text-red-700 dark:text-red-400" },
+};
+
+const CONFIDENCE_BADGES: Record<ConfidenceLevel, string> = {
+  high: "border-green-300 text-green-700 dark:text-green-400",
+  medium: "border-amber-300 text-amber-700 dark:text-amber-400",
+  low: "border-red-300 text-red-700 dark:text-red-400",
+};
+
+const CONFIDENCE_FILTERS: Record<string, { label: string; levels: ConfidenceLevel[] }> = {
+  all: { label: "Any confidence", levels: ["high", "medium", "low"] },
+  medium: { label: "Medium or higher", levels: ["high", "medium"] },
+  high: { label: "High only", levels: ["high"] },
+};
+
+type FactOrder = "extracted" | "confidence";
 
 interface ResearchResultsProps {
   results: ScrapingResult[];
+  // Names the exported calendar and report
+  question?: string;
+  plan?: PlannerResponse | null;
+  // Credit exported facts to the iteration that found their source
+  iterations?: ResearchIteration[];
   analysisText: string | null;
   structuredInsights: CleanerResponse | null;
+  contradictions?: Contradiction[];
+  onResolveContradiction?: (subjectKey: string, claim: ContradictionClaim | null) => void;
+}
+
+function describeConfidence(confidence: FactConfidence): string {
+  const parts = [
+    confidence.firstParty ? `First-party ${confidence.sourceType} source` : `Third-party ${confidence.sourceType} source`,
+    confidence.publishedAt ? `published ${confidence.publishedAt.split('T')[0]}` : "publication date unknown",
+    `${confidence.corroborations} other ${confidence.corroborations === 1 ? "source agrees" : "sources agree"}`,
+  ];
+  return parts.join(", ");
 }
 
 const ResearchResults: React.FC<ResearchResultsProps> = ({ 
   results, 
+  question,
+  plan = null,
+  iterations = [],
   analysisText, 
-  structuredInsights 
+  structuredInsights,
+  contradictions = [],
+  onResolveContradiction
 }) => {
   const [activeTab, setActiveTab] = useState("insights");
+  const [viewing, setViewing] = useState<{ source: ScrapingResult; highlight: TextSpan | null } | null>(null);
+  const [hideUnsupported, setHideUnsupported] = useState(false);
+  const [factOrder, setFactOrder] = useState<FactOrder>("extracted");
+  const [confidenceFilter, setConfidenceFilter] = useState("all");
+  const [exporting, setExporting] = useState(false);
 
   if (!results.length && !analysisText && !structuredInsights) return null;
 
+  const coverageCounts = countCoverage(structuredInsights?.sourceCoverage);
+  const verificationCounts = countVerification(structuredInsights?.structuredInsights);
+  const flaggedCount = verificationCounts.unsupported + verificationCounts.contradicted;
+
+  // Facts not yet checked stay visible; only facts the check failed are hidden
+  const isVisible = (fact: InsightFact) =>
+    (!hideUnsupported || !fact.verification || fact.verification.status === 'supported')
+    && (!fact.confidence || CONFIDENCE_FILTERS[confidenceFilter].levels.includes(fact.confidence.level));
+
+  // Unscored facts keep their place at the end when sorting by confidence
+  const orderFacts = (facts: InsightFact[]) => factOrder === "confidence"
+    ? [...facts].sort((a, b) => (b.confidence?.score ?? -1) - (a.confidence?.score ?? -1))
+    : facts;
+
+  const events = structuredInsights?.events ?? [];
+  const openEventSource = (event: ResearchEvent) =>
+    openFactSource({ fact: event.name, source: event.source, quote: event.quote });
+
+  const hasConfidence = Object.values(structuredInsights?.structuredInsights ?? {}).some(facts => facts.some(fact => fact.confidence));
+
+  const exportFacts = (format: FactExportFormat) => {
+    if (structuredInsights) {
+      SessionExportService.exportFacts(format, question || "research", structuredInsights, iterations, results);
+    }
+  };
+
+  // Sources we scraped open in the viewer at the quoted passage; anything else opens the page itself
+  const openFactSource = (fact: InsightFact) => {
+    const source = results.find(result => result.url === fact.source);
+    if (source) {
+      setViewing({ source, highlight: getFactSpan(fact, source.content) });
+    } else {
+      window.open(fact.source, "_blank", "noopener,noreferrer");
+    }
+  };
+
   return (
     <Card className="mt-6">
       <CardHeader>
-        <CardTitle className="flex items-center">
-          <BookOpen className="h-5 w-5 mr-2" />
-          Research Results
-        </CardTitle>
-        {results.length > 0 && (
-          <CardDescription>
-            Found {results.length} resources related to your question
-          </CardDescription>
-        )}
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <BookOpen className="h-5 w-5 mr-2" />
+              Research Results
+            </CardTitle>
+            {results.length > 0 && (
+              <CardDescription>
+                Found {results.length} resources related to your question
+              </CardDescription>
+            )}
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setExporting(true)}>
+                <FileText className="mr-2 h-4 w-4" />
+                Report (Markdown, HTML, PDF)...
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => exportFacts("csv")} disabled={!structuredInsights}>
+                <Sheet className="mr-2 h-4 w-4" />
+                Facts as CSV
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportFacts("xlsx")} disabled={!structuredInsights}>
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                Facts as Excel
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="insights" value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid grid-cols-3 mb-4">
+          <TabsList className={`grid ${events.length > 0 ? "grid-cols-4" : "grid-cols-3"} mb-4`}>
             <TabsTrigger value="insights">Insights</TabsTrigger>
+            {events.length > 0 && <TabsTrigger value="events">Events</TabsTrigger>}
             <TabsTrigger value="analysis">Analysis</TabsTrigger>
             <TabsTrigger value="rawData">Raw Data</TabsTrigger>
           </TabsList>
@@ -72,12 +200,61 @@ const ResearchResults: React.FC<ResearchResultsProps> = ({
                   </Card>
                 )}
                 
+                {onResolveContradiction && (
+                  <ContradictionsPanel
+                    contradictions={contradictions}
+                    onResolve={onResolveContradiction}
+                    onOpenSource={openFactSource}
+                  />
+                )}
+
                 {/* Structured Insights */}
                 <div className="space-y-4">
-                  <h3 className="text-lg font-medium">Detailed Insights</h3>
+                  <div className="flex items-center justify-between gap-4">
+                    <h3 className="text-lg font-medium">Detailed Insights</h3>
+                    {flaggedCount > 0 && (
+                      <div className="flex items-center gap-2">
+                        <Switch id="hide-unsupported" checked={hideUnsupported} onCheckedChange={setHideUnsupported} />
+                        <Label htmlFor="hide-unsupported" className="text-sm">
+                          Hide {flaggedCount} unsupported or contradicted
+                        </Label>
+                      </div>
+                    )}
+                  </div>
+                  {hasConfidence && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Select value={factOrder} onValueChange={(value) => setFactOrder(value as FactOrder)}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="extracted">Order as extracted</SelectItem>
+                          <SelectItem value="confidence">Highest confidence first</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Select value={confidenceFilter} onValueChange={setConfidenceFilter}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(CONFIDENCE_FILTERS).map(([value, filter]) => (
+                            <SelectItem key={value} value={value}>{filter.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {verificationCounts.supported + flaggedCount > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {verificationCounts.supported} supported, {verificationCounts.unsupported} unsupported, {verificationCounts.contradicted} contradicted by their sources
+                    </p>
+                  )}
                   
                   <Accordion type="single" collapsible className="w-full">
-                    {Object.entries(structuredInsights.structuredInsights).map(([category, facts], idx) => (
+                    {Object.entries(structuredInsights.structuredInsights)
+                      .map(([category, facts]) => [category, orderFacts(facts.filter(isVisible))] as const)
+                      .filter(([, facts]) => facts.length > 0)
+                      .map(([category, facts], idx) => (
                       <AccordionItem value={`item-${idx}`} key={idx}>
                         <AccordionTrigger className="text-left font-medium">
                           {category}
@@ -86,15 +263,39 @@ const ResearchResults: React.FC<ResearchResultsProps> = ({
                           <ul className="space-y-3">
                             {facts.map((item, factIdx) => (
                               <li key={factIdx} className="border-l-2 border-gray-200 pl-4 py-1">
-                                <p className="text-sm">{item.fact}</p>
-                                <a 
-                                  href={item.source} 
-                                  target="_blank" 
-                                  rel="noopener noreferrer"
+                                <p className="text-sm">
+                                  {item.fact}
+                                  {item.verification && (
+                                    <Badge
+                                      variant="outline"
+                                      className={`ml-2 text-xs ${VERIFICATION_BADGES[item.verification.status].className}`}
+                                      title={item.verification.note}
+                                    >
+                                      {VERIFICATION_BADGES[item.verification.status].label}
+                                    </Badge>
+                                  )}
+                                  {item.confidence && (
+                                    <Badge
+                                      variant="outline"
+                                      className={`ml-2 text-xs ${CONFIDENCE_BADGES[item.confidence.level]}`}
+                                      title={describeConfidence(item.confidence)}
+                                    >
+                                      {Math.round(item.confidence.score * 100)}% confidence
+                                    </Badge>
+                                  )}
+                                </p>
+                                {item.quote && (
+                                  <blockquote className="text-xs italic text-muted-foreground mt-1">
+                                    "{item.quote}"
+                                  </blockquote>
+                                )}
+                                <button
+                                  type="button"
+                                  onClick={() => openFactSource(item)}
                                   className="text-xs text-blue-600 hover:text-blue-800 mt-1 inline-block"
                                 >
                                   Source
-                                </a>
+                                </button>
                               </li>
                             ))}
                           </ul>
@@ -122,6 +323,36 @@ const ResearchResults: React.FC<ResearchResultsProps> = ({
                     </CardContent>
                   </Card>
                 )}
+
+                {/* Source Coverage */}
+                {structuredInsights.sourceCoverage && structuredInsights.sourceCoverage.length > 0 && (
+                  <div className="space-y-2">
+                    <h3 className="text-lg font-medium">Source Coverage</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {coverageCounts.full} fully read, {coverageCounts.partial} partially read, {coverageCounts.skipped} not read
+                    </p>
+                    <ul className="space-y-1">
+                      {structuredInsights.sourceCoverage.map((entry, index) => (
+                        <li key={index} className="flex items-center gap-2 text-sm">
+                          <Badge variant={COVERAGE_BADGES[entry.status].variant} className="shrink-0">
+                            {COVERAGE_BADGES[entry.status].label}
+                          </Badge>
+                          <a
+                            href={entry.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="truncate hover:underline"
+                          >
+                            {entry.url}
+                          </a>
+                          {entry.reason && (
+                            <span className="text-xs text-muted-foreground shrink-0">({entry.reason})</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="text-center py-8 text-gray-500">
@@ -134,6 +365,10 @@ const ResearchResults: React.FC<ResearchResultsProps> = ({
             )}
           </TabsContent>
           
+          <TabsContent value="events">
+            <EventTimeline events={events} title={question || "Research"} onOpenSource={openEventSource} />
+          </TabsContent>
+
           <TabsContent value="analysis">
             {analysisText ? (
               <Card className="border-yellow-200 bg-yellow-50 dark:bg-yellow-950 dark:border-yellow-800">
@@ -196,6 +431,16 @@ const ResearchResults: React.FC<ResearchResultsProps> = ({
             )}
           </TabsContent>
         </Tabs>
+        <SourceViewer
+          source={viewing?.source ?? null}
+          highlight={viewing?.highlight}
+          onClose={() => setViewing(null)}
+        />
+        <ReportExportDialog
+          open={exporting}
+          input={{ question: question ?? "", plan, insights: structuredInsights, analysisText, results }}
+          onClose={() => setExporting(false)}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { SearchProviderService } from "@/services/searchProviderService";
+import { ApiKeyService } from "@/services/apiKeyService";
+import { ApiKeyOverview } from "@shared/apiKeys";
+import {
+  SEARCH_PROVIDER_IDS,
+  SEARCH_PROVIDER_LABELS,
+  SearchProviderId,
+} from "@shared/searchProviders";
+
+interface SearchProviderPickerProps {
+  value: SearchProviderId[];
+  onChange: (providers: SearchProviderId[]) => void;
+  disabled?: boolean;
+  // Research run in the browser can only use providers with a key in the workspace or the project,
+  // and SearXNG when the Edge Functions have an instance
+  showBrowserAvailability?: boolean;
+}
+
+const SearchProviderPicker: React.FC<SearchProviderPickerProps> = ({
+  value,
+  onChange,
+  disabled = false,
+  showBrowserAvailability = false,
+}) => {
+  const [keys, setKeys] = useState<ApiKeyOverview | null>(null);
+
+  useEffect(() => {
+    if (!showBrowserAvailability) return;
+    let ignore = false;
+    ApiKeyService.getOverview()
+      .then(overview => {
+        if (!ignore) setKeys(overview);
+      })
+      .catch(error => console.error("Error loading API keys:", error));
+    return () => {
+      ignore = true;
+    };
+  }, [showBrowserAvailability]);
+
+  const toggleProvider = (provider: SearchProviderId, checked: boolean) => {
+    if (checked) {
+      onChange(SEARCH_PROVIDER_IDS.filter(id => id === provider || value.includes(id)));
+    } else if (value.length > 1) {
+      // Keep at least one provider selected
+      onChange(value.filter(id => id !== provider));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-center">Search providers</p>
+      <div className="flex flex-wrap justify-center gap-x-6 gap-y-2">
+        {SEARCH_PROVIDER_IDS.map(provider => {
+          const unavailable = showBrowserAvailability && !!keys && !SearchProviderService.isConfigured(provider, keys);
+          return (
+            <div key={provider} className="flex items-center gap-2">
+              <Checkbox
+                id={`search-provider-${provider}`}
+                checked={value.includes(provider)}
+                onCheckedChange={(checked) => toggleProvider(provider, checked === true)}
+                disabled={disabled}
+              />
+              <Label
+                htmlFor={`search-provider-${provider}`}
+                className={unavailable ? "text-sm text-muted-foreground line-through" : "text-sm"}
+                title={unavailable ? "No API key configured" : undefined}
+              >
+                {SEARCH_PROVIDER_LABELS[provider]}
+              </Label>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SearchProviderPicker;
@@ -0,0 +1,66 @@
+import React, { useEffect, useRef } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrapingResult } from "@shared/contracts";
+import { TextSpan } from "@shared/citations";
+import { ExternalLink } from "lucide-react";
+
+interface SourceViewerProps {
+  source: ScrapingResult | null;
+  // The passage to scroll to and highlight
+  highlight?: TextSpan | null;
+  onClose: () => void;
+}
+
+const SourceViewer: React.FC<SourceViewerProps> = ({ source, highlight, onClose }) => {
+  const markRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    if (!source || !highlight) return;
+    // Wait for the dialog to mount its content before scrolling
+    const frame = requestAnimationFrame(() => {
+      markRef.current?.scrollIntoView({ block: "center" });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [source, highlight]);
+
+  const content = source?.content ?? "";
+  const title = typeof source?.metadata?.title === "string" && source.metadata.title ? source.metadata.title : source?.url;
+
+  return (
+    <Dialog open={!!source} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="pr-6 truncate">{title}</DialogTitle>
+          <DialogDescription className="flex items-center gap-2">
+            {highlight ? "Highlighted: the passage this fact was taken from." : "The quoted passage could not be found in this source."}
+            {source && (
+              <a
+                href={source.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center text-blue-600 hover:text-blue-800"
+              >
+                Open original <ExternalLink className="h-3 w-3 ml-1" />
+              </a>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-auto rounded border p-4">
+          <pre className="whitespace-pre-wrap font-sans text-sm">
+            {highlight ? (
+              <>
+                {content.slice(0, highlight.start)}
+                <mark ref={markRef} className="bg-yellow-200 dark:bg-yellow-700 rounded px-0.5">
+                  {content.slice(highlight.start, highlight.end)}
+                </mark>
+                {content.slice(highlight.end)}
+              </>
+            ) : content}
+          </pre>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SourceViewer;
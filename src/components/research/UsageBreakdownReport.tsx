@@ -0,0 +1,76 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { UnitUsage, UsageBreakdown, formatUsd } from "@shared/usage";
+
+interface UsageBreakdownReportProps {
+  usage: UsageBreakdown;
+  // A session's costs per iteration; monthly totals have none
+  showIterations?: boolean;
+}
+
+const formatTokens = (count: number) => count.toLocaleString();
+
+const UnitLines: React.FC<{ title: string; unit: string; lines: UnitUsage[] }> = ({ title, unit, lines }) => (
+  <div>
+    <h4 className="text-sm font-medium mb-1">{title}</h4>
+    <ul className="space-y-1 text-sm">
+      {lines.map(line => (
+        <li key={line.provider} className="flex justify-between gap-4">
+          <span>
+            {line.provider}
+            <span className="text-muted-foreground ml-2">{line.count} {unit}</span>
+          </span>
+          <span className="font-mono">{formatUsd(line.costUsd)}</span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const UsageBreakdownReport: React.FC<UsageBreakdownReportProps> = ({ usage, showIterations = false }) => (
+  <div className="space-y-4">
+    <div className="flex flex-wrap items-center gap-2">
+      <Badge>{formatUsd(usage.costUsd)}</Badge>
+      <Badge variant="secondary">{formatTokens(usage.inputTokens)} tokens in</Badge>
+      <Badge variant="secondary">{formatTokens(usage.outputTokens)} tokens out</Badge>
+    </div>
+
+    {usage.models.length > 0 && (
+      <div>
+        <h4 className="text-sm font-medium mb-1">Models</h4>
+        <ul className="space-y-1 text-sm">
+          {usage.models.map(model => (
+            <li key={`${model.provider}/${model.model}`} className="flex justify-between gap-4">
+              <span>
+                {model.provider}/{model.model}
+                <span className="text-muted-foreground ml-2">
+                  {model.calls} calls · {formatTokens(model.inputTokens)} in / {formatTokens(model.outputTokens)} out
+                </span>
+              </span>
+              <span className="font-mono">{formatUsd(model.costUsd)}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+
+    {usage.searches.length > 0 && <UnitLines title="Searches" unit="requests" lines={usage.searches} />}
+    {usage.pages.length > 0 && <UnitLines title="Crawled pages" unit="pages" lines={usage.pages} />}
+
+    {showIterations && usage.iterations.length > 0 && (
+      <div className="flex flex-wrap gap-2">
+        {usage.iterations.map(({ iteration, costUsd }) => (
+          <Badge key={iteration ?? "plan"} variant="outline">
+            {iteration === null ? "Planning" : `Iteration ${iteration}`}: {formatUsd(costUsd)}
+          </Badge>
+        ))}
+      </div>
+    )}
+
+    <p className="text-xs text-muted-foreground">
+      Estimated from list prices; pages fetched directly by this browser cost nothing and are not counted.
+    </p>
+  </div>
+);
+
+export default UsageBreakdownReport;
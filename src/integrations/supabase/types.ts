@@ -9,16 +9,931 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
-      [_ in never]: never
+      api_keys: {
+        Row: {
+          ciphertext: string
+          created_at: string
+          id: string
+          iv: string
+          last_used_at: string | null
+          masked_key: string
+          provider: string
+          rotated_at: string | null
+          updated_at: string
+          user_id: string | null
+          validated_at: string | null
+          validation_error: string | null
+          validation_status: string
+        }
+        Insert: {
+          ciphertext: string
+          created_at?: string
+          id?: string
+          iv: string
+          last_used_at?: string | null
+          masked_key: string
+          provider: string
+          rotated_at?: string | null
+          updated_at?: string
+          user_id?: string | null
+          validated_at?: string | null
+          validation_error?: string | null
+          validation_status?: string
+        }
+        Update: {
+          ciphertext?: string
+          created_at?: string
+          id?: string
+          iv?: string
+          last_used_at?: string | null
+          masked_key?: string
+          provider?: string
+          rotated_at?: string | null
+          updated_at?: string
+          user_id?: string | null
+          validated_at?: string | null
+          validation_error?: string | null
+          validation_status?: string
+        }
+        Relationships: []
+      }
+      competitor_facts: {
+        Row: {
+          category: string
+          competitor_id: string
+          confidence: Json | null
+          fact: string
+          fact_key: string
+          first_seen_at: string
+          id: string
+          last_seen_at: string
+          quote: string | null
+          session_id: string | null
+          source: string
+        }
+        Insert: {
+          category: string
+          competitor_id: string
+          confidence?: Json | null
+          fact: string
+          fact_key: string
+          first_seen_at?: string
+          id?: string
+          last_seen_at?: string
+          quote?: string | null
+          session_id?: string | null
+          source: string
+        }
+        Update: {
+          category?: string
+          competitor_id?: string
+          confidence?: Json | null
+          fact?: string
+          fact_key?: string
+          first_seen_at?: string
+          id?: string
+          last_seen_at?: string
+          quote?: string | null
+          session_id?: string | null
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "competitor_facts_competitor_id_fkey"
+            columns: ["competitor_id"]
+            isOneToOne: false
+            referencedRelation: "competitors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "competitor_facts_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "research_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      competitor_sessions: {
+        Row: {
+          competitor_id: string
+          fact_count: number
+          recorded_at: string
+          session_id: string
+        }
+        Insert: {
+          competitor_id: string
+          fact_count?: number
+          recorded_at?: string
+          session_id: string
+        }
+        Update: {
+          competitor_id?: string
+          fact_count?: number
+          recorded_at?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "competitor_sessions_competitor_id_fkey"
+            columns: ["competitor_id"]
+            isOneToOne: false
+            referencedRelation: "competitors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "competitor_sessions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "research_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      competitors: {
+        Row: {
+          created_at: string
+          domains: string[]
+          event_pages: string[]
+          id: string
+          name: string
+          notes: string | null
+          products: string[]
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          domains?: string[]
+          event_pages?: string[]
+          id?: string
+          name: string
+          notes?: string | null
+          products?: string[]
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          domains?: string[]
+          event_pages?: string[]
+          id?: string
+          name?: string
+          notes?: string | null
+          products?: string[]
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      research_contradictions: {
+        Row: {
+          claims: Json
+          created_at: string
+          id: string
+          resolution: Json | null
+          resolved_at: string | null
+          session_id: string
+          subject: string
+          subject_key: string
+          summary: string | null
+          updated_at: string
+        }
+        Insert: {
+          claims?: Json
+          created_at?: string
+          id?: string
+          resolution?: Json | null
+          resolved_at?: string | null
+          session_id: string
+          subject: string
+          subject_key: string
+          summary?: string | null
+          updated_at?: string
+        }
+        Update: {
+          claims?: Json
+          created_at?: string
+          id?: string
+          resolution?: Json | null
+          resolved_at?: string | null
+          session_id?: string
+          subject?: string
+          subject_key?: string
+          summary?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_contradictions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "research_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_insights: {
+        Row: {
+          analysis: string | null
+          events: Json
+          id: string
+          relevant_findings: Json
+          session_id: string
+          source_coverage: Json
+          structured_insights: Json
+          suggested_next_steps: Json
+          updated_at: string
+        }
+        Insert: {
+          analysis?: string | null
+          events?: Json
+          id?: string
+          relevant_findings?: Json
+          session_id: string
+          source_coverage?: Json
+          structured_insights?: Json
+          suggested_next_steps?: Json
+          updated_at?: string
+        }
+        Update: {
+          analysis?: string | null
+          events?: Json
+          id?: string
+          relevant_findings?: Json
+          session_id?: string
+          source_coverage?: Json
+          structured_insights?: Json
+          suggested_next_steps?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_insights_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: true
+            referencedRelation: "research_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_iterations: {
+        Row: {
+          analysis: string | null
+          created_at: string
+          extraction_focus: string | null
+          id: string
+          iteration_number: number
+          session_id: string
+          targets: Json
+        }
+        Insert: {
+          analysis?: string | null
+          created_at?: string
+          extraction_focus?: string | null
+          id?: string
+          iteration_number: number
+          session_id: string
+          targets?: Json
+        }
+        Update: {
+          analysis?: string | null
+          created_at?: string
+          extraction_focus?: string | null
+          id?: string
+          iteration_number?: number
+          session_id?: string
+          targets?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_iterations_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "research_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          heartbeat_at: string | null
+          id: string
+          iteration: number
+          last_error: string | null
+          max_iterations: number
+          payload: Json
+          session_id: string
+          status: Database["public"]["Enums"]["research_job_status"]
+          step: Database["public"]["Enums"]["research_job_step"]
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          heartbeat_at?: string | null
+          id?: string
+          iteration?: number
+          last_error?: string | null
+          max_iterations?: number
+          payload?: Json
+          session_id: string
+          status?: Database["public"]["Enums"]["research_job_status"]
+          step?: Database["public"]["Enums"]["research_job_step"]
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          heartbeat_at?: string | null
+          id?: string
+          iteration?: number
+          last_error?: string | null
+          max_iterations?: number
+          payload?: Json
+          session_id?: string
+          status?: Database["public"]["Enums"]["research_job_status"]
+          step?: Database["public"]["Enums"]["research_job_step"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_jobs_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "research_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_logs: {
+        Row: {
+          created_at: string
+          id: number
+          message: string
+          session_id: string
+          type: Database["public"]["Enums"]["research_log_type"]
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          message: string
+          session_id: string
+          type?: Database["public"]["Enums"]["research_log_type"]
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          message?: string
+          session_id?: string
+          type?: Database["public"]["Enums"]["research_log_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_logs_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "research_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_pipeline_steps: {
+        Row: {
+          error: string | null
+          finished_at: string | null
+          id: string
+          input: Json
+          iteration: number
+          output: Json | null
+          session_id: string
+          started_at: string
+          status: Database["public"]["Enums"]["research_step_status"]
+          step: Database["public"]["Enums"]["research_step_name"]
+        }
+        Insert: {
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          input?: Json
+          iteration?: number
+          output?: Json | null
+          session_id: string
+          started_at?: string
+          status?: Database["public"]["Enums"]["research_step_status"]
+          step: Database["public"]["Enums"]["research_step_name"]
+        }
+        Update: {
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          input?: Json
+          iteration?: number
+          output?: Json | null
+          session_id?: string
+          started_at?: string
+          status?: Database["public"]["Enums"]["research_step_status"]
+          step?: Database["public"]["Enums"]["research_step_name"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_pipeline_steps_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "research_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_monitor_runs: {
+        Row: {
+          changes: Json | null
+          completed_at: string | null
+          created_at: string
+          id: string
+          monitor_id: string
+          previous_session_id: string | null
+          session_id: string
+        }
+        Insert: {
+          changes?: Json | null
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          monitor_id: string
+          previous_session_id?: string | null
+          session_id: string
+        }
+        Update: {
+          changes?: Json | null
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          monitor_id?: string
+          previous_session_id?: string | null
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_monitor_runs_monitor_id_fkey"
+            columns: ["monitor_id"]
+            isOneToOne: false
+            referencedRelation: "research_monitors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "research_monitor_runs_previous_session_id_fkey"
+            columns: ["previous_session_id"]
+            isOneToOne: false
+            referencedRelation: "research_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "research_monitor_runs_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "research_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_monitors: {
+        Row: {
+          competitor_id: string | null
+          created_at: string
+          enabled: boolean
+          id: string
+          interval_days: number
+          last_run_at: string | null
+          max_iterations: number
+          name: string
+          next_run_at: string
+          plan: Json
+          profile_id: string | null
+          question: string
+          search_providers: string[]
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          competitor_id?: string | null
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          interval_days?: number
+          last_run_at?: string | null
+          max_iterations?: number
+          name: string
+          next_run_at?: string
+          plan: Json
+          profile_id?: string | null
+          question: string
+          search_providers?: string[]
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          competitor_id?: string | null
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          interval_days?: number
+          last_run_at?: string | null
+          max_iterations?: number
+          name?: string
+          next_run_at?: string
+          plan?: Json
+          profile_id?: string | null
+          question?: string
+          search_providers?: string[]
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_monitors_competitor_id_fkey"
+            columns: ["competitor_id"]
+            isOneToOne: false
+            referencedRelation: "competitors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "research_monitors_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "research_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_plans: {
+        Row: {
+          context: string | null
+          created_at: string
+          id: string
+          information_goals: Json
+          intent: string
+          locked_information_goals: Json
+          locked_search_focus: Json
+          original_question: string
+          search_focus: Json
+          session_id: string
+          target_kinds: Json
+        }
+        Insert: {
+          context?: string | null
+          created_at?: string
+          id?: string
+          information_goals?: Json
+          intent: string
+          locked_information_goals?: Json
+          locked_search_focus?: Json
+          original_question: string
+          search_focus?: Json
+          session_id: string
+          target_kinds?: Json
+        }
+        Update: {
+          context?: string | null
+          created_at?: string
+          id?: string
+          information_goals?: Json
+          intent?: string
+          locked_information_goals?: Json
+          locked_search_focus?: Json
+          original_question?: string
+          search_focus?: Json
+          session_id?: string
+          target_kinds?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_plans_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: true
+            referencedRelation: "research_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_profiles: {
+        Row: {
+          country: string | null
+          created_at: string
+          date_window_months: number
+          fallback_sources: string[]
+          id: string
+          language: string | null
+          name: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          country?: string | null
+          created_at?: string
+          date_window_months?: number
+          fallback_sources?: string[]
+          id?: string
+          language?: string | null
+          name: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          country?: string | null
+          created_at?: string
+          date_window_months?: number
+          fallback_sources?: string[]
+          id?: string
+          language?: string | null
+          name?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      research_sessions: {
+        Row: {
+          analysis_text: string | null
+          competitor_id: string | null
+          created_at: string
+          current_iteration: number
+          id: string
+          pinned: boolean
+          profile_id: string | null
+          question: string
+          search_providers: string[]
+          status: Database["public"]["Enums"]["research_session_status"]
+          title: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          analysis_text?: string | null
+          competitor_id?: string | null
+          created_at?: string
+          current_iteration?: number
+          id?: string
+          pinned?: boolean
+          profile_id?: string | null
+          question: string
+          search_providers?: string[]
+          status?: Database["public"]["Enums"]["research_session_status"]
+          title?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          analysis_text?: string | null
+          competitor_id?: string | null
+          created_at?: string
+          current_iteration?: number
+          id?: string
+          pinned?: boolean
+          profile_id?: string | null
+          question?: string
+          search_providers?: string[]
+          status?: Database["public"]["Enums"]["research_session_status"]
+          title?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_sessions_competitor_id_fkey"
+            columns: ["competitor_id"]
+            isOneToOne: false
+            referencedRelation: "competitors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "research_sessions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "research_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_sources: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          iteration_number: number | null
+          metadata: Json
+          search_query: string | null
+          session_id: string
+          url: string
+        }
+        Insert: {
+          content?: string
+          created_at?: string
+          id?: string
+          iteration_number?: number | null
+          metadata?: Json
+          search_query?: string | null
+          session_id: string
+          url: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          iteration_number?: number | null
+          metadata?: Json
+          search_query?: string | null
+          session_id?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_sources_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "research_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_usage: {
+        Row: {
+          cost_usd: number
+          created_at: string
+          id: string
+          input_tokens: number
+          iteration: number | null
+          kind: string
+          model: string | null
+          output_tokens: number
+          provider: string
+          session_id: string | null
+          source: string
+          step: string | null
+          units: number
+          user_id: string | null
+        }
+        Insert: {
+          cost_usd?: number
+          created_at?: string
+          id?: string
+          input_tokens?: number
+          iteration?: number | null
+          kind: string
+          model?: string | null
+          output_tokens?: number
+          provider: string
+          session_id?: string | null
+          source: string
+          step?: string | null
+          units?: number
+          user_id?: string | null
+        }
+        Update: {
+          cost_usd?: number
+          created_at?: string
+          id?: string
+          input_tokens?: number
+          iteration?: number | null
+          kind?: string
+          model?: string | null
+          output_tokens?: number
+          provider?: string
+          session_id?: string | null
+          source?: string
+          step?: string | null
+          units?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_usage_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "research_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scrape_cache: {
+        Row: {
+          content: string | null
+          content_hash: string | null
+          created_at: string
+          error: string | null
+          etag: string | null
+          expires_at: string
+          fetched_at: string
+          last_modified: string | null
+          metadata: Json
+          scraper: string
+          status: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          content?: string | null
+          content_hash?: string | null
+          created_at?: string
+          error?: string | null
+          etag?: string | null
+          expires_at: string
+          fetched_at?: string
+          last_modified?: string | null
+          metadata?: Json
+          scraper: string
+          status: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          content?: string | null
+          content_hash?: string | null
+          created_at?: string
+          error?: string | null
+          etag?: string | null
+          expires_at?: string
+          fetched_at?: string
+          last_modified?: string | null
+          metadata?: Json
+          scraper?: string
+          status?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      research_usage_monthly: {
+        Row: {
+          cost_usd: number | null
+          input_tokens: number | null
+          kind: string | null
+          model: string | null
+          month: string | null
+          output_tokens: number | null
+          provider: string | null
+          units: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      can_access_competitor: {
+        Args: { target_competitor_id: string }
+        Returns: boolean
+      }
+      can_access_research_monitor: {
+        Args: { target_monitor_id: string }
+        Returns: boolean
+      }
+      can_access_research_session: {
+        Args: { target_session_id: string }
+        Returns: boolean
+      }
+      record_competitor_facts: {
+        Args: { target_competitor_id: string; target_session_id: string; facts: Json }
+        Returns: undefined
+      }
+      save_research_contradictions: {
+        Args: { target_session_id: string; contradictions: Json }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      research_job_status:
+        | "queued"
+        | "running"
+        | "completed"
+        | "failed"
+        | "cancelled"
+      research_job_step:
+        | "plan"
+        | "search"
+        | "scrape"
+        | "clean"
+        | "verify"
+        | "refine"
+      research_log_type: "info" | "warning" | "error" | "success"
+      research_session_status:
+        | "draft"
+        | "planned"
+        | "researching"
+        | "completed"
+        | "failed"
+        | "cancelled"
+      research_step_name:
+        | "planning"
+        | "searching"
+        | "scraping"
+        | "cleaning"
+        | "verifying"
+        | "refining"
+      research_step_status: "running" | "succeeded" | "failed" | "cancelled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -133,6 +1048,33 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      research_job_status: [
+        "queued",
+        "running",
+        "completed",
+        "failed",
+        "cancelled",
+      ],
+      research_job_step: ["plan", "search", "scrape", "clean", "verify", "refine"],
+      research_log_type: ["info", "warning", "error", "success"],
+      research_session_status: [
+        "draft",
+        "planned",
+        "researching",
+        "completed",
+        "failed",
+        "cancelled",
+      ],
+      research_step_name: [
+        "planning",
+        "searching",
+        "scraping",
+        "cleaning",
+        "verifying",
+        "refining",
+      ],
+      research_step_status: ["running", "succeeded", "failed", "cancelled"],
+    },
   },
 } as const
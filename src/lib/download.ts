@@ -0,0 +1,28 @@
+// Save generated text as a file through a temporary link
+export function downloadFile(fileName: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Open the browser's print dialog for a standalone HTML document, where it can be saved as PDF
+export function printHtml(html: string) {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.srcdoc = html;
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // Printing blocks until the dialog closes in most browsers, but not all, so clean up later
+    setTimeout(() => frame.remove(), 60000);
+  };
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,244 @@
+import React, { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { useToast } from "@/hooks/use-toast";
+import CompetitorDialog from "@/components/research/CompetitorDialog";
+import { CompetitorService, COMPETITORS_QUERY_KEY, StoredCompetitorFact } from "@/services/competitorService";
+import { Competitor } from "@shared/competitors";
+import { ArrowLeft, History, Loader2, Pencil, Search } from "lucide-react";
+
+function groupByCategory(facts: StoredCompetitorFact[]): [string, StoredCompetitorFact[]][] {
+  const groups = new Map<string, StoredCompetitorFact[]>();
+  for (const fact of facts) {
+    groups.set(fact.category, [...(groups.get(fact.category) ?? []), fact]);
+  }
+  return [...groups.entries()];
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+const CompetitorProfilePage = () => {
+  const { competitorId } = useParams<{ competitorId: string }>();
+  const [editing, setEditing] = useState<Competitor | null>(null);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const profileKey = [...COMPETITORS_QUERY_KEY, competitorId];
+  const { data: competitor, isLoading } = useQuery({
+    queryKey: profileKey,
+    queryFn: () => CompetitorService.getCompetitor(competitorId as string),
+    enabled: !!competitorId,
+  });
+  const { data: facts = [] } = useQuery({
+    queryKey: [...profileKey, "facts"],
+    queryFn: () => CompetitorService.listFacts(competitorId as string),
+    enabled: !!competitorId,
+  });
+  const { data: sessions = [] } = useQuery({
+    queryKey: [...profileKey, "sessions"],
+    queryFn: () => CompetitorService.listSessions(competitorId as string),
+    enabled: !!competitorId,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (next: Competitor) => CompetitorService.saveCompetitor(next),
+    onSuccess: () => {
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: COMPETITORS_QUERY_KEY });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save the competitor.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => CompetitorService.deleteCompetitor(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: COMPETITORS_QUERY_KEY });
+      navigate("/competitors", { replace: true });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete the competitor.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+        Loading competitor...
+      </div>
+    );
+  }
+
+  if (!competitor) {
+    return (
+      <div className="container mx-auto py-8 max-w-4xl text-center text-gray-500">
+        <p className="mb-4">This competitor no longer exists.</p>
+        <Link to="/competitors" className="text-blue-500 hover:text-blue-700 underline">Back to competitors</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 max-w-4xl space-y-6">
+      <Button variant="ghost" size="sm" asChild>
+        <Link to="/competitors">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Competitors
+        </Link>
+      </Button>
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{competitor.name}</h1>
+          {competitor.domains.length > 0 && (
+            <p className="text-muted-foreground">{competitor.domains.join(", ")}</p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setEditing(competitor)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+          <Button asChild>
+            <Link to={`/?competitor=${competitor.id}`}>
+              <Search className="h-4 w-4 mr-2" />
+              Research
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {(competitor.products.length > 0 || competitor.eventPages.length > 0 || competitor.notes) && (
+        <Card>
+          <CardContent className="pt-6 space-y-3">
+            {competitor.products.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="text-sm font-medium mr-2">Products</span>
+                {competitor.products.map(product => (
+                  <Badge key={product} variant="secondary">{product}</Badge>
+                ))}
+              </div>
+            )}
+            {competitor.eventPages.length > 0 && (
+              <div className="text-sm">
+                <span className="font-medium mr-2">Event pages</span>
+                {competitor.eventPages.map(page => (
+                  <a key={page} href={page} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 mr-3">
+                    {page}
+                  </a>
+                ))}
+              </div>
+            )}
+            {competitor.notes && <p className="text-sm whitespace-pre-line">{competitor.notes}</p>}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Verified Facts</CardTitle>
+          <CardDescription>{facts.length} facts collected from {sessions.length} research sessions</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {facts.length === 0 ? (
+            <p className="text-sm text-gray-500">No verified facts yet. Facts are filed here after research mentioning this competitor.</p>
+          ) : (
+            <Accordion type="multiple" className="w-full">
+              {groupByCategory(facts).map(([category, categoryFacts]) => (
+                <AccordionItem key={category} value={category}>
+                  <AccordionTrigger className="text-left font-medium">
+                    {category} ({categoryFacts.length})
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <ul className="space-y-3">
+                      {categoryFacts.map(fact => (
+                        <li key={fact.factKey} className="border-l-2 border-gray-200 pl-4 py-1">
+                          <p className="text-sm">
+                            {fact.fact}
+                            {fact.confidence && (
+                              <Badge variant="outline" className="ml-2 text-xs">
+                                {Math.round(fact.confidence.score * 100)}% confidence
+                              </Badge>
+                            )}
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            First seen {formatDate(fact.firstSeenAt)}
+                            {fact.lastSeenAt !== fact.firstSeenAt && `, last seen ${formatDate(fact.lastSeenAt)}`}
+                            {" · "}
+                            <a href={fact.source} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+                              Source
+                            </a>
+                            {fact.sessionId && (
+                              <>
+                                {" · "}
+                                <Link to={`/session/${fact.sessionId}`} className="text-blue-600 hover:text-blue-800">
+                                  Research
+                                </Link>
+                              </>
+                            )}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <History className="h-5 w-5 mr-2" />
+            Research History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {sessions.length === 0 ? (
+            <p className="text-sm text-gray-500">No research has mentioned this competitor yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {sessions.map(session => (
+                <li key={session.sessionId} className="flex items-center justify-between gap-4 text-sm">
+                  <Link to={`/session/${session.sessionId}`} className="text-blue-600 hover:text-blue-800 truncate">
+                    {session.title || session.question}
+                  </Link>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {session.factCount} facts · {formatDate(session.recordedAt)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <CompetitorDialog
+        competitor={editing}
+        saving={saveMutation.isPending || deleteMutation.isPending}
+        onSave={(next) => saveMutation.mutate(next)}
+        onDelete={(id) => deleteMutation.mutate(id)}
+        onClose={() => setEditing(null)}
+      />
+    </div>
+  );
+};
+
+export default CompetitorProfilePage;
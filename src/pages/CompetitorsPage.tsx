@@ -0,0 +1,100 @@
+import React, { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import CompetitorDialog from "@/components/research/CompetitorDialog";
+import { CompetitorService, COMPETITORS_QUERY_KEY } from "@/services/competitorService";
+import { Competitor, EMPTY_COMPETITOR } from "@shared/competitors";
+import { ArrowLeft, Building2, Loader2, Plus } from "lucide-react";
+
+const CompetitorsPage = () => {
+  const [editing, setEditing] = useState<Competitor | null>(null);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: competitors = [], isLoading } = useQuery({
+    queryKey: COMPETITORS_QUERY_KEY,
+    queryFn: () => CompetitorService.listCompetitors(),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (competitor: Competitor) => CompetitorService.saveCompetitor(competitor),
+    onSuccess: (competitor) => {
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: COMPETITORS_QUERY_KEY });
+      navigate(`/competitors/${competitor.id}`);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save the competitor.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="container mx-auto py-8 max-w-4xl">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link to="/">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Research
+        </Link>
+      </Button>
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-bold">Competitors</h1>
+        <Button onClick={() => setEditing(EMPTY_COMPETITOR)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Competitor
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center text-muted-foreground">
+          <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+          Loading competitors...
+        </div>
+      ) : competitors.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p>No competitors yet. Add one to collect what every research finds about it.</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {competitors.map(competitor => (
+            <Link key={competitor.id} to={`/competitors/${competitor.id}`}>
+              <Card className="h-full hover:border-primary transition-colors">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-md flex items-center">
+                    <Building2 className="h-5 w-5 mr-2" />
+                    {competitor.name}
+                  </CardTitle>
+                  {competitor.domains.length > 0 && (
+                    <CardDescription>{competitor.domains.join(", ")}</CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="flex flex-wrap gap-1">
+                  {competitor.products.map(product => (
+                    <Badge key={product} variant="secondary">{product}</Badge>
+                  ))}
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <CompetitorDialog
+        competitor={editing}
+        saving={saveMutation.isPending}
+        onSave={(competitor) => saveMutation.mutate(competitor)}
+        onClose={() => setEditing(null)}
+      />
+    </div>
+  );
+};
+
+export default CompetitorsPage;
@@ -0,0 +1,197 @@
+import React from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { useToast } from "@/hooks/use-toast";
+import MonitorChangesReport from "@/components/research/MonitorChangesReport";
+import { MonitorService, MONITORS_QUERY_KEY, ResearchMonitor } from "@/services/monitorService";
+import { countChanges } from "@shared/monitoring";
+import { ArrowLeft, Loader2, Play, Radar, Trash2 } from "lucide-react";
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+const describeSchedule = (intervalDays: number) =>
+  intervalDays === 1 ? "Daily" : intervalDays === 7 ? "Weekly" : `Every ${intervalDays} days`;
+
+const MonitorRuns = ({ monitorId }: { monitorId: string }) => {
+  const { data: runs = [], isLoading } = useQuery({
+    queryKey: [...MONITORS_QUERY_KEY, monitorId, "runs"],
+    queryFn: () => MonitorService.listRuns(monitorId),
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading runs...</p>;
+  }
+  if (runs.length === 0) {
+    return <p className="text-sm text-gray-500">No runs yet.</p>;
+  }
+
+  return (
+    <Accordion type="single" collapsible defaultValue={runs.find(run => run.changes)?.id} className="w-full">
+      {runs.map(run => (
+        <AccordionItem key={run.id} value={run.id}>
+          <AccordionTrigger className="text-left text-sm">
+            <span className="flex items-center gap-2">
+              {formatDateTime(run.createdAt)}
+              {run.changes ? (
+                <Badge variant={countChanges(run.changes) > 0 ? "default" : "outline"}>
+                  {run.changes.baseline ? "Baseline" : `${countChanges(run.changes)} changes`}
+                </Badge>
+              ) : (
+                <Badge variant="outline">{run.sessionStatus ?? "pending"}</Badge>
+              )}
+            </span>
+          </AccordionTrigger>
+          <AccordionContent className="space-y-3">
+            {run.changes ? (
+              <MonitorChangesReport changes={run.changes} />
+            ) : (
+              <p className="text-sm text-muted-foreground">The report is ready once this run's research completes.</p>
+            )}
+            <Link to={`/session/${run.sessionId}`} className="text-sm text-blue-600 hover:text-blue-800">
+              Open research session
+            </Link>
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+};
+
+const MonitorsPage = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: monitors = [], isLoading } = useQuery({
+    queryKey: MONITORS_QUERY_KEY,
+    queryFn: () => MonitorService.listMonitors(),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (monitor: ResearchMonitor) => MonitorService.updateMonitor(monitor.id, { enabled: !monitor.enabled }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: MONITORS_QUERY_KEY }),
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update the monitor.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: (monitorId: string) => MonitorService.runNow(monitorId),
+    onSuccess: (sessionId) => {
+      queryClient.invalidateQueries({ queryKey: MONITORS_QUERY_KEY });
+      navigate(`/session/${sessionId}`);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to start the monitor run.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (monitorId: string) => MonitorService.deleteMonitor(monitorId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: MONITORS_QUERY_KEY }),
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete the monitor.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="container mx-auto py-8 max-w-4xl">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link to="/">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Research
+        </Link>
+      </Button>
+      <h1 className="text-3xl font-bold mb-8">Monitors</h1>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center text-muted-foreground">
+          <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+          Loading monitors...
+        </div>
+      ) : monitors.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p>No monitors yet. Save a research plan as a monitor to rerun it on a schedule and see what changed.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {monitors.map(monitor => (
+            <Card key={monitor.id}>
+              <CardHeader className="pb-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-md flex items-center">
+                      <Radar className="h-5 w-5 mr-2" />
+                      {monitor.name}
+                    </CardTitle>
+                    <CardDescription className="mt-1">{monitor.question}</CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      id={`monitor-enabled-${monitor.id}`}
+                      checked={monitor.enabled}
+                      onCheckedChange={() => toggleMutation.mutate(monitor)}
+                      disabled={toggleMutation.isPending}
+                    />
+                    <Label htmlFor={`monitor-enabled-${monitor.id}`} className="text-sm text-muted-foreground">
+                      {monitor.enabled ? "Enabled" : "Paused"}
+                    </Label>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-xs text-muted-foreground">
+                    {describeSchedule(monitor.intervalDays)}
+                    {monitor.enabled && ` · next run ${formatDateTime(monitor.nextRunAt)}`}
+                    {monitor.lastRunAt && ` · last run ${formatDateTime(monitor.lastRunAt)}`}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runMutation.mutate(monitor.id)}
+                      disabled={runMutation.isPending}
+                    >
+                      <Play className="h-4 w-4 mr-2" />
+                      Run Now
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(monitor.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <MonitorRuns monitorId={monitor.id} />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MonitorsPage;
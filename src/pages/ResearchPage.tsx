@@ -1,82 +1,420 @@
 
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useCallback } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { createPlannerResponse } from "@/services/planner";
+import { createPlannerResponse, PlannerResponse, regeneratePlannerResponse } from "@/services/planner";
 import ResearchPlan from "@/components/ResearchPlan";
 import ApiKeyManager from "@/components/ApiKeyManager";
 import { WebScraperService, ScrapingResult } from "@/services/webScraperService";
-import { CleanerAgentService } from "@/services/cleanerAgentService";
-import { FirecrawlService } from "@/utils/FirecrawlService";
+import { CleanerAgentService, CleanerResponse } from "@/services/cleanerAgentService";
+import { ClaimVerificationService } from "@/services/claimVerificationService";
+import { ContradictionService } from "@/services/contradictionService";
+import { CompetitorService, COMPETITORS_QUERY_KEY } from "@/services/competitorService";
+import { MonitorService, MONITORS_QUERY_KEY } from "@/services/monitorService";
+import {
+  ResearchSessionService,
+  ResearchSessionSnapshot,
+  ResearchSessionStatus,
+  ResearchIteration,
+  LogEntry,
+  RESEARCH_SESSIONS_QUERY_KEY,
+} from "@/services/researchSessionService";
+import { ResearchJobService, ResearchJob } from "@/services/researchJobService";
+import { SearchProviderService } from "@/services/searchProviderService";
+import { ResearchProfileService, RESEARCH_PROFILES_QUERY_KEY } from "@/services/researchProfileService";
+import { UsageService, USAGE_QUERY_KEY } from "@/services/usageService";
+import {
+  Pipeline,
+  PipelineStep,
+  PipelineStepRecord,
+  ResolvedTarget,
+  cancelPipeline,
+  completeStep,
+  createPipeline,
+  describeState,
+  failStep,
+  finishPipeline,
+  getProgress,
+  isBusy,
+  lastFailedStep,
+  restorePipeline,
+  runningStep,
+  startStep,
+} from "@shared/pipeline";
+import { SearchProviderId } from "@shared/searchProviders";
+import { DEFAULT_RESEARCH_PROFILE } from "@shared/researchProfiles";
+import { Contradiction, ContradictionClaim, RefineResearchResponseSchema, parseContract } from "@shared/contracts";
+import { countCoverage } from "@shared/cleaning";
+import { countVerification } from "@shared/verification";
+import { mergeResolutions } from "@shared/contradictions";
+import { scoreInsights } from "@shared/sourceQuality";
+import { abortable, isAbortError } from "@shared/abort";
+import { UsageScope, summarizeUsage } from "@shared/usage";
 import { supabase } from "@/integrations/supabase/client";
 import ResearchForm from "@/components/research/ResearchForm";
 import ResearchProgress from "@/components/research/ResearchProgress";
 import ResearchResults from "@/components/research/ResearchResults";
 import ResearchIterations from "@/components/research/ResearchIterations";
+import ResearchHistorySidebar from "@/components/research/ResearchHistorySidebar";
+import SearchProviderPicker from "@/components/research/SearchProviderPicker";
+import ResearchProfilePicker from "@/components/research/ResearchProfilePicker";
+import CompetitorPicker from "@/components/research/CompetitorPicker";
+import MonitorDialog from "@/components/research/MonitorDialog";
 import { Button } from "@/components/ui/button";
-import { Loader2, Search, RefreshCw, XCircle } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { Loader2, Radar, Search, RefreshCw, RotateCcw, XCircle } from "lucide-react";
 
-interface LogEntry {
-  message: string;
-  timestamp: Date;
-  type: 'info' | 'warning' | 'error' | 'success';
-}
-
-interface PlannerResponse {
-  intent: string;
-  searchFocus: string[];
-  informationGoals: string[];
-  originalQuestion: string;
-  context?: string;
-}
-
-interface ResearchIteration {
-  targets: string[];
-  results: ScrapingResult[];
-  analysis?: string;
-  extractionFocus?: string;
-}
+const MAX_RESEARCH_ITERATIONS = 2;
+const USAGE_REFRESH_INTERVAL_MS = 5000;
 
-interface CleanerResponse {
-  structuredInsights: Record<string, Array<{fact: string, source: string}>>;
-  relevantFindings: string[];
-  suggestedNextSteps?: string[];
-  analysis: string;
+// What a browser-run step records as its output, and which step should follow it
+interface StepResult {
+  output: Record<string, unknown>;
+  next: { step: PipelineStep; input: Record<string, unknown> } | null;
 }
 
-const MAX_RESEARCH_ITERATIONS = 2;
+// Where a stored session's pipeline rests when nothing is running for it
+const settledPipelineState = (status: ResearchSessionStatus): 'idle' | 'done' | 'cancelled' => {
+  if (status === 'completed') return 'done';
+  if (status === 'cancelled') return 'cancelled';
+  return 'idle';
+};
 
 const ResearchPage = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [question, setQuestion] = useState("");
-  const [loading, setLoading] = useState(false);
-  const [isResearching, setIsResearching] = useState(false);
-  const [researchProgress, setResearchProgress] = useState(0);
+  const [pipeline, setPipeline] = useState<Pipeline>(createPipeline());
   const [plannerResponse, setPlannerResponse] = useState<PlannerResponse | null>(null);
   const [researchResults, setResearchResults] = useState<ScrapingResult[]>([]);
   const [iterations, setIterations] = useState<ResearchIteration[]>([]);
   const [currentIteration, setCurrentIteration] = useState(0);
-  const [isReasoning, setIsReasoning] = useState(false);
-  const [isCleaning, setIsCleaning] = useState(false);
   const [analysisText, setAnalysisText] = useState<string | null>(null);
   const [structuredInsights, setStructuredInsights] = useState<CleanerResponse | null>(null);
+  const [contradictions, setContradictions] = useState<Contradiction[]>([]);
   const [timeoutMessage, setTimeoutMessage] = useState<string | null>(null);
   const [researchLogs, setResearchLogs] = useState<LogEntry[]>([]);
-  const [currentStep, setCurrentStep] = useState<string>("Initializing research...");
   const [timeElapsed, setTimeElapsed] = useState<number>(0);
-  
+  const [isLoadingSession, setIsLoadingSession] = useState(false);
+  const [runOnServer, setRunOnServer] = useState(true);
+  const [searchProviders, setSearchProviders] = useState<SearchProviderId[]>(() => SearchProviderService.getDefaultProviders());
+  const [profileId, setProfileId] = useState<string | null>(() => ResearchProfileService.getDefaultProfileId());
+  const [activeJob, setActiveJob] = useState<ResearchJob | null>(null);
+  // Opened from a competitor profile as /?competitor=<id>
+  const [competitorId, setCompetitorId] = useState<string | null>(() => searchParams.get("competitor"));
+  const [monitorDialogOpen, setMonitorDialogOpen] = useState(false);
+
   const { toast } = useToast();
-  
+  const queryClient = useQueryClient();
+
+  const { data: profiles = [] } = useQuery({
+    queryKey: RESEARCH_PROFILES_QUERY_KEY,
+    queryFn: () => ResearchProfileService.listProfiles(),
+  });
+  // A profile deleted since it was picked falls back to the defaults
+  const researchProfile = profiles.find(profile => profile.id === profileId) ?? DEFAULT_RESEARCH_PROFILE;
+
+  const { data: competitors = [] } = useQuery({
+    queryKey: COMPETITORS_QUERY_KEY,
+    queryFn: () => CompetitorService.listCompetitors(),
+  });
+  const competitor = competitors.find(candidate => candidate.id === competitorId) ?? null;
+
+  // Monitors rerun the current plan with the current settings on the server
+  const monitorMutation = useMutation({
+    mutationFn: (monitor: { name: string; intervalDays: number }) => MonitorService.createMonitor({
+      ...monitor,
+      maxIterations: MAX_RESEARCH_ITERATIONS,
+      plan: plannerResponse as PlannerResponse,
+      searchProviders,
+      profileId: researchProfile.id ?? null,
+      competitorId: competitor?.id ?? null,
+    }),
+    onSuccess: (monitor) => {
+      setMonitorDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: MONITORS_QUERY_KEY });
+      toast({
+        title: "Monitor Saved",
+        description: `"${monitor.name}" will be researched again ${monitor.intervalDays === 1 ? "every day" : `every ${monitor.intervalDays} days`}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save the monitor.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const startTimeRef = useRef<number | null>(null);
   const timerIntervalRef = useRef<number | null>(null);
-  
+  const sessionIdRef = useRef<string | null>(null);
+  // Aborts the research running in this browser; it belongs to the open session only
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Steps run across several awaits, so they read and write these instead of stale state
+  const pipelineRef = useRef<Pipeline>(pipeline);
+  const resultsRef = useRef<ScrapingResult[]>([]);
+  const insightsRef = useRef<CleanerResponse | null>(null);
+
+  // Everything the page shows about a running research follows from the pipeline state
+  const loading = pipeline.state === 'planning';
+  const isResearching = isBusy(pipeline.state) && !loading;
+  const isReasoning = pipeline.state === 'cleaning' || pipeline.state === 'refining';
+  const researchProgress = getProgress(pipeline, activeJob?.max_iterations ?? MAX_RESEARCH_ITERATIONS);
+  const currentStep = activeJob
+    ? ResearchJobService.describeStep(activeJob)
+    : `Iteration ${pipeline.iteration}/${MAX_RESEARCH_ITERATIONS}: ${describeState(pipeline.state)}`;
+  const failedStep = isResearching ? undefined : lastFailedStep(pipeline);
+  // The plan can be edited until research starts using it
+  const canEditPlan = iterations.length === 0 && !isResearching && !loading;
+
+  // What the session has cost so far, polled while anything runs for it
+  const pipelineBusy = isBusy(pipeline.state);
+  const { data: usageRecords } = useQuery({
+    queryKey: [...USAGE_QUERY_KEY, sessionId],
+    queryFn: () => UsageService.getSessionUsage(sessionId as string),
+    enabled: !!sessionId,
+    refetchInterval: pipelineBusy ? USAGE_REFRESH_INTERVAL_MS : false,
+  });
+  const sessionUsage = usageRecords ? summarizeUsage(usageRecords) : null;
+
+  const updatePipeline = useCallback((next: Pipeline) => {
+    pipelineRef.current = next;
+    setPipeline(next);
+  }, []);
+
+  const updateResults = useCallback((next: ScrapingResult[]) => {
+    resultsRef.current = next;
+    setResearchResults(next);
+  }, []);
+
+  const updateInsights = useCallback((next: CleanerResponse | null) => {
+    insightsRef.current = next;
+    setStructuredInsights(next);
+  }, []);
+
+  // Persist in the background; a storage failure should never stop the research itself
+  const persist = (operation: (sessionId: string) => Promise<void>) => {
+    const currentSessionId = sessionIdRef.current;
+    if (!currentSessionId) return;
+    operation(currentSessionId).catch(error => {
+      console.error("Failed to persist research session:", error);
+    });
+  };
+
+  const persistStep = (stepId: string) => {
+    const record = pipelineRef.current.steps.find(step => step.id === stepId);
+    if (record) {
+      persist(id => ResearchSessionService.saveStep(id, record));
+    }
+  };
+
+  const refreshHistory = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: RESEARCH_SESSIONS_QUERY_KEY });
+  }, [queryClient]);
+
   // Add a log entry
   const addLog = (message: string, type: LogEntry['type'] = 'info') => {
-    setResearchLogs(prev => [...prev, {
+    const entry = {
       message,
       timestamp: new Date(),
       type
-    }]);
+    };
+    setResearchLogs(prev => [...prev, entry]);
+    persist(id => ResearchSessionService.appendLog(id, entry));
+  };
+
+  // Restore the page state from a stored session, resuming the view of a server job still running
+  const applySnapshot = useCallback((snapshot: ResearchSessionSnapshot, job: ResearchJob | null = null) => {
+    const jobIsRunning = !!job && ResearchJobService.isActive(job);
+    const status = job ? ResearchJobService.sessionStatus(job) : snapshot.status;
+
+    setQuestion(snapshot.question);
+    setPlannerResponse(snapshot.plan);
+    updateResults(snapshot.results);
+    setIterations(snapshot.iterations);
+    setCurrentIteration(snapshot.currentIteration);
+    updateInsights(snapshot.insights);
+    setContradictions(snapshot.contradictions);
+    setAnalysisText(snapshot.analysisText ?? snapshot.insights?.analysis ?? null);
+    setResearchLogs(snapshot.logs);
+    setSearchProviders(snapshot.searchProviders);
+    setProfileId(snapshot.profileId);
+    setCompetitorId(snapshot.competitorId);
+    setActiveJob(jobIsRunning ? job : null);
+    updatePipeline(jobIsRunning
+      ? ResearchJobService.toPipeline(job, snapshot.steps)
+      : restorePipeline(snapshot.steps, settledPipelineState(status), snapshot.currentIteration));
+
+    if (jobIsRunning) {
+      setTimeoutMessage(null);
+    } else if (status === 'cancelled') {
+      setTimeoutMessage("Research canceled by user");
+    } else if (status === 'researching') {
+      setTimeoutMessage("Research was interrupted before it finished");
+    } else {
+      setTimeoutMessage(null);
+    }
+  }, [updatePipeline, updateResults, updateInsights]);
+
+  const resetResearch = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setQuestion("");
+    setPlannerResponse(null);
+    updateResults([]);
+    setIterations([]);
+    setCurrentIteration(0);
+    updateInsights(null);
+    setContradictions([]);
+    setAnalysisText(null);
+    setResearchLogs([]);
+    setTimeoutMessage(null);
+    setTimeElapsed(0);
+    setSearchProviders(SearchProviderService.getDefaultProviders());
+    setProfileId(ResearchProfileService.getDefaultProfileId());
+    setCompetitorId(null);
+    updatePipeline(createPipeline());
+    setActiveJob(null);
+  }, [updatePipeline, updateResults, updateInsights]);
+
+  const changeSearchProviders = (providers: SearchProviderId[]) => {
+    setSearchProviders(providers);
+    SearchProviderService.saveDefaultProviders(providers);
+    persist(id => ResearchSessionService.updateSession(id, { searchProviders: providers }));
   };
-  
+
+  const changeProfile = (nextProfileId: string | null) => {
+    setProfileId(nextProfileId);
+    ResearchProfileService.saveDefaultProfileId(nextProfileId);
+    persist(id => ResearchSessionService.updateSession(id, { profileId: nextProfileId }));
+  };
+
+  const changeCompetitor = (nextCompetitorId: string | null) => {
+    setCompetitorId(nextCompetitorId);
+    persist(id => ResearchSessionService.updateSession(id, { competitorId: nextCompetitorId }));
+  };
+
+  // Reopen a stored session when navigating to /session/:sessionId, or start over on /
+  useEffect(() => {
+    if (!sessionId) {
+      if (sessionIdRef.current) {
+        sessionIdRef.current = null;
+        resetResearch();
+      }
+      return;
+    }
+    if (sessionId === sessionIdRef.current) return;
+
+    let ignore = false;
+    // Research still running for the session we leave must not write into this one
+    abortControllerRef.current?.abort();
+    sessionIdRef.current = sessionId;
+    setIsLoadingSession(true);
+    setTimeElapsed(0);
+
+    Promise.all([
+      ResearchSessionService.loadSession(sessionId),
+      ResearchJobService.getActiveJob(sessionId),
+    ])
+      .then(([snapshot, job]) => {
+        if (ignore) return;
+        if (!snapshot) {
+          sessionIdRef.current = null;
+          toast({
+            title: "Session Not Found",
+            description: "This research session no longer exists.",
+            variant: "destructive",
+          });
+          navigate("/", { replace: true });
+          return;
+        }
+        applySnapshot(snapshot, job);
+
+        // The worker for this job died (e.g. it hit the runtime limit), so ask the server to pick it up
+        if (job && ResearchJobService.isStale(job)) {
+          ResearchJobService.resumeJob(job.id).catch(error => {
+            console.error("Error resuming research job:", error);
+          });
+        }
+      })
+      .catch(error => {
+        if (ignore) return;
+        console.error("Error loading research session:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load research session. Please try again.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (!ignore) setIsLoadingSession(false);
+      });
+
+    return () => {
+      ignore = true;
+    };
+  }, [sessionId, applySnapshot, resetResearch, toast, navigate]);
+
+  // Follow a server-side job: its log lines and step changes arrive over realtime
+  const activeJobId = activeJob?.id;
+  const activeJobSessionId = activeJob?.session_id;
+  useEffect(() => {
+    if (!activeJobId || !activeJobSessionId) return;
+
+    return ResearchJobService.subscribe(activeJobSessionId, {
+      // Heartbeats keep the current job, so only real progress reloads the session below
+      onJobChange: job => {
+        if (job.id !== activeJobId) return;
+        setActiveJob(prev => prev && ResearchJobService.isSameProgress(prev, job) ? prev : job);
+      },
+      onLog: entry => setResearchLogs(prev => [...prev, entry]),
+    });
+  }, [activeJobId, activeJobSessionId]);
+
+  // Each time the server moves to another step, pull in what the previous one stored
+  useEffect(() => {
+    if (!activeJob) return;
+    const job = activeJob;
+
+    updatePipeline(ResearchJobService.toPipeline(job, pipelineRef.current.steps));
+
+    ResearchSessionService.loadSession(job.session_id)
+      .then(snapshot => {
+        if (!snapshot || sessionIdRef.current !== job.session_id) return;
+        applySnapshot(snapshot, job);
+
+        if (ResearchJobService.isActive(job)) return;
+        refreshHistory();
+        if (job.status === 'completed') {
+          toast({
+            title: "Research Complete",
+            description: `Found ${snapshot.results.length} relevant results.`,
+          });
+        } else if (job.status === 'failed') {
+          toast({
+            title: "Research Failed",
+            description: job.last_error || "An error occurred while researching. Please try again.",
+            variant: "destructive",
+          });
+        }
+      })
+      .catch(error => {
+        console.error("Error refreshing research session:", error);
+      });
+  }, [activeJob, applySnapshot, refreshHistory, toast, updatePipeline]);
+
+  // The last step's usage lands after polling stopped, so load it once more when the run settles
+  useEffect(() => {
+    if (!pipelineBusy && sessionId) {
+      queryClient.invalidateQueries({ queryKey: [...USAGE_QUERY_KEY, sessionId] });
+    }
+  }, [pipelineBusy, sessionId, queryClient]);
+
   // Update timer
   useEffect(() => {
     if (isResearching && !timerIntervalRef.current) {
@@ -103,25 +441,474 @@ const ResearchPage = () => {
       if (timerIntervalRef.current) {
         window.clearInterval(timerIntervalRef.current);
       }
+      abortControllerRef.current?.abort();
     };
   }, []);
 
   const cancelResearch = () => {
-    WebScraperService.cancelResearch();
+    if (activeJob) {
+      // The server records the cancellation and its log line; the job update refreshes the page
+      ResearchJobService.cancelJob(activeJob.id).catch(error => {
+        console.error("Error canceling research job:", error);
+        toast({
+          title: "Error",
+          description: "Failed to cancel the research job. Please try again.",
+          variant: "destructive",
+        });
+      });
+      updatePipeline(cancelPipeline(pipelineRef.current));
+    } else {
+      abortControllerRef.current?.abort();
+      const canceledStep = runningStep(pipelineRef.current);
+      updatePipeline(cancelPipeline(pipelineRef.current));
+      if (canceledStep) {
+        persistStep(canceledStep.id);
+      }
+      persist(async id => {
+        await ResearchSessionService.updateSession(id, { status: 'cancelled' });
+        refreshHistory();
+      });
+      addLog("Research canceled by user", 'warning');
+    }
     setTimeoutMessage("Research canceled by user");
-    setIsResearching(false);
-    setIsReasoning(false);
-    setIsCleaning(false);
-    addLog("Research canceled by user", 'warning');
     toast({
       title: "Research Canceled",
       description: "The research operation was canceled.",
     });
   };
 
+  // Run one step in the browser, recording its input and output so it can be retried on its own.
+  // Resolves to null when the step was canceled while it ran.
+  const runPipelineStep = async (
+    step: PipelineStep,
+    iteration: number,
+    input: Record<string, unknown>,
+    run: () => Promise<StepResult>
+  ): Promise<StepResult | null> => {
+    updatePipeline(startStep(pipelineRef.current, step, iteration, input));
+    const stepId = runningStep(pipelineRef.current).id;
+    persistStep(stepId);
+
+    try {
+      const result = await run();
+      if (runningStep(pipelineRef.current)?.id !== stepId) return null;
+      updatePipeline(completeStep(pipelineRef.current, result.output));
+      persistStep(stepId);
+      return result;
+    } catch (error) {
+      if (runningStep(pipelineRef.current)?.id !== stepId) return null;
+      updatePipeline(failStep(pipelineRef.current, error instanceof Error ? error.message : 'Unknown error'));
+      persistStep(stepId);
+      throw error;
+    }
+  };
+
+  // Steps that resume from a stored record may not carry their targets, so fall back to the iteration's
+  const getStepTargets = (plan: PlannerResponse, iteration: number, input: Record<string, unknown>): string[] => {
+    const targets = (input.targets as string[] | undefined)
+      ?? iterations[iteration - 1]?.targets
+      ?? plan.searchFocus;
+    return targets.slice(0, 5);
+  };
+
+  // Books the model calls, searches and scrapes of a step to this session's iteration
+  const getUsageScope = (iteration: number): UsageScope => ({ sessionId: sessionIdRef.current ?? undefined, iteration });
+
+  const searchStep = async (plan: PlannerResponse, iteration: number, input: Record<string, unknown>, signal: AbortSignal): Promise<StepResult> => {
+    const searchTargets = getStepTargets(plan, iteration, input);
+    addLog(`Preparing search for targets: ${searchTargets.join(", ")}`, 'info');
+
+    const resolvedTargets = await WebScraperService.resolveSearchTargets(
+      searchTargets,
+      plan.context,
+      plan.informationGoals,
+      researchProfile,
+      searchProviders,
+      plan.targetKinds,
+      signal,
+      getUsageScope(iteration)
+    );
+    const urlCount = resolvedTargets.reduce((count, resolved) => count + resolved.urls.length, 0);
+    addLog(`Found ${urlCount} URLs to scrape for ${searchTargets.length} targets`, urlCount > 0 ? 'success' : 'warning');
+
+    return {
+      output: { resolvedTargets },
+      next: { step: 'scraping', input: { resolvedTargets } },
+    };
+  };
+
+  const scrapeStep = async (plan: PlannerResponse, iteration: number, input: Record<string, unknown>, signal: AbortSignal): Promise<StepResult> => {
+    const resolvedTargets = (input.resolvedTargets as ResolvedTarget[] | undefined) ?? [];
+    const searchTargets = resolvedTargets.map(resolved => resolved.target);
+
+    addLog(`Scraping all search targets...`, 'info');
+    const newResults = await WebScraperService.scrapeResolvedTargets(resolvedTargets, signal, getUsageScope(iteration));
+
+    if (newResults.length === 0) {
+      addLog("No results found for any search targets", 'warning');
+      toast({
+        title: "No Results Found",
+        description: "No results found for the search targets. Try refining your question.",
+        variant: "destructive",
+      });
+      // Even if we don't have results from this iteration, try refinement
+      return {
+        output: { resultCount: 0 },
+        next: { step: 'refining', input: { targets: searchTargets } },
+      };
+    }
+
+    addLog(`Found ${newResults.length} results across all targets`, 'success');
+    updateResults([...resultsRef.current, ...newResults]);
+    persist(id => ResearchSessionService.saveSources(id, iteration, newResults));
+    setIterations(prev => prev.map((item, index) =>
+      index === iteration - 1 ? { ...item, results: newResults } : item
+    ));
+
+    return {
+      output: { resultCount: newResults.length, urls: newResults.map(result => result.url) },
+      next: { step: 'cleaning', input: { targets: searchTargets } },
+    };
+  };
+
+  const cleanStep = async (plan: PlannerResponse, iteration: number, input: Record<string, unknown>, signal: AbortSignal): Promise<StepResult> => {
+    const results = resultsRef.current;
+    addLog(input.afterRefinement ? "Starting cleaner agent for new results" : "Starting cleaner agent for structured insights", 'info');
+
+    const cleanerResponse = await CleanerAgentService.processResults(
+      results,
+      plan.intent,
+      plan.searchFocus,
+      plan.informationGoals,
+      plan.originalQuestion,
+      plan.context,
+      signal,
+      sessionIdRef.current,
+      iteration
+    );
+    if (!cleanerResponse) {
+      throw new Error("Cleaner agent failed to extract insights");
+    }
+
+    updateInsights(cleanerResponse);
+    setAnalysisText(cleanerResponse.analysis);
+    persist(async id => {
+      await ResearchSessionService.saveInsights(id, cleanerResponse);
+      await ResearchSessionService.updateSession(id, { analysisText: cleanerResponse.analysis });
+    });
+    addLog("Cleaner agent completed successfully", 'success');
+
+    const coverage = countCoverage(cleanerResponse.sourceCoverage);
+    if (coverage.partial > 0 || coverage.skipped > 0) {
+      addLog(`Cleaner read ${coverage.full} sources fully, ${coverage.partial} partially and skipped ${coverage.skipped}`, 'warning');
+    }
+
+    return {
+      output: { sourceCount: results.length, findingCount: cleanerResponse.relevantFindings?.length ?? 0, coverage },
+      next: { step: 'verifying', input },
+    };
+  };
+
+  const verifyStep = async (plan: PlannerResponse, iteration: number, input: Record<string, unknown>, signal: AbortSignal): Promise<StepResult> => {
+    const insights = insightsRef.current;
+    if (!insights) {
+      throw new Error("There are no cleaned insights to verify");
+    }
+    addLog("Verifying facts against their cited sources", 'info');
+
+    const checked = await ClaimVerificationService.verifyInsights(insights, resultsRef.current, getUsageScope(iteration), signal);
+    // Confidence depends on the verdicts, so facts are scored once they are verified
+    const verified = {
+      ...checked,
+      structuredInsights: scoreInsights(checked.structuredInsights, resultsRef.current, { question: plan.originalQuestion, competitor }),
+    };
+    updateInsights(verified);
+    persist(id => ResearchSessionService.saveInsights(id, verified));
+
+    const counts = countVerification(verified.structuredInsights);
+    addLog(
+      `Verified facts: ${counts.supported} supported, ${counts.unsupported} unsupported, ${counts.contradicted} contradicted`,
+      counts.unsupported > 0 || counts.contradicted > 0 ? 'warning' : 'success'
+    );
+
+    persist(async id => {
+      const filed = await CompetitorService.recordSession(id, verified.structuredInsights, competitor?.id ?? null);
+      if (filed > 0) {
+        addLog(`Filed ${filed} verified facts under competitor profiles`, 'success');
+      }
+      queryClient.invalidateQueries({ queryKey: COMPETITORS_QUERY_KEY });
+    });
+
+    // Conflicts between sources are extra insight; the research goes on without them
+    let contradictionCount: number | null = null;
+    try {
+      const detected = await ContradictionService.detect(verified, getUsageScope(iteration), signal);
+      contradictionCount = detected.length;
+      setContradictions(prev => mergeResolutions(prev, detected));
+      persist(id => ResearchSessionService.saveContradictions(id, detected));
+      if (detected.length > 0) {
+        addLog(`Sources disagree on ${detected.length} subjects; pick the authoritative claims in the results`, 'warning');
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      addLog(`Could not check sources for contradictions: ${error instanceof Error ? error.message : 'Unknown error'}`, 'warning');
+    }
+
+    return {
+      output: { ...counts, contradictions: contradictionCount },
+      next: input.afterRefinement
+        ? null
+        : { step: 'refining', input: { targets: getStepTargets(plan, iteration, input) } },
+    };
+  };
+
+  const refineStep = async (plan: PlannerResponse, iteration: number, input: Record<string, unknown>, signal: AbortSignal): Promise<StepResult> => {
+    const searchTargets = getStepTargets(plan, iteration, input);
+    addLog("Starting AI analysis of search results", 'info');
+    addLog("Requesting refinement from AI service", 'info');
+
+    // The session id lets refine-research stop crawling when this session is cancelled
+    const refinementResponse = await abortable(supabase.functions.invoke('refine-research', {
+      body: {
+        searchTargets,
+        currentResults: resultsRef.current,
+        researchGoals: plan.informationGoals,
+        iteration,
+        context: plan.context,
+        searchProviders,
+        profile: researchProfile,
+        competitor: competitor ? CompetitorService.toSeed(competitor) : undefined,
+        sessionId: sessionIdRef.current ?? undefined
+      }
+    }), signal).catch(error => {
+      if (isAbortError(error)) throw error;
+      console.error("Edge function error:", error);
+      addLog(`AI refinement failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+      throw error;
+    });
+
+    const { data: responseData } = refinementResponse as { data: { error?: string } | null };
+
+    if (!responseData || responseData.error) {
+      const message = responseData?.error ?? "Edge function returned no data";
+      console.error("Research refinement failed:", message);
+      addLog(`AI refinement error: ${message}`, 'error');
+      throw new Error(message);
+    }
+
+    const refinementData = parseContract(RefineResearchResponseSchema, responseData, 'refinement response');
+
+    addLog("AI refinement completed successfully", 'success');
+
+    // Add the new iteration with improved targets
+    const hasNewIteration = refinementData.improvedTargets && refinementData.improvedTargets.length > 0;
+    if (hasNewIteration) {
+      const newTargets = refinementData.improvedTargets.slice(0, 5);
+      const newIteration = {
+        targets: newTargets,
+        results: refinementData.newResults || [],
+        analysis: refinementData.analysis,
+        extractionFocus: refinementData.extractionFocus
+      };
+
+      setIterations(prev => [...prev, newIteration]);
+      persist(id => ResearchSessionService.saveIteration(id, iteration + 1, newIteration));
+      addLog(`Created new iteration with ${newTargets.length} improved search targets`, 'success');
+    }
+
+    // Add any new results from refinement
+    const newResults: ScrapingResult[] = refinementData.newResults || [];
+    if (newResults.length > 0) {
+      updateResults([...resultsRef.current, ...newResults]);
+      persist(id => ResearchSessionService.saveSources(
+        id,
+        hasNewIteration ? iteration + 1 : iteration,
+        newResults
+      ));
+      addLog(`Added ${newResults.length} additional results from AI refinement`, 'success');
+    }
+
+    // Use the refinement's analysis until the cleaner has produced one
+    const hasCleanedResults = pipelineRef.current.steps.some(record => record.step === 'cleaning' && record.status === 'succeeded');
+    if (refinementData.analysis && !hasCleanedResults) {
+      setAnalysisText(refinementData.analysis);
+      persist(id => ResearchSessionService.updateSession(id, { analysisText: refinementData.analysis }));
+    }
+
+    return {
+      output: {
+        improvedTargets: refinementData.improvedTargets || [],
+        newResultCount: newResults.length,
+      },
+      // Newly crawled results still need cleaning before the run is done
+      next: newResults.length > 0
+        ? { step: 'cleaning', input: { targets: searchTargets, afterRefinement: true } }
+        : null,
+    };
+  };
+
+  const runBrowserStep = (
+    plan: PlannerResponse,
+    iteration: number,
+    step: PipelineStep,
+    input: Record<string, unknown>,
+    signal: AbortSignal
+  ) => {
+    switch (step) {
+      case 'searching':
+        return searchStep(plan, iteration, input, signal);
+      case 'scraping':
+        return scrapeStep(plan, iteration, input, signal);
+      case 'cleaning':
+        return cleanStep(plan, iteration, input, signal);
+      case 'verifying':
+        return verifyStep(plan, iteration, input, signal);
+      case 'refining':
+        return refineStep(plan, iteration, input, signal);
+      default:
+        throw new Error(`The ${step} step does not run as part of research execution`);
+    }
+  };
+
+  // Work through the pipeline in this browser, starting from the given step
+  const runBrowserPipeline = async (
+    plan: PlannerResponse,
+    iteration: number,
+    step: PipelineStep,
+    input: Record<string, unknown>
+  ) => {
+    let next: StepResult['next'] = { step, input };
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      while (next) {
+        const current = next;
+        const result = await runPipelineStep(current.step, iteration, current.input, () =>
+          runBrowserStep(plan, iteration, current.step, current.input, controller.signal)
+        );
+        if (!result) return;
+        next = result.next;
+      }
+
+      updatePipeline(finishPipeline(pipelineRef.current, 'done'));
+      persist(async id => {
+        await ResearchSessionService.updateSession(id, { status: 'completed' });
+        refreshHistory();
+      });
+
+      const totalResults = resultsRef.current.length;
+      if (totalResults === 0) {
+        addLog("No results found after all iterations", 'warning');
+        toast({
+          title: "No Results Found",
+          description: "No results found. Try a different research question or add more specific terms.",
+          variant: "destructive",
+        });
+      } else {
+        addLog(`Research completed with ${totalResults} total results`, 'success');
+        toast({
+          title: "Research Complete",
+          description: `Found ${totalResults} relevant results.`,
+        });
+      }
+    } catch (error) {
+      console.error("Error executing research:", error);
+      const failed = lastFailedStep(pipelineRef.current);
+      addLog(`Research execution failed${failed ? ` while ${failed.step}` : ''}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+      persist(async id => {
+        await ResearchSessionService.updateSession(id, { status: 'failed' });
+        refreshHistory();
+      });
+      toast({
+        title: "Research Failed",
+        description: failed
+          ? `The ${failed.step} step failed. You can retry just that step.`
+          : "An error occurred while researching. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  };
+
+  // Pass the current plan to regenerate only its unlocked entries
+  const generatePlan = async (questionText: string, current: PlannerResponse | null = null) => {
+    try {
+      addLog(current
+        ? `Regenerating the unlocked parts of the research plan`
+        : `Generating research plan for: "${questionText}"`, 'info');
+      const result = await runPipelineStep('planning', 0, { question: questionText, regenerate: !!current }, async () => {
+        const seed = competitor ? CompetitorService.toSeed(competitor) : undefined;
+        const response = current
+          ? await regeneratePlannerResponse(current, seed, sessionIdRef.current)
+          : await createPlannerResponse(questionText, undefined, undefined, seed, sessionIdRef.current);
+        persist(async id => {
+          await ResearchSessionService.savePlan(id, response);
+          await ResearchSessionService.updateSession(id, { status: 'planned', currentIteration: 0, analysisText: null });
+          refreshHistory();
+        });
+        setPlannerResponse(response);
+        updateResults([]);
+        setIterations([]);
+        setCurrentIteration(0);
+        setAnalysisText(null);
+        updateInsights(null);
+        setContradictions([]);
+        setTimeoutMessage(null);
+        setTimeElapsed(0);
+
+        addLog(`Research plan created with ${response.searchFocus.length} search targets`, 'success');
+        return { output: { searchTargetCount: response.searchFocus.length }, next: null };
+      });
+      if (!result) return;
+      updatePipeline(finishPipeline(pipelineRef.current, 'idle'));
+
+      toast({
+        title: current ? "Research Plan Regenerated" : "Research Plan Generated",
+        description: current
+          ? "Unlocked entries were replaced; locked entries were kept."
+          : "Your research plan has been created successfully.",
+      });
+    } catch (error) {
+      console.error("Error generating research plan:", error);
+      addLog(`Failed to generate research plan: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+      persist(id => ResearchSessionService.updateSession(id, { status: 'failed' }));
+
+      toast({
+        title: "Error",
+        description: "Failed to generate research plan. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Edits made before execution are saved with the plan, so server jobs use them too
+  const changePlan = (plan: PlannerResponse) => {
+    setPlannerResponse(plan);
+    persist(id => ResearchSessionService.savePlan(id, plan));
+  };
+
+  // The analyst's pick is stored with the session; null clears it
+  const resolveContradiction = (subjectKey: string, claim: ContradictionClaim | null) => {
+    const resolvedAt = claim ? new Date().toISOString() : null;
+    setContradictions(prev => prev.map(contradiction =>
+      contradiction.subjectKey === subjectKey ? { ...contradiction, resolution: claim, resolvedAt } : contradiction
+    ));
+    persist(id => ResearchSessionService.resolveContradiction(id, subjectKey, claim));
+  };
+
+  const regeneratePlan = async () => {
+    if (plannerResponse) {
+      await generatePlan(plannerResponse.originalQuestion, plannerResponse);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
     if (!question.trim()) {
       toast({
         title: "Empty Question",
@@ -130,39 +917,76 @@ const ResearchPage = () => {
       });
       return;
     }
-    
-    setLoading(true);
+
     setResearchLogs([]);
-    
+
     try {
-      addLog(`Generating research plan for: "${question}"`, 'info');
-      const response = await createPlannerResponse(question);
-      setPlannerResponse(response);
-      setResearchResults([]);
-      setIterations([]);
-      setCurrentIteration(0);
-      setAnalysisText(null);
-      setStructuredInsights(null);
-      setTimeoutMessage(null);
-      setTimeElapsed(0);
-      
-      addLog(`Research plan created with ${response.searchFocus.length} search targets`, 'success');
-      
+      // A session without a plan yet (e.g. a duplicated question) is reused instead of creating another
+      if (sessionIdRef.current && !plannerResponse) {
+        await ResearchSessionService.updateSession(sessionIdRef.current, {
+          question,
+          searchProviders,
+          profileId: researchProfile.id ?? null,
+          competitorId: competitor?.id ?? null,
+        });
+      } else {
+        const newSessionId = await ResearchSessionService.createSession(
+          question,
+          searchProviders,
+          researchProfile.id ?? null,
+          competitor?.id ?? null
+        );
+        sessionIdRef.current = newSessionId;
+        updatePipeline(createPipeline());
+        navigate(`/session/${newSessionId}`);
+      }
+      refreshHistory();
+    } catch (error) {
+      sessionIdRef.current = null;
+      console.error("Error creating research session:", error);
       toast({
-        title: "Research Plan Generated",
-        description: "Your research plan has been created successfully.",
+        title: "Session Not Saved",
+        description: "This research will not be saved to your history.",
+        variant: "destructive",
       });
+    }
+
+    await generatePlan(question);
+  };
+
+  // Hand the loop to the run-research Edge Function and just follow its progress.
+  // Given a failed or cancelled step record, the server starts again from that step.
+  const executeServerResearch = async (from?: PipelineStepRecord) => {
+    const currentSessionId = sessionIdRef.current;
+    if (!currentSessionId) {
+      toast({
+        title: "Session Not Saved",
+        description: "Server-side research needs a saved session. Run it in this browser instead.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const previousPipeline = pipelineRef.current;
+    // Show the run as started until the job row arrives
+    updatePipeline({ ...previousPipeline, state: from?.step ?? 'searching' });
+    setTimeoutMessage(null);
+    setTimeElapsed(0);
+
+    try {
+      const jobId = await ResearchJobService.startJob(currentSessionId, MAX_RESEARCH_ITERATIONS, from);
+      const job = await ResearchJobService.getJob(jobId);
+      setActiveJob(job);
+      refreshHistory();
     } catch (error) {
-      console.error("Error generating research plan:", error);
-      addLog(`Failed to generate research plan: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
-      
+      console.error("Error starting server research:", error);
+      updatePipeline(previousPipeline);
+      addLog(`Failed to start research on the server: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
       toast({
-        title: "Error",
-        description: "Failed to generate research plan. Please try again.",
+        title: "Research Failed",
+        description: "Could not start the research job. Please try again.",
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -176,22 +1000,21 @@ const ResearchPage = () => {
       return;
     }
 
-    const apiKey = FirecrawlService.getApiKey();
-    if (!apiKey) {
-      toast({
-        title: "API Key Missing",
-        description: "Please configure your FireCrawl API key first.",
-        variant: "destructive",
-      });
+    if (runOnServer) {
+      await executeServerResearch();
       return;
     }
 
-    setIsResearching(true);
-    setResearchProgress(5);
     setTimeoutMessage(null);
-    setCurrentStep("Initializing research process...");
     addLog("Starting research execution", 'info');
 
+    // Iterations are numbered from 1; results from this run belong to the latest iteration
+    const iterationNumber = iterations.length === 0 ? 1 : iterations.length;
+    persist(id => ResearchSessionService.updateSession(id, {
+      status: 'researching',
+      currentIteration: iterations.length === 0 ? 1 : currentIteration + 1
+    }));
+
     // Reset timer
     if (startTimeRef.current) {
       startTimeRef.current = Date.now();
@@ -205,6 +1028,7 @@ const ResearchPage = () => {
         results: []
       }]);
       setCurrentIteration(1);
+      persist(id => ResearchSessionService.saveIteration(id, 1, { targets: initialTargets, results: [] }));
       addLog(`Initialized iteration 1 with ${initialTargets.length} targets`, 'info');
     } else {
       setCurrentIteration(prev => {
@@ -214,208 +1038,37 @@ const ResearchPage = () => {
       });
     }
 
-    try {
-      const searchTargets = iterations.length === 0 
-        ? plannerResponse.searchFocus.slice(0, 5)
-        : iterations[iterations.length - 1].targets.slice(0, 5);
-
-      setResearchProgress(15);
-      setCurrentStep(`Preparing to search ${searchTargets.length} targets...`);
-      addLog(`Preparing search for targets: ${searchTargets.join(", ")}`, 'info');
-
-      // Process all targets at once rather than individually
-      addLog(`Scraping all search targets...`, 'info');
-      const newResults = await WebScraperService.scrapeSearchTargets(
-        searchTargets,
-        plannerResponse.context,
-        plannerResponse.informationGoals
-      );
-
-      setResearchProgress(60);
-      
-      if (newResults.length === 0) {
-        addLog("No results found for any search targets", 'warning');
-        toast({
-          title: "No Results Found",
-          description: "No results found for the search targets. Try refining your question.",
-          variant: "destructive",
-        });
-      } else {
-        addLog(`Found ${newResults.length} results across all targets`, 'success');
-        // Merge with existing results
-        const allResults = [...researchResults, ...newResults];
-        setResearchResults(allResults);
-        
-        // Update the current iteration with its results
-        const updatedIterations = [...iterations];
-        if (updatedIterations.length > 0) {
-          updatedIterations[updatedIterations.length - 1].results = newResults;
-        }
-        setIterations(updatedIterations);
-        
-        // Use the cleaner agent to process results
-        if (allResults.length > 0) {
-          setIsCleaning(true);
-          setCurrentStep("Cleaning and structuring research findings...");
-          setResearchProgress(75);
-          addLog("Starting cleaner agent for structured insights", 'info');
-          
-          try {
-            const cleanerResponse = await CleanerAgentService.processResults(
-              allResults,
-              plannerResponse.intent,
-              plannerResponse.searchFocus,
-              plannerResponse.informationGoals,
-              plannerResponse.originalQuestion,
-              plannerResponse.context
-            );
-            
-            if (cleanerResponse) {
-              setStructuredInsights(cleanerResponse);
-              setAnalysisText(cleanerResponse.analysis);
-              addLog("Cleaner agent completed successfully", 'success');
-            } else {
-              addLog("Cleaner agent failed to extract insights", 'warning');
-            }
-          } catch (error) {
-            console.error("Error in cleaner agent:", error);
-            addLog(`Cleaner agent error: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
-          } finally {
-            setIsCleaning(false);
-          }
-        }
-      }
-
-      // Even if we don't have results from this iteration, try refinement
-      setIsReasoning(true);
-      setCurrentStep("AI analyzing results and refining search strategy...");
-      addLog("Starting AI analysis of search results", 'info');
+    const searchTargets = iterations.length === 0
+      ? plannerResponse.searchFocus.slice(0, 5)
+      : iterations[iterations.length - 1].targets.slice(0, 5);
 
-      const currentResults = [...researchResults, ...newResults];
-      
-      setResearchProgress(85);
-
-      addLog("Requesting refinement from AI service", 'info');
-      const refinementPromise = supabase.functions.invoke('refine-research', {
-        body: { 
-          searchTargets, 
-          currentResults,
-          researchGoals: plannerResponse.informationGoals,
-          iteration: currentIteration,
-          context: plannerResponse.context
-        }
-      });
-
-      const refinementTimeout = new Promise((_, reject) => {
-        setTimeout(() => {
-          addLog("AI refinement timed out after 45 seconds", 'error');
-          reject(new Error("Edge function timed out"));
-        }, 45000);
-      });
-
-      const refinementResponse = await Promise.race([refinementPromise, refinementTimeout])
-        .catch(error => {
-          console.error("Edge function error:", error);
-          addLog(`AI refinement failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
-          return { data: { error: "Edge function timed out" } };
-        });
-
-      const refinementData = (refinementResponse as { data: any }).data;
-
-      if (refinementData.error) {
-        console.error("Research refinement failed:", refinementData.error);
-        addLog(`AI refinement error: ${refinementData.error}`, 'error');
-        throw new Error(refinementData.error);
-      }
-
-      addLog("AI refinement completed successfully", 'success');
-
-      // Add the new iteration with improved targets
-      if (refinementData.improvedTargets && refinementData.improvedTargets.length > 0) {
-        const newTargets = refinementData.improvedTargets.slice(0, 5);
-        const newIteration = {
-          targets: newTargets,
-          results: refinementData.newResults || [],
-          analysis: refinementData.analysis,
-          extractionFocus: refinementData.extractionFocus
-        };
-        
-        setIterations(prev => [...prev, newIteration]);
-        addLog(`Created new iteration with ${newTargets.length} improved search targets`, 'success');
-      }
-
-      // Add any new results from refinement
-      if (refinementData.newResults && refinementData.newResults.length > 0) {
-        setResearchResults(prev => [...prev, ...refinementData.newResults]);
-        addLog(`Added ${refinementData.newResults.length} additional results from AI refinement`, 'success');
-        
-        // If we got new results but haven't run the cleaner yet
-        if (!structuredInsights && !isCleaning) {
-          setIsCleaning(true);
-          setCurrentStep("Processing newly found results...");
-          addLog("Starting cleaner agent for new results", 'info');
-          
-          try {
-            const updatedResults = [...currentResults, ...refinementData.newResults];
-            const cleanerResponse = await CleanerAgentService.processResults(
-              updatedResults,
-              plannerResponse.intent,
-              plannerResponse.searchFocus,
-              plannerResponse.informationGoals,
-              plannerResponse.originalQuestion,
-              plannerResponse.context
-            );
-            
-            if (cleanerResponse) {
-              setStructuredInsights(cleanerResponse);
-              setAnalysisText(cleanerResponse.analysis);
-              addLog("Cleaner agent completed successfully", 'success');
-            }
-          } catch (error) {
-            console.error("Error in cleaner agent for new results:", error);
-            addLog(`Cleaner agent error: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
-          } finally {
-            setIsCleaning(false);
-          }
-        }
-      }
+    await runBrowserPipeline(plannerResponse, iterationNumber, 'searching', { targets: searchTargets });
+  };
 
-      // If we have an analysis from the refinement, use it if we don't have one already
-      if (refinementData.analysis && !analysisText) {
-        setAnalysisText(refinementData.analysis);
-      }
+  // Re-run only the step that failed (or was canceled) from its recorded input, then carry on from there
+  const retryFailedStep = async () => {
+    const record = lastFailedStep(pipelineRef.current);
+    if (!record) return;
 
-      setResearchProgress(100);
-      setCurrentStep("Research completed successfully");
+    if (record.step === 'planning') {
+      await generatePlan(
+        (record.input.question as string | undefined) ?? question,
+        record.input.regenerate ? plannerResponse : null
+      );
+      return;
+    }
+    if (!plannerResponse) return;
 
-      if (currentResults.length === 0 && (!refinementData.newResults || refinementData.newResults.length === 0)) {
-        addLog("No results found after all iterations", 'warning');
-        toast({
-          title: "No Results Found",
-          description: "No results found. Try a different research question or add more specific terms.",
-          variant: "destructive",
-        });
-      } else {
-        const totalResults = currentResults.length + (refinementData.newResults?.length || 0);
-        addLog(`Research completed with ${totalResults} total results`, 'success');
-        toast({
-          title: "Research Complete",
-          description: `Found ${totalResults} relevant results.`,
-        });
-      }
-    } catch (error) {
-      console.error("Error executing research:", error);
-      addLog(`Research execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
-      toast({
-        title: "Research Failed",
-        description: "An error occurred while researching. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsResearching(false);
-      setIsReasoning(false);
-      setIsCleaning(false);
+    if (runOnServer) {
+      addLog(`Retrying the ${record.step} step on the server`, 'info');
+      await executeServerResearch(record);
+      return;
     }
+
+    setTimeoutMessage(null);
+    addLog(`Retrying the ${record.step} step`, 'info');
+    persist(id => ResearchSessionService.updateSession(id, { status: 'researching' }));
+    await runBrowserPipeline(plannerResponse, record.iteration, record.step, record.input);
   };
 
   const continueResearch = () => {
@@ -432,88 +1085,181 @@ const ResearchPage = () => {
   };
 
   return (
-    <div className="container mx-auto py-8 max-w-4xl">
-      <h1 className="text-3xl font-bold mb-8 text-center">AI Research Assistant</h1>
+    <SidebarProvider>
+      <ResearchHistorySidebar
+        activeSessionId={sessionId}
+        disabled={loading || (isResearching && !activeJob)}
+      />
+      <SidebarInset>
+        <header className="flex h-12 items-center border-b px-4">
+          <SidebarTrigger />
+        </header>
+        <div className="container mx-auto py-8 max-w-4xl">
+          <h1 className="text-3xl font-bold mb-8 text-center">AI Research Assistant</h1>
       
-      <div className="mb-8">
-        <ApiKeyManager />
-      </div>
+          <div className="mb-8">
+            <ApiKeyManager />
+          </div>
       
-      <ResearchForm
-        question={question}
-        loading={loading}
-        onQuestionChange={setQuestion}
-        onSubmit={handleSubmit}
-      />
+          {isLoadingSession && (
+            <div className="flex items-center justify-center mb-8 text-muted-foreground">
+              <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+              Loading research session...
+            </div>
+          )}
+      
+          <ResearchForm
+            question={question}
+            loading={loading}
+            onQuestionChange={setQuestion}
+            onSubmit={handleSubmit}
+          >
+            <CompetitorPicker
+              competitors={competitors}
+              value={competitor?.id ?? null}
+              onChange={changeCompetitor}
+              disabled={loading || isResearching}
+            />
+          </ResearchForm>
+
+          {plannerResponse && (
+            <div className="space-y-6">
+              <ResearchPlan
+                plan={plannerResponse}
+                onChange={canEditPlan ? changePlan : undefined}
+                onRegenerate={canEditPlan || loading ? regeneratePlan : undefined}
+                regenerating={loading}
+              />
+
+              <ResearchProfilePicker
+                value={researchProfile.id ?? null}
+                onChange={changeProfile}
+                disabled={isResearching}
+              />
 
-      {plannerResponse && (
-        <div className="space-y-6">
-          <ResearchPlan plan={plannerResponse} />
+              <SearchProviderPicker
+                value={searchProviders}
+                onChange={changeSearchProviders}
+                disabled={isResearching}
+                showBrowserAvailability={!runOnServer}
+              />
           
-          <div className="flex justify-center gap-4">
-            <Button 
-              onClick={currentIteration === 0 ? executeResearch : continueResearch}
-              disabled={isResearching}
-              size="lg"
-              className="mt-4"
-              variant={currentIteration === 0 ? "default" : "outline"}
-            >
-              {isResearching ? (
-                <>
-                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                  {currentIteration === 0 ? "Executing Research..." : "Continuing Research..."}
-                </>
-              ) : (
-                <>
-                  {currentIteration === 0 ? (
+              <div className="flex items-center justify-center gap-2">
+                <Switch
+                  id="run-on-server"
+                  checked={runOnServer}
+                  onCheckedChange={setRunOnServer}
+                  disabled={isResearching}
+                />
+                <Label htmlFor="run-on-server" className="text-sm text-muted-foreground">
+                  Run on server (keeps going if you close this tab)
+                </Label>
+              </div>
+          
+              <div className="flex justify-center gap-4">
+                <Button 
+                  onClick={currentIteration === 0 ? executeResearch : continueResearch}
+                  disabled={isResearching}
+                  size="lg"
+                  className="mt-4"
+                  variant={currentIteration === 0 ? "default" : "outline"}
+                >
+                  {isResearching ? (
                     <>
-                      <Search className="mr-2 h-5 w-5" />
-                      Execute Research Plan
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                      {currentIteration === 0 ? "Executing Research..." : "Continuing Research..."}
                     </>
                   ) : (
                     <>
-                      <RefreshCw className="mr-2 h-5 w-5" />
-                      Continue Research (Iteration {currentIteration + 1}/{MAX_RESEARCH_ITERATIONS})
+                      {currentIteration === 0 ? (
+                        <>
+                          <Search className="mr-2 h-5 w-5" />
+                          Execute Research Plan
+                        </>
+                      ) : (
+                        <>
+                          <RefreshCw className="mr-2 h-5 w-5" />
+                          Continue Research (Iteration {currentIteration + 1}/{MAX_RESEARCH_ITERATIONS})
+                        </>
+                      )}
                     </>
                   )}
-                </>
-              )}
-            </Button>
+                </Button>
             
-            {isResearching && (
-              <Button
-                onClick={cancelResearch}
-                variant="destructive"
-                size="lg"
-                className="mt-4"
-              >
-                <XCircle className="mr-2 h-5 w-5" />
-                Cancel Research
-              </Button>
-            )}
-          </div>
+                {failedStep && (
+                  <Button
+                    onClick={retryFailedStep}
+                    variant="outline"
+                    size="lg"
+                    className="mt-4"
+                  >
+                    <RotateCcw className="mr-2 h-5 w-5" />
+                    {failedStep.status === 'cancelled' ? "Resume" : "Retry"} {failedStep.step} step
+                  </Button>
+                )}
+
+                {!isResearching && (
+                  <Button
+                    onClick={() => setMonitorDialogOpen(true)}
+                    variant="outline"
+                    size="lg"
+                    className="mt-4"
+                  >
+                    <Radar className="mr-2 h-5 w-5" />
+                    Save as Monitor
+                  </Button>
+                )}
+
+                {isResearching && (
+                  <Button
+                    onClick={cancelResearch}
+                    variant="destructive"
+                    size="lg"
+                    className="mt-4"
+                  >
+                    <XCircle className="mr-2 h-5 w-5" />
+                    Cancel Research
+                  </Button>
+                )}
+              </div>
           
-          <ResearchProgress 
-            isResearching={isResearching}
-            isReasoning={isReasoning || isCleaning}
-            progress={researchProgress}
-            timeoutMessage={timeoutMessage}
-            logs={researchLogs}
-            currentStep={currentStep}
-            timeElapsed={timeElapsed}
-          />
+              <ResearchProgress 
+                isResearching={isResearching}
+                isReasoning={isReasoning}
+                progress={researchProgress}
+                timeoutMessage={timeoutMessage}
+                logs={researchLogs}
+                currentStep={currentStep}
+                timeElapsed={timeElapsed}
+                usage={sessionUsage}
+              />
           
-          <ResearchResults 
-            results={researchResults}
-            analysisText={analysisText}
-            structuredInsights={structuredInsights}
-          />
+              <ResearchResults 
+                results={researchResults}
+                question={plannerResponse?.originalQuestion ?? question}
+                plan={plannerResponse}
+                iterations={iterations}
+                analysisText={analysisText}
+                structuredInsights={structuredInsights}
+                contradictions={contradictions}
+                onResolveContradiction={resolveContradiction}
+              />
           
-          <ResearchIterations iterations={iterations} />
+              <ResearchIterations iterations={iterations} />
+
+              <MonitorDialog
+                open={monitorDialogOpen}
+                defaultName={plannerResponse.originalQuestion}
+                saving={monitorMutation.isPending}
+                onSave={(monitor) => monitorMutation.mutate(monitor)}
+                onClose={() => setMonitorDialogOpen(false)}
+              />
+            </div>
+          )}
         </div>
-      )}
-    </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 
-export default ResearchPage;
+export default ResearchPage;
\ No newline at end of file
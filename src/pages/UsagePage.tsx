@@ -0,0 +1,66 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import UsageBreakdownReport from "@/components/research/UsageBreakdownReport";
+import { UsageService, USAGE_QUERY_KEY } from "@/services/usageService";
+import { ArrowLeft, Coins, Loader2 } from "lucide-react";
+
+// Months arrive as the first day of the month, e.g. "2026-10-01"
+const formatMonth = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString(undefined, { month: "long", year: "numeric" });
+
+const UsagePage = () => {
+  const { data: months = [], isLoading, isError } = useQuery({
+    queryKey: [...USAGE_QUERY_KEY, "monthly"],
+    queryFn: () => UsageService.getMonthlyUsage(),
+  });
+
+  return (
+    <div className="container mx-auto py-8 max-w-4xl">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link to="/">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Research
+        </Link>
+      </Button>
+      <h1 className="text-3xl font-bold mb-8">Usage</h1>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center text-muted-foreground">
+          <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+          Loading usage...
+        </div>
+      ) : isError ? (
+        <div className="text-center py-8 text-red-600">
+          <p>Failed to load usage.</p>
+        </div>
+      ) : months.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p>No usage yet. Model calls, searches and crawled pages are counted here once research runs.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {months.map(month => (
+            <Card key={`${month.month}-${month.shared ? "shared" : "own"}`}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-md flex items-center gap-2">
+                  <Coins className="h-5 w-5" />
+                  {formatMonth(month.month)}
+                  {month.shared && <Badge variant="outline">Shared workspace</Badge>}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <UsageBreakdownReport usage={month.usage} />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsagePage;
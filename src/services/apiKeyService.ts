@@ -0,0 +1,95 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { API_KEY_PROVIDERS, ApiKeyOverview, ApiKeyProvider, ApiKeySummary } from '@shared/apiKeys';
+
+// Where earlier versions kept the keys in plain text in this browser
+const LEGACY_STORAGE_KEYS: Record<ApiKeyProvider, string> = {
+  firecrawl: 'firecrawl_api_key',
+  serpapi: 'serpapi_api_key',
+  brave: 'brave_search_api_key',
+  bing: 'bing_search_api_key',
+};
+
+// The workspace's keys live encrypted on the server and are only used by the Edge Functions;
+// this browser only ever sees them masked
+export class ApiKeyService {
+  private static overview: Promise<ApiKeyOverview> | null = null;
+
+  // The keys as last loaded; research asks this before every step, so it is only fetched once
+  static getOverview(): Promise<ApiKeyOverview> {
+    if (!this.overview) {
+      this.overview = this.listKeys();
+    }
+    return this.overview;
+  }
+
+  static async listKeys(): Promise<ApiKeyOverview> {
+    const request = this.invoke<ApiKeyOverview>({ action: 'list' }, 'Failed to load API keys');
+    this.overview = request;
+    request.catch(() => {
+      // Let the next caller try again
+      if (this.overview === request) this.overview = null;
+    });
+    return request;
+  }
+
+  // The key is validated with its provider first; saving over an existing key rotates it
+  static async saveKey(provider: ApiKeyProvider, apiKey: string): Promise<ApiKeySummary> {
+    const { key } = await this.invoke<{ key: ApiKeySummary }>(
+      { action: 'save', provider, apiKey: apiKey.trim() },
+      'Failed to save API key'
+    );
+    this.overview = null;
+    return key;
+  }
+
+  static async validateKey(provider: ApiKeyProvider): Promise<ApiKeySummary> {
+    const { key } = await this.invoke<{ key: ApiKeySummary }>({ action: 'validate', provider }, 'Failed to validate API key');
+    this.overview = null;
+    return key;
+  }
+
+  static async removeKey(provider: ApiKeyProvider): Promise<void> {
+    await this.invoke({ action: 'remove', provider }, 'Failed to remove API key');
+    this.overview = null;
+  }
+
+  // Moves keys saved in this browser by earlier versions into the workspace and deletes them here.
+  // A key the provider rejects is deleted too; returns the providers whose keys were moved
+  static async migrateLegacyKeys(): Promise<ApiKeyProvider[]> {
+    const migrated: ApiKeyProvider[] = [];
+
+    for (const provider of API_KEY_PROVIDERS) {
+      const legacyKey = localStorage.getItem(LEGACY_STORAGE_KEYS[provider]);
+      if (!legacyKey) continue;
+
+      try {
+        await this.saveKey(provider, legacyKey);
+        migrated.push(provider);
+      } catch (error) {
+        console.error(`Error moving the ${provider} key out of this browser:`, error);
+        if (!(error instanceof Error) || !/rejected/i.test(error.message)) continue;
+      }
+      localStorage.removeItem(LEGACY_STORAGE_KEYS[provider]);
+    }
+
+    return migrated;
+  }
+
+  // Errors come back as JSON with a non-2xx status, so read the message from the response
+  private static async invoke<T>(body: Record<string, unknown>, failure: string): Promise<T> {
+    const { data, error } = await supabase.functions.invoke('api-keys', { body });
+
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => ({}));
+      console.error(`${failure}:`, details.error || error.message);
+      throw new Error(details.error || failure);
+    }
+    if (error || data?.error) {
+      console.error(`${failure}:`, error || data.error);
+      throw new Error(data?.error || failure);
+    }
+
+    return data as T;
+  }
+}
@@ -0,0 +1,34 @@
+import { supabase } from '@/integrations/supabase/client';
+import { abortable } from '@shared/abort';
+import { CleanerResponse, ScrapingResult, VerifyResponseSchema, parseContract } from '@shared/contracts';
+import type { UsageScope } from '@shared/usage';
+
+export class ClaimVerificationService {
+  // Check every fact against the source it cites; resolves to the insights with verdicts attached
+  static async verifyInsights(
+    insights: CleanerResponse,
+    scrapingResults: ScrapingResult[],
+    scope: UsageScope = {},
+    // Cancels the request; the session id in the scope lets the Edge Function stop its model calls as well
+    signal?: AbortSignal
+  ): Promise<CleanerResponse> {
+    console.log('Verifying facts against their sources...');
+
+    const { data, error } = await abortable(supabase.functions.invoke('verify-claims', {
+      body: {
+        structuredInsights: insights.structuredInsights,
+        scrapingResults,
+        ...scope,
+      }
+    }), signal);
+
+    if (error || data?.error) {
+      console.error('Error invoking claim verification:', error || data.error);
+      throw new Error('Failed to verify facts');
+    }
+
+    const { structuredInsights } = parseContract(VerifyResponseSchema, data, 'verification response');
+    console.log('Claim verification completed successfully');
+    return { ...insights, structuredInsights };
+  }
+}
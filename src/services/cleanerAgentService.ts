@@ -1,22 +1,16 @@
 
-import { ScrapingResult } from './webScraperService';
 import { supabase } from '@/integrations/supabase/client';
+import { abortable, isAbortError } from '@shared/abort';
+import {
+  CleanerRequest,
+  CleanerResponse,
+  CleanerResponseSchema,
+  ContractError,
+  ScrapingResult,
+  parseContract,
+} from '@shared/contracts';
 
-interface CleanerRequest {
-  scrapingResults: ScrapingResult[];
-  intent: string;
-  searchFocus: string[];
-  informationGoals: string[];
-  originalQuestion: string;
-  context?: string;
-}
-
-interface CleanerResponse {
-  structuredInsights: any;
-  relevantFindings: string[];
-  suggestedNextSteps?: string[];
-  analysis: string;
-}
+export type { CleanerResponse } from '@shared/contracts';
 
 export class CleanerAgentService {
   static async processResults(
@@ -25,7 +19,11 @@ export class CleanerAgentService {
     searchFocus: string[],
     informationGoals: string[],
     originalQuestion: string,
-    context?: string
+    context?: string,
+    // Cancels the request; the session id lets the Edge Function stop its model calls as well
+    signal?: AbortSignal,
+    sessionId?: string | null,
+    iteration?: number
   ): Promise<CleanerResponse | null> {
     try {
       console.log('Cleaning and structuring research results...');
@@ -42,29 +40,36 @@ export class CleanerAgentService {
         searchFocus,
         informationGoals,
         originalQuestion,
-        context
+        context,
+        sessionId: sessionId ?? undefined,
+        iteration
       };
       
       console.log(`Sending ${scrapingResults.length} results to cleaner agent`);
       
       // Call the Supabase Edge Function to process the results
-      const { data, error } = await supabase.functions.invoke(
+      const { data, error } = await abortable(supabase.functions.invoke(
         'process-research', 
         { 
           body: cleanerRequest
         }
-      );
+      ), signal);
       
-      if (error) {
-        console.error('Error invoking cleaner agent:', error);
+      if (error || data?.error) {
+        console.error('Error invoking cleaner agent:', error || data.error);
         return null;
       }
       
+      const cleanerResponse = parseContract(CleanerResponseSchema, data, 'cleaner response');
       console.log('Cleaner agent completed successfully');
-      return data;
+      return cleanerResponse;
       
     } catch (error) {
       console.error('Error in cleaner agent service:', error);
+      // Malformed insights and cancellation are reported as such instead of as a generic failure
+      if (error instanceof ContractError || isAbortError(error)) {
+        throw error;
+      }
       return null;
     }
   }
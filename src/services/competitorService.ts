@@ -0,0 +1,169 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { CompetitorSeed, FactConfidence, InsightFact } from '@shared/contracts';
+import { Competitor, CompetitorFact, planCompetitorFilings, toFilingArgs } from '@shared/competitors';
+
+// Query key for the competitor list; profile pages add the competitor id
+export const COMPETITORS_QUERY_KEY = ['competitors'];
+
+export interface StoredCompetitorFact extends CompetitorFact {
+  sessionId: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface CompetitorSession {
+  sessionId: string;
+  question: string;
+  title: string | null;
+  factCount: number;
+  recordedAt: string;
+}
+
+const toCompetitor = (row: Tables<'competitors'>): Competitor => ({
+  id: row.id,
+  name: row.name,
+  domains: row.domains,
+  products: row.products,
+  eventPages: row.event_pages,
+  notes: row.notes,
+});
+
+export class CompetitorService {
+  static async listCompetitors(): Promise<Competitor[]> {
+    const { data, error } = await supabase
+      .from('competitors')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error listing competitors:', error);
+      throw new Error('Failed to list competitors');
+    }
+
+    return data.map(toCompetitor);
+  }
+
+  static async getCompetitor(competitorId: string): Promise<Competitor | null> {
+    const { data, error } = await supabase
+      .from('competitors')
+      .select('*')
+      .eq('id', competitorId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading competitor:', error);
+      throw new Error('Failed to load competitor');
+    }
+
+    return data ? toCompetitor(data) : null;
+  }
+
+  // Inserts a competitor without an id, updates the stored one otherwise
+  static async saveCompetitor(competitor: Competitor): Promise<Competitor> {
+    const row = {
+      name: competitor.name.trim(),
+      domains: competitor.domains,
+      products: competitor.products,
+      event_pages: competitor.eventPages,
+      notes: competitor.notes,
+    };
+
+    const { data, error } = competitor.id
+      ? await supabase.from('competitors').update(row).eq('id', competitor.id).select('*').single()
+      : await supabase.from('competitors').insert(row).select('*').single();
+
+    if (error) {
+      console.error('Error saving competitor:', error);
+      throw new Error('Failed to save competitor');
+    }
+
+    return toCompetitor(data);
+  }
+
+  static async deleteCompetitor(competitorId: string): Promise<void> {
+    const { error } = await supabase
+      .from('competitors')
+      .delete()
+      .eq('id', competitorId);
+
+    if (error) {
+      console.error('Error deleting competitor:', error);
+      throw new Error('Failed to delete competitor');
+    }
+  }
+
+  static async listFacts(competitorId: string): Promise<StoredCompetitorFact[]> {
+    const { data, error } = await supabase
+      .from('competitor_facts')
+      .select('*')
+      .eq('competitor_id', competitorId)
+      .order('last_seen_at', { ascending: false });
+
+    if (error) {
+      console.error('Error listing competitor facts:', error);
+      throw new Error('Failed to list competitor facts');
+    }
+
+    return data.map(row => ({
+      factKey: row.fact_key,
+      fact: row.fact,
+      category: row.category,
+      source: row.source,
+      quote: row.quote ?? undefined,
+      confidence: (row.confidence ?? undefined) as FactConfidence | undefined,
+      sessionId: row.session_id,
+      firstSeenAt: row.first_seen_at,
+      lastSeenAt: row.last_seen_at,
+    }));
+  }
+
+  static async listSessions(competitorId: string): Promise<CompetitorSession[]> {
+    const { data, error } = await supabase
+      .from('competitor_sessions')
+      .select('session_id, fact_count, recorded_at, research_sessions(question, title)')
+      .eq('competitor_id', competitorId)
+      .order('recorded_at', { ascending: false });
+
+    if (error) {
+      console.error('Error listing competitor sessions:', error);
+      throw new Error('Failed to list competitor sessions');
+    }
+
+    return data.map(row => ({
+      sessionId: row.session_id,
+      question: row.research_sessions?.question ?? '',
+      title: row.research_sessions?.title ?? null,
+      factCount: row.fact_count,
+      recordedAt: row.recorded_at,
+    }));
+  }
+
+  // File a session's verified facts under every competitor they are about; resolves to the number of facts filed
+  static async recordSession(
+    sessionId: string,
+    structuredInsights: Record<string, InsightFact[]>,
+    sessionCompetitorId: string | null = null
+  ): Promise<number> {
+    const filings = planCompetitorFilings(await this.listCompetitors(), structuredInsights, sessionCompetitorId);
+
+    for (const filing of filings) {
+      const { error } = await supabase.rpc('record_competitor_facts', toFilingArgs(sessionId, filing));
+      if (error) {
+        console.error('Error recording competitor facts:', error);
+        throw new Error('Failed to record competitor facts');
+      }
+    }
+
+    return filings.reduce((filed, filing) => filed + filing.facts.length, 0);
+  }
+
+  static toSeed(competitor: Competitor): CompetitorSeed {
+    return {
+      name: competitor.name,
+      domains: competitor.domains,
+      products: competitor.products,
+      eventPages: competitor.eventPages,
+    };
+  }
+}
@@ -0,0 +1,24 @@
+import { supabase } from '@/integrations/supabase/client';
+import { abortable } from '@shared/abort';
+import { CleanerResponse, Contradiction, DetectContradictionsResponseSchema, parseContract } from '@shared/contracts';
+import type { UsageScope } from '@shared/usage';
+
+export class ContradictionService {
+  // Compare facts across sources and categories; resolves to the subjects the sources disagree on
+  static async detect(insights: CleanerResponse, scope: UsageScope = {}, signal?: AbortSignal): Promise<Contradiction[]> {
+    console.log('Looking for contradictions between sources...');
+
+    const { data, error } = await abortable(supabase.functions.invoke('detect-contradictions', {
+      body: { structuredInsights: insights.structuredInsights, ...scope }
+    }), signal);
+
+    if (error || data?.error) {
+      console.error('Error invoking contradiction detection:', error || data.error);
+      throw new Error('Failed to detect contradictions');
+    }
+
+    const { contradictions } = parseContract(DetectContradictionsResponseSchema, data, 'contradiction response');
+    console.log(`Contradiction detection found ${contradictions.length} conflicts`);
+    return contradictions;
+  }
+}
@@ -0,0 +1,155 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { PlannerResponse } from '@shared/contracts';
+import type { MonitorChanges } from '@shared/monitoring';
+import type { SearchProviderId } from '@shared/searchProviders';
+
+// Query key for the monitor list; run histories add the monitor id
+export const MONITORS_QUERY_KEY = ['research-monitors'];
+
+export interface ResearchMonitor {
+  id: string;
+  name: string;
+  question: string;
+  intervalDays: number;
+  maxIterations: number;
+  enabled: boolean;
+  nextRunAt: string;
+  lastRunAt: string | null;
+}
+
+export interface NewResearchMonitor {
+  name: string;
+  intervalDays: number;
+  maxIterations: number;
+  plan: PlannerResponse;
+  searchProviders: SearchProviderId[];
+  profileId: string | null;
+  competitorId: string | null;
+}
+
+export interface MonitorRun {
+  id: string;
+  sessionId: string;
+  sessionStatus: string | null;
+  // Null until the run's research has completed
+  changes: MonitorChanges | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+const MAX_LISTED_RUNS = 20;
+
+const toMonitor = (row: Tables<'research_monitors'>): ResearchMonitor => ({
+  id: row.id,
+  name: row.name,
+  question: row.question,
+  intervalDays: row.interval_days,
+  maxIterations: row.max_iterations,
+  enabled: row.enabled,
+  nextRunAt: row.next_run_at,
+  lastRunAt: row.last_run_at,
+});
+
+export class MonitorService {
+  static async listMonitors(): Promise<ResearchMonitor[]> {
+    const { data, error } = await supabase
+      .from('research_monitors')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error listing research monitors:', error);
+      throw new Error('Failed to list research monitors');
+    }
+
+    return data.map(toMonitor);
+  }
+
+  // The first run is scheduled one interval from now; "Run now" starts it earlier
+  static async createMonitor(monitor: NewResearchMonitor): Promise<ResearchMonitor> {
+    const { data, error } = await supabase
+      .from('research_monitors')
+      .insert({
+        name: monitor.name.trim(),
+        question: monitor.plan.originalQuestion,
+        plan: monitor.plan,
+        search_providers: monitor.searchProviders,
+        profile_id: monitor.profileId,
+        competitor_id: monitor.competitorId,
+        interval_days: monitor.intervalDays,
+        max_iterations: monitor.maxIterations,
+        next_run_at: new Date(Date.now() + monitor.intervalDays * 24 * 60 * 60 * 1000).toISOString(),
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error creating research monitor:', error);
+      throw new Error('Failed to create research monitor');
+    }
+
+    return toMonitor(data);
+  }
+
+  static async updateMonitor(monitorId: string, update: Partial<Pick<ResearchMonitor, 'enabled' | 'intervalDays'>>): Promise<void> {
+    const { error } = await supabase
+      .from('research_monitors')
+      .update({ enabled: update.enabled, interval_days: update.intervalDays })
+      .eq('id', monitorId);
+
+    if (error) {
+      console.error('Error updating research monitor:', error);
+      throw new Error('Failed to update research monitor');
+    }
+  }
+
+  static async deleteMonitor(monitorId: string): Promise<void> {
+    const { error } = await supabase
+      .from('research_monitors')
+      .delete()
+      .eq('id', monitorId);
+
+    if (error) {
+      console.error('Error deleting research monitor:', error);
+      throw new Error('Failed to delete research monitor');
+    }
+  }
+
+  static async listRuns(monitorId: string): Promise<MonitorRun[]> {
+    const { data, error } = await supabase
+      .from('research_monitor_runs')
+      .select('id, session_id, changes, created_at, completed_at, research_sessions!research_monitor_runs_session_id_fkey(status)')
+      .eq('monitor_id', monitorId)
+      .order('created_at', { ascending: false })
+      .limit(MAX_LISTED_RUNS);
+
+    if (error) {
+      console.error('Error listing monitor runs:', error);
+      throw new Error('Failed to list monitor runs');
+    }
+
+    return data.map(row => ({
+      id: row.id,
+      sessionId: row.session_id,
+      sessionStatus: row.research_sessions?.status ?? null,
+      changes: row.changes as unknown as MonitorChanges | null,
+      createdAt: row.created_at,
+      completedAt: row.completed_at,
+    }));
+  }
+
+  // Starts a run on the server right away; resolves to the new session id
+  static async runNow(monitorId: string): Promise<string> {
+    const { data, error } = await supabase.functions.invoke('run-monitors', {
+      body: { monitorId }
+    });
+
+    if (error || data?.error) {
+      console.error('Error starting monitor run:', error || data.error);
+      throw new Error('Failed to start monitor run');
+    }
+
+    return data.runs[0].sessionId;
+  }
+}
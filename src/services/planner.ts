@@ -1,23 +1,89 @@
 
 import { supabase } from "@/integrations/supabase/client";
+import { CompetitorSeed, PlannerResponse, PlannerResponseSchema, SearchTargetKind, parseContract } from "@shared/contracts";
 
-interface PlannerResponse {
-  intent: string;
-  searchFocus: string[];
-  informationGoals: string[];
-  originalQuestion: string;
-  context?: string;
+export type { PlannerResponse, SearchTargetKind } from "@shared/contracts";
+
+// A scheme, or a single token like "example.org/events", is scraped directly; anything else is searched
+export function guessTargetKind(target: string): SearchTargetKind {
+  return target.startsWith('http') || /^[\w-]+(\.[\w-]+)*\.[a-z]{2,}(\/\S*)?$/i.test(target.trim())
+    ? 'url'
+    : 'query';
+}
+
+export function getTargetKind(plan: PlannerResponse, target: string): SearchTargetKind {
+  return plan.targetKinds?.[target] ?? guessTargetKind(target);
 }
 
-export async function createPlannerResponse(question: string, context?: string): Promise<PlannerResponse> {
+export async function createPlannerResponse(
+  question: string,
+  context?: string,
+  keep?: Pick<PlannerResponse, 'searchFocus' | 'informationGoals'>,
+  competitor?: CompetitorSeed,
+  // The session the plan's model call is booked to
+  sessionId?: string | null
+): Promise<PlannerResponse> {
   const { data, error } = await supabase.functions.invoke('generate-research-plan', {
-    body: { question, context }
+    body: { question, context, keep, competitor, sessionId: sessionId ?? undefined }
   });
 
-  if (error) {
-    console.error('Error calling Supabase Edge Function:', error);
+  if (error || data?.error) {
+    console.error('Error calling Supabase Edge Function:', error || data.error);
     throw new Error('Failed to generate research plan');
   }
 
-  return data;
+  // Throws a ContractError naming the missing or malformed fields
+
+  return parseContract(PlannerResponseSchema, data, 'research plan');
+}
+
+// Regenerate a plan the analyst has edited: locked entries stay where they are,
+// unlocked ones are replaced by the new planner output
+export async function regeneratePlannerResponse(
+  current: PlannerResponse,
+  competitor?: CompetitorSeed,
+  sessionId?: string | null
+): Promise<PlannerResponse> {
+  const lockedSearchFocus = current.lockedSearchFocus ?? [];
+  const lockedInformationGoals = current.lockedInformationGoals ?? [];
+
+  const generated = await createPlannerResponse(current.originalQuestion, current.context, {
+    searchFocus: lockedSearchFocus,
+    informationGoals: lockedInformationGoals,
+  }, competitor, sessionId);
+
+  const searchFocus = mergeLockedItems(current.searchFocus, lockedSearchFocus, generated.searchFocus);
+  const targetKinds = Object.fromEntries(
+    Object.entries(current.targetKinds ?? {}).filter(([target]) => lockedSearchFocus.includes(target))
+  );
+
+  return {
+    ...generated,
+    originalQuestion: current.originalQuestion,
+    searchFocus,
+    informationGoals: mergeLockedItems(current.informationGoals, lockedInformationGoals, generated.informationGoals),
+    targetKinds,
+    lockedSearchFocus: lockedSearchFocus.filter(target => searchFocus.includes(target)),
+    lockedInformationGoals,
+  };
+}
+
+function mergeLockedItems(current: string[], locked: string[], generated: string[]): string[] {
+  const candidates = generated.filter(item => !locked.includes(item));
+  const merged: string[] = [];
+
+  for (const item of current) {
+    if (locked.includes(item)) {
+      merged.push(item);
+    } else if (candidates.length > 0) {
+      merged.push(candidates.shift() as string);
+    }
+  }
+
+  // The new plan may have more entries than the old one had
+  while (merged.length < generated.length && candidates.length > 0) {
+    merged.push(candidates.shift() as string);
+  }
+
+  return merged;
 }
@@ -0,0 +1,52 @@
+import { downloadFile, printHtml } from '@/lib/download';
+import {
+  DEFAULT_REPORT_TEMPLATE,
+  ReportInput,
+  ReportTemplate,
+  buildReport,
+  parseReportTemplate,
+  reportToHtml,
+  reportToMarkdown,
+} from '@shared/report';
+
+export type ReportFormat = 'markdown' | 'html' | 'pdf';
+
+const REPORT_TEMPLATE_STORAGE_KEY = 'report_template';
+
+// File names keep to the first words of the title
+function toFileName(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'research-report';
+}
+
+export class ReportService {
+  // The template last used in this browser
+  static getTemplate(): ReportTemplate {
+    try {
+      return parseReportTemplate(JSON.parse(localStorage.getItem(REPORT_TEMPLATE_STORAGE_KEY) || 'null'));
+    } catch {
+      return DEFAULT_REPORT_TEMPLATE;
+    }
+  }
+
+  static saveTemplate(template: ReportTemplate): void {
+    localStorage.setItem(REPORT_TEMPLATE_STORAGE_KEY, JSON.stringify(template));
+  }
+
+  // PDFs go through the browser's print dialog, which renders the HTML report
+  static exportReport(format: ReportFormat, input: ReportInput, template: ReportTemplate): void {
+    const report = buildReport(input, template);
+    const fileName = toFileName(report.title);
+
+    switch (format) {
+      case 'markdown':
+        downloadFile(`${fileName}.md`, reportToMarkdown(report), 'text/markdown;charset=utf-8');
+        break;
+      case 'html':
+        downloadFile(`${fileName}.html`, reportToHtml(report), 'text/html;charset=utf-8');
+        break;
+      case 'pdf':
+        printHtml(reportToHtml(report));
+        break;
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { LogEntry, ResearchSessionStatus } from './researchSessionService';
+import {
+  JOB_STEP_STATES,
+  Pipeline,
+  PipelineState,
+  PipelineStepRecord,
+  describeState,
+} from '@shared/pipeline';
+
+export type ResearchJob = Tables<'research_jobs'>;
+
+interface JobSubscriptionHandlers {
+  onJobChange: (job: ResearchJob) => void;
+  onLog: (entry: LogEntry) => void;
+}
+
+// Matches STALE_JOB_MS in the run-research Edge Function
+const STALE_JOB_MS = 180000;
+
+const JOB_STATUS_STATES: Partial<Record<ResearchJob['status'], PipelineState>> = {
+  completed: 'done',
+  failed: 'failed',
+  cancelled: 'cancelled',
+};
+
+export class ResearchJobService {
+  // Pass a failed or cancelled step record as `from` to retry just that step and what follows it
+  static async startJob(sessionId: string, maxIterations: number, from?: PipelineStepRecord): Promise<string> {
+    const { data, error } = await supabase.functions.invoke('run-research', {
+      body: {
+        action: 'start',
+        sessionId,
+        maxIterations,
+        fromStepId: from?.id,
+      }
+    });
+
+    if (error || data?.error) {
+      console.error('Error starting research job:', error || data.error);
+      throw new Error('Failed to start research job');
+    }
+
+    return data.jobId;
+  }
+
+  static async cancelJob(jobId: string): Promise<void> {
+    const { data, error } = await supabase.functions.invoke('run-research', {
+      body: { action: 'cancel', jobId }
+    });
+
+    if (error || data?.error) {
+      console.error('Error canceling research job:', error || data.error);
+      throw new Error('Failed to cancel research job');
+    }
+  }
+
+  static async resumeJob(jobId: string): Promise<void> {
+    const { data, error } = await supabase.functions.invoke('run-research', {
+      body: { action: 'resume', jobId }
+    });
+
+    if (error || data?.error) {
+      console.error('Error resuming research job:', error || data.error);
+      throw new Error('Failed to resume research job');
+    }
+  }
+
+  static async getJob(jobId: string): Promise<ResearchJob | null> {
+    const { data, error } = await supabase
+      .from('research_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading research job:', error);
+      throw new Error('Failed to load research job');
+    }
+
+    return data;
+  }
+
+  static async getActiveJob(sessionId: string): Promise<ResearchJob | null> {
+    const { data, error } = await supabase
+      .from('research_jobs')
+      .select('*')
+      .eq('session_id', sessionId)
+      .in('status', ['queued', 'running'])
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading active research job:', error);
+      throw new Error('Failed to load research job');
+    }
+
+    return data;
+  }
+
+  static isActive(job: ResearchJob): boolean {
+    return job.status === 'queued' || job.status === 'running';
+  }
+
+  // Whether an update moves the job on; heartbeats and retry counts alone do not
+  static isSameProgress(a: ResearchJob, b: ResearchJob): boolean {
+    return a.id === b.id && a.step === b.step && a.iteration === b.iteration && a.status === b.status;
+  }
+
+  static isStale(job: ResearchJob): boolean {
+    if (!job.heartbeat_at) return Date.now() - new Date(job.created_at).getTime() > STALE_JOB_MS;
+    return Date.now() - new Date(job.heartbeat_at).getTime() > STALE_JOB_MS;
+  }
+
+  // The job's position as a pipeline, with the step records stored for its session
+  static toPipeline(job: ResearchJob, steps: PipelineStepRecord[]): Pipeline {
+    return {
+      state: JOB_STATUS_STATES[job.status] ?? JOB_STEP_STATES[job.step],
+      iteration: job.iteration,
+      steps,
+    };
+  }
+
+  // The session status a job leaves behind; the session row itself is updated a moment later
+  static sessionStatus(job: ResearchJob): ResearchSessionStatus {
+    return job.status === 'queued' || job.status === 'running' ? 'researching' : job.status;
+  }
+
+  static describeStep(job: ResearchJob): string {
+    return `Iteration ${job.iteration}/${job.max_iterations}: ${describeState(JOB_STEP_STATES[job.step])}`;
+  }
+
+  // Listen for job updates and new log lines written by the server for a session
+  static subscribe(sessionId: string, handlers: JobSubscriptionHandlers): () => void {
+    const channel = supabase
+      .channel(`research-session-${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'research_jobs', filter: `session_id=eq.${sessionId}` },
+        (payload) => {
+          if (payload.new && 'id' in payload.new) {
+            handlers.onJobChange(payload.new as ResearchJob);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'research_logs', filter: `session_id=eq.${sessionId}` },
+        (payload) => {
+          const log = payload.new as Tables<'research_logs'>;
+          handlers.onLog({
+            message: log.message,
+            timestamp: new Date(log.created_at),
+            type: log.type,
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+}
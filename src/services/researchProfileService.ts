@@ -0,0 +1,80 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { ResearchProfile } from '@shared/researchProfiles';
+
+// Query key for the profile list shown on the research page
+export const RESEARCH_PROFILES_QUERY_KEY = ['research-profiles'];
+
+const SELECTED_PROFILE_STORAGE_KEY = 'research_profile_id';
+
+const toProfile = (row: Tables<'research_profiles'>): ResearchProfile => ({
+  id: row.id,
+  name: row.name,
+  fallbackSources: row.fallback_sources,
+  country: row.country,
+  language: row.language,
+  dateWindowMonths: row.date_window_months,
+});
+
+export class ResearchProfileService {
+  static async listProfiles(): Promise<ResearchProfile[]> {
+    const { data, error } = await supabase
+      .from('research_profiles')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error listing research profiles:', error);
+      throw new Error('Failed to list research profiles');
+    }
+
+    return data.map(toProfile);
+  }
+
+  // Inserts a profile without an id, updates the stored one otherwise
+  static async saveProfile(profile: ResearchProfile): Promise<ResearchProfile> {
+    const row = {
+      name: profile.name.trim(),
+      fallback_sources: profile.fallbackSources,
+      country: profile.country,
+      language: profile.language,
+      date_window_months: profile.dateWindowMonths,
+    };
+
+    const { data, error } = profile.id
+      ? await supabase.from('research_profiles').update(row).eq('id', profile.id).select('*').single()
+      : await supabase.from('research_profiles').insert(row).select('*').single();
+
+    if (error) {
+      console.error('Error saving research profile:', error);
+      throw new Error('Failed to save research profile');
+    }
+
+    return toProfile(data);
+  }
+
+  static async deleteProfile(profileId: string): Promise<void> {
+    const { error } = await supabase
+      .from('research_profiles')
+      .delete()
+      .eq('id', profileId);
+
+    if (error) {
+      console.error('Error deleting research profile:', error);
+      throw new Error('Failed to delete research profile');
+    }
+  }
+
+  // Which profile new sessions start with: the last one picked in this browser
+  static getDefaultProfileId(): string | null {
+    return localStorage.getItem(SELECTED_PROFILE_STORAGE_KEY);
+  }
+
+  static saveDefaultProfileId(profileId: string | null): void {
+    if (profileId) {
+      localStorage.setItem(SELECTED_PROFILE_STORAGE_KEY, profileId);
+    } else {
+      localStorage.removeItem(SELECTED_PROFILE_STORAGE_KEY);
+    }
+  }
+}
@@ -0,0 +1,539 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { PlannerResponse } from './planner';
+import type { CleanerResponse, Contradiction, ContradictionClaim, ResearchIteration, ScrapingResult, SessionDocument } from '@shared/contracts';
+import type { PipelineStepRecord } from '@shared/pipeline';
+import { SearchProviderId, isSearchProviderId } from '@shared/searchProviders';
+import { buildSessionDocument } from '@shared/sessionExport';
+import { toContradictionArgs } from '@shared/contradictions';
+
+export type ResearchSessionStatus = Database['public']['Enums']['research_session_status'];
+
+export interface LogEntry {
+  message: string;
+  timestamp: Date;
+  type: 'info' | 'warning' | 'error' | 'success';
+}
+
+export type { ResearchIteration } from '@shared/contracts';
+
+export interface ResearchSessionSnapshot {
+  id: string;
+  question: string;
+  title: string | null;
+  status: ResearchSessionStatus;
+  currentIteration: number;
+  analysisText: string | null;
+  searchProviders: SearchProviderId[];
+  profileId: string | null;
+  competitorId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  plan: PlannerResponse | null;
+  iterations: ResearchIteration[];
+  results: ScrapingResult[];
+  insights: CleanerResponse | null;
+  contradictions: Contradiction[];
+  logs: LogEntry[];
+  steps: PipelineStepRecord[];
+}
+
+export interface ResearchSessionSummary {
+  id: string;
+  question: string;
+  title: string | null;
+  pinned: boolean;
+  status: ResearchSessionStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Query key shared by the history sidebar and anything that changes the session list
+export const RESEARCH_SESSIONS_QUERY_KEY = ['research-sessions'];
+
+const MAX_LISTED_SESSIONS = 200;
+
+interface SessionUpdate {
+  question?: string;
+  status?: ResearchSessionStatus;
+  currentIteration?: number;
+  analysisText?: string | null;
+  searchProviders?: SearchProviderId[];
+  profileId?: string | null;
+  competitorId?: string | null;
+}
+
+export class ResearchSessionService {
+  static async createSession(
+    question: string,
+    searchProviders?: SearchProviderId[],
+    profileId?: string | null,
+    competitorId?: string | null
+  ): Promise<string> {
+    const { data, error } = await supabase
+      .from('research_sessions')
+      .insert({ question, search_providers: searchProviders, profile_id: profileId, competitor_id: competitorId })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error creating research session:', error);
+      throw new Error('Failed to create research session');
+    }
+
+    return data.id;
+  }
+
+  static async listSessions(): Promise<ResearchSessionSummary[]> {
+    const { data, error } = await supabase
+      .from('research_sessions')
+      .select('id, question, title, pinned, status, created_at, updated_at')
+      .order('pinned', { ascending: false })
+      .order('updated_at', { ascending: false })
+      .limit(MAX_LISTED_SESSIONS);
+
+    if (error) {
+      console.error('Error listing research sessions:', error);
+      throw new Error('Failed to list research sessions');
+    }
+
+    return data.map(session => ({
+      id: session.id,
+      question: session.question,
+      title: session.title,
+      pinned: session.pinned,
+      status: session.status,
+      createdAt: session.created_at,
+      updatedAt: session.updated_at,
+    }));
+  }
+
+  static async renameSession(sessionId: string, title: string): Promise<void> {
+    const { error } = await supabase
+      .from('research_sessions')
+      .update({ title: title.trim() || null })
+      .eq('id', sessionId);
+
+    if (error) {
+      console.error('Error renaming research session:', error);
+      throw new Error('Failed to rename research session');
+    }
+  }
+
+  static async setPinned(sessionId: string, pinned: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('research_sessions')
+      .update({ pinned })
+      .eq('id', sessionId);
+
+    if (error) {
+      console.error('Error pinning research session:', error);
+      throw new Error('Failed to update research session');
+    }
+  }
+
+  // Start a fresh session from an existing question and its settings; plans and results are not copied
+  static async duplicateSession(sessionId: string): Promise<string> {
+    const { data: source, error } = await supabase
+      .from('research_sessions')
+      .select('question, search_providers, profile_id, competitor_id')
+      .eq('id', sessionId)
+      .single();
+
+    if (error) {
+      console.error('Error reading research session to duplicate:', error);
+      throw new Error('Failed to duplicate research session');
+    }
+
+    return this.createSession(
+      source.question,
+      source.search_providers.filter(isSearchProviderId),
+      source.profile_id,
+      source.competitor_id
+    );
+  }
+
+  static async exportSession(sessionId: string): Promise<SessionDocument> {
+    const snapshot = await this.loadSession(sessionId);
+    if (!snapshot) {
+      throw new Error('Research session not found');
+    }
+    return buildSessionDocument(snapshot, new Date());
+  }
+
+  // Restores an exported session as a new one; pipeline step records are not part of the export
+  static async importSession(document: SessionDocument): Promise<string> {
+    const { profileId, competitorId } = await this.findImportedLinks(document);
+    const sessionId = await this.createSession(
+      document.session.question,
+      document.session.searchProviders.filter(isSearchProviderId),
+      profileId,
+      competitorId
+    );
+
+    // A session that could only be restored in part would sit in the history as if it were complete
+    try {
+      await this.restoreSession(sessionId, document);
+    } catch (error) {
+      await this.deleteSession(sessionId).catch(deleteError => {
+        console.error('Error removing partly imported research session:', deleteError);
+      });
+      throw error;
+    }
+
+    return sessionId;
+  }
+
+  // Files exported from another project may name profiles or competitors that do not exist here
+  private static async findImportedLinks(document: SessionDocument): Promise<{ profileId: string | null; competitorId: string | null }> {
+    const { profileId, competitorId } = document.session;
+    const [profile, competitor] = await Promise.all([
+      profileId
+        ? supabase.from('research_profiles').select('id').eq('id', profileId).maybeSingle()
+        : { data: null, error: null },
+      competitorId
+        ? supabase.from('competitors').select('id').eq('id', competitorId).maybeSingle()
+        : { data: null, error: null },
+    ]);
+
+    const failed = [profile, competitor].find(response => response.error);
+    if (failed) {
+      console.error('Error checking imported session links:', failed.error);
+      throw new Error('Failed to import research session');
+    }
+
+    return { profileId: profile.data?.id ?? null, competitorId: competitor.data?.id ?? null };
+  }
+
+  private static async restoreSession(sessionId: string, document: SessionDocument): Promise<void> {
+    if (document.session.title) {
+      await this.renameSession(sessionId, document.session.title);
+    }
+    await this.updateSession(sessionId, {
+      status: document.insights ? 'completed' : document.plan ? 'planned' : 'draft',
+      currentIteration: document.session.currentIteration,
+      analysisText: document.session.analysisText,
+    });
+
+    if (document.plan) {
+      await this.savePlan(sessionId, document.plan);
+    }
+    for (const [index, iteration] of document.iterations.entries()) {
+      await this.saveIteration(sessionId, index + 1, { ...iteration, results: [] });
+    }
+    const iterationNumbers = [...new Set(document.sources.map(source => source.iteration))];
+    for (const iterationNumber of iterationNumbers) {
+      await this.saveSources(
+        sessionId,
+        iterationNumber,
+        document.sources.filter(source => source.iteration === iterationNumber).map(({ iteration: _, ...result }) => result)
+      );
+    }
+    if (document.insights) {
+      await this.saveInsights(sessionId, document.insights);
+    }
+    await this.saveContradictions(sessionId, document.contradictions);
+    for (const contradiction of document.contradictions) {
+      if (contradiction.resolution) {
+        await this.resolveContradiction(sessionId, contradiction.subjectKey, contradiction.resolution);
+      }
+    }
+
+    if (document.logs.length > 0) {
+      const { error } = await supabase
+        .from('research_logs')
+        .insert(document.logs.map(log => ({
+          session_id: sessionId,
+          message: log.message,
+          type: log.type,
+          created_at: log.timestamp,
+        })));
+
+      if (error) {
+        console.error('Error importing research logs:', error);
+        throw new Error('Failed to import research session');
+      }
+    }
+  }
+
+  static async deleteSession(sessionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('research_sessions')
+      .delete()
+      .eq('id', sessionId);
+
+    if (error) {
+      console.error('Error deleting research session:', error);
+      throw new Error('Failed to delete research session');
+    }
+  }
+
+  static async updateSession(sessionId: string, update: SessionUpdate): Promise<void> {
+    const { error } = await supabase
+      .from('research_sessions')
+      .update({
+        question: update.question,
+        status: update.status,
+        current_iteration: update.currentIteration,
+        analysis_text: update.analysisText,
+        search_providers: update.searchProviders,
+        profile_id: update.profileId,
+        competitor_id: update.competitorId,
+      })
+      .eq('id', sessionId);
+
+    if (error) {
+      console.error('Error updating research session:', error);
+      throw new Error('Failed to update research session');
+    }
+  }
+
+  static async savePlan(sessionId: string, plan: PlannerResponse): Promise<void> {
+    const { error } = await supabase
+      .from('research_plans')
+      .upsert({
+        session_id: sessionId,
+        intent: plan.intent,
+        search_focus: plan.searchFocus,
+        information_goals: plan.informationGoals,
+        original_question: plan.originalQuestion,
+        context: plan.context ?? null,
+        target_kinds: plan.targetKinds ?? {},
+        locked_search_focus: plan.lockedSearchFocus ?? [],
+        locked_information_goals: plan.lockedInformationGoals ?? [],
+      }, { onConflict: 'session_id' });
+
+    if (error) {
+      console.error('Error saving research plan:', error);
+      throw new Error('Failed to save research plan');
+    }
+  }
+
+  // Iteration rows only hold the targets and analysis; results are stored as sources
+  static async saveIteration(sessionId: string, iterationNumber: number, iteration: ResearchIteration): Promise<void> {
+    const { error } = await supabase
+      .from('research_iterations')
+      .upsert({
+        session_id: sessionId,
+        iteration_number: iterationNumber,
+        targets: iteration.targets,
+        analysis: iteration.analysis ?? null,
+        extraction_focus: iteration.extractionFocus ?? null,
+      }, { onConflict: 'session_id,iteration_number' });
+
+    if (error) {
+      console.error('Error saving research iteration:', error);
+      throw new Error('Failed to save research iteration');
+    }
+  }
+
+  static async saveSources(sessionId: string, iterationNumber: number | null, results: ScrapingResult[]): Promise<void> {
+    if (results.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('research_sources')
+      .insert(results.map(result => ({
+        session_id: sessionId,
+        iteration_number: iterationNumber,
+        url: result.url,
+        content: result.content,
+        metadata: (result.metadata || {}) as Json,
+        search_query: result.searchQuery ?? null,
+      })));
+
+    if (error) {
+      console.error('Error saving research sources:', error);
+      throw new Error('Failed to save research sources');
+    }
+  }
+
+  static async saveInsights(sessionId: string, insights: CleanerResponse): Promise<void> {
+    const { error } = await supabase
+      .from('research_insights')
+      .upsert({
+        session_id: sessionId,
+        structured_insights: insights.structuredInsights || {},
+        relevant_findings: insights.relevantFindings || [],
+        suggested_next_steps: insights.suggestedNextSteps || [],
+        analysis: insights.analysis ?? null,
+        source_coverage: insights.sourceCoverage || [],
+        events: insights.events || [],
+      }, { onConflict: 'session_id' });
+
+    if (error) {
+      console.error('Error saving research insights:', error);
+      throw new Error('Failed to save research insights');
+    }
+  }
+
+  // Re-detection refreshes the claims but keeps the analyst's picks; unresolved subjects that disappeared are dropped
+  static async saveContradictions(sessionId: string, contradictions: Contradiction[]): Promise<void> {
+    const { error } = await supabase.rpc('save_research_contradictions', toContradictionArgs(sessionId, contradictions));
+
+    if (error) {
+      console.error('Error saving research contradictions:', error);
+      throw new Error('Failed to save research contradictions');
+    }
+  }
+
+  static async resolveContradiction(sessionId: string, subjectKey: string, claim: ContradictionClaim | null): Promise<void> {
+    const { error } = await supabase
+      .from('research_contradictions')
+      .update({
+        resolution: claim,
+        resolved_at: claim ? new Date().toISOString() : null,
+      })
+      .eq('session_id', sessionId)
+      .eq('subject_key', subjectKey);
+
+    if (error) {
+      console.error('Error resolving research contradiction:', error);
+      throw new Error('Failed to resolve research contradiction');
+    }
+  }
+
+  static async appendLog(sessionId: string, entry: LogEntry): Promise<void> {
+    const { error } = await supabase
+      .from('research_logs')
+      .insert({
+        session_id: sessionId,
+        message: entry.message,
+        type: entry.type,
+        created_at: entry.timestamp.toISOString(),
+      });
+
+    if (error) {
+      console.error('Error saving research log entry:', error);
+      throw new Error('Failed to save research log entry');
+    }
+  }
+
+  // Step records are written when a step starts and updated once it settles
+  static async saveStep(sessionId: string, record: PipelineStepRecord): Promise<void> {
+    const { error } = await supabase
+      .from('research_pipeline_steps')
+      .upsert({
+        id: record.id,
+        session_id: sessionId,
+        iteration: record.iteration,
+        step: record.step,
+        status: record.status,
+        input: record.input as Json,
+        output: (record.output ?? null) as Json,
+        error: record.error ?? null,
+        started_at: record.startedAt,
+        finished_at: record.finishedAt ?? null,
+      }, { onConflict: 'id' });
+
+    if (error) {
+      console.error('Error saving research pipeline step:', error);
+      throw new Error('Failed to save research pipeline step');
+    }
+  }
+
+  // Load everything stored for a session so the research page can be rehydrated
+  static async loadSession(sessionId: string): Promise<ResearchSessionSnapshot | null> {
+    const { data: session, error } = await supabase
+      .from('research_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading research session:', error);
+      throw new Error('Failed to load research session');
+    }
+
+    if (!session) {
+      return null;
+    }
+
+    const [plan, iterations, sources, insights, contradictions, logs, steps] = await Promise.all([
+      supabase.from('research_plans').select('*').eq('session_id', sessionId).maybeSingle(),
+      supabase.from('research_iterations').select('*').eq('session_id', sessionId).order('iteration_number'),
+      supabase.from('research_sources').select('*').eq('session_id', sessionId).order('created_at'),
+      supabase.from('research_insights').select('*').eq('session_id', sessionId).maybeSingle(),
+      supabase.from('research_contradictions').select('*').eq('session_id', sessionId).order('created_at'),
+      supabase.from('research_logs').select('*').eq('session_id', sessionId).order('created_at').order('id'),
+      supabase.from('research_pipeline_steps').select('*').eq('session_id', sessionId).order('started_at'),
+    ]);
+
+    const failed = [plan, iterations, sources, insights, contradictions, logs, steps].find(response => response.error);
+    if (failed) {
+      console.error('Error loading research session details:', failed.error);
+      throw new Error('Failed to load research session');
+    }
+
+    const results: ScrapingResult[] = sources.data.map(source => ({
+      url: source.url,
+      content: source.content,
+      metadata: source.metadata as ScrapingResult['metadata'],
+      searchQuery: source.search_query ?? undefined,
+    }));
+
+    return {
+      id: session.id,
+      question: session.question,
+      title: session.title,
+      status: session.status,
+      currentIteration: session.current_iteration,
+      analysisText: session.analysis_text,
+      searchProviders: session.search_providers.filter(isSearchProviderId),
+      profileId: session.profile_id,
+      competitorId: session.competitor_id,
+      createdAt: session.created_at,
+      updatedAt: session.updated_at,
+      plan: plan.data ? {
+        intent: plan.data.intent,
+        searchFocus: plan.data.search_focus as string[],
+        informationGoals: plan.data.information_goals as string[],
+        originalQuestion: plan.data.original_question,
+        context: plan.data.context ?? undefined,
+        targetKinds: plan.data.target_kinds as PlannerResponse['targetKinds'],
+        lockedSearchFocus: plan.data.locked_search_focus as string[],
+        lockedInformationGoals: plan.data.locked_information_goals as string[],
+      } : null,
+      iterations: iterations.data.map(iteration => ({
+        targets: iteration.targets as string[],
+        results: results.filter((_, index) => sources.data[index].iteration_number === iteration.iteration_number),
+        analysis: iteration.analysis ?? undefined,
+        extractionFocus: iteration.extraction_focus ?? undefined,
+      })),
+      results,
+      insights: insights.data ? {
+        structuredInsights: insights.data.structured_insights as CleanerResponse['structuredInsights'],
+        relevantFindings: insights.data.relevant_findings as string[],
+        suggestedNextSteps: insights.data.suggested_next_steps as string[],
+        analysis: insights.data.analysis ?? '',
+        sourceCoverage: insights.data.source_coverage as CleanerResponse['sourceCoverage'],
+        events: insights.data.events as CleanerResponse['events'],
+      } : null,
+      contradictions: contradictions.data.map(contradiction => ({
+        subjectKey: contradiction.subject_key,
+        subject: contradiction.subject,
+        summary: contradiction.summary ?? undefined,
+        claims: contradiction.claims as unknown as ContradictionClaim[],
+        resolution: contradiction.resolution as unknown as ContradictionClaim | null,
+        resolvedAt: contradiction.resolved_at,
+      })),
+      logs: logs.data.map(log => ({
+        message: log.message,
+        timestamp: new Date(log.created_at),
+        type: log.type,
+      })),
+      steps: steps.data.map(step => ({
+        id: step.id,
+        step: step.step,
+        iteration: step.iteration,
+        status: step.status,
+        input: step.input as Record<string, unknown>,
+        output: (step.output ?? undefined) as Record<string, unknown> | undefined,
+        error: step.error ?? undefined,
+        startedAt: step.started_at,
+        finishedAt: step.finished_at ?? undefined,
+      })),
+    };
+  }
+}
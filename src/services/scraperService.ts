@@ -0,0 +1,114 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { ApiKeyService } from '@/services/apiKeyService';
+import { abortable } from '@shared/abort';
+import { isProviderAvailable } from '@shared/apiKeys';
+import { RateLimitError, RateLimiter, createRateLimiter } from '@shared/rateLimit';
+import {
+  SCRAPER_RATE_LIMITS,
+  ScrapedPage,
+  ScraperId,
+  ScraperPreference,
+  createBuiltinScraper,
+  isScraperPreference,
+} from '@shared/scrapers';
+import type { UsageScope } from '@shared/usage';
+
+export interface ScrapeResponse {
+  success: boolean;
+  error?: string;
+  data?: ScrapedPage;
+}
+
+const PREFERENCE_STORAGE_KEY = 'scraper_preference';
+
+const builtinScraper = createBuiltinScraper();
+
+// One limiter per scraper, shared by every research running in this browser
+const crawlLimiters: Record<ScraperId, RateLimiter> = {
+  firecrawl: createRateLimiter(SCRAPER_RATE_LIMITS.firecrawl),
+  builtin: createRateLimiter(SCRAPER_RATE_LIMITS.builtin),
+};
+
+export class ScraperService {
+  static getPreference(): ScraperPreference {
+    const stored = localStorage.getItem(PREFERENCE_STORAGE_KEY);
+    return isScraperPreference(stored) ? stored : 'auto';
+  }
+
+  static savePreference(preference: ScraperPreference): void {
+    localStorage.setItem(PREFERENCE_STORAGE_KEY, preference);
+    console.log(`Scraper preference saved: ${preference}`);
+  }
+
+  // The backend research in this browser will use right now. FireCrawl needs a key in the workspace
+  // or the project; without one research falls back on the built-in scraper, like resolveScraperId
+  static async getActiveScraper(): Promise<ScraperId> {
+    if (this.getPreference() === 'builtin') {
+      return 'builtin';
+    }
+    return isProviderAvailable('firecrawl', await ApiKeyService.getOverview()) ? 'firecrawl' : 'builtin';
+  }
+
+  // The scope books pages scraped through scrape-page to the research's session and iteration
+  static async scrape(url: string, timeoutMs: number, signal?: AbortSignal, scope: UsageScope = {}): Promise<ScrapeResponse> {
+    if (await this.getActiveScraper() === 'firecrawl') {
+      try {
+        const page = await crawlLimiters.firecrawl.run(() => this.scrapeRemotely('firecrawl', url, timeoutMs, signal, scope));
+        return { success: true, data: page ?? { url, content: '', metadata: { scraper: 'firecrawl' } } };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    return this.scrapeBuiltin(url, timeoutMs, signal, scope);
+  }
+
+  private static async scrapeBuiltin(url: string, timeoutMs: number, signal: AbortSignal | undefined, scope: UsageScope): Promise<ScrapeResponse> {
+    try {
+      const page = await crawlLimiters.builtin.run(() => this.fetchBuiltin(url, timeoutMs, signal, scope));
+      return page ? { success: true, data: page } : { success: false, error: 'No readable content' };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Fetch directly first, which reaches local servers and CORS-enabled sites; everything else goes through
+  // scrape-page, which serves and fills the shared scrape cache
+  private static async fetchBuiltin(url: string, timeoutMs: number, signal: AbortSignal | undefined, scope: UsageScope): Promise<ScrapedPage | null> {
+    try {
+      return await builtinScraper.scrape(url, { timeoutMs, signal });
+    } catch (error) {
+      if (!(error instanceof TypeError)) {
+        throw error;
+      }
+      console.log(`Direct fetch of ${url} was blocked, scraping through the scrape-page function`);
+    }
+
+    return this.scrapeRemotely('builtin', url, timeoutMs, signal, scope);
+  }
+
+  // FireCrawl always runs in scrape-page, since its key never leaves the server
+  private static async scrapeRemotely(
+    scraper: ScraperId,
+    url: string,
+    timeoutMs: number,
+    signal: AbortSignal | undefined,
+    scope: UsageScope
+  ): Promise<ScrapedPage | null> {
+    const { data, error } = await abortable(supabase.functions.invoke('scrape-page', {
+      body: { url, timeoutMs, scraper, ...scope }
+    }), signal);
+
+    if (error instanceof FunctionsHttpError && error.context?.status === 429) {
+      const body = await error.context.json().catch(() => ({}));
+      throw new RateLimitError(body.error || `Rate limit hit fetching ${url}`, body.retryAfterMs ?? null);
+    }
+    if (error || data?.error) {
+      console.error(`Error scraping ${url} through scrape-page:`, error || data.error);
+      throw new Error(data?.error || error?.message || 'Failed to scrape page');
+    }
+
+    return data.page;
+  }
+}
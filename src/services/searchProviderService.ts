@@ -0,0 +1,80 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ApiKeyService } from '@/services/apiKeyService';
+import { ApiKeyOverview, isApiKeyProvider, isProviderAvailable } from '@shared/apiKeys';
+import { abortable } from '@shared/abort';
+import { ResearchProfile } from '@shared/researchProfiles';
+import {
+  DEFAULT_SEARCH_PROVIDERS,
+  SearchProviderId,
+  SEARCH_PROVIDER_IDS,
+  isProviderConfigured,
+} from '@shared/searchProviders';
+import type { UsageScope } from '@shared/usage';
+
+const SELECTED_PROVIDERS_STORAGE_KEY = 'search_providers';
+
+// Searches run in the search-web Edge Function with the workspace's keys and the project's SearXNG instance
+export class SearchProviderService {
+  // Providers with a key need one in the workspace or the project; SearXNG an instance configured on the server
+  static isConfigured(provider: SearchProviderId, keys: ApiKeyOverview): boolean {
+    if (isApiKeyProvider(provider)) {
+      return isProviderAvailable(provider, keys);
+    }
+    return provider === 'searxng' ? keys.searxngConfigured : isProviderConfigured(provider, {});
+  }
+
+  // Which providers new sessions start with: the last selection made in this browser
+  static getDefaultProviders(): SearchProviderId[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SELECTED_PROVIDERS_STORAGE_KEY) || 'null');
+      const providers = Array.isArray(stored) ? stored.filter(id => SEARCH_PROVIDER_IDS.includes(id)) : [];
+      return providers.length > 0 ? providers : DEFAULT_SEARCH_PROVIDERS;
+    } catch {
+      return DEFAULT_SEARCH_PROVIDERS;
+    }
+  }
+
+  static saveDefaultProviders(providers: SearchProviderId[]): void {
+    localStorage.setItem(SELECTED_PROVIDERS_STORAGE_KEY, JSON.stringify(providers));
+  }
+
+  static async hasAvailableProvider(providers: SearchProviderId[]): Promise<boolean> {
+    const keys = await ApiKeyService.getOverview();
+    return providers.some(provider => this.isConfigured(provider, keys));
+  }
+
+  // Search every selected provider that is configured and merge their links
+  static async getTopSearchUrls(
+    query: string,
+    providers: SearchProviderId[],
+    profile: ResearchProfile,
+    signal?: AbortSignal,
+    scope: UsageScope = {}
+  ): Promise<string[]> {
+    console.log(`Searching ${providers.join(', ')} for: "${query}"`);
+    const { data, error } = await abortable(supabase.functions.invoke('search-web', {
+      body: { query, providers, profile, ...scope }
+    }), signal);
+
+    if (error || data?.error) {
+      console.error('Error searching through search-web:', error || data.error);
+      throw new Error(data?.error || error?.message || 'Failed to search');
+    }
+
+    const urls: string[] = data.urls ?? [];
+    if (urls.length > 0) {
+      console.log(`Search returned ${urls.length} unique URLs for query: "${query}"`);
+      return urls;
+    }
+
+    // For site: queries, extract the domain and return it as a direct URL
+    if (query.startsWith('site:')) {
+      const domain = query.split('site:')[1].split(' ')[0];
+      console.log(`Falling back to direct domain from site: query: ${domain}`);
+      return [`https://${domain}`];
+    }
+
+    console.warn('All search providers came back empty, returning empty array');
+    return [];
+  }
+}
@@ -0,0 +1,51 @@
+import { downloadFile } from '@/lib/download';
+import { ResearchSessionService } from './researchSessionService';
+import type { CleanerResponse, ResearchIteration, ScrapingResult } from '@shared/contracts';
+import { buildFactRows, factRowsToCsv, factRowsToXlsx, parseSessionDocument } from '@shared/sessionExport';
+
+export type FactExportFormat = 'csv' | 'xlsx';
+
+function toFileName(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'research';
+}
+
+export class SessionExportService {
+  static exportFacts(
+    format: FactExportFormat,
+    title: string,
+    insights: CleanerResponse,
+    iterations: ResearchIteration[],
+    results: ScrapingResult[]
+  ): void {
+    const rows = buildFactRows(insights.structuredInsights, iterations, results);
+    const fileName = `${toFileName(title)}-facts`;
+
+    if (format === 'csv') {
+      // The byte order mark makes Excel read the file as UTF-8
+      downloadFile(`${fileName}.csv`, `\uFEFF${factRowsToCsv(rows)}`, 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(`${fileName}.xlsx`, factRowsToXlsx(rows), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    }
+  }
+
+  static async exportSession(sessionId: string): Promise<void> {
+    const document = await ResearchSessionService.exportSession(sessionId);
+    downloadFile(
+      `${toFileName(document.session.title || document.session.question)}.json`,
+      JSON.stringify(document, null, 2),
+      'application/json'
+    );
+  }
+
+  // Resolves to the id of the restored session
+  static async importSession(file: File): Promise<string> {
+    let document;
+    try {
+      document = parseSessionDocument(JSON.parse(await file.text()));
+    } catch (error) {
+      console.error('Error reading session file:', error);
+      throw new Error(error instanceof SyntaxError ? 'The file is not valid JSON' : error.message);
+    }
+    return ResearchSessionService.importSession(document);
+  }
+}
@@ -0,0 +1,83 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { UsageBreakdown, UsageKind, UsageRecord, summarizeUsage } from '@shared/usage';
+
+// Query key for usage; a session's usage adds the session id, the monthly totals add 'monthly'
+export const USAGE_QUERY_KEY = ['research-usage'];
+
+export interface MonthlyUsage {
+  // The first day of the month
+  month: string;
+  // Usage of the workspace shared by everyone who is not signed in
+  shared: boolean;
+  usage: UsageBreakdown;
+}
+
+const MAX_LISTED_MONTHS = 12;
+
+const toRecord = (row: Tables<'research_usage'>): UsageRecord => ({
+  kind: row.kind as UsageKind,
+  provider: row.provider,
+  model: row.model,
+  step: row.step,
+  inputTokens: row.input_tokens,
+  outputTokens: row.output_tokens,
+  units: row.units,
+  iteration: row.iteration,
+  costUsd: row.cost_usd,
+});
+
+// The Edge Functions record usage with the service role; row level security limits reading it
+// to the caller's workspace and the shared one
+export class UsageService {
+  static async getSessionUsage(sessionId: string): Promise<UsageRecord[]> {
+    const { data, error } = await supabase
+      .from('research_usage')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading research usage:', error);
+      throw new Error('Failed to load research usage');
+    }
+
+    return data.map(toRecord);
+  }
+
+  // Newest month first; every month and workspace gets its own breakdown
+  static async getMonthlyUsage(): Promise<MonthlyUsage[]> {
+    const { data, error } = await supabase
+      .from('research_usage_monthly')
+      .select('*')
+      .order('month', { ascending: false });
+
+    if (error) {
+      console.error('Error loading monthly research usage:', error);
+      throw new Error('Failed to load monthly research usage');
+    }
+
+    const months = new Map<string, { month: string; shared: boolean; records: UsageRecord[] }>();
+    for (const row of data) {
+      if (!row.month || !row.kind || !row.provider) continue;
+      const key = `${row.month}:${row.user_id ?? ''}`;
+      const month = months.get(key) ?? { month: row.month, shared: !row.user_id, records: [] };
+      month.records.push({
+        kind: row.kind as UsageKind,
+        provider: row.provider,
+        model: row.model,
+        step: null,
+        inputTokens: row.input_tokens ?? 0,
+        outputTokens: row.output_tokens ?? 0,
+        units: row.units ?? 0,
+        iteration: null,
+        costUsd: row.cost_usd ?? 0,
+      });
+      months.set(key, month);
+    }
+
+    return [...months.values()]
+      .slice(0, MAX_LISTED_MONTHS)
+      .map(({ month, shared, records }) => ({ month, shared, usage: summarizeUsage(records) }));
+  }
+}
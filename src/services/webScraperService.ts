@@ -1,236 +1,182 @@
 
 import { FirecrawlService } from '../utils/FirecrawlService';
-import { SerpApiService } from '../utils/SerpApiService';
-
-export interface ScrapingResult {
-  url: string;
-  content: string;
-  metadata?: Record<string, any>;
-  searchQuery?: string; // Track which search query produced this result
-}
-
-// Industry sources as fallbacks
-const INDUSTRY_SPECIFIC_SOURCES = [
-  "https://www.gronalund.com/en/",
-  "https://www.visitstockholm.com/places/gronalund/",
-  "https://www.ticketmaster.se/venue/gronalund-tickets/146593",
-];
+import { ScraperService } from './scraperService';
+import { SearchProviderService } from './searchProviderService';
+import type { ResolvedTarget } from '@shared/pipeline';
+import { SearchTargetKind, guessTargetKind } from './planner';
+import { DEFAULT_SEARCH_PROVIDERS, SearchProviderId } from '@shared/searchProviders';
+import { SCRAPER_RATE_LIMITS } from '@shared/scrapers';
+import { runPool } from '@shared/rateLimit';
+import { throwIfAborted } from '@shared/abort';
+import { DEFAULT_RESEARCH_PROFILE, ResearchProfile, getProfileDateWindow } from '@shared/researchProfiles';
+import type { ScrapingResult } from '@shared/contracts';
+import type { UsageScope } from '@shared/usage';
+
+export type { ScrapingResult } from '@shared/contracts';
 
 // Global research parameters
 const MAX_URLS_PER_TARGET = 5;
 const MAX_RESULTS_TOTAL = 15;
 const URL_TIMEOUT_MS = 30000; // 30 seconds per URL
-const BATCH_SIZE = 2; // Reduced to avoid rate limiting
-const BATCH_DELAY_MS = 2000; // Increased to handle rate limiting
-const TARGET_DELAY_MS = 3000; // Increased to handle rate limiting
-const RETRY_COUNT = 2; // Number of retries for rate-limited requests
-const RETRY_DELAY_MS = 5000; // Delay between retries
 
+// Every method takes the signal of the research it works for; aborting it stops that research's
+// searches and scrapes in flight and rejects with an AbortError. The usage scope books the searches
+// and scrapes to the research's session and iteration
 export class WebScraperService {
-  private static isResearchCanceled = false;
-
-  static cancelResearch() {
-    this.isResearchCanceled = true;
-    console.log('Research canceled by user or timeout');
-  }
-
-  // The core research function
+  // The core research function: resolve every target to URLs, then scrape them
   static async scrapeSearchTargets(
     searchTargets: string[],
     researchContext?: string,
     informationGoals?: string[],
-    dateWindow?: string
+    profile: ResearchProfile = DEFAULT_RESEARCH_PROFILE,
+    searchProviders: SearchProviderId[] = DEFAULT_SEARCH_PROVIDERS,
+    targetKinds: Record<string, SearchTargetKind> = {},
+    signal?: AbortSignal,
+    scope: UsageScope = {}
   ): Promise<ScrapingResult[]> {
-    this.isResearchCanceled = false;
-    const results: ScrapingResult[] = [];
-
-    try {
-      const serpApiKey = SerpApiService.getApiKey();
-      const firecrawlApiKey = FirecrawlService.getApiKey();
-
-      if (!firecrawlApiKey) {
-        console.error("No FireCrawl API key found. Please set your API key in the settings.");
-        return [];
-      }
-
-      console.log('Starting web scraper with search targets:', searchTargets);
-      console.log('Research context:', researchContext);
-
-      // Generate date range for search context
-      const now = new Date();
-      const previousYear = new Date(now);
-      previousYear.setFullYear(now.getFullYear() - 1);
-      const dateStr = dateWindow || `${previousYear.toISOString().split("T")[0]} to ${now.toISOString().split("T")[0]}`;
-
-      // Process each search target
-      for (const target of searchTargets) {
-        if (this.isResearchCanceled || results.length >= MAX_RESULTS_TOTAL) {
-          console.log('Research stopped: canceled or enough results');
-          break;
-        }
+    const resolvedTargets = await this.resolveSearchTargets(searchTargets, researchContext, informationGoals, profile, searchProviders, targetKinds, signal, scope);
+    return this.scrapeResolvedTargets(resolvedTargets, signal, scope);
+  }
 
-        let urlsToScrape: string[] = [];
-        
-        // Determine if the target is a direct URL or a search query
-        if (this.isDirectUrl(target)) {
-          // Direct URL: format and use it directly
-          const url = this.formatDirectUrl(target);
-          console.log(`Target is treated as direct URL: ${url}`);
-          urlsToScrape.push(url);
-        } else if (serpApiKey) {
-          // Search query: Use SerpAPI to find relevant URLs
-          const enrichedQuery = this.enrichSearchQuery(target, researchContext, informationGoals, dateStr);
-          console.log(`Using SerpAPI for query: "${enrichedQuery}"`);
-          
-          try {
-            const searchResults = await SerpApiService.getTopSearchUrls(
-              enrichedQuery,
-              MAX_URLS_PER_TARGET,
-              dateStr
-            );
-            
-            if (searchResults.length > 0) {
-              console.log(`SerpAPI found ${searchResults.length} URLs for "${enrichedQuery}"`);
-              urlsToScrape.push(...searchResults);
-            } else {
-              console.log(`No results from SerpAPI for "${enrichedQuery}", using fallback source`);
-              urlsToScrape.push(INDUSTRY_SPECIFIC_SOURCES[0]);
-            }
-          } catch (error) {
-            console.error(`SerpAPI error for "${target}":`, error);
-            urlsToScrape.push(INDUSTRY_SPECIFIC_SOURCES[0]);
+  // Turn search targets into URLs: direct URLs are used as-is, queries go to the session's search providers
+  // and fall back on the profile's sources when nothing is found. Targets marked in the plan skip the guess.
+  static async resolveSearchTargets(
+    searchTargets: string[],
+    researchContext?: string,
+    informationGoals?: string[],
+    profile: ResearchProfile = DEFAULT_RESEARCH_PROFILE,
+    searchProviders: SearchProviderId[] = DEFAULT_SEARCH_PROVIDERS,
+    targetKinds: Record<string, SearchTargetKind> = {},
+    signal?: AbortSignal,
+    scope: UsageScope = {}
+  ): Promise<ResolvedTarget[]> {
+    const resolvedTargets: ResolvedTarget[] = [];
+    const canSearch = await SearchProviderService.hasAvailableProvider(searchProviders);
+
+    console.log('Resolving search targets:', searchTargets);
+    console.log('Research context:', researchContext);
+
+    // Generate date range for search context
+    const dateStr = getProfileDateWindow(profile);
+
+    for (const target of searchTargets) {
+      throwIfAborted(signal);
+
+      const urls: string[] = [];
+
+      // Determine if the target is a direct URL or a search query
+      const isUrl = targetKinds[target] ? targetKinds[target] === 'url' : this.isDirectUrl(target);
+      if (isUrl) {
+        // Direct URL: format and use it directly
+        const url = this.formatDirectUrl(target);
+        console.log(`Target is treated as direct URL: ${url}`);
+        urls.push(url);
+      } else if (canSearch) {
+        // Search query: ask the selected search providers for relevant URLs
+        const enrichedQuery = this.enrichSearchQuery(target, researchContext, informationGoals, dateStr);
+        console.log(`Searching for query: "${enrichedQuery}"`);
+
+        try {
+          const searchResults = await SearchProviderService.getTopSearchUrls(enrichedQuery, searchProviders, profile, signal, scope);
+
+          if (searchResults.length > 0) {
+            console.log(`Search found ${searchResults.length} URLs for "${enrichedQuery}"`);
+            urls.push(...searchResults);
+          } else {
+            console.log(`No search results for "${enrichedQuery}", using the profile's fallback sources`);
+            urls.push(...profile.fallbackSources.map(source => this.formatDirectUrl(source)));
           }
-        } else {
-          // No SerpAPI key available: fallback on industry-specific source
-          console.warn("No SerpAPI key found. Using industry-specific source.");
-          urlsToScrape.push(INDUSTRY_SPECIFIC_SOURCES[0]);
-        }
-
-        // Filter for unique, valid URLs
-        urlsToScrape = this.filterUrls(urlsToScrape).slice(0, MAX_URLS_PER_TARGET);
-
-        if (urlsToScrape.length === 0) {
-          console.warn(`No valid URLs found for target: "${target}"`);
-          continue;
+        } catch (error) {
+          throwIfAborted(signal);
+          console.error(`Search error for "${target}":`, error);
+          urls.push(...profile.fallbackSources.map(source => this.formatDirectUrl(source)));
         }
+      } else {
+        // No search provider configured: fall back on the profile's sources
+        console.warn("No search provider configured. Using the profile's fallback sources.");
+        urls.push(...profile.fallbackSources.map(source => this.formatDirectUrl(source)));
+      }
 
-        console.log(`Scraping ${urlsToScrape.length} URLs for target: "${target}"`);
+      // Filter for unique, valid URLs
+      resolvedTargets.push({ target, urls: this.filterUrls(urls).slice(0, MAX_URLS_PER_TARGET) });
+    }
 
-        // Process URLs in batches to avoid rate limiting
-        for (let i = 0; i < urlsToScrape.length; i += BATCH_SIZE) {
-          if (this.isResearchCanceled || results.length >= MAX_RESULTS_TOTAL) {
-            console.log('Batch stopped: canceled or enough results');
-            break;
-          }
-          
-          const batch = urlsToScrape.slice(i, i + BATCH_SIZE);
-          console.log(`Processing batch of ${batch.length} URLs (${i+1}-${i+batch.length} of ${urlsToScrape.length})`);
+    return resolvedTargets;
+  }
 
-          // Process each URL in the batch
-          const batchPromises = batch.map(async (url) => {
-            return await this.scrapeUrlWithRetry(url, target);
-          });
+  // URLs are scraped as fast as the scraper's rate limit allows, a few at a time; the limiter in
+  // ScraperService paces the requests and waits out 429s
+  static async scrapeResolvedTargets(
+    resolvedTargets: ResolvedTarget[],
+    signal?: AbortSignal,
+    scope: UsageScope = {}
+  ): Promise<ScrapingResult[]> {
+    let found = 0;
 
-          const batchResults = await Promise.all(batchPromises);
-          
-          // Filter out null results and add successful results to the total
-          let newResults = 0;
-          for (const result of batchResults) {
-            if (result) {
-              results.push(result);
-              newResults++;
-            }
-          }
-          
-          console.log(`Batch completed with ${newResults} successful results`);
-          
-          // Add delay between batches to avoid rate limiting
-          if (i + BATCH_SIZE < urlsToScrape.length) {
-            await this.delay(BATCH_DELAY_MS);
-          }
-        }
+    try {
+      const scraperId = await ScraperService.getActiveScraper();
+      console.log(`Scraping with the ${scraperId} scraper`);
 
-        // Add delay between targets to avoid rate limiting
-        if (searchTargets.indexOf(target) < searchTargets.length - 1) {
-          await this.delay(TARGET_DELAY_MS);
+      for (const { target, urls } of resolvedTargets) {
+        if (urls.length === 0) {
+          console.warn(`No valid URLs found for target: "${target}"`);
         }
       }
 
+      const jobs = resolvedTargets.flatMap(({ target, urls }) => urls.map(url => ({ target, url })));
+      const scraped = await runPool(
+        jobs,
+        SCRAPER_RATE_LIMITS[scraperId].concurrency,
+        async ({ target, url }) => {
+          const result = await this.scrapeUrl(url, target, signal, scope);
+          if (result) found++;
+          return result;
+        },
+        () => !!signal?.aborted || found >= MAX_RESULTS_TOTAL
+      );
+      throwIfAborted(signal);
+
+      // Keep the targets' order, whichever page finished first
+      const results = scraped.filter((result): result is ScrapingResult => !!result).slice(0, MAX_RESULTS_TOTAL);
       console.log(`Web scraper finished with ${results.length} total results`);
       return results;
     } catch (error) {
-      console.error("Unexpected error in scrapeSearchTargets:", error);
-      return results;
+      throwIfAborted(signal);
+      console.error("Unexpected error in scrapeResolvedTargets:", error);
+      return [];
     }
   }
 
-  // Helper method to scrape a URL with retry logic for rate limiting
-  private static async scrapeUrlWithRetry(url: string, searchQuery: string): Promise<ScrapingResult | null> {
-    let retries = 0;
-    
-    while (retries <= RETRY_COUNT) {
-      try {
-        const crawlResult = await FirecrawlService.crawlWebsite(url, URL_TIMEOUT_MS);
-        
-        if (crawlResult.success && crawlResult.data) {
-          const fcData = crawlResult.data;
-          const fullContent = fcData.content || '';
-          
-          // Successfully scraped content
-          if (fullContent.trim().length > 0) {
-            return {
-              url: url,
-              content: fullContent,
-              metadata: fcData.metadata || {},
-              searchQuery: searchQuery
-            };
-          } else {
-            console.warn(`Empty content from ${url}, skipping`);
-            return null;
-          }
-        } else {
-          const errorMessage = crawlResult.error || 'Unknown error';
-          
-          // Check if the error is about rate limiting
-          if (errorMessage.includes('Rate limit') && retries < RETRY_COUNT) {
-            retries++;
-            console.log(`Rate limit hit for ${url}, retry ${retries} after ${RETRY_DELAY_MS}ms`);
-            await this.delay(RETRY_DELAY_MS);
-          } else {
-            console.warn(`Failed to scrape ${url}:`, errorMessage);
-            return null;
-          }
-        }
-      } catch (error) {
-        console.error(`Error scraping URL ${url}:`, error);
-        
-        // Check if error message suggests rate limiting
-        if (error instanceof Error && 
-            error.message.includes('Rate limit') && 
-            retries < RETRY_COUNT) {
-          retries++;
-          console.log(`Rate limit error for ${url}, retry ${retries} after ${RETRY_DELAY_MS}ms`);
-          await this.delay(RETRY_DELAY_MS);
-        } else {
-          return null;
-        }
-      }
+  private static async scrapeUrl(
+    url: string,
+    searchQuery: string,
+    signal: AbortSignal | undefined,
+    scope: UsageScope
+  ): Promise<ScrapingResult | null> {
+    const crawlResult = await ScraperService.scrape(url, URL_TIMEOUT_MS, signal, scope);
+
+    if (!crawlResult.success || !crawlResult.data) {
+      console.warn(`Failed to scrape ${url}:`, crawlResult.error || 'Unknown error');
+      return null;
     }
-    
-    console.warn(`All retries failed for ${url}`);
-    return null;
+
+    const page = crawlResult.data;
+    if (!page.content?.trim()) {
+      console.warn(`Empty content from ${url}, skipping`);
+      return null;
+    }
+
+    return {
+      url: url,
+      content: page.content,
+      metadata: page.metadata || {},
+      searchQuery: searchQuery
+    };
   }
   
   // Helper method to determine if a string is a direct URL
   private static isDirectUrl(target: string): boolean {
-    return (
-      target.startsWith('http') || 
-      target.includes('.com') || 
-      target.includes('.org') || 
-      target.includes('.net') || 
-      target.includes('.se') || 
-      target.includes('.no')
-    );
+    return guessTargetKind(target) === 'url';
   }
   
   // Helper method to format direct URLs
@@ -278,9 +224,4 @@ export class WebScraperService {
       !url.startsWith('https://www.google.com/search')
     );
   }
-  
-  // Helper method for adding delays
-  private static delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
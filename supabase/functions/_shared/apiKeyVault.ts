@@ -0,0 +1,222 @@
+import { createUserClient, isServiceRoleRequest, supabaseAdmin } from "./supabaseAdmin.ts";
+import {
+  API_KEY_PROVIDERS,
+  ApiKeyOverview,
+  ApiKeyProvider,
+  ApiKeyStatus,
+  ApiKeySummary,
+  decryptApiKey,
+  encryptApiKey,
+  maskApiKey,
+  validateApiKey,
+} from "./apiKeys.ts";
+
+// The secret keys are encrypted with; changing it makes every saved key unreadable
+const encryptionSecret = Deno.env.get('API_KEY_ENCRYPTION_SECRET') ?? '';
+
+// Keys the Edge Functions were deployed with, used by every workspace that has not saved its own
+const projectApiKeys: Record<ApiKeyProvider, string | undefined> = {
+  firecrawl: Deno.env.get('FIRECRAWL_API_KEY'),
+  serpapi: Deno.env.get('SERPAPI_API_KEY'),
+  brave: Deno.env.get('BRAVE_SEARCH_API_KEY'),
+  bing: Deno.env.get('BING_SEARCH_API_KEY'),
+};
+
+// The signed-in user, or null for the workspace shared by everyone who is not signed in
+export type WorkspaceId = string | null;
+
+export type WorkspaceKeys = Partial<Record<ApiKeyProvider, string>>;
+
+// Thrown when the provider rejects a key that is being saved
+export class InvalidApiKeyError extends Error {
+  constructor(message: string, readonly provider: ApiKeyProvider) {
+    super(message);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+interface ApiKeyRow {
+  id: string;
+  user_id: string | null;
+  provider: ApiKeyProvider;
+  ciphertext: string;
+  iv: string;
+  masked_key: string;
+  validation_status: ApiKeyStatus;
+  validation_error: string | null;
+  validated_at: string | null;
+  last_used_at: string | null;
+  rotated_at: string | null;
+  created_at: string;
+}
+
+export async function getRequestWorkspace(req: Request): Promise<WorkspaceId> {
+  const { data } = await createUserClient(req).auth.getUser();
+  return data.user?.id ?? null;
+}
+
+export async function getSessionWorkspace(sessionId: string): Promise<WorkspaceId> {
+  const { data, error } = await supabaseAdmin
+    .from('research_sessions')
+    .select('user_id')
+    .eq('id', sessionId)
+    .single();
+  if (error) {
+    throw new Error(`Failed to load research session: ${error.message}`);
+  }
+  return data.user_id;
+}
+
+// Only a signed-in user changes their own workspace's keys. The shared workspace is used by every
+// session without an owner, so anyone holding the public anon key could otherwise replace its keys;
+// only the service role may change those
+export function canManageWorkspaceKeys(req: Request, workspaceId: WorkspaceId): boolean {
+  return workspaceId !== null || isServiceRoleRequest(req);
+}
+
+// Research run for a session by the service role uses the session owner's keys; everyone else their own
+export function resolveWorkspace(req: Request, sessionId?: string | null): Promise<WorkspaceId> {
+  return isServiceRoleRequest(req) && sessionId ? getSessionWorkspace(sessionId) : getRequestWorkspace(req);
+}
+
+async function loadRows(workspaceId: WorkspaceId): Promise<ApiKeyRow[]> {
+  const query = supabaseAdmin.from('api_keys').select('*');
+  const { data, error } = workspaceId ? await query.eq('user_id', workspaceId) : await query.is('user_id', null);
+  if (error) {
+    throw new Error(`Failed to load API keys: ${error.message}`);
+  }
+  return data;
+}
+
+async function loadRow(workspaceId: WorkspaceId, provider: ApiKeyProvider): Promise<ApiKeyRow | null> {
+  return (await loadRows(workspaceId)).find(row => row.provider === provider) ?? null;
+}
+
+async function updateRow(id: string, update: Partial<ApiKeyRow>): Promise<ApiKeyRow> {
+  const { data, error } = await supabaseAdmin.from('api_keys').update(update).eq('id', id).select('*').single();
+  if (error) {
+    throw new Error(`Failed to update API key: ${error.message}`);
+  }
+  return data;
+}
+
+function toSummary(row: ApiKeyRow): ApiKeySummary {
+  return {
+    provider: row.provider,
+    maskedKey: row.masked_key,
+    status: row.validation_status,
+    validationError: row.validation_error,
+    validatedAt: row.validated_at,
+    lastUsedAt: row.last_used_at,
+    rotatedAt: row.rotated_at,
+    createdAt: row.created_at,
+  };
+}
+
+export async function listWorkspaceKeys(workspaceId: WorkspaceId, canManage: boolean): Promise<ApiKeyOverview> {
+  const rows = await loadRows(workspaceId);
+  return {
+    keys: API_KEY_PROVIDERS
+      .map(provider => rows.find(row => row.provider === provider))
+      .filter((row): row is ApiKeyRow => !!row)
+      .map(toSummary),
+    projectKeys: API_KEY_PROVIDERS.filter(provider => !!projectApiKeys[provider]),
+    searxngConfigured: !!Deno.env.get('SEARXNG_URL'),
+    canManage,
+  };
+}
+
+// Saving over an existing key rotates it. A key the provider rejects is not stored;
+// one that could not be checked is, and shows as unverified
+export async function saveWorkspaceKey(
+  workspaceId: WorkspaceId,
+  provider: ApiKeyProvider,
+  apiKey: string
+): Promise<ApiKeySummary> {
+  const key = apiKey.trim();
+  const validation = await validateApiKey(provider, key);
+  if (validation.status === 'invalid') {
+    throw new InvalidApiKeyError(validation.error ?? 'The provider rejected the key', provider);
+  }
+
+  const encrypted = await encryptApiKey(key, encryptionSecret);
+  const now = new Date().toISOString();
+  const fields = {
+    ciphertext: encrypted.ciphertext,
+    iv: encrypted.iv,
+    masked_key: maskApiKey(key),
+    validation_status: validation.status,
+    validation_error: validation.error,
+    validated_at: now,
+  };
+
+  const existing = await loadRow(workspaceId, provider);
+  if (existing) {
+    return toSummary(await updateRow(existing.id, { ...fields, rotated_at: now, last_used_at: null }));
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .insert({ ...fields, user_id: workspaceId, provider })
+    .select('*')
+    .single();
+  if (error) {
+    throw new Error(`Failed to save API key: ${error.message}`);
+  }
+  return toSummary(data);
+}
+
+// Checks the stored key with the provider again, e.g. after its plan changed
+export async function revalidateWorkspaceKey(workspaceId: WorkspaceId, provider: ApiKeyProvider): Promise<ApiKeySummary | null> {
+  const row = await loadRow(workspaceId, provider);
+  if (!row) {
+    return null;
+  }
+
+  const validation = await validateApiKey(provider, await decryptApiKey(row, encryptionSecret));
+  return toSummary(await updateRow(row.id, {
+    validation_status: validation.status,
+    validation_error: validation.error,
+    validated_at: new Date().toISOString(),
+  }));
+}
+
+export async function removeWorkspaceKey(workspaceId: WorkspaceId, provider: ApiKeyProvider): Promise<void> {
+  const query = supabaseAdmin.from('api_keys').delete().eq('provider', provider);
+  const { error } = workspaceId ? await query.eq('user_id', workspaceId) : await query.is('user_id', null);
+  if (error) {
+    throw new Error(`Failed to remove API key: ${error.message}`);
+  }
+}
+
+// The keys research in the workspace calls the providers with: its own, else the project's.
+// A key that cannot be decrypted is skipped rather than failing the research
+export async function loadWorkspaceKeys(workspaceId: WorkspaceId): Promise<WorkspaceKeys> {
+  const keys: WorkspaceKeys = {};
+  for (const provider of API_KEY_PROVIDERS) {
+    if (projectApiKeys[provider]) {
+      keys[provider] = projectApiKeys[provider];
+    }
+  }
+
+  for (const row of await loadRows(workspaceId)) {
+    try {
+      keys[row.provider] = await decryptApiKey(row, encryptionSecret);
+    } catch (error) {
+      console.error(`Failed to decrypt the ${row.provider} key:`, error);
+    }
+  }
+  return keys;
+}
+
+// Only the workspace's own keys have a row to stamp; failing to stamp never fails the request
+export async function recordKeyUse(workspaceId: WorkspaceId, provider: ApiKeyProvider): Promise<void> {
+  const query = supabaseAdmin
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('provider', provider);
+  const { error } = workspaceId ? await query.eq('user_id', workspaceId) : await query.is('user_id', null);
+  if (error) {
+    console.error(`Failed to record use of the ${provider} key:`, error);
+  }
+}
@@ -0,0 +1,156 @@
+// API keys for the scraping and search providers, kept per workspace in the
+// api_keys table. They are encrypted before they are stored and only the Edge
+// Functions decrypt them; the browser sees a masked hint and the key's status.
+// Keep this file free of Deno- or DOM-only APIs.
+
+export type ApiKeyProvider = 'firecrawl' | 'serpapi' | 'brave' | 'bing';
+
+// valid and invalid come from asking the provider; unverified when it could not answer
+export type ApiKeyStatus = 'valid' | 'invalid' | 'unverified';
+
+export interface ApiKeySummary {
+  provider: ApiKeyProvider;
+  maskedKey: string;
+  status: ApiKeyStatus;
+  validationError: string | null;
+  validatedAt: string | null;
+  lastUsedAt: string | null;
+  rotatedAt: string | null;
+  createdAt: string;
+}
+
+// What research in a workspace can use: its own keys, and the providers the project configured for everyone
+export interface ApiKeyOverview {
+  keys: ApiKeySummary[];
+  projectKeys: ApiKeyProvider[];
+  // SearXNG needs no key; it can be searched when the Edge Functions are configured with an instance
+  searxngConfigured: boolean;
+  // Whether the caller may save, validate and remove keys; the shared workspace is read-only
+  canManage: boolean;
+}
+
+export interface EncryptedApiKey {
+  ciphertext: string;
+  iv: string;
+}
+
+export interface ApiKeyValidation {
+  status: ApiKeyStatus;
+  error: string | null;
+}
+
+export const API_KEY_PROVIDERS: ApiKeyProvider[] = ['firecrawl', 'serpapi', 'brave', 'bing'];
+
+export const API_KEY_LABELS: Record<ApiKeyProvider, string> = {
+  firecrawl: 'FireCrawl',
+  serpapi: 'SerpAPI',
+  brave: 'Brave Search',
+  bing: 'Bing Web Search',
+};
+
+const VISIBLE_KEY_CHARACTERS = 4;
+const VALIDATION_TIMEOUT_MS = 10000;
+
+export function isApiKeyProvider(value: unknown): value is ApiKeyProvider {
+  return typeof value === 'string' && (API_KEY_PROVIDERS as string[]).includes(value);
+}
+
+// Only the last characters are shown, and none of a key too short to hide the rest
+export function maskApiKey(apiKey: string): string {
+  const key = apiKey.trim();
+  return key.length > VISIBLE_KEY_CHARACTERS * 3
+    ? `••••${key.slice(-VISIBLE_KEY_CHARACTERS)}`
+    : '••••';
+}
+
+export function isProviderAvailable(provider: ApiKeyProvider, overview: ApiKeyOverview): boolean {
+  return overview.keys.some(key => key.provider === provider) || overview.projectKeys.includes(provider);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), character => character.charCodeAt(0));
+}
+
+// AES-256-GCM with a key derived from the project's encryption secret
+async function importSecret(secret: string): Promise<CryptoKey> {
+  if (!secret) {
+    throw new Error('No encryption secret is configured for API keys');
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+export async function encryptApiKey(apiKey: string, secret: string): Promise<EncryptedApiKey> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await importSecret(secret),
+    new TextEncoder().encode(apiKey)
+  );
+  return { ciphertext: toBase64(new Uint8Array(ciphertext)), iv: toBase64(iv) };
+}
+
+export async function decryptApiKey(encrypted: EncryptedApiKey, secret: string): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(encrypted.iv) },
+    await importSecret(secret),
+    fromBase64(encrypted.ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+// The cheapest request each provider authenticates: account endpoints where there is one, else a one-result search
+function validationRequest(provider: ApiKeyProvider, apiKey: string): { url: string; init: RequestInit } {
+  switch (provider) {
+    case 'firecrawl':
+      return {
+        url: 'https://api.firecrawl.dev/v1/team/credit-usage',
+        init: { headers: { 'Authorization': `Bearer ${apiKey}` } },
+      };
+    case 'serpapi':
+      return { url: `https://serpapi.com/account.json?api_key=${encodeURIComponent(apiKey)}`, init: {} };
+    case 'brave':
+      return {
+        url: 'https://api.search.brave.com/res/v1/web/search?q=test&count=1',
+        init: { headers: { 'Accept': 'application/json', 'X-Subscription-Token': apiKey } },
+      };
+    case 'bing':
+      return {
+        url: 'https://api.bing.microsoft.com/v7.0/search?q=test&count=1',
+        init: { headers: { 'Ocp-Apim-Subscription-Key': apiKey } },
+      };
+  }
+}
+
+// A rejected key is invalid; a provider that is down or rate limited leaves the key unverified
+export async function validateApiKey(
+  provider: ApiKeyProvider,
+  apiKey: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<ApiKeyValidation> {
+  const { url, init } = validationRequest(provider, apiKey);
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), VALIDATION_TIMEOUT_MS);
+
+  try {
+    const response = await fetchImpl(url, { ...init, signal: controller.signal });
+    if (response.ok) {
+      return { status: 'valid', error: null };
+    }
+    if (response.status === 401 || response.status === 403) {
+      return { status: 'invalid', error: `${API_KEY_LABELS[provider]} rejected the key (${response.status})` };
+    }
+    return { status: 'unverified', error: `${API_KEY_LABELS[provider]} answered ${response.status}` };
+  } catch (error) {
+    return {
+      status: 'unverified',
+      error: `Could not reach ${API_KEY_LABELS[provider]}: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,38 @@
+import { supabaseAdmin } from "./supabaseAdmin.ts";
+
+const SESSION_POLL_INTERVAL_MS = 2000;
+
+// A signal for the work done for one research session: it aborts when the session is cancelled,
+// or when the caller of the request disconnects, so only that session's crawling and model calls stop.
+// Call dispose once the work is done.
+export function createCancellationSignal(sessionId?: string | null, req?: Request) {
+  const controller = new AbortController();
+  const onDisconnect = () => controller.abort();
+  req?.signal.addEventListener('abort', onDisconnect, { once: true });
+
+  let polling = false;
+  const intervalId = sessionId
+    ? setInterval(async () => {
+      if (polling || controller.signal.aborted) return;
+      polling = true;
+      const { data } = await supabaseAdmin
+        .from('research_sessions')
+        .select('status')
+        .eq('id', sessionId)
+        .maybeSingle();
+      polling = false;
+      if (data?.status === 'cancelled') {
+        console.log(`Session ${sessionId} was cancelled, stopping its work`);
+        controller.abort();
+      }
+    }, SESSION_POLL_INTERVAL_MS)
+    : null;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      if (intervalId !== null) clearInterval(intervalId);
+      req?.signal.removeEventListener('abort', onDisconnect);
+    },
+  };
+}
@@ -0,0 +1,73 @@
+// Evidence spans for extracted facts. The model quotes the passage a fact rests
+// on; the quote is located in the stored source content so the UI can open the
+// source at that passage. Keep this file free of Deno- or DOM-only APIs.
+
+import type { InsightFact } from './contracts.ts';
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+// Content with whitespace runs collapsed to one space, plus the original offset of every character
+function collapseWhitespace(text: string): { text: string; offsets: number[] } {
+  let collapsed = '';
+  const offsets: number[] = [];
+  let inSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (!inSpace && collapsed) {
+        collapsed += ' ';
+        offsets.push(i);
+      }
+      inSpace = true;
+    } else {
+      collapsed += text[i];
+      offsets.push(i);
+      inSpace = false;
+    }
+  }
+
+  return { text: collapsed, offsets };
+}
+
+// Exact match first; models often re-wrap lines or change case, so fall back to
+// a match that ignores whitespace differences and then case
+export function locateQuote(content: string, quote: string | undefined): TextSpan | null {
+  const trimmed = quote?.trim();
+  if (!content || !trimmed) return null;
+
+  const exact = content.indexOf(trimmed);
+  if (exact >= 0) {
+    return { start: exact, end: exact + trimmed.length };
+  }
+
+  const source = collapseWhitespace(content);
+  const needle = collapseWhitespace(trimmed).text;
+  let index = source.text.indexOf(needle);
+  if (index < 0) {
+    index = source.text.toLowerCase().indexOf(needle.toLowerCase());
+  }
+  if (index < 0) return null;
+
+  return {
+    start: source.offsets[index],
+    end: source.offsets[index + needle.length - 1] + 1,
+  };
+}
+
+// Stored offsets are trusted only while they still point at the quote
+export function getFactSpan(fact: InsightFact, content: string): TextSpan | null {
+  if (
+    typeof fact.start === 'number' &&
+    typeof fact.end === 'number' &&
+    fact.start >= 0 &&
+    fact.end <= content.length &&
+    fact.start < fact.end &&
+    (!fact.quote || content.slice(fact.start, fact.end) === fact.quote)
+  ) {
+    return { start: fact.start, end: fact.end };
+  }
+  return locateQuote(content, fact.quote);
+}
@@ -0,0 +1,213 @@
+// Chunking and merging for the map-reduce cleaner in process-research. Sources
+// are split into chunks that are read one model call each, the facts found are
+// merged back per category, and every source gets a coverage entry saying how
+// much of it was read. Keep this file free of Deno- or DOM-only APIs.
+
+import type { ChunkExtraction, InsightFact, ScrapingResult, SourceCoverage } from './contracts.ts';
+import { locateQuote } from './citations.ts';
+
+export interface ChunkOptions {
+  chunkSize: number;
+  maxChunksPerSource: number;
+  // Upper bound on model calls for one cleaning run
+  maxChunks: number;
+}
+
+export interface SourceChunk {
+  sourceIndex: number;
+  url: string;
+  index: number;
+  count: number;
+  text: string;
+}
+
+export interface ChunkPlan {
+  chunks: SourceChunk[];
+  // Chunks each source was split into before any limit was applied
+  chunkCounts: number[];
+}
+
+export interface ChunkOutcome {
+  chunk: SourceChunk;
+  extraction: ChunkExtraction | null;
+  error?: string;
+}
+
+export function splitIntoChunks(content: string, chunkSize: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of content.split(/\n{2,}/)) {
+    const text = paragraph.trim();
+    if (!text) continue;
+
+    if (current && current.length + text.length + 2 > chunkSize) {
+      chunks.push(current);
+      current = '';
+    }
+    // A single paragraph longer than a chunk is cut at the chunk size
+    for (let start = 0; start < text.length; start += chunkSize) {
+      const piece = text.slice(start, start + chunkSize);
+      if (piece.length === chunkSize) {
+        if (current) chunks.push(current);
+        chunks.push(piece);
+        current = '';
+      } else {
+        current = current ? `${current}\n\n${piece}` : piece;
+      }
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+// The budget is handed out round-robin, first chunks of every source before second
+// chunks of any, so sources late in the list are not the ones that get dropped
+export function planChunks(results: ScrapingResult[], options: ChunkOptions): ChunkPlan {
+  const split = results.map(result => splitIntoChunks(result.content ?? '', options.chunkSize));
+  const chunks: SourceChunk[] = [];
+  const rounds = Math.min(options.maxChunksPerSource, Math.max(0, ...split.map(parts => parts.length)));
+
+  for (let round = 0; round < rounds && chunks.length < options.maxChunks; round++) {
+    for (let sourceIndex = 0; sourceIndex < results.length && chunks.length < options.maxChunks; sourceIndex++) {
+      const parts = split[sourceIndex];
+      if (round < parts.length) {
+        chunks.push({
+          sourceIndex,
+          url: results[sourceIndex].url,
+          index: round,
+          count: parts.length,
+          text: parts[round],
+        });
+      }
+    }
+  }
+
+  return { chunks, chunkCounts: split.map(parts => parts.length) };
+}
+
+// Same fact in different wording of case, punctuation or spacing counts once
+export function factKey(fact: string): string {
+  return fact.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+// Quotes are located in the full source content, so their offsets match what is stored for the source.
+// A fact stated again by another source is kept once, with that source listed in corroboratedBy
+export function mergeExtractions(outcomes: ChunkOutcome[], results: ScrapingResult[]): Record<string, InsightFact[]> {
+  const insights: Record<string, InsightFact[]> = {};
+  const categoryNames = new Map<string, string>();
+  const seen = new Map<string, Map<string, InsightFact>>();
+
+  for (const { chunk, extraction } of outcomes) {
+    for (const { category, fact, quote } of extraction?.facts ?? []) {
+      const text = fact.trim();
+      const categoryKey = category.trim().toLowerCase() || 'other';
+      if (!text) continue;
+
+      // The first spelling of a category is the one shown
+      if (!categoryNames.has(categoryKey)) {
+        categoryNames.set(categoryKey, category.trim() || 'Other');
+        seen.set(categoryKey, new Map());
+      }
+      const name = categoryNames.get(categoryKey) as string;
+      const facts = seen.get(categoryKey) as Map<string, InsightFact>;
+      const key = factKey(text);
+      const existing = facts.get(key);
+      if (existing) {
+        if (existing.source !== chunk.url && !existing.corroboratedBy?.includes(chunk.url)) {
+          existing.corroboratedBy = [...(existing.corroboratedBy ?? []), chunk.url];
+        }
+        continue;
+      }
+
+      const content = results[chunk.sourceIndex]?.content ?? '';
+      const span = locateQuote(content, quote);
+      const merged: InsightFact = {
+        fact: text,
+        source: chunk.url,
+        ...(span
+          ? { quote: content.slice(span.start, span.end), start: span.start, end: span.end }
+          : quote?.trim() ? { quote: quote.trim() } : {}),
+      };
+      facts.set(key, merged);
+      (insights[name] ??= []).push(merged);
+    }
+  }
+
+  return insights;
+}
+
+export function summarizeCoverage(
+  results: ScrapingResult[],
+  plan: ChunkPlan,
+  outcomes: ChunkOutcome[],
+  maxChunksPerSource: number
+): SourceCoverage[] {
+  return results.map((result, sourceIndex) => {
+    const chunkCount = plan.chunkCounts[sourceIndex];
+    const attempted = outcomes.filter(outcome => outcome.chunk.sourceIndex === sourceIndex);
+    const processedChunks = attempted.filter(outcome => outcome.extraction).length;
+    const failedChunks = attempted.length - processedChunks;
+
+    const reasons: string[] = [];
+    if (chunkCount === 0) {
+      reasons.push('no content');
+    } else if (attempted.length < chunkCount) {
+      const limit = attempted.length < Math.min(chunkCount, maxChunksPerSource)
+        ? 'chunk budget for the run used up'
+        : `limit ${maxChunksPerSource} per source`;
+      reasons.push(attempted.length === 0
+        ? 'chunk budget used up by earlier sources'
+        : `only ${attempted.length} of ${chunkCount} chunks read (${limit})`);
+    }
+    if (failedChunks > 0) {
+      reasons.push(`${failedChunks} chunk${failedChunks === 1 ? '' : 's'} failed`);
+    }
+
+    return {
+      url: result.url,
+      status: processedChunks === 0 ? 'skipped' : processedChunks === chunkCount ? 'full' : 'partial',
+      chunkCount,
+      processedChunks,
+      ...(reasons.length > 0 ? { reason: reasons.join('; ') } : {}),
+    };
+  });
+}
+
+// Facts as the summarizing prompt sees them, cut at the budget so the reduce call stays bounded
+export function formatInsightsForSummary(insights: Record<string, InsightFact[]>, maxChars: number): string {
+  let text = '';
+  for (const [category, facts] of Object.entries(insights)) {
+    const section = `## ${category}\n${facts.map(item => `- ${item.fact} (${item.source})`).join('\n')}\n\n`;
+    if (text.length + section.length > maxChars) {
+      text += section.slice(0, Math.max(0, maxChars - text.length));
+      break;
+    }
+    text += section;
+  }
+  return text;
+}
+
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export function countCoverage(coverage: SourceCoverage[] = []): Record<SourceCoverage['status'], number> {
+  const counts = { full: 0, partial: 0, skipped: 0 };
+  for (const entry of coverage) {
+    counts[entry.status]++;
+  }
+  return counts;
+}
@@ -0,0 +1,127 @@
+// Competitor profiles shared by the research page and the Edge Functions: what
+// we know about a competitor, which facts of a session are about it, and how it
+// seeds a research plan. Keep this file free of Deno- or DOM-only APIs.
+
+import type { FactConfidence, InsightFact } from './contracts.ts';
+import { factKey } from './cleaning.ts';
+import { getHostname } from './sourceQuality.ts';
+
+export interface Competitor {
+  id?: string;
+  name: string;
+  // Hostnames without scheme or "www.", e.g. "entrust.com"
+  domains: string[];
+  products: string[];
+  eventPages: string[];
+  notes: string | null;
+}
+
+export const EMPTY_COMPETITOR: Competitor = { name: '', domains: [], products: [], eventPages: [], notes: null };
+
+// A verified fact filed under a competitor
+export interface CompetitorFact {
+  factKey: string;
+  fact: string;
+  category: string;
+  source: string;
+  quote?: string;
+  confidence?: FactConfidence;
+}
+
+// Names shorter than this match too many unrelated words
+const MIN_MENTION_LENGTH = 3;
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const items = value.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(Boolean);
+  return [...new Set(items)];
+}
+
+function toDomain(value: string): string {
+  return getHostname(value.includes('://') ? value : `https://${value}`) || value.toLowerCase();
+}
+
+// Competitors arrive from forms and request bodies, so normalize whatever came in
+export function parseCompetitor(value: unknown): Competitor {
+  const competitor = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof Competitor, unknown>>;
+  return {
+    id: typeof competitor.id === 'string' ? competitor.id : undefined,
+    name: typeof competitor.name === 'string' ? competitor.name.trim() : '',
+    domains: [...new Set(toStringList(competitor.domains).map(toDomain))],
+    products: toStringList(competitor.products),
+    eventPages: toStringList(competitor.eventPages),
+    notes: typeof competitor.notes === 'string' && competitor.notes.trim() ? competitor.notes.trim() : null,
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// A fact is about a competitor when it names the competitor or one of its products, or comes from its own site
+export function mentionsCompetitor(competitor: Competitor, fact: Pick<InsightFact, 'fact' | 'source'>): boolean {
+  const host = getHostname(fact.source);
+  if (host && competitor.domains.some(domain => host === domain || host.endsWith(`.${domain}`))) {
+    return true;
+  }
+
+  return [competitor.name, ...competitor.products]
+    .filter(term => term.length >= MIN_MENTION_LENGTH)
+    .some(term => new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}($|[^\\p{L}\\p{N}])`, 'iu').test(fact.fact));
+}
+
+// Only facts verification found in their source are filed; the rest would spread unchecked claims
+export function matchCompetitorFacts(competitor: Competitor, structuredInsights: Record<string, InsightFact[]>): CompetitorFact[] {
+  const facts = new Map<string, CompetitorFact>();
+  for (const [category, categoryFacts] of Object.entries(structuredInsights)) {
+    for (const fact of categoryFacts) {
+      if (fact.verification?.status !== 'supported' || !mentionsCompetitor(competitor, fact)) continue;
+      const key = factKey(fact.fact);
+      if (!key || facts.has(key)) continue;
+      facts.set(key, {
+        factKey: key,
+        fact: fact.fact,
+        category,
+        source: fact.source,
+        ...(fact.quote ? { quote: fact.quote } : {}),
+        ...(fact.confidence ? { confidence: fact.confidence } : {}),
+      });
+    }
+  }
+  return [...facts.values()];
+}
+
+// The facts of a session to file under one competitor
+export interface CompetitorFiling {
+  competitorId: string;
+  facts: CompetitorFact[];
+}
+
+// Every competitor a session's verified facts are about; the competitor the session was started for
+// keeps the session in its history even without new facts
+export function planCompetitorFilings(
+  competitors: Competitor[],
+  structuredInsights: Record<string, InsightFact[]>,
+  sessionCompetitorId: string | null
+): CompetitorFiling[] {
+  return competitors
+    .filter((competitor): competitor is Competitor & { id: string } => !!competitor.id)
+    .map(competitor => ({ competitorId: competitor.id, facts: matchCompetitorFacts(competitor, structuredInsights) }))
+    .filter(filing => filing.facts.length > 0 || filing.competitorId === sessionCompetitorId);
+}
+
+// Arguments of the record_competitor_facts database function, which files them in one statement
+export function toFilingArgs(sessionId: string, filing: CompetitorFiling) {
+  return {
+    target_competitor_id: filing.competitorId,
+    target_session_id: sessionId,
+    facts: filing.facts.map(fact => ({
+      fact_key: fact.factKey,
+      fact: fact.fact,
+      category: fact.category,
+      source: fact.source,
+      quote: fact.quote ?? null,
+      confidence: fact.confidence ?? null,
+    })),
+  };
+}
@@ -0,0 +1,358 @@
+// Data contracts shared by the research page and the Edge Functions. Every
+// planner, cleaner and refinement payload is validated against these schemas,
+// so malformed LLM output fails with a readable error instead of deep in the UI.
+// Keep this file free of Deno- or DOM-only APIs; Deno resolves "zod" through
+// supabase/functions/import_map.json.
+
+import { z } from 'zod';
+
+export const SearchTargetKindSchema = z.enum(['url', 'query']);
+
+export const PlannerResponseSchema = z.object({
+  intent: z.string(),
+  searchFocus: z.array(z.string()).min(1, 'must contain at least one search target'),
+  informationGoals: z.array(z.string()),
+  originalQuestion: z.string(),
+  context: z.string().optional(),
+  // Search focus entries the analyst marked as URL or query; the rest are guessed from their text
+  targetKinds: z.record(SearchTargetKindSchema).optional(),
+  // Entries kept as they are when the plan is regenerated
+  lockedSearchFocus: z.array(z.string()).optional(),
+  lockedInformationGoals: z.array(z.string()).optional(),
+});
+
+export const ScrapingResultSchema = z.object({
+  url: z.string(),
+  content: z.string(),
+  metadata: z.record(z.unknown()).optional(),
+  // Which search target produced this result
+  searchQuery: z.string().optional(),
+});
+
+export const FactVerificationStatusSchema = z.enum(['supported', 'unsupported', 'contradicted']);
+
+// How a fact held up against the text of the source it cites
+export const FactVerificationSchema = z.object({
+  status: FactVerificationStatusSchema,
+  // 'match' when the source text alone decided it, 'model' when an entailment check did
+  method: z.enum(['match', 'model']),
+  note: z.string().optional(),
+});
+
+export const SourceTypeSchema = z.enum(['government', 'academic', 'news', 'reference', 'aggregator', 'social', 'forum', 'other']);
+export const ConfidenceLevelSchema = z.enum(['high', 'medium', 'low']);
+
+// How far a fact can be trusted, from the source it came from and how many other sources back it up
+export const FactConfidenceSchema = z.object({
+  score: z.number().min(0).max(1),
+  level: ConfidenceLevelSchema,
+  sourceType: SourceTypeSchema,
+  // The source belongs to the organization the research is about
+  firstParty: z.boolean(),
+  publishedAt: z.string().optional(),
+  // Other sources stating the same fact
+  corroborations: z.number().int().nonnegative(),
+});
+
+export const InsightFactSchema = z.object({
+  fact: z.string(),
+  source: z.string(),
+  // The passage the fact rests on and where it sits in the stored content of the source
+  quote: z.string().optional(),
+  start: z.number().int().nonnegative().optional(),
+  end: z.number().int().nonnegative().optional(),
+  // Other sources that state the same fact; the fact keeps the first source it was found in
+  corroboratedBy: z.array(z.string()).optional(),
+  verification: FactVerificationSchema.optional(),
+  confidence: FactConfidenceSchema.optional(),
+});
+
+export const SourceCoverageStatusSchema = z.enum(['full', 'partial', 'skipped']);
+
+// How much of one source the cleaner actually read
+export const SourceCoverageSchema = z.object({
+  url: z.string(),
+  status: SourceCoverageStatusSchema,
+  chunkCount: z.number().int().nonnegative(),
+  processedChunks: z.number().int().nonnegative(),
+  reason: z.string().optional(),
+});
+
+export const EventRoleSchema = z.enum(['organizer', 'sponsor', 'speaker', 'exhibitor', 'attendee', 'other']);
+
+// An event the sources mention, e.g. a trade show a competitor exhibits at
+export const ResearchEventSchema = z.object({
+  name: z.string(),
+  organizer: z.string().optional(),
+  // ISO dates (YYYY-MM-DD); endDate is only set for events spanning several days
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  city: z.string().optional(),
+  venue: z.string().optional(),
+  // Who takes part in the event and how, e.g. "Entrust" as exhibitor
+  participant: z.string().optional(),
+  role: EventRoleSchema,
+  source: z.string(),
+  quote: z.string().optional(),
+});
+
+export const CleanerResponseSchema = z.object({
+  // Facts grouped by theme, e.g. { "Upcoming events": [{ fact, source }] }
+  structuredInsights: z.record(z.array(InsightFactSchema)),
+  relevantFindings: z.array(z.string()),
+  suggestedNextSteps: z.array(z.string()).optional(),
+  analysis: z.string(),
+  sourceCoverage: z.array(SourceCoverageSchema).optional(),
+  events: z.array(ResearchEventSchema).optional(),
+});
+
+// What the model extracts from one chunk of a source; the source URL is attached by the cleaner
+export const ChunkExtractionSchema = z.object({
+  facts: z.array(z.object({
+    category: z.string(),
+    fact: z.string(),
+    quote: z.string().optional(),
+  })),
+  // Dates and roles come back as the model wrote them and are normalized when merged
+  events: z.array(z.object({
+    name: z.string(),
+    organizer: z.string().nullish(),
+    startDate: z.string().nullish(),
+    endDate: z.string().nullish(),
+    city: z.string().nullish(),
+    venue: z.string().nullish(),
+    participant: z.string().nullish(),
+    role: z.string().nullish(),
+    quote: z.string().nullish(),
+  })).default([]),
+});
+
+// What the model answers with when summarizing the merged facts
+export const InsightSummarySchema = CleanerResponseSchema.pick({
+  relevantFindings: true,
+  suggestedNextSteps: true,
+  analysis: true,
+});
+
+export const ResearchIterationSchema = z.object({
+  targets: z.array(z.string()),
+  results: z.array(ScrapingResultSchema),
+  analysis: z.string().optional(),
+  extractionFocus: z.string().optional(),
+});
+
+// What the refinement model answers with
+export const RefinementSchema = z.object({
+  analysis: z.string(),
+  improvedTargets: z.array(z.string()),
+  targetTypes: z.array(z.string()).optional(),
+  searchPriority: z.array(z.string()).optional(),
+  extractionFocus: z.string().optional(),
+  industrySpecificSites: z.array(z.string()).optional(),
+});
+
+// What refine-research returns: the refinement plus the pages it scraped for the new targets
+export const RefineResearchResponseSchema = RefinementSchema.extend({
+  newResults: z.array(ScrapingResultSchema).default([]),
+});
+
+// What the entailment model answers with for a batch of claims
+export const EntailmentSchema = z.object({
+  verdicts: z.array(z.object({
+    id: z.number().int(),
+    label: FactVerificationStatusSchema,
+    reason: z.string().optional(),
+  })),
+});
+
+// The session and iteration a request's model calls, searches and crawls count against
+export const UsageScopeSchema = z.object({
+  sessionId: z.string().optional(),
+  iteration: z.number().int().positive().optional(),
+});
+
+export const VerifyRequestSchema = z.object({
+  structuredInsights: z.record(z.array(InsightFactSchema)),
+  scrapingResults: z.array(ScrapingResultSchema).default([]),
+}).merge(UsageScopeSchema);
+
+export const VerifyResponseSchema = z.object({
+  structuredInsights: z.record(z.array(InsightFactSchema)),
+});
+
+// One side of a contradiction: the value a source gives and the fact it comes from
+export const ContradictionClaimSchema = z.object({
+  value: z.string(),
+  fact: z.string(),
+  source: z.string(),
+  category: z.string(),
+  quote: z.string().optional(),
+});
+
+// Facts about the same subject whose sources disagree; resolution is the claim the analyst trusts
+export const ContradictionSchema = z.object({
+  subjectKey: z.string(),
+  subject: z.string(),
+  summary: z.string().optional(),
+  claims: z.array(ContradictionClaimSchema).min(2),
+  resolution: ContradictionClaimSchema.nullable().optional(),
+  resolvedAt: z.string().nullable().optional(),
+});
+
+// What the comparison model answers with; factId refers to the numbered facts it was given
+export const ConflictDetectionSchema = z.object({
+  conflicts: z.array(z.object({
+    subject: z.string(),
+    summary: z.string().optional(),
+    values: z.array(z.object({
+      factId: z.number().int(),
+      value: z.string(),
+    })),
+  })),
+});
+
+export const DetectContradictionsRequestSchema = z.object({
+  structuredInsights: z.record(z.array(InsightFactSchema)),
+}).merge(UsageScopeSchema);
+
+export const DetectContradictionsResponseSchema = z.object({
+  contradictions: z.array(ContradictionSchema),
+});
+
+// What the planner is told about the competitor a session is about
+export const CompetitorSeedSchema = z.object({
+  name: z.string().trim().min(1, 'is required'),
+  domains: z.array(z.string()).default([]),
+  products: z.array(z.string()).default([]),
+  eventPages: z.array(z.string()).default([]),
+});
+
+export const GeneratePlanRequestSchema = z.object({
+  question: z.string().trim().min(1, 'is required'),
+  context: z.string().optional(),
+  keep: z.object({
+    searchFocus: z.array(z.string()).optional(),
+    informationGoals: z.array(z.string()).optional(),
+  }).optional(),
+  competitor: CompetitorSeedSchema.optional(),
+}).merge(UsageScopeSchema);
+
+export const CleanerRequestSchema = z.object({
+  scrapingResults: z.array(ScrapingResultSchema).min(1, 'must contain at least one result'),
+  intent: z.string(),
+  searchFocus: z.array(z.string()),
+  informationGoals: z.array(z.string()),
+  originalQuestion: z.string(),
+  context: z.string().optional(),
+  // The session the work is for; cancelling it stops the request
+  sessionId: z.string().optional(),
+  iteration: z.number().int().positive().optional(),
+});
+
+export const RefineRequestSchema = z.object({
+  searchTargets: z.array(z.string()),
+  currentResults: z.array(ScrapingResultSchema).default([]),
+  researchGoals: z.array(z.string()).default([]),
+  iteration: z.number().int().positive().default(1),
+  context: z.string().optional(),
+  // Parsed leniently by parseSearchProviders and parseResearchProfile
+  searchProviders: z.unknown().optional(),
+  profile: z.unknown().optional(),
+  // The competitor the session is about, if any
+  competitor: CompetitorSeedSchema.optional(),
+  sessionId: z.string().optional(),
+});
+
+// A whole session as a file, restored by importing it; bump the version when the shape changes
+export const SESSION_DOCUMENT_FORMAT = 'insight-atlas-session';
+export const SESSION_DOCUMENT_VERSION = 1;
+
+export const SessionDocumentSchema = z.object({
+  format: z.literal(SESSION_DOCUMENT_FORMAT),
+  version: z.literal(SESSION_DOCUMENT_VERSION),
+  exportedAt: z.string(),
+  session: z.object({
+    question: z.string(),
+    title: z.string().nullable().default(null),
+    currentIteration: z.number().int().nonnegative().default(0),
+    analysisText: z.string().nullable().default(null),
+    searchProviders: z.array(z.string()).default([]),
+    // Links to rows of the exporting database; the importer keeps them only where the rows exist
+    profileId: z.string().nullable().default(null),
+    competitorId: z.string().nullable().default(null),
+  }),
+  plan: PlannerResponseSchema.nullable().default(null),
+  iterations: z.array(ResearchIterationSchema.omit({ results: true })).default([]),
+  // Sources found outside any iteration have no iteration number
+  sources: z.array(ScrapingResultSchema.extend({ iteration: z.number().int().positive().nullable() })).default([]),
+  insights: CleanerResponseSchema.nullable().default(null),
+  contradictions: z.array(ContradictionSchema).default([]),
+  logs: z.array(z.object({
+    message: z.string(),
+    timestamp: z.string(),
+    type: z.enum(['info', 'warning', 'error', 'success']),
+  })).default([]),
+});
+
+export type SearchTargetKind = z.infer<typeof SearchTargetKindSchema>;
+export type PlannerResponse = z.infer<typeof PlannerResponseSchema>;
+export type ScrapingResult = z.infer<typeof ScrapingResultSchema>;
+export type InsightFact = z.infer<typeof InsightFactSchema>;
+export type FactVerificationStatus = z.infer<typeof FactVerificationStatusSchema>;
+export type FactVerification = z.infer<typeof FactVerificationSchema>;
+export type SourceType = z.infer<typeof SourceTypeSchema>;
+export type ConfidenceLevel = z.infer<typeof ConfidenceLevelSchema>;
+export type FactConfidence = z.infer<typeof FactConfidenceSchema>;
+export type CleanerResponse = z.infer<typeof CleanerResponseSchema>;
+export type SourceCoverageStatus = z.infer<typeof SourceCoverageStatusSchema>;
+export type SourceCoverage = z.infer<typeof SourceCoverageSchema>;
+export type ChunkExtraction = z.infer<typeof ChunkExtractionSchema>;
+export type EventRole = z.infer<typeof EventRoleSchema>;
+export type ResearchEvent = z.infer<typeof ResearchEventSchema>;
+export type ResearchIteration = z.infer<typeof ResearchIterationSchema>;
+export type Refinement = z.infer<typeof RefinementSchema>;
+export type RefineResearchResponse = z.infer<typeof RefineResearchResponseSchema>;
+export type VerifyRequest = z.infer<typeof VerifyRequestSchema>;
+export type ContradictionClaim = z.infer<typeof ContradictionClaimSchema>;
+export type Contradiction = z.infer<typeof ContradictionSchema>;
+export type VerifyResponse = z.infer<typeof VerifyResponseSchema>;
+export type CompetitorSeed = z.infer<typeof CompetitorSeedSchema>;
+export type GeneratePlanRequest = z.infer<typeof GeneratePlanRequestSchema>;
+export type CleanerRequest = z.infer<typeof CleanerRequestSchema>;
+export type RefineRequest = z.infer<typeof RefineRequestSchema>;
+export type SessionDocument = z.infer<typeof SessionDocumentSchema>;
+
+export class ContractError extends Error {
+  constructor(readonly contract: string, readonly issues: string[]) {
+    super(`Invalid ${contract}: ${issues.join('; ')}`);
+    this.name = 'ContractError';
+  }
+}
+
+export function parseContract<T extends z.ZodTypeAny>(schema: T, value: unknown, contract: string): z.output<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new ContractError(contract, formatIssues(result.error));
+  }
+  return result.data;
+}
+
+// Model replies are JSON text; a reply that does not parse is reported the same way as one with the wrong shape
+export function parseModelJson<T extends z.ZodTypeAny>(schema: T, text: string | null | undefined, contract: string): z.output<T> {
+  if (!text) {
+    throw new ContractError(contract, ['the model returned an empty reply']);
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ContractError(contract, [`the model reply is not valid JSON (${reason}): ${text.slice(0, 200)}`]);
+  }
+  return parseContract(schema, value, contract);
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
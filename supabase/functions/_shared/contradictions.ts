@@ -0,0 +1,110 @@
+// Contradictions between sources. Facts from all categories are numbered and
+// handed to a comparison model, which groups the ones about the same subject
+// that disagree; only disagreements between different sources are kept.
+// Keep this file free of Deno- or DOM-only APIs.
+
+import type { Contradiction, ContradictionClaim, InsightFact } from './contracts.ts';
+
+export interface NumberedFact extends InsightFact {
+  id: number;
+  category: string;
+}
+
+export interface DetectedConflict {
+  subject: string;
+  summary?: string;
+  values: { factId: number; value: string }[];
+}
+
+// Facts the check already found unsupported by their own source cannot contradict anything
+export function numberFacts(structuredInsights: Record<string, InsightFact[]>, maxFacts: number): NumberedFact[] {
+  const facts: NumberedFact[] = [];
+  for (const [category, categoryFacts] of Object.entries(structuredInsights)) {
+    for (const fact of categoryFacts) {
+      if (fact.verification && fact.verification.status !== 'supported') continue;
+      if (facts.length >= maxFacts) return facts;
+      facts.push({ ...fact, id: facts.length, category });
+    }
+  }
+  return facts;
+}
+
+// Subjects are matched on their words, so "Acme Summit date" and "acme summit - date" are one
+export function contradictionKey(subject: string): string {
+  return subject.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).join(' ');
+}
+
+function normalizeValue(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+export function buildContradictions(facts: NumberedFact[], conflicts: DetectedConflict[]): Contradiction[] {
+  const byId = new Map(facts.map(fact => [fact.id, fact]));
+  const contradictions = new Map<string, Contradiction>();
+
+  for (const conflict of conflicts) {
+    const claims: ContradictionClaim[] = [];
+    for (const { factId, value } of conflict.values) {
+      const fact = byId.get(factId);
+      if (!fact || claims.some(claim => claim.fact === fact.fact && claim.source === fact.source)) continue;
+      claims.push({
+        value: value.trim() || fact.fact,
+        fact: fact.fact,
+        source: fact.source,
+        category: fact.category,
+        ...(fact.quote ? { quote: fact.quote } : {}),
+      });
+    }
+
+    // A conflict needs different values from different sources
+    const values = new Set(claims.map(claim => normalizeValue(claim.value)));
+    const sources = new Set(claims.map(claim => claim.source));
+    const subjectKey = contradictionKey(conflict.subject);
+    if (values.size < 2 || sources.size < 2 || !subjectKey || contradictions.has(subjectKey)) continue;
+
+    contradictions.set(subjectKey, {
+      subjectKey,
+      subject: conflict.subject.trim(),
+      ...(conflict.summary ? { summary: conflict.summary } : {}),
+      claims,
+    });
+  }
+
+  return [...contradictions.values()];
+}
+
+export function isSameClaim(a: ContradictionClaim | null | undefined, b: ContradictionClaim): boolean {
+  return !!a && a.fact === b.fact && a.source === b.source;
+}
+
+// A resolution only counts while the claim it picked is still among the contradiction's claims
+export function getResolvedClaim(contradiction: Contradiction): ContradictionClaim | null {
+  return contradiction.claims.find(claim => isSameClaim(contradiction.resolution, claim)) ?? null;
+}
+
+// Carry the analyst's picks over to a fresh detection; resolved subjects that were not found again are kept
+export function mergeResolutions(previous: Contradiction[], detected: Contradiction[]): Contradiction[] {
+  const resolved = new Map(previous.filter(contradiction => contradiction.resolution).map(contradiction => [contradiction.subjectKey, contradiction]));
+  const merged = detected.map(contradiction => {
+    const earlier = resolved.get(contradiction.subjectKey);
+    return earlier
+      ? { ...contradiction, resolution: earlier.resolution, resolvedAt: earlier.resolvedAt }
+      : contradiction;
+  });
+  const detectedKeys = new Set(detected.map(contradiction => contradiction.subjectKey));
+  return [...merged, ...[...resolved.values()].filter(contradiction => !detectedKeys.has(contradiction.subjectKey))];
+}
+
+// Arguments of the save_research_contradictions database function, which replaces the session's
+// unresolved contradictions with these and keeps the resolved ones
+export function toContradictionArgs(sessionId: string, contradictions: Contradiction[]) {
+  return {
+    target_session_id: sessionId,
+    contradictions: contradictions.map(contradiction => ({
+      subject_key: contradiction.subjectKey,
+      subject: contradiction.subject,
+      summary: contradiction.summary ?? null,
+      claims: contradiction.claims,
+    })),
+  };
+}
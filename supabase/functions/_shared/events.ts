@@ -0,0 +1,176 @@
+// Events found while cleaning sources: normalized, deduplicated across chunks
+// and exportable as an iCalendar file. Dates are plain ISO days (YYYY-MM-DD)
+// without a time zone, since sources rarely state one.
+// Keep this file free of Deno- or DOM-only APIs.
+
+import type { EventRole, ResearchEvent, ScrapingResult } from './contracts.ts';
+import type { ChunkOutcome } from './cleaning.ts';
+import { locateQuote } from './citations.ts';
+
+// Checked in order, so "keynote speaker at the sponsor lounge" is a speaker
+const ROLE_PATTERNS: [EventRole, RegExp][] = [
+  ['organizer', /organi[sz]|host/],
+  ['speaker', /speak|keynote|present|panel/],
+  ['sponsor', /sponsor|partner/],
+  ['exhibitor', /exhibit|booth|stand/],
+  ['attendee', /attend|visit|participa/],
+];
+
+const MIN_YEAR = 1990;
+const MAX_YEAR = 2100;
+
+export function normalizeEventRole(value: string | null | undefined): EventRole {
+  const text = value?.toLowerCase() ?? '';
+  return ROLE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'other';
+}
+
+// Only dates precise to the day are kept; "May 2026" would put the event on the 1st
+export function normalizeEventDate(value: string | null | undefined): string | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+  if (iso) {
+    return isValidDay(Number(iso[1]), Number(iso[2]), Number(iso[3])) ? iso.slice(1, 4).join('-') : undefined;
+  }
+
+  if (!/\b\d{1,2}(st|nd|rd|th)?\b/i.test(text.replace(/\b\d{4}\b/g, ''))) return undefined;
+  const parsed = new Date(text.replace(/(\d)(st|nd|rd|th)\b/gi, '$1'));
+  if (Number.isNaN(parsed.getTime())) return undefined;
+  // Parsed as local midnight, so read the day back in local time
+  return isValidDay(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate())
+    ? toIsoDay(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate())
+    : undefined;
+}
+
+function isValidDay(year: number, month: number, day: number): boolean {
+  if (year < MIN_YEAR || year > MAX_YEAR) return false;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function toIsoDay(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function normalizeText(value: string | null | undefined): string | undefined {
+  return value?.trim() || undefined;
+}
+
+function eventKey(event: ResearchEvent): string {
+  return [event.name, event.startDate ?? '', event.role, event.participant ?? '']
+    .map(part => part.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim())
+    .join('|');
+}
+
+// The same event seen in several chunks keeps its first mention, completed with details the others add
+export function mergeEvents(outcomes: ChunkOutcome[], results: ScrapingResult[]): ResearchEvent[] {
+  const events = new Map<string, ResearchEvent>();
+
+  for (const { chunk, extraction } of outcomes) {
+    for (const extracted of extraction?.events ?? []) {
+      const name = extracted.name.trim();
+      if (!name) continue;
+
+      const startDate = normalizeEventDate(extracted.startDate);
+      const endDate = normalizeEventDate(extracted.endDate);
+      const content = results[chunk.sourceIndex]?.content ?? '';
+      const span = locateQuote(content, extracted.quote ?? undefined);
+      const quote = span ? content.slice(span.start, span.end) : normalizeText(extracted.quote);
+
+      const event: ResearchEvent = {
+        name,
+        organizer: normalizeText(extracted.organizer),
+        startDate,
+        endDate: startDate && endDate && endDate > startDate ? endDate : undefined,
+        city: normalizeText(extracted.city),
+        venue: normalizeText(extracted.venue),
+        participant: normalizeText(extracted.participant),
+        role: normalizeEventRole(extracted.role),
+        source: chunk.url,
+        quote,
+      };
+      const cleaned = Object.fromEntries(Object.entries(event).filter(([, value]) => value !== undefined)) as ResearchEvent;
+
+      const key = eventKey(cleaned);
+      const existing = events.get(key);
+      events.set(key, existing ? { ...cleaned, ...existing } : cleaned);
+    }
+  }
+
+  return sortEvents([...events.values()]);
+}
+
+// Chronological, with undated events last
+export function sortEvents(events: ResearchEvent[]): ResearchEvent[] {
+  return [...events].sort((a, b) => {
+    if (a.startDate !== b.startDate) {
+      if (!a.startDate) return 1;
+      if (!b.startDate) return -1;
+      return a.startDate < b.startDate ? -1 : 1;
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
+
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Content lines longer than 75 characters continue on the next line after a space
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push(line.slice(i, i + (i === 0 ? 75 : 74)));
+  }
+  return parts.join('\r\n ');
+}
+
+function icsDay(isoDay: string): string {
+  return isoDay.replace(/-/g, '');
+}
+
+// All-day events end on the day after their last day
+function dayAfter(isoDay: string): string {
+  const [year, month, day] = isoDay.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return toIsoDay(next.getUTCFullYear(), next.getUTCMonth() + 1, next.getUTCDate());
+}
+
+// Undated events cannot go in a calendar and are left out
+export function eventsToIcs(events: ResearchEvent[], calendarName: string, now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Insight Atlas//Research Events//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    if (!event.startDate) continue;
+    const location = [event.venue, event.city].filter(Boolean).join(', ');
+    const description = [
+      event.participant ? `${event.participant}: ${event.role}` : event.role !== 'other' ? `Role: ${event.role}` : '',
+      event.organizer ? `Organizer: ${event.organizer}` : '',
+      `Source: ${event.source}`,
+    ].filter(Boolean).join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${icsDay(event.startDate)}-${eventKey(event).replace(/[^a-z0-9]+/g, '-')}@insight-atlas`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDay(event.startDate)}`,
+      `DTEND;VALUE=DATE:${icsDay(dayAfter(event.endDate ?? event.startDate))}`,
+      `SUMMARY:${escapeIcsText(event.name)}`,
+      ...(location ? [`LOCATION:${escapeIcsText(location)}`] : []),
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      `URL:${event.source}`,
+      'END:VEVENT',
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
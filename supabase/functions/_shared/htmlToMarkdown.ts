@@ -0,0 +1,174 @@
+// A small readability pass: pick the main content block of an HTML page and
+// render it as Markdown. Works on plain strings so it runs in Deno and the browser.
+
+export interface ExtractedContent {
+  title?: string;
+  description?: string;
+  // As the page states it, e.g. "2025-05-12T09:00:00Z"
+  publishedAt?: string;
+  markdown: string;
+}
+
+// Page chrome and non-text elements that never belong to the main content
+const REMOVED_ELEMENTS = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed',
+  'form', 'button', 'select', 'nav', 'header', 'footer', 'aside',
+];
+
+const BLOCK_ELEMENTS = [
+  'p', 'div', 'section', 'article', 'main', 'ul', 'ol', 'table', 'tr', 'blockquote',
+  'figure', 'figcaption', 'dl', 'dt', 'dd', 'hr', 'address', 'details', 'summary',
+];
+
+// Below this much text the chosen block is probably a teaser, so fall back to the whole body
+const MIN_MAIN_TEXT_LENGTH = 200;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ', lt: '<', gt: '>', quot: '"', apos: "'", ndash: '–', mdash: '—', hellip: '…',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»', bull: '•',
+  middot: '·', copy: '©', reg: '®', trade: '™', euro: '€', pound: '£', deg: '°',
+  auml: 'ä', ouml: 'ö', aring: 'å', Auml: 'Ä', Ouml: 'Ö', Aring: 'Å', uuml: 'ü', eacute: 'é',
+};
+
+export function extractMainContent(html: string, baseUrl?: string): ExtractedContent {
+  const title = textOf(firstMatch(html, /<title[^>]*>([\s\S]*?)<\/title>/i));
+  const description = decodeEntities(
+    firstMatch(html, /<meta[^>]+name=["']description["'][^>]*content=["']([^"']*)["']/i)
+    ?? firstMatch(html, /<meta[^>]+content=["']([^"']*)["'][^>]*name=["']description["']/i)
+    ?? ''
+  ).trim() || undefined;
+  const publishedAt = (
+    firstMatch(html, /<meta[^>]+(?:property|name|itemprop)=["'](?:article:published_time|datePublished|pubdate|date)["'][^>]*content=["']([^"']+)["']/i)
+    ?? firstMatch(html, /<meta[^>]+content=["']([^"']+)["'][^>]*(?:property|name|itemprop)=["'](?:article:published_time|datePublished|pubdate|date)["']/i)
+    ?? firstMatch(html, /"datePublished"\s*:\s*"([^"]+)"/)
+    ?? firstMatch(html, /<time[^>]+datetime=["']([^"']+)["']/i)
+  )?.trim() || undefined;
+
+  let cleaned = html.replace(/<!--[\s\S]*?-->/g, ' ');
+  for (const tag of REMOVED_ELEMENTS) {
+    cleaned = cleaned.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi'), ' ');
+  }
+
+  return {
+    title: title || undefined,
+    description,
+    publishedAt,
+    markdown: toMarkdown(pickMainBlock(cleaned), baseUrl),
+  };
+}
+
+// Prefer <main>, then <article>, then anything marked role="main", then the body
+function pickMainBlock(html: string): string {
+  const body = outerSpan(html, 'body') ?? html;
+  const candidates = [
+    outerSpan(body, 'main'),
+    outerSpan(body, 'article'),
+    spanFromAttribute(body, /<(\w+)[^>]*\brole=["']main["'][^>]*>/i),
+  ];
+
+  for (const candidate of candidates) {
+    if (candidate && textOf(candidate).length >= MIN_MAIN_TEXT_LENGTH) {
+      return candidate;
+    }
+  }
+  return body;
+}
+
+// From the first opening tag to the last closing one, so nested elements of the same name stay inside
+function outerSpan(html: string, tag: string): string | null {
+  const start = html.search(new RegExp(`<${tag}\\b`, 'i'));
+  const end = html.toLowerCase().lastIndexOf(`</${tag}>`);
+  if (start === -1 || end <= start) return null;
+  return html.slice(start, end + tag.length + 3);
+}
+
+function spanFromAttribute(html: string, pattern: RegExp): string | null {
+  const match = pattern.exec(html);
+  if (!match) return null;
+  const end = html.toLowerCase().lastIndexOf(`</${match[1].toLowerCase()}>`);
+  if (end <= match.index) return null;
+  return html.slice(match.index, end);
+}
+
+function toMarkdown(html: string, baseUrl?: string): string {
+  // Preformatted blocks keep their whitespace, so park them until the rest is converted
+  const preformatted: string[] = [];
+  let markdown = html.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, inner: string) => {
+    preformatted.push('```\n' + decodeEntities(stripTags(inner)).replace(/^\n+|\s+$/g, '') + '\n```');
+    return `\uE000${preformatted.length - 1}\uE000`;
+  });
+
+  markdown = markdown.replace(/\s+/g, ' ');
+
+  markdown = markdown
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${stripTags(inner).trim()}\n\n`)
+    .replace(/<a\b[^>]*href=["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, inner: string) => {
+      const text = stripTags(inner).trim();
+      const url = resolveUrl(decodeEntities(href), baseUrl);
+      return url && text ? `[${text}](${url})` : text;
+    })
+    .replace(/<img\b[^>]*>/gi, tag => {
+      const alt = firstMatch(tag, /\balt=["']([^"']*)["']/i)?.trim();
+      const src = resolveUrl(decodeEntities(firstMatch(tag, /\bsrc=["']([^"']*)["']/i) ?? ''), baseUrl);
+      return alt && src ? `![${alt}](${src})` : '';
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, __, inner: string) => wrapInline(inner, '**'))
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, __, inner: string) => wrapInline(inner, '*'))
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (_, inner: string) => wrapInline(inner, '`'))
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(td|th)\b[^>]*>/gi, ' ')
+    .replace(new RegExp(`</?(${BLOCK_ELEMENTS.join('|')})\\b[^>]*>`, 'gi'), '\n\n');
+
+  markdown = decodeEntities(stripTags(markdown))
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/\uE000(\d+)\uE000/g, (_, index: string) => `\n\n${preformatted[Number(index)]}\n\n`)
+    .replace(/\n{3,}/g, '\n\n');
+
+  return markdown.trim();
+}
+
+function wrapInline(inner: string, marker: string): string {
+  const text = stripTags(inner).trim();
+  return text ? `${marker}${text}${marker}` : '';
+}
+
+function resolveUrl(href: string, baseUrl?: string): string | null {
+  if (!href || href.startsWith('#') || /^(javascript|mailto|tel|data):/i.test(href)) return null;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '');
+}
+
+function textOf(html: string | null | undefined): string {
+  return decodeEntities(stripTags(html ?? '')).replace(/\s+/g, ' ').trim();
+}
+
+function firstMatch(text: string, pattern: RegExp): string | null {
+  return pattern.exec(text)?.[1] ?? null;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => safeFromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal: string) => safeFromCodePoint(parseInt(decimal, 10)))
+    .replace(/&([a-z]+);/gi, (entity, name: string) => NAMED_ENTITIES[name] ?? (name === 'amp' ? '&' : entity));
+}
+
+function safeFromCodePoint(codePoint: number): string {
+  try {
+    return String.fromCodePoint(codePoint);
+  } catch {
+    return '';
+  }
+}
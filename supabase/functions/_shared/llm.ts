@@ -0,0 +1,30 @@
+import { LLM_STEPS, LlmStep, LlmStepConfig, createLlmClient, isLlmProviderId } from "./llmProviders.ts";
+
+// LLM_PROVIDER picks 'openai' (default), 'anthropic', 'openai-compatible' or 'mock';
+// LLM_<STEP>_MODEL and LLM_<STEP>_TIMEOUT_MS override a step, e.g. LLM_CLEAN_MODEL=gpt-4o
+const providerSetting = Deno.env.get('LLM_PROVIDER');
+
+export const llm = createLlmClient({
+  provider: isLlmProviderId(providerSetting) ? providerSetting : 'openai',
+  openaiApiKey: Deno.env.get('OPENAI_API_KEY'),
+  anthropicApiKey: Deno.env.get('ANTHROPIC_API_KEY'),
+  baseUrl: Deno.env.get('LLM_BASE_URL'),
+  apiKey: Deno.env.get('LLM_API_KEY'),
+  steps: Object.fromEntries(LLM_STEPS.map(step => [step, readStepConfig(step)])),
+  timeoutMs: readNumber('LLM_TIMEOUT_MS'),
+  maxRetries: readNumber('LLM_MAX_RETRIES'),
+  retryDelayMs: readNumber('LLM_RETRY_DELAY_MS'),
+});
+
+function readStepConfig(step: LlmStep): LlmStepConfig {
+  const prefix = `LLM_${step.toUpperCase()}`;
+  return {
+    model: Deno.env.get(`${prefix}_MODEL`),
+    timeoutMs: readNumber(`${prefix}_TIMEOUT_MS`),
+  };
+}
+
+function readNumber(name: string): number | undefined {
+  const value = Number(Deno.env.get(name));
+  return Deno.env.get(name) && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
@@ -0,0 +1,369 @@
+// Chat model backends for the research Edge Functions. Every function asks for
+// a completion for one pipeline step; the client picks the provider and the
+// step's model, applies the timeout and retries rate limits and server errors.
+// Keep this file free of Deno- or DOM-only APIs; llm.ts reads the environment.
+
+import { isAbortError, sleep, throwIfAborted, withTimeout } from './abort.ts';
+
+export type LlmProviderId = 'openai' | 'anthropic' | 'openai-compatible' | 'mock';
+
+// 'extract' reads one chunk of a source, 'clean' summarizes the merged facts,
+// 'verify' checks facts against their source passages, 'compare' looks for sources that disagree
+export type LlmStep = 'plan' | 'extract' | 'clean' | 'verify' | 'compare' | 'refine';
+
+export interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  // Ask for a single JSON object as the reply
+  json?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ChatCompletion {
+  content: string;
+  provider: LlmProviderId;
+  model: string;
+  // Null when the provider did not report it
+  usage: TokenUsage | null;
+}
+
+export interface ProviderReply {
+  content: string;
+  usage: TokenUsage | null;
+}
+
+export interface CompletionOptions {
+  step: LlmStep;
+  model: string;
+  signal: AbortSignal;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  // Resolves to the reply text and the tokens it took; throws an LlmError when the provider could not answer
+  complete(request: ChatRequest, options: CompletionOptions): Promise<ProviderReply>;
+}
+
+export interface LlmStepConfig {
+  model?: string;
+  timeoutMs?: number;
+}
+
+export interface LlmConfig {
+  provider: LlmProviderId;
+  openaiApiKey?: string | null;
+  anthropicApiKey?: string | null;
+  // OpenAI-compatible servers, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl?: string | null;
+  apiKey?: string | null;
+  steps?: Partial<Record<LlmStep, LlmStepConfig>>;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  // Replies the mock provider gives instead of its built-in ones
+  mockReplies?: Partial<Record<LlmStep, string>>;
+}
+
+export interface LlmClient {
+  provider: LlmProviderId;
+  // The signal cancels the call, including retries still to come
+  complete(step: LlmStep, request: ChatRequest, signal?: AbortSignal): Promise<ChatCompletion>;
+}
+
+export const LLM_PROVIDER_IDS: LlmProviderId[] = ['openai', 'anthropic', 'openai-compatible', 'mock'];
+
+export const LLM_STEPS: LlmStep[] = ['plan', 'extract', 'clean', 'verify', 'compare', 'refine'];
+
+export const DEFAULT_LLM_MODELS: Record<LlmProviderId, Record<LlmStep, string>> = {
+  openai: {
+    plan: 'gpt-4o-mini',
+    extract: 'gpt-4o-mini',
+    clean: 'gpt-4o',
+    verify: 'gpt-4o-mini',
+    compare: 'gpt-4o',
+    refine: 'gpt-4o-mini',
+  },
+  anthropic: {
+    plan: 'claude-3-5-haiku-latest',
+    extract: 'claude-3-5-haiku-latest',
+    clean: 'claude-3-5-sonnet-latest',
+    verify: 'claude-3-5-haiku-latest',
+    compare: 'claude-3-5-sonnet-latest',
+    refine: 'claude-3-5-haiku-latest',
+  },
+  'openai-compatible': {
+    plan: 'llama3.1',
+    extract: 'llama3.1',
+    clean: 'llama3.1',
+    verify: 'llama3.1',
+    compare: 'llama3.1',
+    refine: 'llama3.1',
+  },
+  mock: { plan: 'mock', extract: 'mock', clean: 'mock', verify: 'mock', compare: 'mock', refine: 'mock' },
+};
+
+const DEFAULT_TIMEOUT_MS = 45000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+// status is what the Edge Function answers with: the provider's own status,
+// 504 for a timeout and 502 for an unreadable reply
+export class LlmError extends Error {
+  constructor(message: string, readonly status: number, readonly retryable: boolean) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+export function isLlmProviderId(value: unknown): value is LlmProviderId {
+  return typeof value === 'string' && LLM_PROVIDER_IDS.includes(value as LlmProviderId);
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  switch (config.provider) {
+    case 'anthropic':
+      return createAnthropicProvider(config.anthropicApiKey);
+    case 'openai-compatible':
+      return createOpenAiProvider('openai-compatible', config.baseUrl, config.apiKey);
+    case 'mock':
+      return createMockProvider(config.mockReplies);
+    default:
+      return createOpenAiProvider('openai', 'https://api.openai.com/v1', config.openaiApiKey);
+  }
+}
+
+export function createLlmClient(config: LlmConfig): LlmClient {
+  const provider = createLlmProvider(config);
+  const maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const retryDelayMs = config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+  return {
+    provider: provider.id,
+    complete: async (step, request, signal) => {
+      const model = config.steps?.[step]?.model || DEFAULT_LLM_MODELS[provider.id][step];
+      const timeoutMs = config.steps?.[step]?.timeoutMs ?? config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+      for (let attempt = 0; ; attempt++) {
+        throwIfAborted(signal);
+        try {
+          const { content, usage } = await completeWithTimeout(provider, request, step, model, timeoutMs, signal);
+          return { content, provider: provider.id, model, usage };
+        } catch (error) {
+          if (isAbortError(error)) {
+            throw error;
+          }
+          const llmError = toLlmError(error, provider.id);
+          if (!llmError.retryable || attempt >= maxRetries) {
+            throw llmError;
+          }
+          const delay = retryDelayMs * 2 ** attempt;
+          console.warn(`${provider.id} ${step} request failed (${llmError.message}), retrying in ${delay}ms`);
+          await sleep(delay, signal);
+        }
+      }
+    },
+  };
+}
+
+async function completeWithTimeout(
+  provider: LlmProvider,
+  request: ChatRequest,
+  step: LlmStep,
+  model: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<ProviderReply> {
+  const timeout = withTimeout(timeoutMs, signal);
+  try {
+    return await provider.complete(request, { step, model, signal: timeout.signal });
+  } catch (error) {
+    if (timeout.timedOut()) {
+      throw new LlmError(`${provider.id} request timed out after ${timeoutMs / 1000} seconds`, 504, true);
+    }
+    throw error;
+  } finally {
+    timeout.clear();
+  }
+}
+
+// Network failures are worth another attempt; anything else we did not expect is not
+function toLlmError(error: unknown, provider: LlmProviderId): LlmError {
+  if (error instanceof LlmError) return error;
+  if (error instanceof TypeError) {
+    return new LlmError(`${provider} request failed: ${error.message}`, 502, true);
+  }
+  return new LlmError(error instanceof Error ? error.message : String(error), 500, false);
+}
+
+async function postJson(url: string, headers: Record<string, string>, body: unknown, signal: AbortSignal, provider: LlmProviderId) {
+  const response = await fetch(url, {
+    method: 'POST',
+    signal,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => '');
+    console.error(`${provider} API error:`, response.status, details);
+    throw new LlmError(
+      `${provider} API error (${response.status})`,
+      response.status,
+      response.status === 429 || response.status >= 500
+    );
+  }
+
+  return response.json();
+}
+
+function createOpenAiProvider(id: LlmProviderId, baseUrl?: string | null, apiKey?: string | null): LlmProvider {
+  return {
+    id,
+    complete: async (request, { model, signal }) => {
+      if (!baseUrl) {
+        throw new LlmError(`${id} provider needs a base URL`, 500, false);
+      }
+      if (id === 'openai' && !apiKey) {
+        throw new LlmError('OpenAI API key is not configured', 500, false);
+      }
+
+      const data = await postJson(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}, {
+        model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+      }, signal, id);
+
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new LlmError(`${id} returned no message`, 502, false);
+      }
+      return { content, usage: readUsage(data?.usage?.prompt_tokens, data?.usage?.completion_tokens) };
+    },
+  };
+}
+
+// Anthropic has no JSON mode, so the instruction goes into the system prompt
+// and the object is cut out of whatever text surrounds it
+function createAnthropicProvider(apiKey?: string | null): LlmProvider {
+  return {
+    id: 'anthropic',
+    complete: async (request, { model, signal }) => {
+      if (!apiKey) {
+        throw new LlmError('Anthropic API key is not configured', 500, false);
+      }
+
+      const system = request.messages.filter(message => message.role === 'system').map(message => message.content);
+      if (request.json) {
+        system.push('Respond with a single JSON object and nothing else.');
+      }
+
+      const data = await postJson('https://api.anthropic.com/v1/messages', {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      }, {
+        model,
+        system: system.join('\n\n'),
+        messages: request.messages
+          .filter(message => message.role === 'user')
+          .map(message => ({ role: 'user', content: message.content })),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens ?? ANTHROPIC_MAX_TOKENS,
+      }, signal, 'anthropic');
+
+      const text = Array.isArray(data?.content)
+        ? data.content.filter((block: { type: string }) => block.type === 'text').map((block: { text: string }) => block.text).join('')
+        : '';
+      if (!text) {
+        throw new LlmError('anthropic returned no message', 502, false);
+      }
+      return {
+        content: request.json ? extractJsonObject(text) : text,
+        usage: readUsage(data?.usage?.input_tokens, data?.usage?.output_tokens),
+      };
+    },
+  };
+}
+
+function readUsage(inputTokens: unknown, outputTokens: unknown): TokenUsage | null {
+  return typeof inputTokens === 'number' && typeof outputTokens === 'number' ? { inputTokens, outputTokens } : null;
+}
+
+function extractJsonObject(text: string): string {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text;
+}
+
+// Deterministic replies that satisfy the step contracts, for local runs without a model
+function createMockProvider(replies: Partial<Record<LlmStep, string>> = {}): LlmProvider {
+  return {
+    id: 'mock',
+    complete: async (request, options) => ({ content: mockReply(request, options.step, replies), usage: null }),
+  };
+}
+
+function mockReply(request: ChatRequest, step: LlmStep, replies: Partial<Record<LlmStep, string>>): string {
+  if (replies[step] !== undefined) {
+    return replies[step] as string;
+  }
+
+  const userMessage = request.messages.filter(message => message.role === 'user').pop()?.content ?? '';
+  switch (step) {
+    case 'plan': {
+      const question = userMessage.split('\n\nAdditional context:')[0].trim();
+      return JSON.stringify({
+        intent: `Find out: ${question}`,
+        searchFocus: [question],
+        informationGoals: [question],
+        originalQuestion: question,
+        context: '',
+      });
+    }
+    case 'extract': {
+      // The first line of the chunk text, after the SOURCE/CHUNK header
+      const firstLine = userMessage.split('\n\n').slice(1).join('\n').split('\n').find(line => line.trim());
+      return JSON.stringify({
+        facts: firstLine
+          ? [{ category: 'Mock facts', fact: firstLine.trim().slice(0, 200), quote: firstLine.trim().slice(0, 200) }]
+          : [],
+      });
+    }
+    case 'verify': {
+      // Every claim with evidence counts as supported
+      const { claims = [] } = JSON.parse(userMessage || '{}') as { claims?: { id: number; evidence: string }[] };
+      return JSON.stringify({
+        verdicts: claims.map(claim => ({ id: claim.id, label: claim.evidence ? 'supported' : 'unsupported' })),
+      });
+    }
+    case 'compare':
+      return JSON.stringify({ conflicts: [] });
+    case 'clean':
+      return JSON.stringify({
+        relevantFindings: [],
+        suggestedNextSteps: [],
+        analysis: `Mock analysis of ${userMessage.split('\n- ').length - 1} facts.`,
+      });
+    default:
+      return JSON.stringify({
+        analysis: 'Mock refinement: no further targets.',
+        improvedTargets: [],
+        targetTypes: [],
+        searchPriority: [],
+        extractionFocus: '',
+        industrySpecificSites: [],
+      });
+  }
+}
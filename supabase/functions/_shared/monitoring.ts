@@ -0,0 +1,167 @@
+// Change detection for research monitors. Each run of a monitor is compared
+// with the one before it: facts are paired by their text, then near matches are
+// paired as changed values; sources are compared by URL and content.
+// Keep this file free of Deno- or DOM-only APIs.
+
+import type { InsightFact, ScrapingResult } from './contracts.ts';
+import { factKey } from './cleaning.ts';
+import { contentWords } from './verification.ts';
+
+// What a finished run left behind
+export interface MonitorRunSnapshot {
+  structuredInsights: Record<string, InsightFact[]>;
+  sources: ScrapingResult[];
+}
+
+export interface MonitorFact {
+  category: string;
+  fact: string;
+  source: string;
+}
+
+export interface MonitorFactChange {
+  previous: MonitorFact;
+  current: MonitorFact;
+}
+
+export interface MonitorSourceChange {
+  url: string;
+  addedLines: number;
+  removedLines: number;
+}
+
+export interface MonitorChanges {
+  // The first run of a monitor has nothing to compare with
+  baseline: boolean;
+  factCount: number;
+  unchangedFactCount: number;
+  newFacts: MonitorFact[];
+  removedFacts: MonitorFact[];
+  changedFacts: MonitorFactChange[];
+  newSources: string[];
+  removedSources: string[];
+  changedSources: MonitorSourceChange[];
+}
+
+// Share of content words two facts must have in common to count as the same fact with a new value
+const CHANGED_FACT_SIMILARITY = 0.5;
+
+function listFacts(structuredInsights: Record<string, InsightFact[]>): MonitorFact[] {
+  const facts = new Map<string, MonitorFact>();
+  for (const [category, categoryFacts] of Object.entries(structuredInsights)) {
+    for (const fact of categoryFacts) {
+      // Facts the source does not back are noise between runs
+      if (fact.verification?.status === 'contradicted') continue;
+      const key = factKey(fact.fact);
+      if (key && !facts.has(key)) {
+        facts.set(key, { category, fact: fact.fact, source: fact.source });
+      }
+    }
+  }
+  return [...facts.values()];
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+// The most similar facts are paired first, each fact at most once
+function pairChangedFacts(removed: MonitorFact[], added: MonitorFact[]): MonitorFactChange[] {
+  const removedWords = removed.map(fact => new Set(contentWords(fact.fact)));
+  const addedWords = added.map(fact => new Set(contentWords(fact.fact)));
+  const candidates: { previous: number; current: number; score: number }[] = [];
+
+  removedWords.forEach((previousWords, previous) => {
+    addedWords.forEach((currentWords, current) => {
+      const score = similarity(previousWords, currentWords);
+      if (score >= CHANGED_FACT_SIMILARITY) {
+        candidates.push({ previous, current, score });
+      }
+    });
+  });
+
+  const pairedPrevious = new Set<number>();
+  const pairedCurrent = new Set<number>();
+  const changes: MonitorFactChange[] = [];
+  for (const candidate of candidates.sort((a, b) => b.score - a.score)) {
+    if (pairedPrevious.has(candidate.previous) || pairedCurrent.has(candidate.current)) continue;
+    pairedPrevious.add(candidate.previous);
+    pairedCurrent.add(candidate.current);
+    changes.push({ previous: removed[candidate.previous], current: added[candidate.current] });
+  }
+  return changes;
+}
+
+function contentLines(content: string): Set<string> {
+  return new Set(content.split('\n').map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean));
+}
+
+function diffSources(previous: ScrapingResult[], current: ScrapingResult[]): Pick<MonitorChanges, 'newSources' | 'removedSources' | 'changedSources'> {
+  const previousByUrl = new Map(previous.map(source => [source.url, source.content ?? '']));
+  const currentByUrl = new Map(current.map(source => [source.url, source.content ?? '']));
+  const changedSources: MonitorSourceChange[] = [];
+
+  for (const [url, content] of currentByUrl) {
+    const earlier = previousByUrl.get(url);
+    if (earlier === undefined) continue;
+    const earlierLines = contentLines(earlier);
+    const lines = contentLines(content);
+    const addedLines = [...lines].filter(line => !earlierLines.has(line)).length;
+    const removedLines = [...earlierLines].filter(line => !lines.has(line)).length;
+    if (addedLines > 0 || removedLines > 0) {
+      changedSources.push({ url, addedLines, removedLines });
+    }
+  }
+
+  return {
+    newSources: [...currentByUrl.keys()].filter(url => !previousByUrl.has(url)),
+    removedSources: [...previousByUrl.keys()].filter(url => !currentByUrl.has(url)),
+    changedSources,
+  };
+}
+
+export function diffRuns(previous: MonitorRunSnapshot | null, current: MonitorRunSnapshot): MonitorChanges {
+  const currentFacts = listFacts(current.structuredInsights);
+  if (!previous) {
+    return {
+      baseline: true,
+      factCount: currentFacts.length,
+      unchangedFactCount: 0,
+      newFacts: [],
+      removedFacts: [],
+      changedFacts: [],
+      newSources: [],
+      removedSources: [],
+      changedSources: [],
+    };
+  }
+
+  const previousFacts = listFacts(previous.structuredInsights);
+  const previousKeys = new Set(previousFacts.map(fact => factKey(fact.fact)));
+  const currentKeys = new Set(currentFacts.map(fact => factKey(fact.fact)));
+  const added = currentFacts.filter(fact => !previousKeys.has(factKey(fact.fact)));
+  const removed = previousFacts.filter(fact => !currentKeys.has(factKey(fact.fact)));
+
+  const changedFacts = pairChangedFacts(removed, added);
+  const changedPrevious = new Set(changedFacts.map(change => change.previous));
+  const changedCurrent = new Set(changedFacts.map(change => change.current));
+
+  return {
+    baseline: false,
+    factCount: currentFacts.length,
+    unchangedFactCount: currentFacts.length - added.length,
+    newFacts: added.filter(fact => !changedCurrent.has(fact)),
+    removedFacts: removed.filter(fact => !changedPrevious.has(fact)),
+    changedFacts,
+    ...diffSources(previous.sources, current.sources),
+  };
+}
+
+export function countChanges(changes: MonitorChanges): number {
+  return changes.newFacts.length + changes.removedFacts.length + changes.changedFacts.length;
+}
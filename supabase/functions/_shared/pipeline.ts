@@ -0,0 +1,206 @@
+// Research pipeline state machine, shared by the research page and the
+// run-research Edge Function. Keep this file free of Deno- or DOM-only APIs.
+
+export type PipelineStep = 'planning' | 'searching' | 'scraping' | 'cleaning' | 'verifying' | 'refining';
+export type PipelineState = 'idle' | PipelineStep | 'done' | 'failed' | 'cancelled';
+export type PipelineStepStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// Inputs and outputs are stored as JSON so a step can be re-run from its record alone
+export interface PipelineStepRecord {
+  id: string;
+  step: PipelineStep;
+  iteration: number;
+  status: PipelineStepStatus;
+  input: Record<string, unknown>;
+  output?: Record<string, unknown>;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+// Output of the searching step and input of the scraping step
+export interface ResolvedTarget {
+  target: string;
+  urls: string[];
+}
+
+export interface Pipeline {
+  state: PipelineState;
+  iteration: number;
+  steps: PipelineStepRecord[];
+}
+
+export class PipelineTransitionError extends Error {
+  constructor(from: PipelineState, to: PipelineState) {
+    super(`Invalid research pipeline transition: ${from} -> ${to}`);
+    this.name = 'PipelineTransitionError';
+  }
+}
+
+// Server jobs (research_jobs.step) name their steps after the work they do
+export type JobStep = 'plan' | 'search' | 'scrape' | 'clean' | 'verify' | 'refine';
+
+export const JOB_STEP_STATES: Record<JobStep, PipelineStep> = {
+  plan: 'planning',
+  search: 'searching',
+  scrape: 'scraping',
+  clean: 'cleaning',
+  verify: 'verifying',
+  refine: 'refining',
+};
+
+export const STEP_JOB_STEPS: Record<PipelineStep, JobStep> = {
+  planning: 'plan',
+  searching: 'search',
+  scraping: 'scrape',
+  cleaning: 'clean',
+  verifying: 'verify',
+  refining: 'refine',
+};
+
+// Iterations a server job runs unless told otherwise, and the most it may run; monitors allow the same range
+export const DEFAULT_JOB_ITERATIONS = 2;
+export const MAX_JOB_ITERATIONS = 5;
+
+// Steps run once per iteration, in this order
+export const ITERATION_STEPS: PipelineStep[] = ['searching', 'scraping', 'cleaning', 'verifying', 'refining'];
+
+const RETRYABLE: PipelineState[] = ['planning', 'searching', 'scraping', 'cleaning', 'verifying', 'refining'];
+
+const TRANSITIONS: Record<PipelineState, PipelineState[]> = {
+  idle: ['planning', 'searching', 'cleaning'],
+  planning: ['idle', 'searching', 'failed', 'cancelled'],
+  searching: ['scraping', 'failed', 'cancelled'],
+  // With nothing scraped there is nothing to clean, so refinement can follow directly
+  scraping: ['cleaning', 'refining', 'failed', 'cancelled'],
+  // Facts are checked against their sources before anything builds on them
+  cleaning: ['verifying', 'failed', 'cancelled'],
+  verifying: ['refining', 'done', 'failed', 'cancelled'],
+  // Refinement either starts the next iteration or cleans the results it crawled itself
+  refining: ['searching', 'cleaning', 'done', 'failed', 'cancelled'],
+  done: ['planning', 'searching', 'cleaning'],
+  failed: RETRYABLE,
+  cancelled: RETRYABLE,
+};
+
+const STATE_DESCRIPTIONS: Record<PipelineState, string> = {
+  idle: 'Ready to research',
+  planning: 'Generating research plan...',
+  searching: 'Searching for sources...',
+  scraping: 'Scraping sources...',
+  cleaning: 'Cleaning and structuring research findings...',
+  verifying: 'Verifying facts against their sources...',
+  refining: 'AI analyzing results and refining search strategy...',
+  done: 'Research completed successfully',
+  failed: 'Research failed',
+  cancelled: 'Research canceled',
+};
+
+export function createPipeline(iteration = 0): Pipeline {
+  return { state: 'idle', iteration, steps: [] };
+}
+
+export function canTransition(from: PipelineState, to: PipelineState): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export function isBusy(state: PipelineState): boolean {
+  return state === 'planning' || ITERATION_STEPS.includes(state as PipelineStep);
+}
+
+export function startStep(
+  pipeline: Pipeline,
+  step: PipelineStep,
+  iteration: number,
+  input: Record<string, unknown>,
+  now: Date = new Date()
+): Pipeline {
+  if (!canTransition(pipeline.state, step)) {
+    throw new PipelineTransitionError(pipeline.state, step);
+  }
+
+  return {
+    state: step,
+    iteration,
+    steps: [
+      ...pipeline.steps,
+      { id: crypto.randomUUID(), step, iteration, status: 'running', input, startedAt: now.toISOString() },
+    ],
+  };
+}
+
+// Settle the running step's record; the state stays on that step until the next one starts
+export function completeStep(pipeline: Pipeline, output: Record<string, unknown>, now: Date = new Date()): Pipeline {
+  return settleRunningStep(pipeline, { status: 'succeeded', output, finishedAt: now.toISOString() }, pipeline.state);
+}
+
+export function failStep(pipeline: Pipeline, error: string, now: Date = new Date()): Pipeline {
+  return settleRunningStep(pipeline, { status: 'failed', error, finishedAt: now.toISOString() }, 'failed');
+}
+
+export function cancelPipeline(pipeline: Pipeline, now: Date = new Date()): Pipeline {
+  return settleRunningStep(pipeline, { status: 'cancelled', finishedAt: now.toISOString() }, 'cancelled');
+}
+
+export function finishPipeline(pipeline: Pipeline, state: 'idle' | 'done'): Pipeline {
+  if (!canTransition(pipeline.state, state)) {
+    throw new PipelineTransitionError(pipeline.state, state);
+  }
+  return { ...pipeline, state };
+}
+
+export function runningStep(pipeline: Pipeline): PipelineStepRecord | undefined {
+  return [...pipeline.steps].reverse().find(record => record.status === 'running');
+}
+
+// The step to offer a retry for once the pipeline has failed or been cancelled
+export function lastFailedStep(pipeline: Pipeline): PipelineStepRecord | undefined {
+  if (pipeline.state !== 'failed' && pipeline.state !== 'cancelled') return undefined;
+  return [...pipeline.steps].reverse().find(record => record.status === 'failed' || record.status === 'cancelled');
+}
+
+// Rebuild a pipeline from stored step records. A record still marked running
+// without anything executing it was interrupted, and counts as failed.
+export function restorePipeline(steps: PipelineStepRecord[], settled: 'idle' | 'done' | 'cancelled', iteration: number): Pipeline {
+  const restored = steps.map(record => record.status === 'running'
+    ? { ...record, status: 'failed' as const, error: record.error ?? 'Interrupted before it finished' }
+    : record);
+  const last = restored[restored.length - 1];
+
+  if (last?.status === 'failed') {
+    return { state: 'failed', iteration: last.iteration, steps: restored };
+  }
+  return { state: settled, iteration, steps: restored };
+}
+
+export function getProgress(pipeline: Pipeline, maxIterations: number): number {
+  if (pipeline.state === 'done') return 100;
+  if (pipeline.state === 'idle') return 0;
+
+  const current = isBusy(pipeline.state)
+    ? { step: pipeline.state as PipelineStep, iteration: pipeline.iteration }
+    : pipeline.steps[pipeline.steps.length - 1];
+  if (!current) return 0;
+  if (current.step === 'planning') return 5;
+
+  const totalSteps = Math.max(1, maxIterations) * ITERATION_STEPS.length;
+  const stepsDone = (Math.max(1, current.iteration) - 1) * ITERATION_STEPS.length + ITERATION_STEPS.indexOf(current.step);
+  return Math.min(95, 10 + Math.round((85 * stepsDone) / totalSteps));
+}
+
+export function describeState(state: PipelineState): string {
+  return STATE_DESCRIPTIONS[state];
+}
+
+function settleRunningStep(
+  pipeline: Pipeline,
+  update: Pick<PipelineStepRecord, 'status' | 'output' | 'error' | 'finishedAt'>,
+  state: PipelineState
+): Pipeline {
+  const running = runningStep(pipeline);
+  return {
+    ...pipeline,
+    state,
+    steps: pipeline.steps.map(record => record === running ? { ...record, ...update } : record),
+  };
+}
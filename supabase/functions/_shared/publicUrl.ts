@@ -0,0 +1,41 @@
+import { isBlockedHostname, isIpAddress, isPrivateAddress } from "./urlSafety.ts";
+
+// Thrown for URLs the server must not fetch for a caller
+export class BlockedUrlError extends Error {
+  constructor(message: string, readonly url: string) {
+    super(message);
+    this.name = 'BlockedUrlError';
+  }
+}
+
+async function resolveHost(host: string): Promise<string[]> {
+  const results = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+  return results.flatMap(result => result.status === 'fulfilled' ? result.value : []);
+}
+
+// Rejects anything but http(s) URLs whose host resolves to public addresses only.
+// A host that does not resolve is rejected too, since fetch may still reach it through the hosts file
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new BlockedUrlError(`Not a valid URL: ${url}`, url);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new BlockedUrlError(`Only http(s) URLs can be fetched: ${url}`, url);
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (isBlockedHostname(host)) {
+    throw new BlockedUrlError(`Local host names cannot be fetched: ${host}`, url);
+  }
+
+  const addresses = isIpAddress(host) ? [host] : await resolveHost(host);
+  if (addresses.length === 0) {
+    throw new BlockedUrlError(`Could not resolve ${host}`, url);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new BlockedUrlError(`${host} points to a private or reserved address`, url);
+  }
+}
@@ -0,0 +1,162 @@
+// Request pacing for crawling: a token bucket that lets a burst through and
+// then refills at the provider's rate, a cap on requests in flight, and a pause
+// for everyone when the provider answers 429 with a Retry-After.
+// Keep this file free of Deno- or DOM-only APIs.
+
+export interface RateLimit {
+  requestsPerMinute: number;
+  // Requests that may start at once before the rate applies
+  burst: number;
+  // Requests in flight at the same time
+  concurrency: number;
+}
+
+export interface RateLimiter {
+  // Runs the task when a token and a slot are free; retries it when it throws a RateLimitError
+  run<T>(task: () => Promise<T>): Promise<T>;
+  // Holds back every request until the given time has passed
+  pause(ms: number): void;
+}
+
+export interface RateLimiterOptions {
+  maxRetries?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+// Thrown for 429 responses; retryAfterMs is null when the provider did not say how long to wait
+export class RateLimitError extends Error {
+  constructor(message: string, readonly retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+// Backoff when a 429 comes without Retry-After, doubled on every retry
+const DEFAULT_BACKOFF_MS = 5000;
+// A provider asking for a longer break than this will not recover within the research run
+const MAX_RETRY_WAIT_MS = 60000;
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export function createRateLimiter(limit: RateLimit, options: RateLimiterOptions = {}): RateLimiter {
+  const now = options.now ?? Date.now;
+  const sleep = options.sleep ?? defaultSleep;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const msPerToken = 60000 / limit.requestsPerMinute;
+
+  let tokens = limit.burst;
+  let refilledAt = now();
+  let blockedUntil = 0;
+  let active = 0;
+  const waitingForSlot: (() => void)[] = [];
+  // Tokens are handed out in the order requests asked for them
+  let tokenQueue = Promise.resolve();
+
+  const refill = () => {
+    const time = now();
+    if (time > refilledAt) {
+      tokens = Math.min(limit.burst, tokens + (time - refilledAt) / msPerToken);
+      refilledAt = time;
+    }
+  };
+
+  const takeToken = () => {
+    tokenQueue = tokenQueue.then(async () => {
+      for (;;) {
+        refill();
+        const wait = Math.max(blockedUntil - now(), tokens >= 1 ? 0 : (1 - tokens) * msPerToken);
+        if (wait <= 0) {
+          tokens -= 1;
+          return;
+        }
+        await sleep(wait);
+      }
+    });
+    return tokenQueue;
+  };
+
+  const acquireSlot = (): Promise<void> => {
+    if (active < limit.concurrency) {
+      active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => waitingForSlot.push(resolve));
+  };
+
+  // A freed slot goes straight to the next waiting request
+  const releaseSlot = () => {
+    const next = waitingForSlot.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  const pause = (ms: number) => {
+    blockedUntil = Math.max(blockedUntil, now() + ms);
+    // No burst right after the pause either
+    tokens = 0;
+    refilledAt = blockedUntil;
+  };
+
+  return {
+    pause,
+    run: async (task) => {
+      for (let attempt = 0; ; attempt++) {
+        await acquireSlot();
+        try {
+          await takeToken();
+          return await task();
+        } catch (error) {
+          if (!(error instanceof RateLimitError) || attempt >= maxRetries) {
+            throw error;
+          }
+          const wait = error.retryAfterMs ?? DEFAULT_BACKOFF_MS * 2 ** attempt;
+          if (wait > MAX_RETRY_WAIT_MS) {
+            throw error;
+          }
+          console.log(`Rate limited, pausing requests for ${Math.ceil(wait / 1000)}s before retry ${attempt + 1}`);
+          pause(wait);
+        } finally {
+          releaseSlot();
+        }
+      }
+    },
+  };
+}
+
+// Runs the worker over the items with at most `concurrency` at a time and returns the results in item order.
+// Items not started when shouldStop turns true are left undefined
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  shouldStop: () => boolean = () => false
+): Promise<(R | undefined)[]> {
+  const results: (R | undefined)[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const lane = async () => {
+    while (nextIndex < items.length && !shouldStop()) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, lane));
+  return results;
+}
@@ -0,0 +1,281 @@
+// Research reports. A session is turned into a report with every cited source
+// numbered once, in the order it is first cited, and rendered as Markdown or as
+// a standalone HTML page; the template picks the title, sections and details.
+// Keep this file free of Deno- or DOM-only APIs.
+
+import type { CleanerResponse, PlannerResponse, ScrapingResult } from './contracts.ts';
+
+export const REPORT_SECTIONS = ['plan', 'findings', 'insights', 'analysis', 'nextSteps', 'sources'] as const;
+export type ReportSection = typeof REPORT_SECTIONS[number];
+
+export const REPORT_SECTION_LABELS: Record<ReportSection, string> = {
+  plan: 'Research Plan',
+  findings: 'Key Findings',
+  insights: 'Detailed Insights',
+  analysis: 'Analysis',
+  nextSteps: 'Suggested Next Steps',
+  sources: 'Sources',
+};
+
+export interface ReportTemplate {
+  // "{question}" is replaced with the research question
+  title: string;
+  // Rendered in this order
+  sections: ReportSection[];
+  includeQuotes: boolean;
+  // Leave out facts their own source does not back
+  verifiedOnly: boolean;
+}
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  title: '{question}',
+  sections: [...REPORT_SECTIONS],
+  includeQuotes: true,
+  verifiedOnly: false,
+};
+
+export interface ReportInput {
+  question: string;
+  plan: PlannerResponse | null;
+  insights: CleanerResponse | null;
+  analysisText: string | null;
+  results: ScrapingResult[];
+  generatedAt: Date;
+}
+
+export interface ReportFact {
+  fact: string;
+  quote?: string;
+  citation: number;
+}
+
+export interface ReportSource {
+  number: number;
+  url: string;
+  title?: string;
+  cited: boolean;
+}
+
+export interface Report {
+  title: string;
+  question: string;
+  generatedAt: string;
+  sections: ReportSection[];
+  plan: PlannerResponse | null;
+  findings: string[];
+  categories: { name: string; facts: ReportFact[] }[];
+  analysis: string | null;
+  nextSteps: string[];
+  sources: ReportSource[];
+}
+
+// Templates come from local storage and forms, so normalize whatever came in
+export function parseReportTemplate(value: unknown): ReportTemplate {
+  const template = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof ReportTemplate, unknown>>;
+  const sections = Array.isArray(template.sections)
+    ? [...new Set(template.sections.filter((section): section is ReportSection => REPORT_SECTIONS.includes(section)))]
+    : DEFAULT_REPORT_TEMPLATE.sections;
+  return {
+    title: typeof template.title === 'string' && template.title.trim() ? template.title.trim() : DEFAULT_REPORT_TEMPLATE.title,
+    sections,
+    includeQuotes: typeof template.includeQuotes === 'boolean' ? template.includeQuotes : DEFAULT_REPORT_TEMPLATE.includeQuotes,
+    verifiedOnly: typeof template.verifiedOnly === 'boolean' ? template.verifiedOnly : DEFAULT_REPORT_TEMPLATE.verifiedOnly,
+  };
+}
+
+function getSourceTitle(result: ScrapingResult | undefined): string | undefined {
+  const title = result?.metadata?.title;
+  return typeof title === 'string' && title.trim() ? title.trim() : undefined;
+}
+
+export function buildReport(input: ReportInput, template: ReportTemplate): Report {
+  const resultsByUrl = new Map(input.results.map(result => [result.url, result]));
+  const citations = new Map<string, number>();
+  const cite = (url: string) => {
+    if (!citations.has(url)) {
+      citations.set(url, citations.size + 1);
+    }
+    return citations.get(url) as number;
+  };
+
+  const categories = Object.entries(input.insights?.structuredInsights ?? {})
+    .map(([name, facts]) => ({
+      name,
+      facts: facts
+        .filter(fact => !template.verifiedOnly || !fact.verification || fact.verification.status === 'supported')
+        .map(fact => ({
+          fact: fact.fact,
+          ...(template.includeQuotes && fact.quote ? { quote: fact.quote } : {}),
+          citation: cite(fact.source),
+        })),
+    }))
+    .filter(category => category.facts.length > 0);
+
+  // Scraped pages no fact cites still belong in the bibliography, after the cited ones
+  const uncited = input.results.map(result => result.url).filter(url => !citations.has(url));
+  const sources: ReportSource[] = [
+    ...[...citations.entries()].map(([url, number]) => ({ number, url, title: getSourceTitle(resultsByUrl.get(url)), cited: true })),
+    ...[...new Set(uncited)].map((url, index) => ({ number: citations.size + index + 1, url, title: getSourceTitle(resultsByUrl.get(url)), cited: false })),
+  ];
+
+  const question = input.plan?.originalQuestion || input.question;
+  return {
+    title: template.title.split('{question}').join(question).trim() || question,
+    question,
+    generatedAt: input.generatedAt.toISOString(),
+    sections: template.sections,
+    plan: input.plan,
+    findings: input.insights?.relevantFindings ?? [],
+    categories,
+    analysis: input.analysisText || input.insights?.analysis || null,
+    nextSteps: input.insights?.suggestedNextSteps ?? [],
+    sources,
+  };
+}
+
+function hasSection(report: Report, section: ReportSection): boolean {
+  switch (section) {
+    case 'plan':
+      return !!report.plan;
+    case 'findings':
+      return report.findings.length > 0;
+    case 'insights':
+      return report.categories.length > 0;
+    case 'analysis':
+      return !!report.analysis;
+    case 'nextSteps':
+      return report.nextSteps.length > 0;
+    case 'sources':
+      return report.sources.length > 0;
+  }
+}
+
+function markdownSection(report: Report, section: ReportSection): string[] {
+  switch (section) {
+    case 'plan':
+      return [
+        `**Intent:** ${report.plan?.intent ?? ''}`,
+        '',
+        '**Search focus**',
+        '',
+        ...(report.plan?.searchFocus ?? []).map(target => `- ${target}`),
+        '',
+        '**Information goals**',
+        '',
+        ...(report.plan?.informationGoals ?? []).map(goal => `- ${goal}`),
+      ];
+    case 'findings':
+      return report.findings.map(finding => `- ${finding}`);
+    case 'insights':
+      return report.categories.flatMap(category => [
+        `### ${category.name}`,
+        '',
+        ...category.facts.flatMap(fact => [
+          `- ${fact.fact} [${fact.citation}]`,
+          ...(fact.quote ? [`  > ${fact.quote.replace(/\s+/g, ' ')}`] : []),
+        ]),
+        '',
+      ]);
+    case 'analysis':
+      return [report.analysis ?? ''];
+    case 'nextSteps':
+      return report.nextSteps.map(step => `- ${step}`);
+    case 'sources':
+      return report.sources.map(source => `${source.number}. ${source.title ? `[${source.title}](${source.url})` : `<${source.url}>`}${source.cited ? '' : ' (not cited)'}`);
+  }
+}
+
+export function reportToMarkdown(report: Report): string {
+  const lines = [`# ${report.title}`, '', `_Generated ${report.generatedAt.split('T')[0]}_`, ''];
+  if (report.title !== report.question) {
+    lines.push(`**Question:** ${report.question}`, '');
+  }
+  for (const section of report.sections.filter(section => hasSection(report, section))) {
+    lines.push(`## ${REPORT_SECTION_LABELS[section]}`, '', ...markdownSection(report, section), '');
+  }
+  return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const list = (items: string[]) => `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+
+function htmlSection(report: Report, section: ReportSection): string {
+  switch (section) {
+    case 'plan':
+      return [
+        `<p><strong>Intent:</strong> ${escapeHtml(report.plan?.intent ?? '')}</p>`,
+        '<h3>Search focus</h3>',
+        list(report.plan?.searchFocus ?? []),
+        '<h3>Information goals</h3>',
+        list(report.plan?.informationGoals ?? []),
+      ].join('\n');
+    case 'findings':
+      return list(report.findings);
+    case 'insights':
+      return report.categories.map(category => [
+        `<h3>${escapeHtml(category.name)}</h3>`,
+        '<ul>',
+        ...category.facts.map(fact =>
+          `<li>${escapeHtml(fact.fact)} <sup><a href="#source-${fact.citation}">[${fact.citation}]</a></sup>`
+          + (fact.quote ? `<blockquote>${escapeHtml(fact.quote)}</blockquote>` : '')
+          + '</li>'
+        ),
+        '</ul>',
+      ].join('\n')).join('\n');
+    case 'analysis':
+      return (report.analysis ?? '').split(/\n{2,}/).map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`).join('\n');
+    case 'nextSteps':
+      return list(report.nextSteps);
+    case 'sources':
+      return [
+        '<ol class="sources">',
+        ...report.sources.map(source =>
+          `<li id="source-${source.number}" value="${source.number}"><a href="${escapeHtml(source.url)}">${escapeHtml(source.title ?? source.url)}</a>`
+          + (source.title ? `<br><span class="url">${escapeHtml(source.url)}</span>` : '')
+          + (source.cited ? '' : ' <span class="muted">(not cited)</span>')
+          + '</li>'
+        ),
+        '</ol>',
+      ].join('\n');
+  }
+}
+
+const REPORT_STYLES = `
+  body { font-family: Georgia, "Times New Roman", serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.6; color: #1f2937; }
+  h1, h2, h3 { font-family: system-ui, sans-serif; line-height: 1.25; }
+  h2 { border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; margin-top: 2rem; }
+  blockquote { margin: 0.25rem 0 0.5rem 1rem; padding-left: 0.75rem; border-left: 3px solid #e5e7eb; color: #6b7280; font-style: italic; }
+  sup a { text-decoration: none; }
+  .muted, .url { color: #6b7280; font-size: 0.875em; }
+  .sources li { margin-bottom: 0.5rem; word-break: break-all; }
+  @media print { body { margin: 0; } a { color: inherit; } }
+`;
+
+export function reportToHtml(report: Report): string {
+  const body = report.sections
+    .filter(section => hasSection(report, section))
+    .map(section => `<section>\n<h2>${REPORT_SECTION_LABELS[section]}</h2>\n${htmlSection(report, section)}\n</section>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="muted">Generated ${report.generatedAt.split('T')[0]}</p>
+${report.title !== report.question ? `<p><strong>Question:</strong> ${escapeHtml(report.question)}</p>\n` : ''}${body}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,58 @@
+// Research profiles: per-project search settings shared by the research page
+// and the Edge Functions. Keep this file free of Deno- or DOM-only APIs.
+
+export interface ResearchProfile {
+  id?: string;
+  name: string;
+  // Scraped when a search finds nothing or no search provider is available
+  fallbackSources: string[];
+  // ISO 3166-1 country code, e.g. 'us'; searches are not localized when unset
+  country: string | null;
+  // ISO 639-1 language code, e.g. 'en'
+  language: string | null;
+  // How far back searches look
+  dateWindowMonths: number;
+}
+
+export const DEFAULT_RESEARCH_PROFILE: ResearchProfile = {
+  name: 'Default',
+  fallbackSources: [],
+  country: null,
+  language: null,
+  dateWindowMonths: 12,
+};
+
+const MAX_DATE_WINDOW_MONTHS = 120;
+
+// Profiles arrive from request bodies and the UI, so normalize whatever came in
+export function parseResearchProfile(value: unknown): ResearchProfile {
+  if (!value || typeof value !== 'object') {
+    return DEFAULT_RESEARCH_PROFILE;
+  }
+
+  const profile = value as Partial<Record<keyof ResearchProfile, unknown>>;
+  const months = Number(profile.dateWindowMonths);
+  return {
+    id: typeof profile.id === 'string' ? profile.id : undefined,
+    name: typeof profile.name === 'string' && profile.name.trim() ? profile.name.trim() : DEFAULT_RESEARCH_PROFILE.name,
+    fallbackSources: Array.isArray(profile.fallbackSources)
+      ? profile.fallbackSources.filter((source): source is string => typeof source === 'string' && source.trim() !== '').map(source => source.trim())
+      : [],
+    country: normalizeCode(profile.country),
+    language: normalizeCode(profile.language),
+    dateWindowMonths: Number.isInteger(months) && months > 0
+      ? Math.min(months, MAX_DATE_WINDOW_MONTHS)
+      : DEFAULT_RESEARCH_PROFILE.dateWindowMonths,
+  };
+}
+
+// The profile's date window as search text, e.g. "2025-10-19 to 2026-10-19"
+export function getProfileDateWindow(profile: ResearchProfile, now: Date = new Date()): string {
+  const start = new Date(now);
+  start.setMonth(now.getMonth() - profile.dateWindowMonths);
+  return `${start.toISOString().split('T')[0]} to ${now.toISOString().split('T')[0]}`;
+}
+
+function normalizeCode(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : null;
+}
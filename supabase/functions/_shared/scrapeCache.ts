@@ -0,0 +1,173 @@
+// A persistent cache in front of a scraper, keyed by normalized URL. Fresh
+// entries are served as they are, stale ones are revalidated with a conditional
+// request when the page sent an ETag or Last-Modified date, and failures are
+// remembered for a short while so a broken page is not retried on every run.
+// Keep this file free of Deno- or DOM-only APIs.
+
+import { isAbortError } from './abort.ts';
+import type { ScrapedPage, Scraper, ScraperId } from './scrapers.ts';
+
+export type ScrapeCacheStatus = 'ok' | 'empty' | 'error';
+
+export interface ScrapeCacheEntry {
+  url: string;
+  scraper: ScraperId;
+  status: ScrapeCacheStatus;
+  content: string | null;
+  metadata: Record<string, unknown>;
+  contentHash: string | null;
+  etag: string | null;
+  lastModified: string | null;
+  error: string | null;
+  fetchedAt: string;
+  expiresAt: string;
+}
+
+// Where the entries live: the scrape_cache table, which only the Edge Functions reach
+export interface ScrapeCacheStore {
+  get(url: string): Promise<ScrapeCacheEntry | null>;
+  put(entry: ScrapeCacheEntry): Promise<void>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const SCRAPE_CACHE_TTL_MS: Record<ScrapeCacheStatus, number> = {
+  ok: 24 * HOUR_MS,
+  empty: 6 * HOUR_MS,
+  error: HOUR_MS / 4,
+};
+
+// Failures on our side of the request say nothing about the page, so they are not cached
+const UNCACHED_ERROR = /rate limit|too many requests|\b(401|402|429)\b|api key|unauthorized/i;
+
+// Query parameters that only track the click and never change the page
+const TRACKING_PARAMETER = /^(utm_\w+|gclid|fbclid|msclkid|mc_cid|mc_eid|ref_src)$/i;
+
+export function normalizeCacheUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url.trim();
+  }
+
+  parsed.hash = '';
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (TRACKING_PARAMETER.test(key)) {
+      parsed.searchParams.delete(key);
+    }
+  }
+  parsed.searchParams.sort();
+  if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+  // URL already lowercases the host and drops default ports
+  return parsed.toString();
+}
+
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function isFresh(entry: ScrapeCacheEntry, now: Date): boolean {
+  return new Date(entry.expiresAt).getTime() > now.getTime();
+}
+
+// Only pages we fetched ourselves carry validators a conditional request can use
+export function canRevalidate(entry: ScrapeCacheEntry): boolean {
+  return entry.status === 'ok' && entry.scraper === 'builtin' && !!(entry.etag || entry.lastModified);
+}
+
+export async function createCacheEntry(
+  url: string,
+  scraper: ScraperId,
+  result: { page: ScrapedPage | null } | { error: string },
+  now: Date
+): Promise<ScrapeCacheEntry> {
+  const page = 'page' in result ? result.page : null;
+  const status: ScrapeCacheStatus = 'error' in result ? 'error' : page ? 'ok' : 'empty';
+  const metadata = page?.metadata ?? {};
+
+  return {
+    url: normalizeCacheUrl(url),
+    scraper,
+    status,
+    content: page?.content ?? null,
+    metadata,
+    contentHash: page ? await hashContent(page.content) : null,
+    etag: typeof metadata.etag === 'string' ? metadata.etag : null,
+    lastModified: typeof metadata.lastModified === 'string' ? metadata.lastModified : null,
+    error: 'error' in result ? result.error : null,
+    fetchedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + SCRAPE_CACHE_TTL_MS[status]).toISOString(),
+  };
+}
+
+// Serves a cached entry the way the scraper would have answered: a page, null, or the cached failure
+function answerFromEntry(url: string, entry: ScrapeCacheEntry): ScrapedPage | null {
+  if (entry.status === 'error') {
+    throw new Error(`${entry.error || 'Scraping failed'} (cached)`);
+  }
+  if (entry.status === 'empty' || entry.content === null) {
+    return null;
+  }
+  return { url, content: entry.content, metadata: { ...entry.metadata, cachedAt: entry.fetchedAt } };
+}
+
+// The cache is an optimisation, so a store that cannot be reached never fails a scrape
+export function withScrapeCache(scraper: Scraper, store: ScrapeCacheStore, now: () => Date = () => new Date()): Scraper {
+  const save = async (entry: ScrapeCacheEntry) => {
+    try {
+      await store.put(entry);
+    } catch (error) {
+      console.error(`Failed to cache ${entry.url}:`, error);
+    }
+  };
+
+  return {
+    id: scraper.id,
+    scrape: async (url, options = {}) => {
+      const key = normalizeCacheUrl(url);
+      let cached: ScrapeCacheEntry | null = null;
+      try {
+        cached = await store.get(key);
+      } catch (error) {
+        console.error(`Failed to read the scrape cache for ${key}:`, error);
+      }
+
+      if (cached && isFresh(cached, now())) {
+        console.log(`Using cached ${cached.status} result for ${key}`);
+        return answerFromEntry(url, cached);
+      }
+
+      const revalidating = cached && scraper.id === 'builtin' && canRevalidate(cached) ? cached : null;
+      let page: ScrapedPage | null;
+      try {
+        page = await scraper.scrape(url, revalidating
+          ? { ...options, etag: revalidating.etag, lastModified: revalidating.lastModified }
+          : options);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (!isAbortError(error) && !UNCACHED_ERROR.test(message)) {
+          await save(await createCacheEntry(url, scraper.id, { error: message }, now()));
+        }
+        throw error;
+      }
+
+      if (revalidating && page?.notModified) {
+        console.log(`${key} has not changed since ${revalidating.fetchedAt}`);
+        const time = now();
+        await save({
+          ...revalidating,
+          fetchedAt: time.toISOString(),
+          expiresAt: new Date(time.getTime() + SCRAPE_CACHE_TTL_MS.ok).toISOString(),
+        });
+        return answerFromEntry(url, revalidating);
+      }
+
+      await save(await createCacheEntry(url, scraper.id, { page }, now()));
+      return page;
+    },
+  };
+}
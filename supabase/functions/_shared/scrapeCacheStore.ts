@@ -0,0 +1,54 @@
+import { supabaseAdmin } from "./supabaseAdmin.ts";
+import type { ScrapeCacheEntry, ScrapeCacheStore } from "./scrapeCache.ts";
+
+// The scrape_cache table, read and written with the service role
+export const scrapeCacheStore: ScrapeCacheStore = {
+  get: async (url) => {
+    const { data, error } = await supabaseAdmin
+      .from('scrape_cache')
+      .select('*')
+      .eq('url', url)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read the scrape cache: ${error.message}`);
+    }
+    if (!data) {
+      return null;
+    }
+
+    return {
+      url: data.url,
+      scraper: data.scraper,
+      status: data.status,
+      content: data.content,
+      metadata: data.metadata ?? {},
+      contentHash: data.content_hash,
+      etag: data.etag,
+      lastModified: data.last_modified,
+      error: data.error,
+      fetchedAt: data.fetched_at,
+      expiresAt: data.expires_at,
+    };
+  },
+
+  put: async (entry: ScrapeCacheEntry) => {
+    const { error } = await supabaseAdmin.from('scrape_cache').upsert({
+      url: entry.url,
+      scraper: entry.scraper,
+      status: entry.status,
+      content: entry.content,
+      metadata: entry.metadata,
+      content_hash: entry.contentHash,
+      etag: entry.etag,
+      last_modified: entry.lastModified,
+      error: entry.error,
+      fetched_at: entry.fetchedAt,
+      expires_at: entry.expiresAt,
+    });
+
+    if (error) {
+      throw new Error(`Failed to write the scrape cache: ${error.message}`);
+    }
+  },
+};
@@ -0,0 +1,240 @@
+// Page scraping backends shared by the research page and the Edge Functions.
+// A scraper turns one URL into Markdown; FireCrawl needs an API key, the
+// built-in backend only needs network access to the page.
+// Keep this file free of Deno- or DOM-only APIs.
+
+import { throwIfAborted, withTimeout } from './abort.ts';
+import { extractMainContent } from './htmlToMarkdown.ts';
+import { RateLimit, RateLimitError, RateLimiter, createRateLimiter, parseRetryAfter } from './rateLimit.ts';
+
+export type ScraperId = 'firecrawl' | 'builtin';
+
+// 'auto' uses FireCrawl when a key is configured and the built-in scraper otherwise
+export type ScraperPreference = ScraperId | 'auto';
+
+export interface ScrapedPage {
+  url: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  // Set instead of content when a conditional request found the page unchanged
+  notModified?: boolean;
+}
+
+export interface ScrapeOptions {
+  timeoutMs?: number;
+  // Validators from an earlier fetch; the built-in scraper sends them as a conditional request
+  etag?: string | null;
+  lastModified?: string | null;
+  // Aborts the request when the research is cancelled
+  signal?: AbortSignal;
+}
+
+export interface Scraper {
+  id: ScraperId;
+  // Resolves to null when the page has no usable text; throws when it could not be fetched
+  scrape(url: string, options?: ScrapeOptions): Promise<ScrapedPage | null>;
+}
+
+export interface ScraperConfig {
+  firecrawlApiKey?: string | null;
+  // Extra request headers for the built-in scraper, e.g. a User-Agent on the server
+  headers?: Record<string, string>;
+  // Rejects URLs the built-in scraper must not fetch; checked again on every redirect
+  checkUrl?: UrlCheck;
+}
+
+export type UrlCheck = (url: string) => Promise<void>;
+
+export const SCRAPER_LABELS: Record<ScraperId, string> = {
+  firecrawl: 'FireCrawl',
+  builtin: 'Built-in (fetch + readability)',
+};
+
+export const SCRAPER_PREFERENCES: ScraperPreference[] = ['auto', 'firecrawl', 'builtin'];
+
+// FireCrawl's limits depend on the plan; the built-in scraper spreads its requests over many sites
+export const SCRAPER_RATE_LIMITS: Record<ScraperId, RateLimit> = {
+  firecrawl: { requestsPerMinute: 20, burst: 2, concurrency: 2 },
+  builtin: { requestsPerMinute: 120, burst: 6, concurrency: 4 },
+};
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const MAX_REDIRECTS = 5;
+
+export function isScraperPreference(value: unknown): value is ScraperPreference {
+  return typeof value === 'string' && SCRAPER_PREFERENCES.includes(value as ScraperPreference);
+}
+
+export function resolveScraperId(preference: ScraperPreference, config: ScraperConfig): ScraperId {
+  if (preference === 'auto') {
+    return config.firecrawlApiKey ? 'firecrawl' : 'builtin';
+  }
+  // FireCrawl without a key cannot work, so fall back rather than fail every page
+  return preference === 'firecrawl' && !config.firecrawlApiKey ? 'builtin' : preference;
+}
+
+export function createScraper(preference: ScraperPreference, config: ScraperConfig): Scraper {
+  return resolveScraperId(preference, config) === 'firecrawl'
+    ? createFirecrawlScraper(config.firecrawlApiKey as string)
+    : createBuiltinScraper(config.headers, config.checkUrl);
+}
+
+// Paces the scraper's requests and retries the ones answered with 429
+export function withRateLimit(
+  scraper: Scraper,
+  limiter: RateLimiter = createRateLimiter(SCRAPER_RATE_LIMITS[scraper.id])
+): Scraper {
+  return {
+    id: scraper.id,
+    scrape: (url, options) => limiter.run(() => {
+      // Requests cancelled while waiting for their turn are not sent at all
+      throwIfAborted(options?.signal);
+      return scraper.scrape(url, options);
+    }),
+  };
+}
+
+export function createFirecrawlScraper(apiKey: string): Scraper {
+  return {
+    id: 'firecrawl',
+    scrape: async (url, options = {}) => {
+      const response = await fetchWithTimeout('https://api.firecrawl.dev/v1/crawl-url', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          url,
+          limit: 5,
+          scrapeOptions: {
+            formats: ['markdown', 'html']
+          }
+        })
+      }, options.timeoutMs, options.signal);
+      if (response.status === 429) {
+        throw new RateLimitError(`FireCrawl rate limit hit for ${url}`, parseRetryAfter(response.headers.get('retry-after')));
+      }
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || `FireCrawl failed for ${url}`);
+      }
+      if (!data.content) {
+        return null;
+      }
+
+      return {
+        url,
+        content: data.content,
+        metadata: { ...(data.metadata || {}), scraper: 'firecrawl' },
+      };
+    },
+  };
+}
+
+// Fetch the page ourselves and keep only its main content, rendered as Markdown
+export function createBuiltinScraper(headers: Record<string, string> = {}, checkUrl?: UrlCheck): Scraper {
+  return {
+    id: 'builtin',
+    scrape: async (url, options = {}) => {
+      const { response, finalUrl } = await fetchFollowingRedirects(url, {
+        headers: {
+          'Accept': 'text/html,application/xhtml+xml;q=0.9,text/plain;q=0.8,*/*;q=0.5',
+          ...headers,
+          ...(options.etag ? { 'If-None-Match': options.etag } : {}),
+          ...(options.lastModified ? { 'If-Modified-Since': options.lastModified } : {}),
+        },
+      }, options, checkUrl);
+
+      if (response.status === 304) {
+        return { url, content: '', metadata: { sourceURL: url, statusCode: 304, scraper: 'builtin' }, notModified: true };
+      }
+      if (response.status === 429) {
+        throw new RateLimitError(`Rate limit hit fetching ${url}`, parseRetryAfter(response.headers.get('retry-after')));
+      }
+      if (!response.ok) {
+        throw new Error(`Fetching ${url} failed with status: ${response.status}`);
+      }
+
+      const contentType = response.headers.get('content-type')?.toLowerCase() ?? '';
+      const metadata: Record<string, unknown> = {
+        sourceURL: url,
+        statusCode: response.status,
+        contentType,
+        scraper: 'builtin',
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified'),
+      };
+
+      // PDFs, images and other binary responses have nothing we can read
+      if (contentType && !/html|xml|text|markdown|json/.test(contentType)) {
+        return null;
+      }
+
+      const body = await response.text();
+      let content = body;
+      if (contentType.includes('html') || /^\s*<(!doctype|html)/i.test(body)) {
+        const extracted = extractMainContent(body, finalUrl);
+        content = extracted.markdown;
+        metadata.title = extracted.title;
+        metadata.description = extracted.description;
+        metadata.publishedAt = extracted.publishedAt;
+      }
+
+      if (!content.trim()) {
+        return null;
+      }
+      return { url, content, metadata };
+    },
+  };
+}
+
+// Without a URL check fetch follows redirects itself; with one every hop is checked before it is requested
+async function fetchFollowingRedirects(
+  url: string,
+  init: RequestInit,
+  options: ScrapeOptions,
+  checkUrl?: UrlCheck
+): Promise<{ response: Response; finalUrl: string }> {
+  if (!checkUrl) {
+    const response = await fetchWithTimeout(url, { ...init, redirect: 'follow' }, options.timeoutMs, options.signal);
+    return { response, finalUrl: response.url || url };
+  }
+
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    await checkUrl(current);
+    const response = await fetchWithTimeout(current, { ...init, redirect: 'manual' }, options.timeoutMs, options.signal);
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) {
+      return { response, finalUrl: current };
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects fetching ${url}`);
+    }
+    // The body of a redirect is never read
+    await response.body?.cancel();
+    current = new URL(location, current).toString();
+  }
+}
+
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  signal?: AbortSignal
+): Promise<Response> {
+  const timeout = withTimeout(timeoutMs, signal);
+  try {
+    return await fetch(url, { ...init, signal: timeout.signal });
+  } catch (error) {
+    // A cancelled request stays an AbortError so callers can tell it from a slow page
+    if (timeout.timedOut()) {
+      throw new Error(`Request timed out after ${timeoutMs / 1000} seconds`);
+    }
+    throw error;
+  } finally {
+    timeout.clear();
+  }
+}
@@ -0,0 +1,318 @@
+// Web search backends shared by the research page and the Edge Functions.
+// Each provider turns a query into ranked links; searchAll merges providers.
+// Keep this file free of Deno- or DOM-only APIs.
+
+import { throwIfAborted, withTimeout } from './abort.ts';
+
+export type SearchProviderId = 'serpapi' | 'brave' | 'bing' | 'searxng' | 'fixture';
+
+export interface SearchHit {
+  url: string;
+  title?: string;
+  snippet?: string;
+  // Every provider that returned this URL, best-ranked first
+  providers: SearchProviderId[];
+}
+
+export interface SearchOptions {
+  limit: number;
+  // Appended to the query text, e.g. "2025-10-19 to 2026-10-19"
+  dateRange?: string;
+  context?: string;
+  country?: string;
+  language?: string;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface SearchProvider {
+  id: SearchProviderId;
+  search(query: string, options: SearchOptions): Promise<SearchHit[]>;
+}
+
+// Credentials and endpoints; a provider without its settings is not available
+export interface SearchProviderConfig {
+  serpApiKey?: string | null;
+  braveApiKey?: string | null;
+  bingApiKey?: string | null;
+  searxngUrl?: string | null;
+  // Canned results per query for local runs and tests; '*' matches any query
+  fixtures?: Record<string, string[]>;
+}
+
+export const SEARCH_PROVIDER_IDS: SearchProviderId[] = ['serpapi', 'brave', 'bing', 'searxng', 'fixture'];
+
+export const SEARCH_PROVIDER_LABELS: Record<SearchProviderId, string> = {
+  serpapi: 'SerpAPI (Google)',
+  brave: 'Brave Search',
+  bing: 'Bing Web Search',
+  searxng: 'SearXNG',
+  fixture: 'Fixtures (offline)',
+};
+
+export const DEFAULT_SEARCH_PROVIDERS: SearchProviderId[] = ['serpapi'];
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const EXCLUDED_HOSTS = ['google.com', 'gstatic.com'];
+
+export function isSearchProviderId(value: unknown): value is SearchProviderId {
+  return typeof value === 'string' && SEARCH_PROVIDER_IDS.includes(value as SearchProviderId);
+}
+
+export function isProviderConfigured(id: SearchProviderId, config: SearchProviderConfig): boolean {
+  switch (id) {
+    case 'serpapi':
+      return !!config.serpApiKey;
+    case 'brave':
+      return !!config.braveApiKey;
+    case 'bing':
+      return !!config.bingApiKey;
+    case 'searxng':
+      return !!config.searxngUrl;
+    case 'fixture':
+      return true;
+  }
+}
+
+export function createSearchProvider(id: SearchProviderId, config: SearchProviderConfig): SearchProvider | null {
+  if (!isProviderConfigured(id, config)) return null;
+
+  switch (id) {
+    case 'serpapi':
+      return { id, search: (query, options) => searchSerpApi(config.serpApiKey, query, options) };
+    case 'brave':
+      return { id, search: (query, options) => searchBrave(config.braveApiKey, query, options) };
+    case 'bing':
+      return { id, search: (query, options) => searchBing(config.bingApiKey, query, options) };
+    case 'searxng':
+      return { id, search: (query, options) => searchSearxng(config.searxngUrl, query, options) };
+    case 'fixture':
+      return { id, search: async (query, options) => searchFixtures(config.fixtures ?? {}, query, options) };
+  }
+}
+
+// The configured providers among those picked for a session, in the order given
+export function createSearchProviders(ids: SearchProviderId[], config: SearchProviderConfig): SearchProvider[] {
+  return ids
+    .filter((id, index) => ids.indexOf(id) === index)
+    .map(id => createSearchProvider(id, config))
+    .filter((provider): provider is SearchProvider => provider !== null);
+}
+
+// Query every provider at once; one failing provider only loses its own results
+export async function searchAll(providers: SearchProvider[], query: string, options: SearchOptions): Promise<SearchHit[]> {
+  const settled = await Promise.allSettled(providers.map(provider => provider.search(query, options)));
+  // A cancelled search has no results worth merging
+  throwIfAborted(options.signal);
+
+  const resultLists = settled.map((result, index) => {
+    if (result.status === 'fulfilled') return result.value;
+    console.error(`Search provider ${providers[index].id} failed for "${query}":`, result.reason);
+    return [];
+  });
+
+  return mergeSearchResults(resultLists, options.limit);
+}
+
+// Interleave the providers' rankings and drop repeated URLs, remembering who found each
+export function mergeSearchResults(resultLists: SearchHit[][], limit: number): SearchHit[] {
+  const merged: SearchHit[] = [];
+  const byUrl = new Map<string, SearchHit>();
+  const longest = Math.max(0, ...resultLists.map(list => list.length));
+
+  for (let rank = 0; rank < longest; rank++) {
+    for (const list of resultLists) {
+      const hit = list[rank];
+      if (!hit || !isUsefulResultUrl(hit.url)) continue;
+
+      const key = normalizeResultUrl(hit.url);
+      const existing = byUrl.get(key);
+      if (existing) {
+        existing.providers = [...new Set([...existing.providers, ...hit.providers])];
+        existing.title = existing.title ?? hit.title;
+        existing.snippet = existing.snippet ?? hit.snippet;
+        continue;
+      }
+
+      const copy = { ...hit, providers: [...hit.providers] };
+      byUrl.set(key, copy);
+      merged.push(copy);
+    }
+  }
+
+  return merged.slice(0, limit);
+}
+
+// Treat URLs that differ only in protocol, "www.", trailing slash, fragment or tracking parameters as one
+export function normalizeResultUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const params = new URLSearchParams(parsed.search);
+    for (const key of [...params.keys()]) {
+      if (key.startsWith('utm_')) params.delete(key);
+    }
+    const query = params.toString();
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${host}${path}${query ? `?${query}` : ''}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+function isUsefulResultUrl(url: string): boolean {
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    return !EXCLUDED_HOSTS.some(excluded => host === excluded || host.endsWith(`.${excluded}`));
+  } catch {
+    return false;
+  }
+}
+
+function buildQuery(query: string, options: SearchOptions): string {
+  return [query, options.context, options.dateRange]
+    .filter(part => part && !query.toLowerCase().includes(part.toLowerCase()))
+    .join(' ')
+    || query;
+}
+
+async function fetchJson(url: string, init: RequestInit, options: SearchOptions) {
+  const timeout = withTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS, options.signal);
+  try {
+    const response = await fetch(url, { ...init, signal: timeout.signal });
+    if (!response.ok) {
+      throw new Error(`Search request failed with status: ${response.status}`);
+    }
+    return await response.json();
+  } finally {
+    timeout.clear();
+  }
+}
+
+async function searchSerpApi(apiKey: string, query: string, options: SearchOptions): Promise<SearchHit[]> {
+  const params = new URLSearchParams({
+    engine: 'google',
+    q: buildQuery(query, options),
+    api_key: apiKey,
+    // Request more results than needed so the non-Google ones can be picked
+    num: String(Math.min(20, options.limit * 2)),
+  });
+  if (options.country) params.set('gl', options.country);
+  if (options.language) params.set('hl', options.language);
+
+  const data = await fetchJson(`https://serpapi.com/search.json?${params.toString()}`, {}, options);
+  const hits: SearchHit[] = [];
+  const add = (url: string | undefined, title?: string, snippet?: string) => {
+    if (url && !hits.some(hit => hit.url === url)) {
+      hits.push({ url, title, snippet, providers: ['serpapi'] });
+    }
+  };
+
+  // The knowledge graph's website is usually the most authoritative link
+  add(data.knowledge_graph?.website, data.knowledge_graph?.title);
+
+  if (Array.isArray(data.organic_results)) {
+    for (const result of data.organic_results) {
+      if (result.link && !result.link.includes('youtube.com')) {
+        add(result.link, result.title, result.snippet);
+      }
+    }
+    // Fill up with the remaining organic results if too few were left
+    if (hits.length < options.limit) {
+      for (const result of data.organic_results) {
+        add(result.link, result.title, result.snippet);
+      }
+    }
+  }
+
+  if (Array.isArray(data.inline_people_also_search_for)) {
+    for (const item of data.inline_people_also_search_for) {
+      add(item.link, item.title);
+    }
+  }
+
+  // Event searches sometimes only come back as an events databox
+  if (hits.length === 0 && Array.isArray(data.events_results)) {
+    for (const event of data.events_results) {
+      add(event.link, event.title);
+    }
+  }
+
+  return hits.slice(0, options.limit);
+}
+
+async function searchBrave(apiKey: string, query: string, options: SearchOptions): Promise<SearchHit[]> {
+  const params = new URLSearchParams({
+    q: buildQuery(query, options),
+    count: String(Math.min(20, options.limit)),
+  });
+  if (options.country) params.set('country', options.country);
+  if (options.language) params.set('search_lang', options.language);
+
+  const data = await fetchJson(`https://api.search.brave.com/res/v1/web/search?${params.toString()}`, {
+    headers: {
+      'Accept': 'application/json',
+      'X-Subscription-Token': apiKey,
+    },
+  }, options);
+
+  const results = Array.isArray(data.web?.results) ? data.web.results : [];
+  return results.slice(0, options.limit).map(result => ({
+    url: result.url,
+    title: result.title,
+    snippet: result.description,
+    providers: ['brave' as const],
+  }));
+}
+
+async function searchBing(apiKey: string, query: string, options: SearchOptions): Promise<SearchHit[]> {
+  const params = new URLSearchParams({
+    q: buildQuery(query, options),
+    count: String(Math.min(50, options.limit)),
+  });
+  if (options.language && options.country) {
+    params.set('mkt', `${options.language}-${options.country.toUpperCase()}`);
+  }
+
+  const data = await fetchJson(`https://api.bing.microsoft.com/v7.0/search?${params.toString()}`, {
+    headers: { 'Ocp-Apim-Subscription-Key': apiKey },
+  }, options);
+
+  const results = Array.isArray(data.webPages?.value) ? data.webPages.value : [];
+  return results.slice(0, options.limit).map(result => ({
+    url: result.url,
+    title: result.name,
+    snippet: result.snippet,
+    providers: ['bing' as const],
+  }));
+}
+
+async function searchSearxng(baseUrl: string, query: string, options: SearchOptions): Promise<SearchHit[]> {
+  const params = new URLSearchParams({
+    q: buildQuery(query, options),
+    format: 'json',
+  });
+  if (options.language) params.set('language', options.language);
+
+  const data = await fetchJson(`${baseUrl.replace(/\/+$/, '')}/search?${params.toString()}`, {
+    headers: { 'Accept': 'application/json' },
+  }, options);
+
+  const results = Array.isArray(data.results) ? data.results : [];
+  return results.slice(0, options.limit).map(result => ({
+    url: result.url,
+    title: result.title,
+    snippet: result.content,
+    providers: ['searxng' as const],
+  }));
+}
+
+// Deterministic results without any network access; example.com pages are always reachable
+function searchFixtures(fixtures: Record<string, string[]>, query: string, options: SearchOptions): SearchHit[] {
+  const urls = fixtures[query] ?? fixtures['*'] ?? Array.from(
+    { length: Math.min(3, options.limit) },
+    (_, index) => `https://example.com/?q=${encodeURIComponent(query)}&result=${index + 1}`
+  );
+  return urls.slice(0, options.limit).map(url => ({ url, providers: ['fixture'] }));
+}
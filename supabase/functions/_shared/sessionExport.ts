@@ -0,0 +1,172 @@
+// Data exports of a research session: its facts as spreadsheet rows (CSV or
+// .xlsx) and the whole session as a versioned JSON document that can be
+// imported again to restore it. Keep this file free of Deno- or DOM-only APIs.
+
+import {
+  CleanerResponse,
+  Contradiction,
+  ContractError,
+  InsightFact,
+  PlannerResponse,
+  ResearchIteration,
+  SESSION_DOCUMENT_FORMAT,
+  SESSION_DOCUMENT_VERSION,
+  ScrapingResult,
+  SessionDocument,
+  SessionDocumentSchema,
+  parseContract,
+} from './contracts.ts';
+import { CellValue, buildXlsx } from './xlsx.ts';
+
+export interface FactRow {
+  category: string;
+  fact: string;
+  source: string;
+  quote: string | null;
+  confidence: number | null;
+  confidenceLevel: string | null;
+  verification: string | null;
+  iteration: number | null;
+  searchQuery: string | null;
+}
+
+export interface SessionExportInput {
+  question: string;
+  title: string | null;
+  currentIteration: number;
+  analysisText: string | null;
+  searchProviders: string[];
+  profileId: string | null;
+  competitorId: string | null;
+  plan: PlannerResponse | null;
+  iterations: ResearchIteration[];
+  results: ScrapingResult[];
+  insights: CleanerResponse | null;
+  contradictions: Contradiction[];
+  logs: { message: string; timestamp: Date; type: 'info' | 'warning' | 'error' | 'success' }[];
+}
+
+const FACT_COLUMNS: { key: keyof FactRow; label: string }[] = [
+  { key: 'category', label: 'Category' },
+  { key: 'fact', label: 'Fact' },
+  { key: 'source', label: 'Source' },
+  { key: 'quote', label: 'Quote' },
+  { key: 'confidence', label: 'Confidence' },
+  { key: 'confidenceLevel', label: 'Confidence level' },
+  { key: 'verification', label: 'Verification' },
+  { key: 'iteration', label: 'Iteration' },
+  { key: 'searchQuery', label: 'Search query' },
+];
+
+// The first iteration that found a source is the one its facts are credited to
+function getSourceIterations(iterations: ResearchIteration[]): Map<string, number> {
+  const byUrl = new Map<string, number>();
+  iterations.forEach((iteration, index) => {
+    for (const result of iteration.results) {
+      if (!byUrl.has(result.url)) {
+        byUrl.set(result.url, index + 1);
+      }
+    }
+  });
+  return byUrl;
+}
+
+export function buildFactRows(
+  structuredInsights: Record<string, InsightFact[]>,
+  iterations: ResearchIteration[],
+  results: ScrapingResult[]
+): FactRow[] {
+  const iterationsByUrl = getSourceIterations(iterations);
+  const queriesByUrl = new Map(results.filter(result => result.searchQuery).map(result => [result.url, result.searchQuery as string]));
+
+  return Object.entries(structuredInsights).flatMap(([category, facts]) => facts.map(fact => ({
+    category,
+    fact: fact.fact,
+    source: fact.source,
+    quote: fact.quote ?? null,
+    confidence: fact.confidence ? Math.round(fact.confidence.score * 100) / 100 : null,
+    confidenceLevel: fact.confidence?.level ?? null,
+    verification: fact.verification?.status ?? null,
+    iteration: iterationsByUrl.get(fact.source) ?? null,
+    searchQuery: queriesByUrl.get(fact.source) ?? null,
+  })));
+}
+
+// Scraped text starting with these would run as a formula when the file is opened in a spreadsheet
+function escapeCsvValue(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function factRowsToCsv(rows: FactRow[]): string {
+  const lines = [
+    FACT_COLUMNS.map(column => column.label),
+    ...rows.map(row => FACT_COLUMNS.map(column => row[column.key])),
+  ];
+  return `${lines.map(line => line.map(escapeCsvValue).join(',')).join('\r\n')}\r\n`;
+}
+
+export function factRowsToXlsx(rows: FactRow[]): Uint8Array {
+  return buildXlsx(
+    'Facts',
+    FACT_COLUMNS.map(column => column.label),
+    rows.map(row => FACT_COLUMNS.map(column => row[column.key]))
+  );
+}
+
+// A page found again in a later iteration is exported once per iteration so the import keeps both
+function getDocumentSources(iterations: ResearchIteration[], results: ScrapingResult[]): SessionDocument['sources'] {
+  const iterationCounts = new Map<string, number>();
+  for (const result of iterations.flatMap(iteration => iteration.results)) {
+    iterationCounts.set(result.url, (iterationCounts.get(result.url) ?? 0) + 1);
+  }
+  const outsideIterations = results.filter(result => {
+    const count = iterationCounts.get(result.url) ?? 0;
+    iterationCounts.set(result.url, count - 1);
+    return count <= 0;
+  });
+
+  return [
+    ...iterations.flatMap((iteration, index) => iteration.results.map(result => ({ ...result, iteration: index + 1 }))),
+    ...outsideIterations.map(result => ({ ...result, iteration: null })),
+  ];
+}
+
+export function buildSessionDocument(input: SessionExportInput, exportedAt: Date): SessionDocument {
+  return {
+    format: SESSION_DOCUMENT_FORMAT,
+    version: SESSION_DOCUMENT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    session: {
+      question: input.question,
+      title: input.title,
+      currentIteration: input.currentIteration,
+      analysisText: input.analysisText,
+      searchProviders: input.searchProviders,
+      profileId: input.profileId,
+      competitorId: input.competitorId,
+    },
+    plan: input.plan,
+    iterations: input.iterations.map(({ results: _, ...iteration }) => iteration),
+    sources: getDocumentSources(input.iterations, input.results),
+    insights: input.insights,
+    contradictions: input.contradictions,
+    logs: input.logs.map(log => ({ ...log, timestamp: log.timestamp.toISOString() })),
+  };
+}
+
+// Files from other apps or newer versions get a clear message instead of a list of schema issues
+export function parseSessionDocument(value: unknown): SessionDocument {
+  const header = (value && typeof value === 'object' ? value : {}) as { format?: unknown; version?: unknown };
+  if (header.format !== SESSION_DOCUMENT_FORMAT) {
+    throw new ContractError('session document', ['not an exported research session']);
+  }
+  if (header.version !== SESSION_DOCUMENT_VERSION) {
+    throw new ContractError('session document', [`version ${String(header.version)} is not supported, expected ${SESSION_DOCUMENT_VERSION}`]);
+  }
+  return parseContract(SessionDocumentSchema, value, 'session document');
+}
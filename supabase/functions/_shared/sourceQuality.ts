@@ -0,0 +1,218 @@
+// Source quality and per-fact confidence. A fact starts from what kind of site
+// stated it, gains from being recent and repeated by other sources, and loses
+// when verification could not find it in its own source.
+// Keep this file free of Deno- or DOM-only APIs.
+
+import type { ConfidenceLevel, FactConfidence, InsightFact, ScrapingResult, SourceType } from './contracts.ts';
+import { contentWords } from './verification.ts';
+
+const BASE_SCORES: Record<SourceType, number> = {
+  government: 0.85,
+  academic: 0.8,
+  news: 0.7,
+  reference: 0.6,
+  other: 0.5,
+  aggregator: 0.4,
+  social: 0.35,
+  forum: 0.3,
+};
+
+// An organization is the best authority on itself, whatever kind of site it runs
+const FIRST_PARTY_SCORE = 0.8;
+const RECENT_BONUS = 0.05;
+const STALE_PENALTY = 0.1;
+const RECENT_DAYS = 365;
+const STALE_DAYS = 3 * 365;
+const CORROBORATION_BONUS = 0.1;
+const MAX_CORROBORATION_BONUS = 0.2;
+// Share of their combined words two facts must have in common to say the same thing
+const CORROBORATION_OVERLAP = 0.5;
+
+const VERIFICATION_ADJUSTMENTS = { supported: 0.05, unsupported: -0.2, contradicted: -0.4 };
+
+const HIGH_CONFIDENCE = 0.7;
+const MEDIUM_CONFIDENCE = 0.45;
+
+const KNOWN_DOMAINS: Record<string, SourceType> = {
+  'europa.eu': 'government', 'who.int': 'government', 'oecd.org': 'government', 'worldbank.org': 'government',
+  'arxiv.org': 'academic', 'nature.com': 'academic', 'sciencedirect.com': 'academic', 'springer.com': 'academic',
+  'ieee.org': 'academic', 'acm.org': 'academic', 'ncbi.nlm.nih.gov': 'academic', 'ssrn.com': 'academic',
+  'reuters.com': 'news', 'apnews.com': 'news', 'bloomberg.com': 'news', 'ft.com': 'news', 'wsj.com': 'news',
+  'nytimes.com': 'news', 'bbc.co.uk': 'news', 'bbc.com': 'news', 'theguardian.com': 'news', 'cnbc.com': 'news',
+  'forbes.com': 'news', 'businessinsider.com': 'news', 'techcrunch.com': 'news', 'theverge.com': 'news',
+  'wired.com': 'news', 'economist.com': 'news', 'axios.com': 'news', 'venturebeat.com': 'news',
+  'wikipedia.org': 'reference', 'britannica.com': 'reference', 'investopedia.com': 'reference',
+  'crunchbase.com': 'aggregator', 'pitchbook.com': 'aggregator', 'cbinsights.com': 'aggregator', 'zoominfo.com': 'aggregator',
+  'owler.com': 'aggregator', 'craft.co': 'aggregator', 'similarweb.com': 'aggregator', 'g2.com': 'aggregator',
+  'capterra.com': 'aggregator', 'glassdoor.com': 'aggregator', 'trustpilot.com': 'aggregator', 'statista.com': 'aggregator',
+  'twitter.com': 'social', 'x.com': 'social', 'linkedin.com': 'social', 'facebook.com': 'social', 'instagram.com': 'social',
+  'youtube.com': 'social', 'tiktok.com': 'social', 'medium.com': 'social', 'substack.com': 'social',
+  'reddit.com': 'forum', 'quora.com': 'forum', 'stackexchange.com': 'forum', 'stackoverflow.com': 'forum',
+  'news.ycombinator.com': 'forum',
+};
+
+// Second-level labels under which the registrable domain has three labels, e.g. example.co.uk
+const SECOND_LEVEL_LABELS = new Set(['co', 'com', 'org', 'net', 'gov', 'ac', 'edu']);
+
+// Metadata keys the scrapers report a publication date under
+const PUBLISHED_KEYS = ['publishedAt', 'publishedTime', 'article:published_time', 'datePublished', 'date'];
+
+export function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+// The name an organization registered, e.g. "acme" for blog.acme.co.uk
+function registeredName(hostname: string): string {
+  const labels = hostname.split('.');
+  if (labels.length >= 3 && labels[labels.length - 1].length === 2 && SECOND_LEVEL_LABELS.has(labels[labels.length - 2])) {
+    return labels[labels.length - 3];
+  }
+  return labels.length >= 2 ? labels[labels.length - 2] : hostname;
+}
+
+export function classifySource(url: string): SourceType {
+  const hostname = getHostname(url);
+  const labels = hostname.split('.');
+  // Subdomains inherit the type of the domain they belong to
+  for (let i = 0; i < labels.length - 1; i++) {
+    const known = KNOWN_DOMAINS[labels.slice(i).join('.')];
+    if (known) return known;
+  }
+  if (labels.some(label => label === 'gov' || label === 'mil') || labels[labels.length - 1] === 'int') return 'government';
+  if (labels.some(label => label === 'edu' || label === 'ac')) return 'academic';
+  return 'other';
+}
+
+// Who the research is about: the competitor a session was started for, else whoever the question names
+export interface ResearchSubject {
+  question: string;
+  competitor?: { name: string; domains: string[] } | null;
+}
+
+// Question words that name no organization, however often a domain is registered under them
+const GENERIC_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'before', 'by', 'can', 'compare',
+  'did', 'do', 'does', 'find', 'for', 'from', 'has', 'have', 'how', 'in', 'into', 'is', 'it', 'its', 'last',
+  'latest', 'list', 'me', 'new', 'next', 'of', 'on', 'or', 'our', 'over', 'recent', 'show', 'tell', 'than',
+  'that', 'the', 'their', 'them', 'these', 'they', 'this', 'those', 'to', 'upcoming', 'us', 'vs', 'was', 'we',
+  'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'year', 'years',
+  'ai', 'app', 'apps', 'blog', 'business', 'careers', 'companies', 'company', 'competitor', 'competitors',
+  'conference', 'conferences', 'corp', 'customers', 'data', 'event', 'events', 'funding', 'global', 'group',
+  'inc', 'industry', 'info', 'jobs', 'llc', 'ltd', 'market', 'markets', 'news', 'online', 'partners', 'price',
+  'pricing', 'product', 'products', 'report', 'reports', 'revenue', 'services', 'shop', 'software', 'solutions',
+  'store', 'strategy', 'tech', 'technology', 'trends', 'web', 'webinar', 'webinars',
+]);
+
+function nameWords(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// Names written apart are often joined in the domain, e.g. "Open AI" and openai.com
+function nameCandidates(words: string[]): string[] {
+  const kept = words.map(word => GENERIC_WORDS.has(word) || /^\d+$/.test(word) ? null : word);
+  const pairs = words.slice(1).map((word, index) => kept[index] || kept[index + 1] ? words[index] + word : null);
+  return [...kept, ...pairs].filter((candidate): candidate is string => candidate !== null);
+}
+
+// First-party when the site belongs to the subject: one of the competitor's domains, or a domain registered
+// under its name, e.g. acme.com for "Acme Corp". Without a competitor the names come from the question
+export function isFirstParty(url: string, subject: ResearchSubject): boolean {
+  const hostname = getHostname(url);
+  const { competitor } = subject;
+  if (competitor && hostname && competitor.domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`))) {
+    return true;
+  }
+
+  const name = registeredName(hostname);
+  if (name.length < 3) return false;
+  const words = competitor ? nameWords(competitor.name) : nameWords(subject.question);
+  return new Set([...nameCandidates(words), ...(competitor ? [words.join('')] : [])]).has(name);
+}
+
+export function getPublishedAt(metadata: Record<string, unknown> | undefined): string | undefined {
+  for (const key of PUBLISHED_KEYS) {
+    const value = metadata?.[key];
+    if (typeof value !== 'string') continue;
+    const date = new Date(value);
+    if (!Number.isNaN(date.getTime())) {
+      return date.toISOString();
+    }
+  }
+  return undefined;
+}
+
+export function getConfidenceLevel(score: number): ConfidenceLevel {
+  if (score >= HIGH_CONFIDENCE) return 'high';
+  if (score >= MEDIUM_CONFIDENCE) return 'medium';
+  return 'low';
+}
+
+function recencyAdjustment(publishedAt: string | undefined, now: Date): number {
+  if (!publishedAt) return 0;
+  const ageDays = (now.getTime() - new Date(publishedAt).getTime()) / 86_400_000;
+  // A date in the future is a parsing accident rather than news
+  if (ageDays < 0) return 0;
+  if (ageDays <= RECENT_DAYS) return RECENT_BONUS;
+  if (ageDays > STALE_DAYS) return -STALE_PENALTY;
+  return 0;
+}
+
+function sharesMostWords(a: Set<string>, b: Set<string>): boolean {
+  if (a.size === 0 || b.size === 0) return false;
+  const shared = [...a].filter(word => b.has(word)).length;
+  return shared / (a.size + b.size - shared) >= CORROBORATION_OVERLAP;
+}
+
+export function scoreFact(fact: InsightFact, result: ScrapingResult | undefined, subject: ResearchSubject, corroborations: number, now: Date = new Date()): FactConfidence {
+  const sourceType = classifySource(fact.source);
+  const firstParty = isFirstParty(fact.source, subject);
+  const publishedAt = getPublishedAt(result?.metadata);
+
+  let score = firstParty ? Math.max(BASE_SCORES[sourceType], FIRST_PARTY_SCORE) : BASE_SCORES[sourceType];
+  score += recencyAdjustment(publishedAt, now);
+  score += Math.min(corroborations * CORROBORATION_BONUS, MAX_CORROBORATION_BONUS);
+  if (fact.verification) {
+    score += VERIFICATION_ADJUSTMENTS[fact.verification.status];
+  }
+  score = Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+
+  return {
+    score,
+    level: getConfidenceLevel(score),
+    sourceType,
+    firstParty,
+    ...(publishedAt ? { publishedAt } : {}),
+    corroborations,
+  };
+}
+
+// Score every fact; corroboration counts the other sites stating the same thing, across all categories:
+// the sources merged into the fact itself and those of similar facts
+export function scoreInsights(
+  structuredInsights: Record<string, InsightFact[]>,
+  results: ScrapingResult[],
+  subject: ResearchSubject,
+  now: Date = new Date()
+): Record<string, InsightFact[]> {
+  const resultsByUrl = new Map(results.map(result => [result.url, result]));
+  const all = Object.values(structuredInsights).flat().map(fact => ({
+    words: new Set(contentWords(fact.fact)),
+    host: getHostname(fact.source),
+    hosts: [fact.source, ...(fact.corroboratedBy ?? [])].map(getHostname).filter(Boolean),
+  }));
+
+  let position = 0;
+  return Object.fromEntries(Object.entries(structuredInsights).map(([category, facts]) => [
+    category,
+    facts.map(fact => {
+      const own = all[position++];
+      const similar = all.filter(other => other !== own && sharesMostWords(own.words, other.words));
+      const hosts = new Set([own, ...similar].flatMap(other => other.hosts).filter(host => host !== own.host));
+      return { ...fact, confidence: scoreFact(fact, resultsByUrl.get(fact.source), subject, hosts.size, now) };
+    }),
+  ]));
+}
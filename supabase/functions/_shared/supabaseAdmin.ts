@@ -0,0 +1,42 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.4";
+
+export const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+export const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+
+// Service role client: bypasses row level security, only use after checking access
+export const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+// Client acting as the caller, so row level security decides what they can see
+export function createUserClient(req: Request) {
+  return createClient(supabaseUrl, anonKey, {
+    auth: { persistSession: false },
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+}
+
+export function isServiceRoleRequest(req: Request): boolean {
+  return !!serviceRoleKey && req.headers.get('Authorization') === `Bearer ${serviceRoleKey}`;
+}
+
+// Call another Edge Function of this project with the service role; aborting the signal stops waiting for it
+export async function invokeFunction<T>(name: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceRoleKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.error) {
+    throw new Error(`${name} failed: ${data.error || response.statusText}`);
+  }
+
+  return data as T;
+}
@@ -0,0 +1,99 @@
+// Which hosts the server may fetch on a caller's behalf: only public ones, never
+// loopback, private, link-local (cloud metadata) or otherwise reserved addresses.
+// Resolving host names is left to the runtime, see publicUrl.ts.
+// Keep this file free of Deno- or DOM-only APIs.
+
+// Names that resolve locally without asking DNS, or only inside a network
+const BLOCKED_HOSTNAME = /(^|\.)(localhost|local|internal|localdomain|home\.arpa)$/i;
+
+// [first address, prefix length] of the IPv4 ranges that are not public
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+// The eight 16-bit groups of an IPv6 address, including one ending in dotted IPv4
+function parseIpv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const ipv4 = parseIpv4(dotted[2]);
+    if (ipv4 === null) return null;
+    text = `${dotted[1]}${Math.floor(ipv4 / 65536).toString(16)}:${(ipv4 % 65536).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+export function isIpAddress(host: string): boolean {
+  return parseIpv4(host) !== null || parseIpv6(host) !== null;
+}
+
+export function isBlockedHostname(host: string): boolean {
+  return BLOCKED_HOSTNAME.test(host.replace(/\.$/, ''));
+}
+
+function isPrivateIpv4(value: number): boolean {
+  return PRIVATE_IPV4_RANGES.some(([first, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = parseIpv4(first) as number;
+    return value >= start && value < start + size;
+  });
+}
+
+// True for every address that is not a public unicast one; text that is no address counts as private
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4 !== null) {
+    return isPrivateIpv4(ipv4);
+  }
+
+  const groups = parseIpv6(address);
+  if (!groups) {
+    return true;
+  }
+  // Unspecified and loopback
+  if (groups.slice(0, 7).every(group => group === 0) && groups[7] <= 1) {
+    return true;
+  }
+  // IPv4-mapped, IPv4-compatible and NAT64 addresses are as private as the IPv4 address they carry
+  const embedsIpv4 = groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff);
+  const nat64 = groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0);
+  if (embedsIpv4 || nat64) {
+    return isPrivateIpv4(groups[6] * 65536 + groups[7]);
+  }
+  // Unique local fc00::/7, link-local fe80::/10, multicast ff00::/8 and documentation 2001:db8::/32
+  return (groups[0] & 0xfe00) === 0xfc00
+    || (groups[0] & 0xffc0) === 0xfe80
+    || (groups[0] & 0xff00) === 0xff00
+    || (groups[0] === 0x2001 && groups[1] === 0x0db8);
+}
@@ -0,0 +1,186 @@
+// Usage accounting for research: every model call, search request and crawled
+// page is recorded against the session and iteration it was made for, with its
+// estimated cost, and summed up per session and per month.
+// Keep this file free of Deno- or DOM-only APIs.
+
+import type { ChatCompletion, LlmStep } from './llmProviders.ts';
+
+export type UsageKind = 'llm' | 'search' | 'crawl';
+
+// What one call used; units counts requests for searches and pages for crawls
+export interface UsageEvent {
+  kind: UsageKind;
+  provider: string;
+  model: string | null;
+  step: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  units: number;
+}
+
+// Which session and iteration the calls of a request count against
+export interface UsageScope {
+  sessionId?: string | null;
+  iteration?: number | null;
+}
+
+export interface UsageRecord extends UsageEvent {
+  iteration: number | null;
+  costUsd: number;
+}
+
+export interface ModelUsage {
+  provider: string;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UnitUsage {
+  provider: string;
+  count: number;
+  costUsd: number;
+}
+
+export interface UsageBreakdown {
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  models: ModelUsage[];
+  searches: UnitUsage[];
+  pages: UnitUsage[];
+  // Null collects what was spent outside an iteration, e.g. on the plan
+  iterations: { iteration: number | null; costUsd: number }[];
+}
+
+interface TokenPrice {
+  input: number;
+  output: number;
+}
+
+// List prices in US dollars when this was written, so costs are estimates rather than invoices.
+// Models are matched by prefix; local and unknown models count as free
+const MODEL_PRICES_PER_MILLION_TOKENS: Record<string, TokenPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+};
+
+const SEARCH_PRICES_PER_REQUEST: Record<string, number> = {
+  serpapi: 0.015,
+  brave: 0.005,
+  bing: 0.015,
+};
+
+const CRAWL_PRICES_PER_PAGE: Record<string, number> = {
+  firecrawl: 0.001,
+};
+
+function findModelPrice(model: string): TokenPrice | null {
+  const prefix = Object.keys(MODEL_PRICES_PER_MILLION_TOKENS)
+    .filter(candidate => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICES_PER_MILLION_TOKENS[prefix] : null;
+}
+
+export function estimateCost(event: UsageEvent): number {
+  switch (event.kind) {
+    case 'llm': {
+      const price = event.model ? findModelPrice(event.model) : null;
+      return price ? (event.inputTokens * price.input + event.outputTokens * price.output) / 1000000 : 0;
+    }
+    case 'search':
+      return event.units * (SEARCH_PRICES_PER_REQUEST[event.provider] ?? 0);
+    case 'crawl':
+      return event.units * (CRAWL_PRICES_PER_PAGE[event.provider] ?? 0);
+  }
+}
+
+export function completionUsage(step: LlmStep, completion: ChatCompletion): UsageEvent {
+  return {
+    kind: 'llm',
+    provider: completion.provider,
+    model: completion.model,
+    step,
+    inputTokens: completion.usage?.inputTokens ?? 0,
+    outputTokens: completion.usage?.outputTokens ?? 0,
+    units: 1,
+  };
+}
+
+export function searchUsage(provider: string): UsageEvent {
+  return { kind: 'search', provider, model: null, step: null, inputTokens: 0, outputTokens: 0, units: 1 };
+}
+
+export function crawlUsage(scraper: string): UsageEvent {
+  return { kind: 'crawl', provider: scraper, model: null, step: null, inputTokens: 0, outputTokens: 0, units: 1 };
+}
+
+function addUnits(lines: UnitUsage[], record: UsageRecord) {
+  const line = lines.find(existing => existing.provider === record.provider);
+  if (line) {
+    line.count += record.units;
+    line.costUsd += record.costUsd;
+  } else {
+    lines.push({ provider: record.provider, count: record.units, costUsd: record.costUsd });
+  }
+}
+
+export function summarizeUsage(records: UsageRecord[]): UsageBreakdown {
+  const breakdown: UsageBreakdown = {
+    costUsd: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    models: [],
+    searches: [],
+    pages: [],
+    iterations: [],
+  };
+
+  for (const record of records) {
+    breakdown.costUsd += record.costUsd;
+
+    if (record.kind === 'llm') {
+      const model = record.model ?? 'unknown';
+      breakdown.inputTokens += record.inputTokens;
+      breakdown.outputTokens += record.outputTokens;
+      const line = breakdown.models.find(existing => existing.provider === record.provider && existing.model === model);
+      if (line) {
+        line.calls += record.units;
+        line.inputTokens += record.inputTokens;
+        line.outputTokens += record.outputTokens;
+        line.costUsd += record.costUsd;
+      } else {
+        breakdown.models.push({
+          provider: record.provider,
+          model,
+          calls: record.units,
+          inputTokens: record.inputTokens,
+          outputTokens: record.outputTokens,
+          costUsd: record.costUsd,
+        });
+      }
+    } else {
+      addUnits(record.kind === 'search' ? breakdown.searches : breakdown.pages, record);
+    }
+
+    const iteration = breakdown.iterations.find(existing => existing.iteration === record.iteration);
+    if (iteration) {
+      iteration.costUsd += record.costUsd;
+    } else {
+      breakdown.iterations.push({ iteration: record.iteration, costUsd: record.costUsd });
+    }
+  }
+
+  breakdown.models.sort((a, b) => b.costUsd - a.costUsd);
+  breakdown.iterations.sort((a, b) => (a.iteration ?? 0) - (b.iteration ?? 0));
+  return breakdown;
+}
+
+// Sub-cent amounts keep enough digits to tell a cheap run from a free one
+export function formatUsd(amount: number): string {
+  return amount > 0 && amount < 0.01 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
@@ -0,0 +1,85 @@
+import { createUserClient, isServiceRoleRequest, supabaseAdmin } from "./supabaseAdmin.ts";
+import { WorkspaceId, resolveWorkspace } from "./apiKeyVault.ts";
+import { UsageEvent, UsageScope, estimateCost } from "./usage.ts";
+
+// Collects the usage of one request and writes it to research_usage in one go
+export interface UsageMeter {
+  readonly workspaceId: WorkspaceId;
+  record(event: UsageEvent): void;
+  flush(): Promise<void>;
+}
+
+interface UsageRow {
+  session_id: string | null;
+  user_id: WorkspaceId;
+  iteration: number | null;
+  source: string;
+  kind: string;
+  provider: string;
+  model: string | null;
+  step: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  units: number;
+  cost_usd: number;
+}
+
+// For callers that already know the session and workspace, like the research jobs
+export function createSessionUsageMeter(source: string, scope: UsageScope, workspaceId: WorkspaceId): UsageMeter {
+  let rows: UsageRow[] = [];
+
+  return {
+    workspaceId,
+
+    record: (event) => {
+      rows.push({
+        session_id: scope.sessionId ?? null,
+        user_id: workspaceId,
+        iteration: scope.iteration ?? null,
+        source,
+        kind: event.kind,
+        provider: event.provider,
+        model: event.model,
+        step: event.step,
+        input_tokens: event.inputTokens,
+        output_tokens: event.outputTokens,
+        units: event.units,
+        cost_usd: estimateCost(event),
+      });
+    },
+
+    // Losing usage must never fail the research, so errors are only logged
+    flush: async () => {
+      if (rows.length === 0) return;
+      const pending = rows;
+      rows = [];
+      const { error } = await supabaseAdmin.from('research_usage').insert(pending);
+      if (error) {
+        console.error(`Failed to record ${pending.length} usage entries:`, error.message);
+      }
+    },
+  };
+}
+
+// The session only when the caller may see it, so nobody can book usage onto someone else's session
+async function readableSessionId(req: Request, sessionId?: string | null): Promise<string | null> {
+  if (!sessionId || isServiceRoleRequest(req)) {
+    return sessionId ?? null;
+  }
+
+  const { data } = await createUserClient(req)
+    .from('research_sessions')
+    .select('id')
+    .eq('id', sessionId)
+    .maybeSingle();
+  return data?.id ?? null;
+}
+
+// Usage is charged to the workspace whose keys the request uses, see resolveWorkspace
+export async function createUsageMeter(req: Request, source: string, scope: UsageScope = {}): Promise<UsageMeter> {
+  const [workspaceId, sessionId] = await Promise.all([
+    resolveWorkspace(req, scope.sessionId),
+    readableSessionId(req, scope.sessionId),
+  ]);
+  return createSessionUsageMeter(source, { sessionId, iteration: scope.iteration }, workspaceId);
+}
@@ -0,0 +1,167 @@
+// Claim verification for cleaned insights. Each fact is first checked against
+// the text of its cited source by word overlap; what that cannot settle is
+// handed to an entailment model together with the best matching passage.
+// Keep this file free of Deno- or DOM-only APIs.
+
+import type { FactVerification, FactVerificationStatus, InsightFact, ScrapingResult } from './contracts.ts';
+import { TextSpan, getFactSpan } from './citations.ts';
+
+// A fact the source text alone could not settle, with the passage the model should judge it on
+export interface Claim {
+  id: number;
+  category: string;
+  index: number;
+  fact: string;
+  evidence: string;
+}
+
+export interface MatchResult {
+  structuredInsights: Record<string, InsightFact[]>;
+  claims: Claim[];
+}
+
+export interface Verdict {
+  id: number;
+  label: FactVerificationStatus;
+  reason?: string;
+}
+
+// Share of a fact's words that must appear in its quote to count as supported without a model
+const QUOTE_MATCH_THRESHOLD = 0.85;
+// Below this share no passage of the source is about the fact at all
+const MIN_EVIDENCE_OVERLAP = 0.3;
+const EVIDENCE_CONTEXT_CHARS = 400;
+const PASSAGE_SENTENCES = 3;
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'at', 'for', 'by', 'with', 'from', 'as',
+  'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those', 'will', 'has', 'have', 'had',
+]);
+const NEGATIONS = new Set(['not', 'no', 'never', 'none', 'cancelled', 'canceled', 'postponed']);
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 1 || /\d/.test(word));
+}
+
+export function contentWords(text: string): string[] {
+  return [...new Set(words(text).filter(word => !STOP_WORDS.has(word)))];
+}
+
+function overlap(factWords: string[], text: string): number {
+  if (factWords.length === 0) return 0;
+  const available = new Set(words(text));
+  return factWords.filter(word => available.has(word)).length / factWords.length;
+}
+
+// A negation on one side only can flip the meaning however many words match
+function sameNegation(a: string, b: string): boolean {
+  const negated = (text: string) => words(text).some(word => NEGATIONS.has(word));
+  return negated(a) === negated(b);
+}
+
+function withContext(content: string, span: TextSpan): string {
+  return content.slice(Math.max(0, span.start - EVIDENCE_CONTEXT_CHARS), Math.min(content.length, span.end + EVIDENCE_CONTEXT_CHARS));
+}
+
+// The run of consecutive sentences sharing the most words with the fact
+function bestPassage(content: string, factWords: string[]): { span: TextSpan; overlap: number } | null {
+  const sentences = [...content.matchAll(/[^.!?\n]+[.!?]*/g)]
+    .map(match => ({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }));
+  let best: { span: TextSpan; overlap: number } | null = null;
+
+  for (let i = 0; i < sentences.length; i++) {
+    const last = sentences[Math.min(sentences.length - 1, i + PASSAGE_SENTENCES - 1)];
+    const span = { start: sentences[i].start, end: last.end };
+    const score = overlap(factWords, content.slice(span.start, span.end));
+    if (!best || score > best.overlap) {
+      best = { span, overlap: score };
+    }
+  }
+
+  return best;
+}
+
+export function matchFact(fact: InsightFact, content: string): { verification?: FactVerification; evidence: string } {
+  if (!content) {
+    return {
+      verification: { status: 'unsupported', method: 'match', note: 'The cited source was not scraped' },
+      evidence: '',
+    };
+  }
+
+  const factWords = contentWords(fact.fact);
+  const span = getFactSpan(fact, content);
+  if (span) {
+    const quote = content.slice(span.start, span.end);
+    if (overlap(factWords, quote) >= QUOTE_MATCH_THRESHOLD && sameNegation(fact.fact, quote)) {
+      return {
+        verification: { status: 'supported', method: 'match', note: 'The quoted passage states this' },
+        evidence: quote,
+      };
+    }
+    return { evidence: withContext(content, span) };
+  }
+
+  const passage = bestPassage(content, factWords);
+  if (!passage || passage.overlap < MIN_EVIDENCE_OVERLAP) {
+    return {
+      verification: { status: 'unsupported', method: 'match', note: 'No passage in the source mentions this' },
+      evidence: '',
+    };
+  }
+  return { evidence: withContext(content, passage.span) };
+}
+
+// Settle what the source text can settle; the rest becomes claims for the model
+export function verifyByMatch(structuredInsights: Record<string, InsightFact[]>, results: ScrapingResult[]): MatchResult {
+  const contentByUrl = new Map(results.map(result => [result.url, result.content ?? '']));
+  const claims: Claim[] = [];
+  const verified: Record<string, InsightFact[]> = {};
+
+  for (const [category, facts] of Object.entries(structuredInsights)) {
+    verified[category] = facts.map((fact, index) => {
+      const { verification, evidence } = matchFact(fact, contentByUrl.get(fact.source) ?? '');
+      if (verification) {
+        return { ...fact, verification };
+      }
+      claims.push({ id: claims.length, category, index, fact: fact.fact, evidence });
+      // Checked again by the model; an earlier verdict no longer applies
+      const { verification: _, ...unverified } = fact;
+      return unverified;
+    });
+  }
+
+  return { structuredInsights: verified, claims };
+}
+
+// Claims without a verdict stay unverified rather than being guessed at
+export function applyVerdicts(
+  structuredInsights: Record<string, InsightFact[]>,
+  claims: Claim[],
+  verdicts: Verdict[]
+): Record<string, InsightFact[]> {
+  const byId = new Map(verdicts.map(verdict => [verdict.id, verdict]));
+  const next = Object.fromEntries(Object.entries(structuredInsights).map(([category, facts]) => [category, [...facts]]));
+
+  for (const claim of claims) {
+    const verdict = byId.get(claim.id);
+    if (!verdict) continue;
+    const fact = next[claim.category][claim.index];
+    next[claim.category][claim.index] = {
+      ...fact,
+      verification: { status: verdict.label, method: 'model', ...(verdict.reason ? { note: verdict.reason } : {}) },
+    };
+  }
+
+  return next;
+}
+
+export function countVerification(structuredInsights: Record<string, InsightFact[]> = {}): Record<FactVerificationStatus | 'unchecked', number> {
+  const counts = { supported: 0, unsupported: 0, contradicted: 0, unchecked: 0 };
+  for (const facts of Object.values(structuredInsights)) {
+    for (const fact of facts) {
+      counts[fact.verification?.status ?? 'unchecked']++;
+    }
+  }
+  return counts;
+}
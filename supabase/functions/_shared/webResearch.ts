@@ -0,0 +1,153 @@
+import {
+  DEFAULT_SEARCH_PROVIDERS,
+  SearchProviderConfig,
+  SearchProviderId,
+  createSearchProviders,
+  isSearchProviderId,
+  searchAll,
+} from "./searchProviders.ts";
+import { SCRAPER_RATE_LIMITS, ScraperId, createScraper, isScraperPreference, withRateLimit } from "./scrapers.ts";
+import { RateLimiter, createRateLimiter } from "./rateLimit.ts";
+import { withScrapeCache } from "./scrapeCache.ts";
+import { scrapeCacheStore } from "./scrapeCacheStore.ts";
+import { ResearchProfile, getProfileDateWindow } from "./researchProfiles.ts";
+import { isAbortError } from "./abort.ts";
+import { WorkspaceId, loadWorkspaceKeys, recordKeyUse } from "./apiKeyVault.ts";
+import { isApiKeyProvider } from "./apiKeys.ts";
+import { crawlUsage, searchUsage } from "./usage.ts";
+import { assertPublicUrl } from "./publicUrl.ts";
+import type { UsageMeter } from "./usageMeter.ts";
+import type { ScrapingResult } from "./contracts.ts";
+
+// Search and crawling with one workspace's API keys, see loadWebResearch
+export interface WebResearch {
+  hasSearchProvider(providers: SearchProviderId[]): boolean;
+  searchUrls(
+    query: string,
+    context: string | undefined,
+    profile: ResearchProfile,
+    providers?: SearchProviderId[],
+    signal?: AbortSignal
+  ): Promise<string[]>;
+  crawlUrl(url: string, searchQuery: string, signal?: AbortSignal): Promise<ScrapingResult | null>;
+}
+
+// RESEARCH_SCRAPER picks 'firecrawl' or 'builtin'; by default FireCrawl is used when the workspace has a key.
+// SEARXNG_URL is the only SearXNG instance searched, so callers cannot point the server at other hosts.
+// Pages go through the shared scrape cache, so a URL is only crawled again once its entry is stale,
+// and only the requests that miss the cache count against the scraper's rate limit
+const scraperPreference = Deno.env.get('RESEARCH_SCRAPER');
+const searxngUrl = Deno.env.get('SEARXNG_URL');
+
+// Shared by every workspace's research in this function instance
+const crawlLimiters: Record<ScraperId, RateLimiter> = {
+  firecrawl: createRateLimiter(SCRAPER_RATE_LIMITS.firecrawl),
+  builtin: createRateLimiter(SCRAPER_RATE_LIMITS.builtin),
+};
+
+const MAX_SEARCH_RESULTS = 5;
+
+export type { ScrapingResult };
+
+export interface WebResearchOptions {
+  // Records every search request and every page crawled past the cache
+  usage?: UsageMeter;
+}
+
+// Provider ids arrive from request bodies and session rows, so keep only the known ones
+export function parseSearchProviders(value: unknown): SearchProviderId[] {
+  const providers = Array.isArray(value) ? value.filter(isSearchProviderId) : [];
+  return providers.length > 0 ? providers : DEFAULT_SEARCH_PROVIDERS;
+}
+
+// A scheme, or a single token like "example.org/events"
+export function looksLikeUrl(target: string): boolean {
+  return target.startsWith('http') || /^[\w-]+(\.[\w-]+)*\.[a-z]{2,}(\/\S*)?$/i.test(target.trim());
+}
+
+export function ensureProtocol(target: string): string {
+  return target.startsWith('http://') || target.startsWith('https://') ? target : `https://${target}`;
+}
+
+// Loads the workspace's keys, falling back on the project's, and stamps a workspace key's last use
+// the first time this research calls its provider
+export async function loadWebResearch(workspaceId: WorkspaceId, config: WebResearchOptions = {}): Promise<WebResearch> {
+  const keys = await loadWorkspaceKeys(workspaceId);
+  const usedProviders = new Set<string>();
+  const recordUse = (provider: string) => {
+    if (usedProviders.has(provider) || !isApiKeyProvider(provider)) return;
+    usedProviders.add(provider);
+    recordKeyUse(workspaceId, provider);
+  };
+
+  const searchConfig: SearchProviderConfig = {
+    serpApiKey: keys.serpapi,
+    braveApiKey: keys.brave,
+    bingApiKey: keys.bing,
+    searxngUrl,
+  };
+
+  const baseScraper = createScraper(isScraperPreference(scraperPreference) ? scraperPreference : 'auto', {
+    firecrawlApiKey: keys.firecrawl,
+    headers: { 'User-Agent': 'Mozilla/5.0 (compatible; InsightAtlasScribe/1.0)' },
+    // Targets come from model output and search results, so only public hosts are crawled
+    checkUrl: assertPublicUrl,
+  });
+  const scraper = withScrapeCache(withRateLimit({
+    id: baseScraper.id,
+    scrape: async (url, options) => {
+      recordUse(baseScraper.id);
+      const page = await baseScraper.scrape(url, options);
+      config.usage?.record(crawlUsage(baseScraper.id));
+      return page;
+    },
+  }, crawlLimiters[baseScraper.id]), scrapeCacheStore);
+
+  return {
+    hasSearchProvider: (providers) => createSearchProviders(providers, searchConfig).length > 0,
+
+    // Search the given providers that have a key with the profile's locale and date window,
+    // and return their merged links
+    searchUrls: async (query, context, profile, providers = DEFAULT_SEARCH_PROVIDERS, signal) => {
+      const searchProviders = createSearchProviders(providers, searchConfig);
+      if (searchProviders.length === 0) {
+        return [];
+      }
+
+      searchProviders.forEach(provider => {
+        recordUse(provider.id);
+        config.usage?.record(searchUsage(provider.id));
+      });
+      const hits = await searchAll(searchProviders, query, {
+        limit: MAX_SEARCH_RESULTS,
+        context,
+        dateRange: getProfileDateWindow(profile),
+        country: profile.country ?? undefined,
+        language: profile.language ?? undefined,
+        signal,
+      });
+      return hits.map(hit => hit.url);
+    },
+
+    // Scrape a single URL with the configured scraper; returns null when nothing usable came back.
+    // Throws only when the signal cancelled the research
+    crawlUrl: async (url, searchQuery, signal) => {
+      try {
+        const page = await scraper.scrape(url, { signal });
+        if (!page) {
+          console.log(`No content for ${url}`);
+          return null;
+        }
+
+        console.log(`Successfully scraped ${url} with ${scraper.id}`);
+        return { ...page, searchQuery };
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        console.error(`Failed to scrape ${url}:`, error);
+        return null;
+      }
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { isApiKeyProvider } from "../_shared/apiKeys.ts";
+import {
+  InvalidApiKeyError,
+  canManageWorkspaceKeys,
+  getRequestWorkspace,
+  listWorkspaceKeys,
+  removeWorkspaceKey,
+  revalidateWorkspaceKey,
+  saveWorkspaceKey,
+} from "../_shared/apiKeyVault.ts";
+
+// Manages the caller's workspace keys. Keys come in with 'save' and never go back out:
+// 'list' returns masked keys with their status and last use, and which providers the project has keys for.
+// Saving over an existing key rotates it. Only signed-in users change keys, see canManageWorkspaceKeys
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action = 'list', provider, apiKey } = await req.json();
+    const workspaceId = await getRequestWorkspace(req);
+    const canManage = canManageWorkspaceKeys(req, workspaceId);
+
+    if (action === 'list') {
+      return jsonResponse(await listWorkspaceKeys(workspaceId, canManage));
+    }
+    if (!canManage) {
+      return jsonResponse({ error: 'Sign in to manage API keys; the shared workspace uses the keys the project is configured with' }, 403);
+    }
+
+    if (!isApiKeyProvider(provider)) {
+      return jsonResponse({ error: `Unknown API key provider: ${provider}` }, 400);
+    }
+
+    switch (action) {
+      case 'save':
+        if (typeof apiKey !== 'string' || !apiKey.trim()) {
+          return jsonResponse({ error: 'An API key is required' }, 400);
+        }
+        return jsonResponse({ key: await saveWorkspaceKey(workspaceId, provider, apiKey) });
+      case 'validate': {
+        const key = await revalidateWorkspaceKey(workspaceId, provider);
+        return key ? jsonResponse({ key }) : jsonResponse({ error: `No ${provider} key is saved` }, 404);
+      }
+      case 'remove':
+        await removeWorkspaceKey(workspaceId, provider);
+        return jsonResponse({ removed: true });
+      default:
+        return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+  } catch (error) {
+    console.error('Error in api-keys function:', error);
+    if (error instanceof InvalidApiKeyError) {
+      return jsonResponse({ error: error.message }, 422);
+    }
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
@@ -0,0 +1,104 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  ConflictDetectionSchema,
+  ContractError,
+  DetectContradictionsRequestSchema,
+  parseContract,
+  parseModelJson,
+} from "../_shared/contracts.ts";
+import { buildContradictions, numberFacts } from "../_shared/contradictions.ts";
+import { llm } from "../_shared/llm.ts";
+import { LlmError } from "../_shared/llmProviders.ts";
+import { isAbortError } from "../_shared/abort.ts";
+import { createCancellationSignal } from "../_shared/cancellation.ts";
+import { completionUsage } from "../_shared/usage.ts";
+import { UsageMeter, createUsageMeter } from "../_shared/usageMeter.ts";
+
+const MAX_FACTS = 200;
+
+const comparePrompt = `
+You are a research analyst looking for disagreements between sources.
+You get numbered facts, each with the category it was filed under and the URL of its source.
+Find facts from DIFFERENT sources that make incompatible statements about the SAME subject,
+for example different dates for one event, different prices for one product or different headcounts.
+
+RULES:
+1. Facts about the same subject may sit in different categories; compare across all of them.
+2. Different but compatible details (e.g. a start date and an end date) are NOT a conflict.
+3. For each conflict give a short subject ("Acme Summit 2025 date"), a one-sentence summary,
+   and for every fact involved the specific value it states ("12 May 2025").
+
+FORMAT YOUR RESPONSE AS A JSON OBJECT:
+{
+  "conflicts": [
+    {"subject": "string", "summary": "string", "values": [{"factId": 0, "value": "string"}]}
+  ]
+}
+Return {"conflicts": []} when the sources agree.
+`;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let usage: UsageMeter | null = null;
+  let cancellation: ReturnType<typeof createCancellationSignal> | null = null;
+  try {
+    let request;
+    try {
+      request = parseContract(DetectContradictionsRequestSchema, await req.json(), 'contradiction request');
+    } catch (error) {
+      return jsonResponse({ error: error.message, details: error instanceof ContractError ? error.issues : undefined }, 400);
+    }
+
+    const facts = numberFacts(request.structuredInsights, MAX_FACTS);
+    if (new Set(facts.map(fact => fact.source)).size < 2) {
+      console.log('Fewer than two sources, nothing to compare');
+      return jsonResponse({ contradictions: [] });
+    }
+
+    console.log(`Comparing ${facts.length} facts for contradictions`);
+    cancellation = createCancellationSignal(request.sessionId, req);
+    usage = await createUsageMeter(req, 'detect-contradictions', request);
+    const completion = await llm.complete('compare', {
+      messages: [
+        { role: 'system', content: comparePrompt },
+        {
+          role: 'user',
+          content: facts.map(fact => `[${fact.id}] (${fact.category}) ${fact.fact} — ${fact.source}`).join('\n')
+        }
+      ],
+      json: true,
+      temperature: 0,
+      maxTokens: 2000
+    }, cancellation.signal);
+    usage.record(completionUsage('compare', completion));
+
+    const { conflicts } = parseModelJson(ConflictDetectionSchema, completion.content, 'contradiction report');
+    const contradictions = buildContradictions(facts, conflicts);
+    console.log(`Found ${contradictions.length} contradictions between sources`);
+
+    return jsonResponse({ contradictions });
+  } catch (error) {
+    if (isAbortError(error)) {
+      console.log('Contradiction check stopped: the research was cancelled');
+      return jsonResponse({ error: 'The research was cancelled' }, 499);
+    }
+    if (error instanceof ContractError) {
+      console.error('Comparison model returned a malformed report:', error.issues);
+      return jsonResponse({ error: error.message, details: error.issues }, 502);
+    }
+    if (error instanceof LlmError) {
+      console.error('Comparison model request failed:', error.message);
+      return jsonResponse({ error: error.message }, error.status);
+    }
+
+    console.error('Error in detect-contradictions function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  } finally {
+    cancellation?.dispose();
+    await usage?.flush();
+  }
+});
@@ -1,28 +1,35 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
-
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  CompetitorSeed,
+  ContractError,
+  GeneratePlanRequestSchema,
+  PlannerResponseSchema,
+  parseContract,
+  parseModelJson,
+} from "../_shared/contracts.ts";
+import { llm } from "../_shared/llm.ts";
+import { LlmError } from "../_shared/llmProviders.ts";
+import { completionUsage } from "../_shared/usage.ts";
+import { UsageMeter, createUsageMeter } from "../_shared/usageMeter.ts";
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let usage: UsageMeter | null = null;
   try {
-    const { question, context } = await req.json();
-
-    if (!question) {
-      return new Response(
-        JSON.stringify({ error: 'Question is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    let request;
+    try {
+      request = parseContract(GeneratePlanRequestSchema, await req.json(), 'plan request');
+    } catch (error) {
+      return jsonResponse({ error: error.message, details: error instanceof ContractError ? error.issues : undefined }, 400);
     }
+    const { question, context, keep, competitor } = request;
+    usage = await createUsageMeter(req, 'generate-research-plan', request);
 
     const currentDate = new Date().toISOString().split('T')[0];
     const previousYear = new Date();
@@ -75,71 +82,73 @@ Format answer as a single JSON object:
 }
 
 IMPORTANT: Make the search focus queries EXTREMELY SPECIFIC and HIGHLY VARIED, focusing on exact company websites, event pages, and very specific natural language searches that would give different but complementary results.
-`;
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 45000);
-
-    try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        signal: controller.signal,
-        headers: {
-          'Authorization': `Bearer ${openAIApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: [
-            { role: 'system', content: prompt },
-            { role: 'user', content: question + (context ? `\n\nAdditional context: ${context}` : '') }
-          ],
-          response_format: { type: "json_object" },
-          temperature: 0.7,
-          max_tokens: 1000
-        }),
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error("OpenAI API error:", errorData);
-        return new Response(
-          JSON.stringify({ error: 'OpenAI API error', details: errorData }),
-          { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const responseData = await response.json();
-      const plannerResponse = JSON.parse(responseData.choices[0].message.content);
-
-      if (plannerResponse.searchFocus && plannerResponse.searchFocus.length > 8) {
-        plannerResponse.searchFocus = plannerResponse.searchFocus.slice(0, 8);
-      }
-
-      return new Response(
-        JSON.stringify(plannerResponse),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    } catch (error) {
-      clearTimeout(timeoutId);
+${keptItemsPrompt(keep)}${competitorPrompt(competitor)}`;
+
+    const completion = await llm.complete('plan', {
+      messages: [
+        { role: 'system', content: prompt },
+        { role: 'user', content: question + (context ? `\n\nAdditional context: ${context}` : '') }
+      ],
+      json: true,
+      temperature: 0.7,
+      maxTokens: 1000
+    });
+    usage.record(completionUsage('plan', completion));
+    console.log(`Plan generated with ${completion.provider}/${completion.model}`);
+
+    const plannerResponse = parseModelJson(PlannerResponseSchema, completion.content, 'research plan');
+
+    // The competitor's known event pages are always scraped, whatever the model picked
+    const seededPages = (competitor?.eventPages ?? []).filter(page => !(keep?.searchFocus ?? []).includes(page));
+    plannerResponse.searchFocus = [
+      ...seededPages,
+      ...plannerResponse.searchFocus.filter(target => !seededPages.includes(target)),
+    ];
+
+    if (plannerResponse.searchFocus.length > 8) {
+      plannerResponse.searchFocus = plannerResponse.searchFocus.slice(0, 8);
+    }
 
-      if (error.name === 'AbortError') {
-        console.error('OpenAI request timed out');
-        return new Response(
-          JSON.stringify({ error: 'Request timed out' }),
-          { status: 504, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+    return jsonResponse(plannerResponse);
+  } catch (error) {
+    if (error instanceof ContractError) {
+      console.error('Planner returned a malformed plan:', error.issues);
+      return jsonResponse({ error: error.message, details: error.issues }, 502);
+    }
 
-      throw error;
+    if (error instanceof LlmError) {
+      console.error('Planner model request failed:', error.message);
+      return jsonResponse({ error: error.message }, error.status);
     }
-  } catch (error) {
+
     console.error('Error in generate-research-plan function:', error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ error: error.message }, 500);
+  } finally {
+    await usage?.flush();
   }
 });
+
+// The analyst locked these entries of an earlier plan; new entries should complement rather than repeat them
+function keptItemsPrompt(keep?: { searchFocus?: string[]; informationGoals?: string[] }): string {
+  const searchFocus = keep?.searchFocus ?? [];
+  const informationGoals = keep?.informationGoals ?? [];
+  if (searchFocus.length === 0 && informationGoals.length === 0) return '';
+
+  return `
+The analyst is keeping the following entries from an earlier plan. Do NOT repeat them; produce new entries that complement them.
+${searchFocus.length > 0 ? `Kept search focus:\n${searchFocus.map(item => `- ${item}`).join('\n')}` : ''}
+${informationGoals.length > 0 ? `Kept information goals:\n${informationGoals.map(item => `- ${item}`).join('\n')}` : ''}
+`;
+}
+
+// The session researches a known competitor; its own sites are the best place to start
+function competitorPrompt(competitor?: CompetitorSeed): string {
+  if (!competitor) return '';
+
+  return `
+The research is about the competitor "${competitor.name}".
+${competitor.domains.length > 0 ? `Its own domains: ${competitor.domains.join(', ')}. Use them for the direct website queries.` : ''}
+${competitor.products.length > 0 ? `Its products: ${competitor.products.join(', ')}.` : ''}
+${competitor.eventPages.length > 0 ? `Its known event pages (already included, do NOT repeat them): ${competitor.eventPages.join(', ')}.` : ''}
+`;
+}
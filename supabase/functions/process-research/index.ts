@@ -1,13 +1,37 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
-
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  ChunkExtractionSchema,
+  CleanerRequestSchema,
+  CleanerResponse,
+  ContractError,
+  InsightSummarySchema,
+  parseContract,
+  parseModelJson,
+} from "../_shared/contracts.ts";
+import {
+  ChunkOutcome,
+  formatInsightsForSummary,
+  mapWithConcurrency,
+  mergeExtractions,
+  planChunks,
+  summarizeCoverage,
+} from "../_shared/cleaning.ts";
+import { mergeEvents } from "../_shared/events.ts";
+import { llm } from "../_shared/llm.ts";
+import { LlmError } from "../_shared/llmProviders.ts";
+import { isAbortError, throwIfAborted } from "../_shared/abort.ts";
+import { createCancellationSignal } from "../_shared/cancellation.ts";
+import { completionUsage } from "../_shared/usage.ts";
+import { UsageMeter, createUsageMeter } from "../_shared/usageMeter.ts";
+
+const CHUNK_SIZE = 6000;
+const MAX_CHUNKS_PER_SOURCE = 8;
+const MAX_CHUNKS = 30; // Model calls per run, so the function stays inside its time limit
+const MAP_CONCURRENCY = 4;
+const SUMMARY_MAX_CHARS = 40000;
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -15,54 +39,111 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let cancellation: ReturnType<typeof createCancellationSignal> | null = null;
+  let usage: UsageMeter | null = null;
   try {
-    const { scrapingResults, intent, searchFocus, informationGoals, originalQuestion, context } = await req.json();
-
-    if (!scrapingResults || scrapingResults.length === 0) {
-      return new Response(
-        JSON.stringify({ error: 'No scraping results provided' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    let request;
+    try {
+      request = parseContract(CleanerRequestSchema, await req.json(), 'cleaner request');
+    } catch (error) {
+      return jsonResponse({ error: error.message, details: error instanceof ContractError ? error.issues : undefined }, 400);
     }
+    const { scrapingResults, intent, searchFocus, informationGoals, originalQuestion, context, sessionId, iteration } = request;
+    usage = await createUsageMeter(req, 'process-research', { sessionId, iteration });
+    // Model calls still queued or running stop when the session is cancelled or the caller gives up
+    cancellation = createCancellationSignal(sessionId, req);
+    const { signal } = cancellation;
 
     console.log(`Processing ${scrapingResults.length} research results`);
 
-    // Prepare content for analysis
-    const resultTexts = scrapingResults.map(result => {
-      return `SOURCE: ${result.url}
-CONTENT: ${result.content ? result.content.substring(0, 4000) : "No content"}\n\n`;
-    }).join('');
-
-    // The system prompt for the cleaner agent
-    const systemPrompt = `
-You are a Research Cleaner Agent specialized in extracting structured information from scraped web content.
-Your job is to analyze all the provided content and extract the most accurate, relevant information 
-that answers the user's original research question, specifically in the context of:
-- Intent: ${intent}
+    const researchContext = `- Intent: ${intent}
 - Information Goals: ${informationGoals.join(', ')}
 - Original Question: ${originalQuestion}
-${context ? `- Additional Context: ${context}` : ''}
+${context ? `- Additional Context: ${context}` : ''}`;
+
+    // Map: read every chunk on its own so no source is cut off by a shared prompt limit
+    const chunkPlan = planChunks(scrapingResults, {
+      chunkSize: CHUNK_SIZE,
+      maxChunksPerSource: MAX_CHUNKS_PER_SOURCE,
+      maxChunks: MAX_CHUNKS,
+    });
+    console.log(`Split ${scrapingResults.length} sources into ${chunkPlan.chunks.length} chunks`);
+
+    const extractPrompt = `
+You are a Research Cleaner Agent specialized in extracting structured information from scraped web content.
+You are given ONE chunk of ONE source. Extract every fact in it that helps answer the research question,
+in the context of:
+${researchContext}
+
+RULES:
+1. Only use information stated in this chunk; do not add outside knowledge.
+2. For event research, keep specific dates, locations, names, and descriptions.
+3. For competitor analysis, focus on specific competitive intelligence.
+4. Prefer specific, concrete facts over vague statements. Each fact must stand on its own.
+5. Group facts under short thematic categories such as "Upcoming events" or "Product launches".
+6. For every fact, copy the sentence or passage that supports it VERBATIM from the chunk into "quote".
+   Do not paraphrase, shorten or fix the quote; it is searched for in the source text.
+7. Also list every event the chunk mentions (conference, trade show, webinar, meetup) under "events",
+   once per participant and role, e.g. one entry for a company exhibiting and one for it speaking.
+   Write dates as YYYY-MM-DD and leave out any field the chunk does not state.
+   "role" is how the participant takes part: organizer, sponsor, speaker, exhibitor or attendee.
+
+FORMAT YOUR RESPONSE AS A JSON OBJECT:
+{
+  "facts": [
+    {"category": "theme of the fact", "fact": "specific fact", "quote": "exact supporting text from the chunk"}
+  ],
+  "events": [
+    {
+      "name": "event name", "organizer": "who runs it", "startDate": "YYYY-MM-DD", "endDate": "YYYY-MM-DD",
+      "city": "city", "venue": "venue", "participant": "company or person taking part", "role": "exhibitor",
+      "quote": "exact supporting text from the chunk"
+    }
+  ]
+}
+Return {"facts": [], "events": []} when the chunk contains nothing relevant.
+`;
+
+    const outcomes = await mapWithConcurrency(chunkPlan.chunks, MAP_CONCURRENCY, async (chunk): Promise<ChunkOutcome> => {
+      try {
+        const completion = await llm.complete('extract', {
+          messages: [
+            { role: 'system', content: extractPrompt },
+            { role: 'user', content: `SOURCE: ${chunk.url}\nCHUNK: ${chunk.index + 1} of ${chunk.count}\n\n${chunk.text}` }
+          ],
+          json: true,
+          temperature: 0.2,
+          maxTokens: 1500
+        }, signal);
+        usage?.record(completionUsage('extract', completion));
+        return { chunk, extraction: parseModelJson(ChunkExtractionSchema, completion.content, 'chunk extraction') };
+      } catch (error) {
+        console.error(`Failed to extract facts from chunk ${chunk.index + 1} of ${chunk.url}:`, error.message);
+        return { chunk, extraction: null, error: error.message };
+      }
+    });
+
+    throwIfAborted(signal);
+
+    // Every chunk failing is a failed run, not an empty result
+    if (outcomes.length > 0 && outcomes.every(outcome => !outcome.extraction)) {
+      throw new Error(`Fact extraction failed for every chunk: ${outcomes[0].error}`);
+    }
+
+    const structuredInsights = mergeExtractions(outcomes, scrapingResults);
+    const events = mergeEvents(outcomes, scrapingResults);
+    const sourceCoverage = summarizeCoverage(scrapingResults, chunkPlan, outcomes, MAX_CHUNKS_PER_SOURCE);
+    const factCount = Object.values(structuredInsights).reduce((total, facts) => total + facts.length, 0);
+    console.log(`Merged ${factCount} facts in ${Object.keys(structuredInsights).length} categories and ${events.length} events`);
 
-TASK:
-1. Analyze each piece of scraped content carefully.
-2. Extract all information relevant to the research question, with a focus on factual information.
-3. For event research, extract specific dates, locations, names, and descriptions.
-4. For competitor analysis, focus on gathering specific competitive intelligence that is useful.
-5. Format the information in a structured way with properly organized sections.
-6. Prefer specific, concrete information over vague statements.
+    // Reduce: summarize the merged facts rather than the raw pages
+    const summaryPrompt = `
+You are a Research Cleaner Agent. Below are the deduplicated facts extracted from all scraped sources,
+grouped by category with their source URL. Summarize them in relation to:
+${researchContext}
 
 FORMAT YOUR RESPONSE AS A JSON OBJECT with these keys:
 {
-  "structuredInsights": {
-    // Organize by themes or categories
-    "category1": [
-      {"fact": "specific fact 1", "source": "URL source of this fact"},
-      {"fact": "specific fact 2", "source": "URL source of this fact"}
-    ],
-    "category2": [
-      // Same structure
-    ]
-  },
   "relevantFindings": [
     "Most important finding 1",
     "Most important finding 2",
@@ -76,73 +157,42 @@ FORMAT YOUR RESPONSE AS A JSON OBJECT with these keys:
 }
 `;
 
-    // Maximum token limit for GPT-4
-    const maxTokens = 12000;
-    let truncatedContent = resultTexts;
-    if (truncatedContent.length > maxTokens * 4) { // Rough char-to-token conversion
-      truncatedContent = truncatedContent.substring(0, maxTokens * 4);
-      console.log(`Content truncated to ${truncatedContent.length} characters to fit token limits`);
+    const completion = await llm.complete('clean', {
+      messages: [
+        { role: 'system', content: summaryPrompt },
+        { role: 'user', content: formatInsightsForSummary(structuredInsights, SUMMARY_MAX_CHARS) || 'No relevant facts were found.' }
+      ],
+      json: true,
+      temperature: 0.3,
+      maxTokens: 2000
+    }, signal);
+    usage.record(completionUsage('clean', completion));
+    console.log(`Insights summarized with ${completion.provider}/${completion.model}`);
+
+    const summary = parseModelJson(InsightSummarySchema, completion.content, 'cleaner response');
+    const cleanerResponse: CleanerResponse = { ...summary, structuredInsights, sourceCoverage, events };
+
+    return jsonResponse(cleanerResponse);
+  } catch (error) {
+    if (isAbortError(error)) {
+      console.log('Cleaning stopped: the research was cancelled');
+      return jsonResponse({ error: 'The research was cancelled' }, 499);
     }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 45000); // 45-second timeout
-
-    try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        signal: controller.signal,
-        headers: {
-          'Authorization': `Bearer ${openAIApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: truncatedContent }
-          ],
-          response_format: { type: "json_object" },
-          temperature: 0.3,
-          max_tokens: 2000
-        }),
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error("OpenAI API error:", errorData);
-        return new Response(
-          JSON.stringify({ error: 'OpenAI API error', details: errorData }),
-          { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const responseData = await response.json();
-      const cleanerResponse = JSON.parse(responseData.choices[0].message.content);
-
-      return new Response(
-        JSON.stringify(cleanerResponse),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    } catch (error) {
-      clearTimeout(timeoutId);
-
-      if (error.name === 'AbortError') {
-        console.error('OpenAI request timed out');
-        return new Response(
-          JSON.stringify({ error: 'Request timed out' }),
-          { status: 504, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+    if (error instanceof ContractError) {
+      console.error('Cleaner returned malformed insights:', error.issues);
+      return jsonResponse({ error: error.message, details: error.issues }, 502);
+    }
 
-      throw error;
+    if (error instanceof LlmError) {
+      console.error('Cleaner model request failed:', error.message);
+      return jsonResponse({ error: error.message }, error.status);
     }
-  } catch (error) {
+
     console.error('Error in process-research function:', error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ error: error.message }, 500);
+  } finally {
+    cancellation?.dispose();
+    await usage?.flush();
   }
 });
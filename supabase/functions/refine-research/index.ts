@@ -1,15 +1,23 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
-
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-const firecrawlAPIKey = Deno.env.get('FIRECRAWL_API_KEY');
-const serpApiKey = Deno.env.get('SERPAPI_API_KEY');
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { ensureProtocol, loadWebResearch, looksLikeUrl, parseSearchProviders } from "../_shared/webResearch.ts";
+import { completionUsage } from "../_shared/usage.ts";
+import { UsageMeter, createUsageMeter } from "../_shared/usageMeter.ts";
+import { ResearchProfile, getProfileDateWindow, parseResearchProfile } from "../_shared/researchProfiles.ts";
+import {
+  CompetitorSeed,
+  ContractError,
+  RefineRequestSchema,
+  RefinementSchema,
+  parseContract,
+  parseModelJson,
+} from "../_shared/contracts.ts";
+import { llm } from "../_shared/llm.ts";
+import { LlmError } from "../_shared/llmProviders.ts";
+import { isAbortError, throwIfAborted } from "../_shared/abort.ts";
+import { createCancellationSignal } from "../_shared/cancellation.ts";
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -17,13 +25,41 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let cancellation: ReturnType<typeof createCancellationSignal> | null = null;
+  let usage: UsageMeter | null = null;
   try {
-    const { searchTargets, currentResults, researchGoals, iteration, context } = await req.json();
+    let request;
+    try {
+      request = parseContract(RefineRequestSchema, await req.json(), 'refinement request');
+    } catch (error) {
+      return jsonResponse({ error: error.message, details: error instanceof ContractError ? error.issues : undefined }, 400);
+    }
+    const {
+      searchTargets,
+      currentResults,
+      researchGoals,
+      iteration,
+      context,
+      searchProviders,
+      profile: profileInput,
+      competitor,
+      sessionId,
+    } = request;
+    // Stops searching and crawling as soon as the session is cancelled or the caller gives up
+    cancellation = createCancellationSignal(sessionId, req);
+    const { signal } = cancellation;
+    const providers = parseSearchProviders(searchProviders);
+    const profile = parseResearchProfile(profileInput);
+    // Searches and crawls with the keys of the session owner's workspace, or the caller's, which also pays for them
+    usage = await createUsageMeter(req, 'refine-research', { sessionId, iteration });
+    const web = await loadWebResearch(usage.workspaceId, { usage });
     console.log(`Starting research refinement - Iteration ${iteration}`);
     console.log(`Research goals: ${JSON.stringify(researchGoals)}`);
     console.log(`Current targets: ${JSON.stringify(searchTargets)}`);
     console.log(`Current results count: ${currentResults?.length || 0}`);
     console.log(`Context: ${context || 'None provided'}`);
+    console.log(`Search providers: ${providers.join(', ')}`);
+    console.log(`Research profile: ${profile.name}`);
 
     // Group results by search query to identify gaps
     const resultsByQuery = {};
@@ -44,10 +80,7 @@ serve(async (req) => {
     console.log(`Underperforming queries: ${JSON.stringify(underperformingQueries)}`);
 
     // --- ENHANCED ANALYSIS PROMPT for info goals+context+dates ---
-    const now = new Date();
-    const previousYear = new Date(now);
-    previousYear.setFullYear(now.getFullYear() - 1);
-    const dateStr = `${previousYear.toISOString().split("T")[0]} to ${now.toISOString().split("T")[0]}`;
+    const dateStr = getProfileDateWindow(profile);
 
     const aiPrompt = `You are an expert research assistant that helps refine web search strategies.
 
@@ -56,12 +89,12 @@ Your task:
 2. Identify information gaps and insufficient targets (especially those with <3 results).
 3. Generate 7-9 improved, highly specific search targets that:
    - Mix direct URLs (industry/event/company sites) and search queries (date/context aware)
-   - For event research or competitive analysis, prioritize tech event directories, conference calendars, company/news/press sites, and add context like "PKI", "HID Global", and "2024" or "${dateStr}".
-   - Provide at least 4 direct site URLs and at least 2 with date filter ("2024" or date context).
+   - For event research or competitive analysis, prioritize event directories, conference calendars, company/news/press sites, and add the research's subject, domain and date window (${dateStr}) to queries.
+   - Provide at least 4 direct site URLs and at least 2 queries limited to the date window (${dateStr}).
    - Prefer non-google.com sources.
    - For each improved target, indicate if it's: ["URL", "industry-site", "event-directory", "search-query"], and include context and date in queries.
 4. Use information goals to focus improved targets on the specific gaps found so far.
-
+${subjectPrompt(profile, competitor)}
 Respond as JSON:
 {
   "analysis": "paragraph analyzing the current state and gaps",
@@ -73,37 +106,30 @@ Respond as JSON:
 }
 `;
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { 
-            role: 'system', 
-            content: aiPrompt
-          },
-          { 
-            role: 'user', 
-            content: JSON.stringify({
-              researchGoals: researchGoals || [],
-              currentSearchTargets: searchTargets || [],
-              currentResults: currentResults || [],
-              iteration: iteration || 1,
-              context: context || '',
-              underperformingQueries: underperformingQueries || []
-            }) 
-          }
-        ],
-        response_format: { type: "json_object" }
-      }),
-    });
+    const completion = await llm.complete('refine', {
+      messages: [
+        { 
+          role: 'system', 
+          content: aiPrompt
+        },
+        { 
+          role: 'user', 
+          content: JSON.stringify({
+            researchGoals: researchGoals || [],
+            currentSearchTargets: searchTargets || [],
+            currentResults: currentResults || [],
+            iteration: iteration || 1,
+            context: context || '',
+            underperformingQueries: underperformingQueries || []
+          }) 
+        }
+      ],
+      json: true
+    }, signal);
+    usage.record(completionUsage('refine', completion));
+    console.log(`Refinement generated with ${completion.provider}/${completion.model}`);
 
-    const responseData = await response.json();
-    const refinementResults = JSON.parse(responseData.choices[0].message.content);
+    const refinementResults = parseModelJson(RefinementSchema, completion.content, 'refinement');
 
     // Up to 5 improved targets, always crawl direct URLs, prefer industry/event sites
     if (refinementResults.improvedTargets && refinementResults.improvedTargets.length > 0) {
@@ -129,83 +155,28 @@ Respond as JSON:
       // Crawl the new targets
       const newResults = [];
       for (const target of priorityTargets) {
+        throwIfAborted(signal);
         try {
-          let processedUrl = target;
           // Direct site/URL? make sure protocol
-          if ((target.includes('.com') || target.includes('.org') || target.includes('.net') || 
-               target.includes('.edu') || target.includes('.gov')) && !target.startsWith('http')) {
-            processedUrl = `https://${target}`;
-          }
+          const processedUrl = looksLikeUrl(target) ? ensureProtocol(target) : target;
           
-          // Not a URL? Try SerpAPI. Compose with context/date if needed
-          if (!processedUrl.startsWith("http")) {
-            // SerpAPI strategy for non-urls
-            if (serpApiKey) {
-              const serpParams = new URLSearchParams({
-                engine: 'google',
-                q: `${processedUrl} ${context || ''} ${dateStr}`,
-                api_key: serpApiKey,
-                num: '5',
-              });
-              const serpUrl = `https://serpapi.com/search.json?${serpParams.toString()}`;
-              const serpRes = await fetch(serpUrl);
-              const serpData = await serpRes.json();
-              let serpLinks = [];
-              if (serpData.organic_results && Array.isArray(serpData.organic_results)) {
-                for (const result of serpData.organic_results.slice(0, 5)) {
-                  if (result.link && !result.link.startsWith("https://www.google.com")) {
-                    serpLinks.push(result.link);
-                  }
-                }
-                // If too few, fill remainder with whatever else is there
-                if (serpLinks.length < 3) {
-                  for (const result of serpData.organic_results.slice(0, 5)) {
-                    if (result.link && !serpLinks.includes(result.link)) {
-                      serpLinks.push(result.link);
-                    }
-                  }
+          // Not a URL? Search for it. Compose with context/date if needed
+          if (!processedUrl.startsWith("http") && web.hasSearchProvider(providers)) {
+            const searchLinks = await web.searchUrls(processedUrl, context, profile, providers, signal);
+            
+            // Process each search result URL
+            for (const searchLink of searchLinks.slice(0, 3)) {
+              if (signal.aborted) break;
+              try {
+                const result = await web.crawlUrl(searchLink, target, signal);
+                if (result) {
+                  newResults.push(result);
                 }
+              } catch (error) {
+                console.error(`Error crawling search result ${searchLink}:`, error);
               }
-              
-              // Process each SerpAPI result URL
-              for (const serpLink of serpLinks.slice(0, 3)) {
-                try {
-                  const crawlResult = await fetch('https://api.firecrawl.dev/v1/crawl-url', {
-                    method: 'POST',
-                    headers: {
-                      'Authorization': `Bearer ${firecrawlAPIKey}`,
-                      'Content-Type': 'application/json'
-                    },
-                    body: JSON.stringify({
-                      url: serpLink,
-                      limit: 5,
-                      scrapeOptions: {
-                        formats: ['markdown', 'html']
-                      }
-                    })
-                  });
-                  const crawlResultJson = await crawlResult.json();
-                  if (crawlResultJson.success) {
-                    // Always save content if it exists at all
-                    if (crawlResultJson.content) {
-                      newResults.push({
-                        url: serpLink,
-                        content: crawlResultJson.content || '',
-                        metadata: crawlResultJson.metadata || {},
-                        searchQuery: target
-                      });
-                      console.log(`Successfully crawled ${serpLink}`);
-                    } else {
-                      console.log(`No content for ${serpLink}`);
-                    }
-                  }
-                } catch (error) {
-                  console.error(`Error crawling SerpAPI result ${serpLink}:`, error);
-                }
-                await new Promise(resolve => setTimeout(resolve, 1000));
-              }
-              continue;
             }
+            continue;
           }
           
           console.log(`Crawling target: ${processedUrl}`);
@@ -216,127 +187,98 @@ Respond as JSON:
             continue;
           }
           
-          // Perform the crawl using FireCrawl directly
+          // Scrape the page with the configured scraper
           try {
-            const crawlResult = await fetch('https://api.firecrawl.dev/v1/crawl-url', {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${firecrawlAPIKey}`,
-                'Content-Type': 'application/json'
-              },
-              body: JSON.stringify({
-                url: processedUrl,
-                limit: 5,
-                scrapeOptions: {
-                  formats: ['markdown', 'html']
-                }
-              })
-            });
-            const crawlResultJson = await crawlResult.json();
-            if (crawlResultJson.success) {
-              // Accept any content
-              if (crawlResultJson.content) {
-                newResults.push({
-                  url: processedUrl,
-                  content: crawlResultJson.content || '',
-                  metadata: crawlResultJson.metadata || {},
-                  searchQuery: target
-                });
-                console.log(`Successfully crawled ${processedUrl}`);
-              } else {
-                console.log(`No content for ${processedUrl}`);
-              }
-            } else {
-              console.error(`Failed to crawl ${processedUrl}:`, crawlResultJson.error);
+            const result = await web.crawlUrl(processedUrl, target, signal);
+            if (result) {
+              newResults.push(result);
             }
           } catch (error) {
-            console.error(`Error in FireCrawl request for ${processedUrl}:`, error);
+            console.error(`Error scraping ${processedUrl}:`, error);
           }
         } catch (error) {
           console.error(`Error processing target ${target}:`, error);
         }
-        await new Promise(resolve => setTimeout(resolve, 2000));
       }
 
       // Also, process industry-specific sites if provided, up to 3
       if (refinementResults.industrySpecificSites && refinementResults.industrySpecificSites.length > 0) {
         const industryTargets = refinementResults.industrySpecificSites.slice(0, 3);
         for (const target of industryTargets) {
+          throwIfAborted(signal);
+          const processedUrl = ensureProtocol(target);
+          console.log(`Crawling industry-specific site: ${processedUrl}`);
           try {
-            let processedUrl = target;
-            if (!target.startsWith('http://') && !target.startsWith('https://')) {
-              processedUrl = `https://${target}`;
-            }
-
-            console.log(`Crawling industry-specific site: ${processedUrl}`);
-            try {
-              const crawlResult = await fetch('https://api.firecrawl.dev/v1/crawl-url', {
-                method: 'POST',
-                headers: {
-                  'Authorization': `Bearer ${firecrawlAPIKey}`,
-                  'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                  url: processedUrl,
-                  limit: 5,
-                  scrapeOptions: {
-                    formats: ['markdown', 'html']
-                  }
-                })
-              });
-              const crawlResultJson = await crawlResult.json();
-              if (crawlResultJson.success) {
-                // Accept any content
-                if (crawlResultJson.content) {
-                  newResults.push({
-                    url: processedUrl,
-                    content: crawlResultJson.content || '',
-                    metadata: crawlResultJson.metadata || {},
-                    searchQuery: 'Industry-specific site'
-                  });
-                  console.log(`Successfully crawled industry site ${processedUrl}`);
-                } else {
-                  console.log(`No content for industry site ${processedUrl}`);
-                }
-              }
-            } catch (error) {
-              console.error(`Error in FireCrawl request for industry site ${processedUrl}:`, error);
+            const result = await web.crawlUrl(processedUrl, 'Industry-specific site', signal);
+            if (result) {
+              newResults.push(result);
             }
           } catch (error) {
-            console.error(`Error processing industry site ${target}:`, error);
+            console.error(`Error scraping industry site ${processedUrl}:`, error);
+          }
+        }
+      }
+
+      // Nothing found at all: fall back on the profile's sources not scraped before, up to 3
+      if (newResults.length === 0 && profile.fallbackSources.length > 0) {
+        const scrapedUrls = new Set((currentResults || []).map(result => result.url));
+        const fallbackUrls = profile.fallbackSources.map(ensureProtocol).filter(url => !scrapedUrls.has(url)).slice(0, 3);
+        for (const url of fallbackUrls) {
+          console.log(`Crawling fallback source: ${url}`);
+          const result = await web.crawlUrl(url, 'Fallback source', signal);
+          if (result) {
+            newResults.push(result);
           }
-          await new Promise(resolve => setTimeout(resolve, 2000));
         }
       }
 
       // Combine results with analysis
-      return new Response(
-        JSON.stringify({
-          analysis: refinementResults.analysis,
-          improvedTargets: refinementResults.improvedTargets,
-          targetTypes: refinementResults.targetTypes,
-          searchPriority: refinementResults.searchPriority,
-          extractionFocus: refinementResults.extractionFocus,
-          industrySpecificSites: refinementResults.industrySpecificSites || [],
-          newResults
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({
+        analysis: refinementResults.analysis,
+        improvedTargets: refinementResults.improvedTargets,
+        targetTypes: refinementResults.targetTypes,
+        searchPriority: refinementResults.searchPriority,
+        extractionFocus: refinementResults.extractionFocus,
+        industrySpecificSites: refinementResults.industrySpecificSites || [],
+        newResults
+      });
     } else {
-      return new Response(
-        JSON.stringify({
-          analysis: "Could not generate improved search targets.",
-          improvedTargets: [],
-          newResults: []
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({
+        analysis: "Could not generate improved search targets.",
+        improvedTargets: [],
+        newResults: []
+      });
     }
   } catch (error) {
+    if (isAbortError(error)) {
+      console.log('Refinement stopped: the research was cancelled');
+      return jsonResponse({ error: 'The research was cancelled' }, 499);
+    }
+
+    if (error instanceof ContractError) {
+      console.error('Refinement model returned a malformed reply:', error.issues);
+      return jsonResponse({ error: error.message, details: error.issues }, 502);
+    }
+
+    if (error instanceof LlmError) {
+      console.error('Refinement model request failed:', error.message);
+      return jsonResponse({ error: error.message }, error.status);
+    }
+
     console.error('Error in refine-research function:', error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ error: error.message }, 500);
+  } finally {
+    cancellation?.dispose();
+    await usage?.flush();
   }
 });
+
+// What the research is about comes from the session: its competitor and the profile's trusted sources
+function subjectPrompt(profile: ResearchProfile, competitor?: CompetitorSeed): string {
+  return `
+${competitor ? `The research is about the competitor "${competitor.name}".` : 'Take the subject and domain of the research from the research goals and context.'}
+${competitor && competitor.domains.length > 0 ? `Its own domains: ${competitor.domains.join(', ')}.` : ''}
+${competitor && competitor.products.length > 0 ? `Its products: ${competitor.products.join(', ')}.` : ''}
+${profile.fallbackSources.length > 0 ? `Sites the "${profile.name}" research profile relies on for this domain: ${profile.fallbackSources.join(', ')}.` : ''}
+`;
+}
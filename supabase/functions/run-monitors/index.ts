@@ -0,0 +1,174 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  createUserClient,
+  invokeFunction,
+  isServiceRoleRequest,
+  supabaseAdmin,
+} from "../_shared/supabaseAdmin.ts";
+import { ContractError, PlannerResponseSchema, parseContract } from "../_shared/contracts.ts";
+
+interface ResearchMonitor {
+  id: string;
+  user_id: string | null;
+  name: string;
+  question: string;
+  plan: unknown;
+  search_providers: string[];
+  profile_id: string | null;
+  competitor_id: string | null;
+  interval_days: number;
+  max_iterations: number;
+}
+
+interface StartedRun {
+  monitorId: string;
+  sessionId?: string;
+  error?: string;
+}
+
+// Keep one scheduled invocation well within the runtime limit; the rest wait for the next hour
+const MAX_MONITORS_PER_RUN = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Runs are compared with the last one that completed, so a failed run is skipped over
+async function findPreviousSession(monitorId: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('research_monitor_runs')
+    .select('session_id')
+    .eq('monitor_id', monitorId)
+    .not('completed_at', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load previous monitor run: ${error.message}`);
+  }
+  return data?.session_id ?? null;
+}
+
+// Every run is an ordinary session owned by the monitor's owner, started from the saved plan
+async function startMonitorRun(monitor: ResearchMonitor): Promise<string> {
+  const plan = parseContract(PlannerResponseSchema, monitor.plan, 'monitor plan');
+  const previousSessionId = await findPreviousSession(monitor.id);
+  const now = new Date();
+
+  const { data: session, error: sessionError } = await supabaseAdmin
+    .from('research_sessions')
+    .insert({
+      user_id: monitor.user_id,
+      question: monitor.question,
+      title: `${monitor.name} (${now.toISOString().slice(0, 10)})`,
+      search_providers: monitor.search_providers,
+      profile_id: monitor.profile_id,
+      competitor_id: monitor.competitor_id,
+    })
+    .select('id')
+    .single();
+  if (sessionError) {
+    throw new Error(`Failed to create research session: ${sessionError.message}`);
+  }
+
+  const { error: planError } = await supabaseAdmin.from('research_plans').insert({
+    session_id: session.id,
+    intent: plan.intent,
+    search_focus: plan.searchFocus,
+    information_goals: plan.informationGoals,
+    original_question: plan.originalQuestion,
+    context: plan.context ?? null,
+    target_kinds: plan.targetKinds ?? {},
+    locked_search_focus: plan.lockedSearchFocus ?? [],
+    locked_information_goals: plan.lockedInformationGoals ?? [],
+  });
+  if (planError) {
+    throw new Error(`Failed to save research plan: ${planError.message}`);
+  }
+
+  const { error: runError } = await supabaseAdmin.from('research_monitor_runs').insert({
+    monitor_id: monitor.id,
+    session_id: session.id,
+    previous_session_id: previousSessionId,
+  });
+  if (runError) {
+    throw new Error(`Failed to record monitor run: ${runError.message}`);
+  }
+
+  const { error: monitorError } = await supabaseAdmin
+    .from('research_monitors')
+    .update({
+      last_run_at: now.toISOString(),
+      next_run_at: new Date(now.getTime() + monitor.interval_days * DAY_MS).toISOString(),
+    })
+    .eq('id', monitor.id);
+  if (monitorError) {
+    throw new Error(`Failed to schedule next monitor run: ${monitorError.message}`);
+  }
+
+  await supabaseAdmin.from('research_logs').insert({
+    session_id: session.id,
+    message: `Started by monitor "${monitor.name}"`,
+    type: 'info',
+  });
+  await invokeFunction('run-research', { action: 'start', sessionId: session.id, maxIterations: monitor.max_iterations });
+  return session.id;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { monitorId } = await req.json().catch(() => ({}));
+    let monitors: ResearchMonitor[];
+
+    if (monitorId) {
+      // "Run now" from the monitors page; the caller must own the monitor
+      const { data: monitor } = await createUserClient(req)
+        .from('research_monitors')
+        .select('*')
+        .eq('id', monitorId)
+        .maybeSingle();
+      if (!monitor) {
+        return jsonResponse({ error: 'Research monitor not found' }, 404);
+      }
+      monitors = [monitor];
+    } else {
+      // The hourly schedule runs whatever is due; only we may call this
+      if (!isServiceRoleRequest(req)) {
+        return jsonResponse({ error: 'Forbidden' }, 403);
+      }
+      const { data, error } = await supabaseAdmin
+        .from('research_monitors')
+        .select('*')
+        .eq('enabled', true)
+        .lte('next_run_at', new Date().toISOString())
+        .order('next_run_at')
+        .limit(MAX_MONITORS_PER_RUN);
+      if (error) {
+        throw new Error(`Failed to load due monitors: ${error.message}`);
+      }
+      monitors = data;
+    }
+
+    console.log(`Starting ${monitors.length} monitor runs`);
+    const runs: StartedRun[] = [];
+    for (const monitor of monitors) {
+      try {
+        runs.push({ monitorId: monitor.id, sessionId: await startMonitorRun(monitor) });
+      } catch (error) {
+        const message = error instanceof ContractError ? 'The saved plan is not a valid research plan' : error.message;
+        console.error(`Monitor ${monitor.id} could not start:`, error);
+        runs.push({ monitorId: monitor.id, error: message });
+      }
+    }
+
+    if (monitorId && runs[0]?.error) {
+      return jsonResponse({ error: runs[0].error }, 500);
+    }
+    return jsonResponse({ runs });
+  } catch (error) {
+    console.error('Error in run-monitors function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
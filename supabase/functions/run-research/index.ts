@@ -0,0 +1,1010 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  createUserClient,
+  invokeFunction,
+  isServiceRoleRequest,
+  serviceRoleKey,
+  supabaseAdmin,
+  supabaseUrl,
+} from "../_shared/supabaseAdmin.ts";
+import {
+  ScrapingResult,
+  ensureProtocol,
+  loadWebResearch,
+  looksLikeUrl,
+  parseSearchProviders,
+} from "../_shared/webResearch.ts";
+import { getSessionWorkspace } from "../_shared/apiKeyVault.ts";
+import { UsageMeter, createSessionUsageMeter } from "../_shared/usageMeter.ts";
+import { SearchProviderId } from "../_shared/searchProviders.ts";
+import { countCoverage } from "../_shared/cleaning.ts";
+import { countVerification } from "../_shared/verification.ts";
+import { scoreInsights } from "../_shared/sourceQuality.ts";
+import { parseCompetitor, planCompetitorFilings, toFilingArgs } from "../_shared/competitors.ts";
+import { toContradictionArgs } from "../_shared/contradictions.ts";
+import { MonitorRunSnapshot, countChanges, diffRuns } from "../_shared/monitoring.ts";
+import { isAbortError } from "../_shared/abort.ts";
+import { createCancellationSignal } from "../_shared/cancellation.ts";
+import {
+  CleanerResponseSchema,
+  DetectContradictionsResponseSchema,
+  InsightFact,
+  PlannerResponse,
+  PlannerResponseSchema,
+  RefineResearchResponseSchema,
+  VerifyResponseSchema,
+  parseContract,
+} from "../_shared/contracts.ts";
+import { DEFAULT_RESEARCH_PROFILE, ResearchProfile, parseResearchProfile } from "../_shared/researchProfiles.ts";
+import {
+  DEFAULT_JOB_ITERATIONS,
+  JOB_STEP_STATES,
+  JobStep,
+  MAX_JOB_ITERATIONS,
+  PipelineStep,
+  PipelineStepRecord,
+  ResolvedTarget,
+  STEP_JOB_STEPS,
+  canTransition,
+} from "../_shared/pipeline.ts";
+
+// Supabase Edge Runtime keeps the worker alive for promises passed to waitUntil
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+type LogType = 'info' | 'warning' | 'error' | 'success';
+
+interface ResearchJob {
+  id: string;
+  session_id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  step: JobStep;
+  iteration: number;
+  max_iterations: number;
+  payload: Record<string, unknown>;
+  attempts: number;
+  heartbeat_at: string | null;
+}
+
+// What a step hands back: either the next step to run or the end of the job,
+// plus the output recorded for the step in research_pipeline_steps
+type StepOutcome =
+  | { done: true; output?: Record<string, unknown> }
+  | { done: false; step: JobStep; iteration: number; payload?: Record<string, unknown>; output?: Record<string, unknown> };
+
+// Where a retried job picks up, taken from a failed or cancelled step record
+interface StartingPoint {
+  step: JobStep;
+  iteration: number;
+  payload?: Record<string, unknown>;
+}
+
+const MAX_TARGETS_PER_ITERATION = 5;
+
+// A retry starts from the failed or cancelled step as it was recorded, never from what the caller sends
+async function loadRetryPoint(sessionId: string, stepId: string): Promise<StartingPoint | null> {
+  const { data, error } = await supabaseAdmin
+    .from('research_pipeline_steps')
+    .select('step, iteration, status, input')
+    .eq('id', stepId)
+    .eq('session_id', sessionId)
+    .in('status', ['failed', 'cancelled'])
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load research step: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const step = STEP_JOB_STEPS[data.step as PipelineStep];
+  const input = (data.input ?? {}) as Record<string, unknown>;
+  return {
+    step,
+    iteration: data.iteration,
+    payload: step === 'scrape' ? { resolvedTargets: input.resolvedTargets } : {},
+  };
+}
+const MAX_URLS_PER_TARGET = 3;
+const MAX_RESULTS_PER_ITERATION = 15;
+const MAX_STEP_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5000;
+// Stop a long step early and continue it in a fresh invocation before the runtime limit hits
+const STEP_TIME_BUDGET_MS = 90000;
+// A running job without a heartbeat for this long is assumed to have died
+const STALE_JOB_MS = 180000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function addLog(sessionId: string, message: string, type: LogType = 'info') {
+  console.log(`[${sessionId}] ${message}`);
+  const { error } = await supabaseAdmin
+    .from('research_logs')
+    .insert({ session_id: sessionId, message, type });
+  if (error) {
+    console.error('Failed to write research log:', error);
+  }
+}
+
+async function updateJob(jobId: string, update: Record<string, unknown>) {
+  const { error } = await supabaseAdmin.from('research_jobs').update(update).eq('id', jobId);
+  if (error) {
+    throw new Error(`Failed to update research job: ${error.message}`);
+  }
+}
+
+async function updateSession(sessionId: string, update: Record<string, unknown>) {
+  const { error } = await supabaseAdmin.from('research_sessions').update(update).eq('id', sessionId);
+  if (error) {
+    throw new Error(`Failed to update research session: ${error.message}`);
+  }
+}
+
+async function loadJob(jobId: string): Promise<ResearchJob | null> {
+  const { data, error } = await supabaseAdmin.from('research_jobs').select('*').eq('id', jobId).maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load research job: ${error.message}`);
+  }
+  return data as ResearchJob | null;
+}
+
+async function loadPlan(sessionId: string): Promise<PlannerResponse | null> {
+  const { data, error } = await supabaseAdmin
+    .from('research_plans')
+    .select('*')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load research plan: ${error.message}`);
+  }
+  if (!data) return null;
+  return {
+    intent: data.intent,
+    searchFocus: data.search_focus,
+    informationGoals: data.information_goals,
+    originalQuestion: data.original_question,
+    context: data.context ?? undefined,
+    targetKinds: data.target_kinds ?? {},
+  };
+}
+
+// The competitor a session was started for, if any
+async function loadSessionCompetitor(sessionId: string): Promise<{ name: string; domains: string[] } | null> {
+  const { data, error } = await supabaseAdmin
+    .from('research_sessions')
+    .select('competitors(name, domains)')
+    .eq('id', sessionId)
+    .single();
+  if (error) {
+    throw new Error(`Failed to load research session: ${error.message}`);
+  }
+  return data.competitors ? { name: data.competitors.name, domains: data.competitors.domains } : null;
+}
+
+// Search providers and research profile picked for the session
+async function loadSessionSettings(sessionId: string): Promise<{ searchProviders: SearchProviderId[]; profile: ResearchProfile }> {
+  const { data, error } = await supabaseAdmin
+    .from('research_sessions')
+    .select('search_providers, research_profiles(name, fallback_sources, country, language, date_window_months)')
+    .eq('id', sessionId)
+    .single();
+  if (error) {
+    throw new Error(`Failed to load research session: ${error.message}`);
+  }
+
+  const profileRow = data.research_profiles;
+  return {
+    searchProviders: parseSearchProviders(data.search_providers),
+    profile: profileRow
+      ? parseResearchProfile({
+        name: profileRow.name,
+        fallbackSources: profileRow.fallback_sources,
+        country: profileRow.country,
+        language: profileRow.language,
+        dateWindowMonths: profileRow.date_window_months,
+      })
+      : DEFAULT_RESEARCH_PROFILE,
+  };
+}
+
+async function loadSources(sessionId: string): Promise<ScrapingResult[]> {
+  const { data, error } = await supabaseAdmin
+    .from('research_sources')
+    .select('url, content, metadata, search_query')
+    .eq('session_id', sessionId)
+    .order('created_at');
+  if (error) {
+    throw new Error(`Failed to load research sources: ${error.message}`);
+  }
+  return data.map(source => ({
+    url: source.url,
+    content: source.content,
+    metadata: source.metadata,
+    searchQuery: source.search_query ?? undefined,
+  }));
+}
+
+async function saveSources(sessionId: string, iteration: number, results: ScrapingResult[]) {
+  if (results.length === 0) return;
+  const { error } = await supabaseAdmin.from('research_sources').insert(results.map(result => ({
+    session_id: sessionId,
+    iteration_number: iteration,
+    url: result.url,
+    content: result.content,
+    metadata: result.metadata || {},
+    search_query: result.searchQuery ?? null,
+  })));
+  if (error) {
+    throw new Error(`Failed to save research sources: ${error.message}`);
+  }
+}
+
+// Record the job's current step with the shared pipeline step shape; the id is kept
+// in the payload so continuations and retries of the step update the same record
+async function startStepRecord(job: ResearchJob): Promise<string> {
+  const { stepId, targetIndex, resultCount, ...input } = job.payload;
+  if (typeof stepId === 'string') return stepId;
+
+  const record: PipelineStepRecord = {
+    id: crypto.randomUUID(),
+    step: JOB_STEP_STATES[job.step],
+    iteration: job.iteration,
+    status: 'running',
+    input,
+    startedAt: new Date().toISOString(),
+  };
+  const { error } = await supabaseAdmin.from('research_pipeline_steps').insert({
+    id: record.id,
+    session_id: job.session_id,
+    step: record.step,
+    iteration: record.iteration,
+    status: record.status,
+    input: record.input,
+    started_at: record.startedAt,
+  });
+  if (error) {
+    throw new Error(`Failed to record research step: ${error.message}`);
+  }
+
+  job.payload = { ...job.payload, stepId: record.id };
+  await updateJob(job.id, { payload: job.payload });
+  return record.id;
+}
+
+async function settleStepRecord(stepId: string, update: Pick<PipelineStepRecord, 'status' | 'output' | 'error'>) {
+  const { error } = await supabaseAdmin
+    .from('research_pipeline_steps')
+    .update({
+      status: update.status,
+      output: update.output ?? null,
+      error: update.error ?? null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', stepId);
+  if (error) {
+    console.error('Failed to settle research step record:', error);
+  }
+}
+
+// Ask ourselves to run the job's next step in a fresh invocation
+async function scheduleStep(jobId: string) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/run-research`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceRoleKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action: 'step', jobId }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to schedule next research step: ${response.status}`);
+  }
+}
+
+// Work out where a new job should start from what the session already has
+async function resolveStartingPoint(sessionId: string, currentIteration: number): Promise<StartingPoint> {
+  const plan = await loadPlan(sessionId);
+  if (!plan) {
+    return { step: 'plan', iteration: 1 };
+  }
+  if (currentIteration === 0) {
+    return { step: 'search', iteration: 1 };
+  }
+
+  const { data: nextIteration } = await supabaseAdmin
+    .from('research_iterations')
+    .select('id')
+    .eq('session_id', sessionId)
+    .eq('iteration_number', currentIteration + 1)
+    .maybeSingle();
+
+  return nextIteration
+    ? { step: 'search', iteration: currentIteration + 1 }
+    : { step: 'refine', iteration: currentIteration };
+}
+
+async function runPlanStep(job: ResearchJob): Promise<StepOutcome> {
+  const { data: session, error } = await supabaseAdmin
+    .from('research_sessions')
+    .select('question, competitors(name, domains, products, event_pages)')
+    .eq('id', job.session_id)
+    .single();
+  if (error) {
+    throw new Error(`Failed to load research session: ${error.message}`);
+  }
+
+  // A session started for a competitor seeds the plan with its known pages
+  const competitor = session.competitors
+    ? {
+      name: session.competitors.name,
+      domains: session.competitors.domains,
+      products: session.competitors.products,
+      eventPages: session.competitors.event_pages,
+    }
+    : undefined;
+
+  await addLog(job.session_id, `Generating research plan for: "${session.question}"`);
+  const plan = parseContract(
+    PlannerResponseSchema,
+    await invokeFunction('generate-research-plan', { question: session.question, competitor, sessionId: job.session_id }),
+    'research plan',
+  );
+
+  const { error: planError } = await supabaseAdmin.from('research_plans').upsert({
+    session_id: job.session_id,
+    intent: plan.intent,
+    search_focus: plan.searchFocus,
+    information_goals: plan.informationGoals,
+    original_question: plan.originalQuestion,
+    context: plan.context ?? null,
+    target_kinds: {},
+    locked_search_focus: [],
+    locked_information_goals: [],
+  }, { onConflict: 'session_id' });
+  if (planError) {
+    throw new Error(`Failed to save research plan: ${planError.message}`);
+  }
+
+  await addLog(job.session_id, `Research plan created with ${plan.searchFocus.length} search targets`, 'success');
+  return { done: false, step: 'search', iteration: 1, output: { searchTargetCount: plan.searchFocus.length } };
+}
+
+// Searches and crawls of a step count against the job's iteration and the session owner's workspace
+async function createJobUsageMeter(job: ResearchJob): Promise<UsageMeter> {
+  return createSessionUsageMeter(
+    'run-research',
+    { sessionId: job.session_id, iteration: job.iteration },
+    await getSessionWorkspace(job.session_id),
+  );
+}
+
+async function runSearchStep(job: ResearchJob, signal: AbortSignal): Promise<StepOutcome> {
+  const plan = await loadPlan(job.session_id);
+  if (!plan) {
+    throw new Error('Research plan is missing');
+  }
+
+  const { data: iterationRow } = await supabaseAdmin
+    .from('research_iterations')
+    .select('targets')
+    .eq('session_id', job.session_id)
+    .eq('iteration_number', job.iteration)
+    .maybeSingle();
+
+  let targets: string[] = iterationRow?.targets ?? [];
+  if (!iterationRow) {
+    targets = plan.searchFocus.slice(0, MAX_TARGETS_PER_ITERATION);
+    await supabaseAdmin.from('research_iterations').upsert({
+      session_id: job.session_id,
+      iteration_number: job.iteration,
+      targets,
+    }, { onConflict: 'session_id,iteration_number' });
+    await addLog(job.session_id, `Initialized iteration ${job.iteration} with ${targets.length} targets`);
+  }
+  targets = targets.slice(0, MAX_TARGETS_PER_ITERATION);
+  const { searchProviders, profile } = await loadSessionSettings(job.session_id);
+  // The session owner's keys, or the project's where the workspace has none
+  const usage = await createJobUsageMeter(job);
+  const web = await loadWebResearch(usage.workspaceId, { usage });
+
+  await updateSession(job.session_id, { status: 'researching', current_iteration: job.iteration });
+  await addLog(job.session_id, `Preparing search for targets: ${targets.join(", ")}`);
+
+  const resolvedTargets: ResolvedTarget[] = [];
+  try {
+    for (const target of targets) {
+      const kind = plan.targetKinds?.[target];
+      let urls = (kind ? kind === 'url' : looksLikeUrl(target))
+        ? [ensureProtocol(target)]
+        : await web.searchUrls(target, plan.context, profile, searchProviders, signal);
+      if (urls.length === 0 && profile.fallbackSources.length > 0) {
+        await addLog(job.session_id, `No search results for "${target}", using the profile's fallback sources`, 'warning');
+        urls = profile.fallbackSources.map(ensureProtocol);
+      }
+      resolvedTargets.push({ target, urls: urls.slice(0, MAX_URLS_PER_TARGET) });
+    }
+  } finally {
+    await usage.flush();
+  }
+
+  const urlCount = resolvedTargets.reduce((count, resolved) => count + resolved.urls.length, 0);
+  await addLog(job.session_id, `Found ${urlCount} URLs to scrape for ${targets.length} targets`, urlCount > 0 ? 'success' : 'warning');
+  return {
+    done: false,
+    step: 'scrape',
+    iteration: job.iteration,
+    payload: { resolvedTargets },
+    output: { resolvedTargets },
+  };
+}
+
+async function runScrapeStep(job: ResearchJob, startedAt: number, signal: AbortSignal): Promise<StepOutcome> {
+  const resolvedTargets = job.payload.resolvedTargets as ResolvedTarget[] | undefined;
+  if (!resolvedTargets) {
+    throw new Error('Search results are missing; run the search step again');
+  }
+
+  let targetIndex = Number(job.payload.targetIndex ?? 0);
+  let resultCount = Number(job.payload.resultCount ?? 0);
+  const usage = await createJobUsageMeter(job);
+  const web = await loadWebResearch(usage.workspaceId, { usage });
+
+  while (targetIndex < resolvedTargets.length && resultCount < MAX_RESULTS_PER_ITERATION) {
+    const { target, urls } = resolvedTargets[targetIndex];
+
+    const results: ScrapingResult[] = [];
+    try {
+      for (const url of urls) {
+        try {
+          const result = await web.crawlUrl(url, target, signal);
+          if (result) results.push(result);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.error(`Error crawling ${url}:`, error);
+        }
+      }
+    } finally {
+      // Per target, so a step that runs out of time or is cancelled keeps what it crawled so far
+      await usage.flush();
+    }
+
+    await saveSources(job.session_id, job.iteration, results);
+    await addLog(
+      job.session_id,
+      `Found ${results.length} results for "${target}"`,
+      results.length > 0 ? 'success' : 'warning'
+    );
+
+    targetIndex++;
+    resultCount += results.length;
+    const payload = { ...job.payload, targetIndex, resultCount };
+    await updateJob(job.id, { payload, heartbeat_at: new Date().toISOString() });
+
+    // Hand the rest of this step to a fresh invocation before running out of time
+    if (targetIndex < resolvedTargets.length && Date.now() - startedAt > STEP_TIME_BUDGET_MS) {
+      return { done: false, step: 'scrape', iteration: job.iteration, payload };
+    }
+  }
+
+  if (resultCount === 0) {
+    await addLog(job.session_id, "No results found for any search targets", 'warning');
+  }
+  return { done: false, step: 'clean', iteration: job.iteration, output: { resultCount } };
+}
+
+async function runCleanStep(job: ResearchJob, signal: AbortSignal): Promise<StepOutcome> {
+  const plan = await loadPlan(job.session_id);
+  const sources = await loadSources(job.session_id);
+
+  if (plan && sources.length > 0) {
+    await addLog(job.session_id, "Starting cleaner agent for structured insights");
+    const cleanerResponse = parseContract(CleanerResponseSchema, await invokeFunction('process-research', {
+      scrapingResults: sources,
+      intent: plan.intent,
+      searchFocus: plan.searchFocus,
+      informationGoals: plan.informationGoals,
+      originalQuestion: plan.originalQuestion,
+      context: plan.context,
+      sessionId: job.session_id,
+      iteration: job.iteration,
+    }, signal), 'cleaner response');
+
+    const { error } = await supabaseAdmin.from('research_insights').upsert({
+      session_id: job.session_id,
+      structured_insights: cleanerResponse.structuredInsights || {},
+      relevant_findings: cleanerResponse.relevantFindings || [],
+      suggested_next_steps: cleanerResponse.suggestedNextSteps || [],
+      analysis: cleanerResponse.analysis ?? null,
+      source_coverage: cleanerResponse.sourceCoverage || [],
+      events: cleanerResponse.events || [],
+    }, { onConflict: 'session_id' });
+    if (error) {
+      throw new Error(`Failed to save research insights: ${error.message}`);
+    }
+
+    await updateSession(job.session_id, { analysis_text: cleanerResponse.analysis ?? null });
+    await addLog(job.session_id, "Cleaner agent completed successfully", 'success');
+
+    const coverage = countCoverage(cleanerResponse.sourceCoverage);
+    if (coverage.partial > 0 || coverage.skipped > 0) {
+      await addLog(job.session_id, `Cleaner read ${coverage.full} sources fully, ${coverage.partial} partially and skipped ${coverage.skipped}`, 'warning');
+    }
+  }
+
+  return { done: false, step: 'verify', iteration: job.iteration, output: { sourceCount: sources.length } };
+}
+
+// Contradictions are extra insight, so a failed check only logs a warning; resolved rows are never touched
+async function detectContradictions(
+  job: ResearchJob,
+  structuredInsights: Record<string, InsightFact[]>,
+  signal: AbortSignal
+): Promise<number | null> {
+  try {
+    const { contradictions } = parseContract(DetectContradictionsResponseSchema, await invokeFunction('detect-contradictions', {
+      structuredInsights,
+      sessionId: job.session_id,
+      iteration: job.iteration,
+    }, signal), 'contradiction response');
+
+    const { error } = await supabaseAdmin.rpc('save_research_contradictions', toContradictionArgs(job.session_id, contradictions));
+    if (error) {
+      throw new Error(`Failed to save contradictions: ${error.message}`);
+    }
+
+    if (contradictions.length > 0) {
+      await addLog(job.session_id, `Sources disagree on ${contradictions.length} subjects; pick the authoritative claims in the results`, 'warning');
+    }
+    return contradictions.length;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    await addLog(job.session_id, `Could not check sources for contradictions: ${error.message}`, 'warning');
+    return null;
+  }
+}
+
+// File the verified facts under the session owner's competitors; like contradictions this never fails the step
+async function recordCompetitorFacts(job: ResearchJob, structuredInsights: Record<string, InsightFact[]>): Promise<void> {
+  try {
+    const { data: session, error: sessionError } = await supabaseAdmin
+      .from('research_sessions')
+      .select('user_id, competitor_id')
+      .eq('id', job.session_id)
+      .single();
+    if (sessionError) {
+      throw new Error(`Failed to load research session: ${sessionError.message}`);
+    }
+
+    const query = supabaseAdmin.from('competitors').select('*');
+    const { data: rows, error } = session.user_id
+      ? await query.or(`user_id.is.null,user_id.eq.${session.user_id}`)
+      : await query.is('user_id', null);
+    if (error) {
+      throw new Error(`Failed to load competitors: ${error.message}`);
+    }
+
+    const competitors = (rows ?? []).map(row => parseCompetitor({ ...row, eventPages: row.event_pages }));
+    let filed = 0;
+    for (const filing of planCompetitorFilings(competitors, structuredInsights, session.competitor_id)) {
+      const { error: filingError } = await supabaseAdmin.rpc('record_competitor_facts', toFilingArgs(job.session_id, filing));
+      if (filingError) {
+        throw new Error(`Failed to save competitor facts: ${filingError.message}`);
+      }
+      filed += filing.facts.length;
+    }
+
+    if (filed > 0) {
+      await addLog(job.session_id, `Filed ${filed} verified facts under competitor profiles`, 'success');
+    }
+  } catch (error) {
+    await addLog(job.session_id, `Could not file facts under competitor profiles: ${error.message}`, 'warning');
+  }
+}
+
+async function runVerifyStep(job: ResearchJob, signal: AbortSignal): Promise<StepOutcome> {
+  const { data: insights, error: insightsError } = await supabaseAdmin
+    .from('research_insights')
+    .select('structured_insights')
+    .eq('session_id', job.session_id)
+    .maybeSingle();
+  if (insightsError) {
+    throw new Error(`Failed to load research insights: ${insightsError.message}`);
+  }
+
+  let output: Record<string, unknown> = { factCount: 0 };
+  if (insights) {
+    await addLog(job.session_id, "Verifying facts against their cited sources");
+    const [sources, plan, competitor] = await Promise.all([
+      loadSources(job.session_id),
+      loadPlan(job.session_id),
+      loadSessionCompetitor(job.session_id),
+    ]);
+    const verified = parseContract(VerifyResponseSchema, await invokeFunction('verify-claims', {
+      structuredInsights: insights.structured_insights,
+      scrapingResults: sources,
+      sessionId: job.session_id,
+      iteration: job.iteration,
+    }, signal), 'verification response');
+    // Confidence depends on the verdicts, so facts are scored once they are verified
+    const structuredInsights = scoreInsights(verified.structuredInsights, sources, {
+      question: plan?.originalQuestion ?? '',
+      competitor,
+    });
+
+    const { error } = await supabaseAdmin
+      .from('research_insights')
+      .update({ structured_insights: structuredInsights })
+      .eq('session_id', job.session_id);
+    if (error) {
+      throw new Error(`Failed to save verified insights: ${error.message}`);
+    }
+
+    const counts = countVerification(structuredInsights);
+    await addLog(
+      job.session_id,
+      `Verified facts: ${counts.supported} supported, ${counts.unsupported} unsupported, ${counts.contradicted} contradicted`,
+      counts.unsupported > 0 || counts.contradicted > 0 ? 'warning' : 'success'
+    );
+    output = { ...counts, contradictions: await detectContradictions(job, structuredInsights, signal) };
+    await recordCompetitorFacts(job, structuredInsights);
+  }
+
+  if (job.iteration < job.max_iterations) {
+    return { done: false, step: 'refine', iteration: job.iteration, output };
+  }
+  return { done: true, output };
+}
+
+async function runRefineStep(job: ResearchJob, signal: AbortSignal): Promise<StepOutcome> {
+  const plan = await loadPlan(job.session_id);
+  if (!plan) {
+    throw new Error('Research plan is missing');
+  }
+
+  const { data: iterationRow } = await supabaseAdmin
+    .from('research_iterations')
+    .select('targets')
+    .eq('session_id', job.session_id)
+    .eq('iteration_number', job.iteration)
+    .maybeSingle();
+
+  const [{ searchProviders, profile }, competitor] = await Promise.all([
+    loadSessionSettings(job.session_id),
+    loadSessionCompetitor(job.session_id),
+  ]);
+  await addLog(job.session_id, "Requesting refinement from AI service");
+  const refinement = parseContract(RefineResearchResponseSchema, await invokeFunction('refine-research', {
+    searchTargets: (iterationRow?.targets ?? plan.searchFocus).slice(0, MAX_TARGETS_PER_ITERATION),
+    currentResults: await loadSources(job.session_id),
+    researchGoals: plan.informationGoals,
+    iteration: job.iteration,
+    context: plan.context,
+    searchProviders,
+    profile,
+    competitor: competitor ?? undefined,
+    sessionId: job.session_id,
+  }, signal), 'refinement response');
+  await addLog(job.session_id, "AI refinement completed successfully", 'success');
+
+  if (!refinement.improvedTargets || refinement.improvedTargets.length === 0) {
+    await addLog(job.session_id, "AI refinement produced no new search targets", 'warning');
+    // Pages refinement already crawled still belong to the session, under the iteration that found them
+    await saveSources(job.session_id, job.iteration, refinement.newResults || []);
+    return { done: true, output: { improvedTargets: [], newResultCount: refinement.newResults?.length ?? 0 } };
+  }
+
+  const nextIteration = job.iteration + 1;
+  const { error } = await supabaseAdmin.from('research_iterations').upsert({
+    session_id: job.session_id,
+    iteration_number: nextIteration,
+    targets: refinement.improvedTargets.slice(0, MAX_TARGETS_PER_ITERATION),
+    analysis: refinement.analysis ?? null,
+    extraction_focus: refinement.extractionFocus ?? null,
+  }, { onConflict: 'session_id,iteration_number' });
+  if (error) {
+    throw new Error(`Failed to save research iteration: ${error.message}`);
+  }
+  await saveSources(job.session_id, nextIteration, refinement.newResults || []);
+  await addLog(job.session_id, `Created iteration ${nextIteration} with ${refinement.improvedTargets.length} improved search targets`, 'success');
+
+  return {
+    done: false,
+    step: 'search',
+    iteration: nextIteration,
+    output: {
+      improvedTargets: refinement.improvedTargets,
+      newResultCount: refinement.newResults?.length ?? 0,
+    },
+  };
+}
+
+async function loadRunSnapshot(sessionId: string): Promise<MonitorRunSnapshot> {
+  const { data, error } = await supabaseAdmin
+    .from('research_insights')
+    .select('structured_insights')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load research insights: ${error.message}`);
+  }
+  return { structuredInsights: data?.structured_insights ?? {}, sources: await loadSources(sessionId) };
+}
+
+// A session started by a monitor is compared with the monitor's previous run; this never fails the job
+async function recordMonitorChanges(sessionId: string): Promise<void> {
+  try {
+    const { data: run, error } = await supabaseAdmin
+      .from('research_monitor_runs')
+      .select('id, previous_session_id')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to load monitor run: ${error.message}`);
+    }
+    if (!run) return;
+
+    const [previous, current] = await Promise.all([
+      run.previous_session_id ? loadRunSnapshot(run.previous_session_id) : Promise.resolve(null),
+      loadRunSnapshot(sessionId),
+    ]);
+    const changes = diffRuns(previous, current);
+
+    const { error: updateError } = await supabaseAdmin
+      .from('research_monitor_runs')
+      .update({ changes, completed_at: new Date().toISOString() })
+      .eq('id', run.id);
+    if (updateError) {
+      throw new Error(`Failed to save monitor changes: ${updateError.message}`);
+    }
+
+    await addLog(
+      sessionId,
+      changes.baseline
+        ? `First monitor run, recorded ${changes.factCount} facts to compare later runs with`
+        : `Compared with the previous monitor run: ${changes.newFacts.length} new, ${changes.removedFacts.length} removed and ${changes.changedFacts.length} changed facts`,
+      countChanges(changes) > 0 ? 'info' : 'success'
+    );
+  } catch (error) {
+    await addLog(sessionId, `Could not compare with the previous monitor run: ${error.message}`, 'warning');
+  }
+}
+
+// Give up on a job, unless the user cancelled it in the meantime
+async function failJob(job: ResearchJob, stepId: string | null, attempts: number, message: string) {
+  const latest = await loadJob(job.id).catch(() => null);
+  if (latest?.status === 'cancelled') return;
+
+  await updateJob(job.id, { status: 'failed', attempts, last_error: message });
+  if (stepId) {
+    await settleStepRecord(stepId, { status: 'failed', error: message });
+  }
+  await updateSession(job.session_id, { status: 'failed' });
+  await addLog(job.session_id, `Research execution failed: ${message}`, 'error');
+}
+
+// Run the job's current step, record where it got to and schedule whatever comes next
+async function runStep(jobId: string) {
+  const job = await loadJob(jobId);
+  if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+    console.log(`Job ${jobId} is not runnable, skipping`);
+    return;
+  }
+
+  const startedAt = Date.now();
+  await updateJob(job.id, { status: 'running', heartbeat_at: new Date().toISOString() });
+  let stepId: string | null = null;
+  // Cancelling the session stops this step's searches, crawls and the functions it waits on mid-way
+  const cancellation = createCancellationSignal(job.session_id);
+
+  try {
+    stepId = await startStepRecord(job);
+
+    let outcome: StepOutcome;
+    switch (job.step) {
+      case 'plan':
+        outcome = await runPlanStep(job);
+        break;
+      case 'search':
+        outcome = await runSearchStep(job, cancellation.signal);
+        break;
+      case 'scrape':
+        outcome = await runScrapeStep(job, startedAt, cancellation.signal);
+        break;
+      case 'clean':
+        outcome = await runCleanStep(job, cancellation.signal);
+        break;
+      case 'verify':
+        outcome = await runVerifyStep(job, cancellation.signal);
+        break;
+      case 'refine':
+        outcome = await runRefineStep(job, cancellation.signal);
+        break;
+    }
+
+    // The user may have cancelled while this step was running
+    const latest = await loadJob(job.id);
+    if (!latest || latest.status === 'cancelled') {
+      console.log(`Job ${job.id} was cancelled during ${job.step}`);
+      return;
+    }
+
+    // A step that ran out of time continues in the next invocation under the same record
+    const continuesStep = !outcome.done && outcome.step === job.step && outcome.iteration === job.iteration;
+    if (!continuesStep) {
+      await settleStepRecord(stepId, { status: 'succeeded', output: outcome.output ?? {} });
+    }
+
+    if (outcome.done) {
+      await updateJob(job.id, { status: 'completed', attempts: 0, last_error: null });
+      await updateSession(job.session_id, { status: 'completed' });
+      await addLog(job.session_id, "Research completed successfully", 'success');
+      await recordMonitorChanges(job.session_id);
+      return;
+    }
+
+    if (!continuesStep && !canTransition(JOB_STEP_STATES[job.step], JOB_STEP_STATES[outcome.step])) {
+      throw new Error(`Invalid research step transition: ${job.step} -> ${outcome.step}`);
+    }
+
+    await updateJob(job.id, {
+      step: outcome.step,
+      iteration: outcome.iteration,
+      payload: continuesStep ? { ...outcome.payload, stepId } : outcome.payload ?? {},
+      attempts: 0,
+      last_error: null,
+      heartbeat_at: new Date().toISOString(),
+    });
+    await scheduleStep(job.id);
+  } catch (error) {
+    // The cancel action has already recorded the job, step and session as cancelled
+    if (isAbortError(error)) {
+      console.log(`Job ${job.id} was cancelled during ${job.step}`);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const attempts = job.attempts + 1;
+    console.error(`Research job ${job.id} failed in ${job.step} (attempt ${attempts}):`, error);
+
+    // A step cancelled mid-way may fail with an error of its own, e.g. a downstream function's 499
+    const latest = await loadJob(job.id).catch(() => null);
+    if (latest?.status === 'cancelled') {
+      console.log(`Job ${job.id} was cancelled during ${job.step}`);
+      return;
+    }
+
+    if (attempts < MAX_STEP_ATTEMPTS) {
+      await updateJob(job.id, { attempts, last_error: message });
+      await addLog(job.session_id, `Step "${job.step}" failed, retrying (${attempts}/${MAX_STEP_ATTEMPTS}): ${message}`, 'warning');
+      await delay(RETRY_DELAY_MS);
+      try {
+        await scheduleStep(job.id);
+      } catch (scheduleError) {
+        console.error(`Could not reschedule research job ${job.id}:`, scheduleError);
+        await failJob(job, stepId, attempts, scheduleError instanceof Error ? scheduleError.message : message);
+      }
+    } else {
+      await failJob(job, stepId, attempts, message);
+    }
+  } finally {
+    cancellation.dispose();
+  }
+}
+
+function isStale(job: ResearchJob): boolean {
+  if (!job.heartbeat_at) return true;
+  return Date.now() - new Date(job.heartbeat_at).getTime() > STALE_JOB_MS;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, sessionId, jobId, maxIterations = DEFAULT_JOB_ITERATIONS, fromStepId } = await req.json();
+
+    // Internal continuation of a job; only we may call this
+    if (action === 'step') {
+      if (!isServiceRoleRequest(req)) {
+        return jsonResponse({ error: 'Forbidden' }, 403);
+      }
+      EdgeRuntime.waitUntil(runStep(jobId));
+      return jsonResponse({ jobId }, 202);
+    }
+
+    // Everything else acts on a session the caller must be able to see
+    const userClient = createUserClient(req);
+    let targetSessionId = sessionId;
+    let job: ResearchJob | null = null;
+
+    if (jobId) {
+      job = await loadJob(jobId);
+      if (!job) {
+        return jsonResponse({ error: 'Research job not found' }, 404);
+      }
+      targetSessionId = job.session_id;
+    }
+
+    const { data: session } = await userClient
+      .from('research_sessions')
+      .select('id, current_iteration')
+      .eq('id', targetSessionId)
+      .maybeSingle();
+    if (!session) {
+      return jsonResponse({ error: 'Research session not found' }, 404);
+    }
+
+    if (action === 'start') {
+      const { data: activeJob } = await supabaseAdmin
+        .from('research_jobs')
+        .select('*')
+        .eq('session_id', session.id)
+        .in('status', ['queued', 'running'])
+        .maybeSingle();
+      if (activeJob) {
+        return jsonResponse({ jobId: activeJob.id });
+      }
+
+      // Every iteration costs searches, crawls and model calls, so the caller only picks within bounds
+      if (!Number.isInteger(maxIterations) || maxIterations < 1 || maxIterations > MAX_JOB_ITERATIONS) {
+        return jsonResponse({ error: `maxIterations must be a whole number from 1 to ${MAX_JOB_ITERATIONS}` }, 400);
+      }
+
+      // Retrying a failed or cancelled step starts from that step's record instead
+      let start: StartingPoint;
+      if (fromStepId) {
+        const retryPoint = typeof fromStepId === 'string' ? await loadRetryPoint(session.id, fromStepId) : null;
+        if (!retryPoint) {
+          return jsonResponse({ error: 'No failed or cancelled research step to retry' }, 404);
+        }
+        start = retryPoint;
+      } else {
+        start = await resolveStartingPoint(session.id, session.current_iteration);
+      }
+      const { data: newJob, error } = await supabaseAdmin
+        .from('research_jobs')
+        .insert({
+          session_id: session.id,
+          step: start.step,
+          iteration: start.iteration,
+          max_iterations: maxIterations,
+          payload: start.payload ?? {},
+        })
+        .select('*')
+        .single();
+      if (error) {
+        throw new Error(`Failed to create research job: ${error.message}`);
+      }
+
+      await updateSession(session.id, { status: 'researching' });
+      await addLog(session.id, "Starting research execution on the server");
+      EdgeRuntime.waitUntil(runStep(newJob.id));
+      return jsonResponse({ jobId: newJob.id }, 202);
+    }
+
+    if (action === 'cancel' && job) {
+      if (job.status === 'queued' || job.status === 'running') {
+        await updateJob(job.id, { status: 'cancelled' });
+        if (typeof job.payload.stepId === 'string') {
+          await settleStepRecord(job.payload.stepId, { status: 'cancelled' });
+        }
+        await updateSession(job.session_id, { status: 'cancelled' });
+        await addLog(job.session_id, "Research canceled by user", 'warning');
+      }
+      return jsonResponse({ jobId: job.id });
+    }
+
+    // Pick up a job whose worker died, e.g. after hitting the runtime limit
+    if (action === 'resume' && job) {
+      if ((job.status === 'queued' || job.status === 'running') && isStale(job)) {
+        await addLog(job.session_id, `Resuming research at step "${job.step}"`, 'warning');
+        EdgeRuntime.waitUntil(runStep(job.id));
+      }
+      return jsonResponse({ jobId: job.id }, 202);
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+  } catch (error) {
+    console.error('Error in run-research function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
@@ -0,0 +1,101 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  SCRAPER_RATE_LIMITS,
+  Scraper,
+  ScraperId,
+  createBuiltinScraper,
+  createFirecrawlScraper,
+  withRateLimit,
+} from "../_shared/scrapers.ts";
+import { RateLimitError, RateLimiter, createRateLimiter } from "../_shared/rateLimit.ts";
+import { withScrapeCache } from "../_shared/scrapeCache.ts";
+import { scrapeCacheStore } from "../_shared/scrapeCacheStore.ts";
+import { loadWorkspaceKeys, recordKeyUse } from "../_shared/apiKeyVault.ts";
+import { crawlUsage } from "../_shared/usage.ts";
+import { BlockedUrlError, assertPublicUrl } from "../_shared/publicUrl.ts";
+import { UsageMeter, createUsageMeter } from "../_shared/usageMeter.ts";
+
+// Scrapes pages for research run in the browser: with the built-in scraper, which the browser cannot
+// run itself for most sites because of CORS, or with FireCrawl and the caller's workspace key, which
+// never leaves the server. Pages go through the shared scrape cache; only those crawled past it count
+// as usage. A 429 is passed on rather than retried here, since the browser's limiter waits and retries.
+// Only public hosts are fetched, including every redirect, so callers cannot reach the internal network
+const builtinScraper = createBuiltinScraper({
+  'User-Agent': 'Mozilla/5.0 (compatible; InsightAtlasScribe/1.0)',
+}, assertPublicUrl);
+
+const MIN_TIMEOUT_MS = 1000;
+const MAX_TIMEOUT_MS = 30000;
+
+const limiters: Record<ScraperId, RateLimiter> = {
+  firecrawl: createRateLimiter(SCRAPER_RATE_LIMITS.firecrawl, { maxRetries: 0 }),
+  builtin: createRateLimiter(SCRAPER_RATE_LIMITS.builtin, { maxRetries: 0 }),
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let usage: UsageMeter | null = null;
+  try {
+    const { url, timeoutMs, scraper: scraperId = 'builtin', sessionId, iteration } = await req.json();
+
+    if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+      return jsonResponse({ error: 'An http(s) url is required' }, 400);
+    }
+    // Checked before the cache as well, so nothing from a private host is served or stored
+    await assertPublicUrl(url);
+
+    const meter = await createUsageMeter(req, 'scrape-page', {
+      sessionId: typeof sessionId === 'string' ? sessionId : null,
+      iteration: typeof iteration === 'number' ? iteration : null,
+    });
+    usage = meter;
+
+    let baseScraper: Scraper = builtinScraper;
+    if (scraperId === 'firecrawl') {
+      const apiKey = (await loadWorkspaceKeys(meter.workspaceId)).firecrawl;
+      if (!apiKey) {
+        return jsonResponse({ error: 'No FireCrawl API key is configured' }, 400);
+      }
+      baseScraper = createFirecrawlScraper(apiKey);
+    }
+
+    const scraper = withScrapeCache(withRateLimit({
+      id: baseScraper.id,
+      scrape: async (pageUrl, options) => {
+        if (baseScraper.id === 'firecrawl') {
+          recordKeyUse(meter.workspaceId, 'firecrawl');
+        }
+        const page = await baseScraper.scrape(pageUrl, options);
+        meter.record(crawlUsage(baseScraper.id));
+        return page;
+      },
+    }, limiters[baseScraper.id]), scrapeCacheStore);
+
+    console.log(`Scraping ${url} with the ${scraper.id} scraper`);
+    const scraped = await scraper.scrape(url, {
+      timeoutMs: Number.isFinite(timeoutMs) ? Math.min(Math.max(timeoutMs, MIN_TIMEOUT_MS), MAX_TIMEOUT_MS) : undefined,
+    });
+
+    if (!scraped) {
+      console.log(`No readable content at ${url}`);
+    }
+    return jsonResponse({ page: scraped });
+  } catch (error) {
+    if (error instanceof BlockedUrlError) {
+      console.warn(`Refused to scrape ${error.url}: ${error.message}`);
+      return jsonResponse({ error: error.message }, 400);
+    }
+    console.error('Error in scrape-page function:', error);
+    // The browser backs off for as long as the site asked
+    if (error instanceof RateLimitError) {
+      return jsonResponse({ error: error.message, retryAfterMs: error.retryAfterMs }, 429);
+    }
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 502);
+  } finally {
+    await usage?.flush();
+  }
+});
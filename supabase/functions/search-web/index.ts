@@ -0,0 +1,47 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { loadWebResearch, parseSearchProviders } from "../_shared/webResearch.ts";
+import { parseResearchProfile } from "../_shared/researchProfiles.ts";
+import { UsageMeter, createUsageMeter } from "../_shared/usageMeter.ts";
+
+// Searches for research run in the browser with the caller's workspace keys, so the keys stay on the server.
+// SearXNG is searched on the instance the functions are configured with, never one named in the request
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let usage: UsageMeter | null = null;
+  try {
+    const { query, context, providers: providerInput, profile: profileInput, sessionId, iteration } = await req.json();
+
+    if (typeof query !== 'string' || !query.trim()) {
+      return jsonResponse({ error: 'A search query is required' }, 400);
+    }
+
+    const providers = parseSearchProviders(providerInput);
+    usage = await createUsageMeter(req, 'search-web', {
+      sessionId: typeof sessionId === 'string' ? sessionId : null,
+      iteration: typeof iteration === 'number' ? iteration : null,
+    });
+    const web = await loadWebResearch(usage.workspaceId, { usage });
+    if (!web.hasSearchProvider(providers)) {
+      return jsonResponse({ error: 'No search provider configured' }, 400);
+    }
+
+    console.log(`Searching ${providers.join(', ')} for: "${query}"`);
+    const urls = await web.searchUrls(
+      query,
+      typeof context === 'string' ? context : undefined,
+      parseResearchProfile(profileInput),
+      providers,
+      req.signal
+    );
+    return jsonResponse({ urls });
+  } catch (error) {
+    console.error('Error in search-web function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  } finally {
+    await usage?.flush();
+  }
+});
@@ -0,0 +1,105 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { ContractError, EntailmentSchema, VerifyRequestSchema, parseContract, parseModelJson } from "../_shared/contracts.ts";
+import { Claim, Verdict, applyVerdicts, countVerification, verifyByMatch } from "../_shared/verification.ts";
+import { mapWithConcurrency } from "../_shared/cleaning.ts";
+import { llm } from "../_shared/llm.ts";
+import { isAbortError, throwIfAborted } from "../_shared/abort.ts";
+import { createCancellationSignal } from "../_shared/cancellation.ts";
+import { completionUsage } from "../_shared/usage.ts";
+import { UsageMeter, createUsageMeter } from "../_shared/usageMeter.ts";
+
+const CLAIMS_PER_REQUEST = 12;
+const VERIFY_CONCURRENCY = 3;
+
+const entailmentPrompt = `
+You are a meticulous fact checker. For each claim you get a passage of the web page the claim cites.
+Judge every claim ONLY against its own evidence passage, never against outside knowledge:
+- "supported": the passage states the claim or directly implies it (dates, names and numbers must match).
+- "contradicted": the passage states something incompatible with the claim.
+- "unsupported": the passage does not address the claim, or only partly.
+
+FORMAT YOUR RESPONSE AS A JSON OBJECT:
+{
+  "verdicts": [
+    {"id": 0, "label": "supported" | "unsupported" | "contradicted", "reason": "one short sentence"}
+  ]
+}
+Return exactly one verdict per claim id.
+`;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let usage: UsageMeter | null = null;
+  let cancellation: ReturnType<typeof createCancellationSignal> | null = null;
+  try {
+    let request;
+    try {
+      request = parseContract(VerifyRequestSchema, await req.json(), 'verification request');
+    } catch (error) {
+      return jsonResponse({ error: error.message, details: error instanceof ContractError ? error.issues : undefined }, 400);
+    }
+
+    cancellation = createCancellationSignal(request.sessionId, req);
+    const { signal } = cancellation;
+    usage = await createUsageMeter(req, 'verify-claims', request);
+    const matched = verifyByMatch(request.structuredInsights, request.scrapingResults);
+    console.log(`${matched.claims.length} facts need an entailment check`);
+
+    const batches: Claim[][] = [];
+    for (let i = 0; i < matched.claims.length; i += CLAIMS_PER_REQUEST) {
+      batches.push(matched.claims.slice(i, i + CLAIMS_PER_REQUEST));
+    }
+
+    const batchVerdicts = await mapWithConcurrency(batches, VERIFY_CONCURRENCY, async (batch): Promise<Verdict[] | null> => {
+      throwIfAborted(signal);
+      try {
+        const completion = await llm.complete('verify', {
+          messages: [
+            { role: 'system', content: entailmentPrompt },
+            { role: 'user', content: JSON.stringify({ claims: batch.map(({ id, fact, evidence }) => ({ id, claim: fact, evidence })) }) }
+          ],
+          json: true,
+          temperature: 0,
+          maxTokens: 1500
+        }, signal);
+        usage?.record(completionUsage('verify', completion));
+        const ids = new Set(batch.map(claim => claim.id));
+        // Verdicts for ids outside the batch would land on the wrong facts
+        return parseModelJson(EntailmentSchema, completion.content, 'entailment verdicts').verdicts
+          .filter(verdict => ids.has(verdict.id));
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error(`Entailment check failed for ${batch.length} claims:`, error.message);
+        return null;
+      }
+    });
+
+    if (batches.length > 0 && batchVerdicts.every(verdicts => verdicts === null)) {
+      throw new Error('Entailment check failed for every batch of claims');
+    }
+
+    const structuredInsights = applyVerdicts(
+      matched.structuredInsights,
+      matched.claims,
+      batchVerdicts.flatMap(verdicts => verdicts ?? [])
+    );
+    const counts = countVerification(structuredInsights);
+    console.log(`Verified facts: ${counts.supported} supported, ${counts.unsupported} unsupported, ${counts.contradicted} contradicted, ${counts.unchecked} unchecked`);
+
+    return jsonResponse({ structuredInsights });
+  } catch (error) {
+    if (isAbortError(error)) {
+      console.log('Verification stopped: the research was cancelled');
+      return jsonResponse({ error: 'The research was cancelled' }, 499);
+    }
+    console.error('Error in verify-claims function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  } finally {
+    cancellation?.dispose();
+    await usage?.flush();
+  }
+});
@@ -0,0 +1,160 @@
+-- Research sessions: everything the research page produces is stored here so a
+-- session can be reopened exactly as it was left.
+
+create type public.research_session_status as enum (
+  'draft',
+  'planned',
+  'researching',
+  'completed',
+  'failed',
+  'cancelled'
+);
+
+create type public.research_log_type as enum ('info', 'warning', 'error', 'success');
+
+create table public.research_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade default auth.uid(),
+  question text not null,
+  status public.research_session_status not null default 'draft',
+  current_iteration integer not null default 0,
+  analysis_text text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.research_plans (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null unique references public.research_sessions (id) on delete cascade,
+  intent text not null,
+  search_focus jsonb not null default '[]'::jsonb,
+  information_goals jsonb not null default '[]'::jsonb,
+  original_question text not null,
+  context text,
+  created_at timestamptz not null default now()
+);
+
+create table public.research_iterations (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.research_sessions (id) on delete cascade,
+  iteration_number integer not null,
+  targets jsonb not null default '[]'::jsonb,
+  analysis text,
+  extraction_focus text,
+  created_at timestamptz not null default now(),
+  unique (session_id, iteration_number)
+);
+
+create table public.research_sources (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.research_sessions (id) on delete cascade,
+  iteration_number integer,
+  url text not null,
+  content text not null default '',
+  metadata jsonb not null default '{}'::jsonb,
+  search_query text,
+  created_at timestamptz not null default now()
+);
+
+create table public.research_insights (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null unique references public.research_sessions (id) on delete cascade,
+  structured_insights jsonb not null default '{}'::jsonb,
+  relevant_findings jsonb not null default '[]'::jsonb,
+  suggested_next_steps jsonb not null default '[]'::jsonb,
+  analysis text,
+  updated_at timestamptz not null default now()
+);
+
+create table public.research_logs (
+  id bigint generated always as identity primary key,
+  session_id uuid not null references public.research_sessions (id) on delete cascade,
+  message text not null,
+  type public.research_log_type not null default 'info',
+  created_at timestamptz not null default now()
+);
+
+create index research_sessions_user_id_idx on public.research_sessions (user_id, updated_at desc);
+create index research_iterations_session_id_idx on public.research_iterations (session_id, iteration_number);
+create index research_sources_session_id_idx on public.research_sources (session_id, created_at);
+create index research_logs_session_id_idx on public.research_logs (session_id, created_at);
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger research_sessions_set_updated_at
+  before update on public.research_sessions
+  for each row execute function public.set_updated_at();
+
+create trigger research_insights_set_updated_at
+  before update on public.research_insights
+  for each row execute function public.set_updated_at();
+
+-- Row level security: a session belongs to the user that created it. Sessions
+-- created without a signed-in user (user_id is null) stay readable by anyone
+-- holding the anon key, matching how the app works today.
+
+alter table public.research_sessions enable row level security;
+alter table public.research_plans enable row level security;
+alter table public.research_iterations enable row level security;
+alter table public.research_sources enable row level security;
+alter table public.research_insights enable row level security;
+alter table public.research_logs enable row level security;
+
+create or replace function public.can_access_research_session(target_session_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.research_sessions s
+    where s.id = target_session_id
+      and (s.user_id is null or s.user_id = auth.uid())
+  );
+$$;
+
+create policy "Users manage their own research sessions"
+  on public.research_sessions
+  for all
+  using (user_id is null or user_id = auth.uid())
+  with check (user_id is null or user_id = auth.uid());
+
+create policy "Session owners manage research plans"
+  on public.research_plans
+  for all
+  using (public.can_access_research_session(session_id))
+  with check (public.can_access_research_session(session_id));
+
+create policy "Session owners manage research iterations"
+  on public.research_iterations
+  for all
+  using (public.can_access_research_session(session_id))
+  with check (public.can_access_research_session(session_id));
+
+create policy "Session owners manage research sources"
+  on public.research_sources
+  for all
+  using (public.can_access_research_session(session_id))
+  with check (public.can_access_research_session(session_id));
+
+create policy "Session owners manage research insights"
+  on public.research_insights
+  for all
+  using (public.can_access_research_session(session_id))
+  with check (public.can_access_research_session(session_id));
+
+create policy "Session owners manage research logs"
+  on public.research_logs
+  for all
+  using (public.can_access_research_session(session_id))
+  with check (public.can_access_research_session(session_id));
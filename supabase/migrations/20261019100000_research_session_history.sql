@@ -0,0 +1,8 @@
+-- History sidebar: sessions can be renamed and pinned.
+
+alter table public.research_sessions
+  add column title text,
+  add column pinned boolean not null default false;
+
+drop index if exists public.research_sessions_user_id_idx;
+create index research_sessions_user_id_idx on public.research_sessions (user_id, pinned desc, updated_at desc);
@@ -0,0 +1,52 @@
+-- Server-side research jobs: the run-research Edge Function works through
+-- plan -> scrape -> clean -> refine one step at a time, recording where it is
+-- so a run can be resumed after a timeout and survives the browser closing.
+
+create type public.research_job_status as enum (
+  'queued',
+  'running',
+  'completed',
+  'failed',
+  'cancelled'
+);
+
+create type public.research_job_step as enum ('plan', 'scrape', 'clean', 'refine');
+
+create table public.research_jobs (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.research_sessions (id) on delete cascade,
+  status public.research_job_status not null default 'queued',
+  step public.research_job_step not null default 'plan',
+  iteration integer not null default 1,
+  max_iterations integer not null default 2,
+  -- Step-local progress, e.g. which search target the scrape step reached
+  payload jsonb not null default '{}'::jsonb,
+  attempts integer not null default 0,
+  last_error text,
+  heartbeat_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Only one active job per session
+create unique index research_jobs_active_session_idx
+  on public.research_jobs (session_id)
+  where status in ('queued', 'running');
+
+create index research_jobs_session_id_idx on public.research_jobs (session_id, created_at desc);
+
+create trigger research_jobs_set_updated_at
+  before update on public.research_jobs
+  for each row execute function public.set_updated_at();
+
+-- Jobs are written by the Edge Function with the service role; clients only read them
+alter table public.research_jobs enable row level security;
+
+create policy "Session owners read research jobs"
+  on public.research_jobs
+  for select
+  using (public.can_access_research_session(session_id));
+
+-- The research page subscribes to job and log changes instead of polling
+alter publication supabase_realtime add table public.research_jobs;
+alter publication supabase_realtime add table public.research_logs;
@@ -0,0 +1,45 @@
+-- Research pipeline step records: every planning, searching, scraping,
+-- cleaning and refining step is stored with its input and output, so a
+-- failed step (e.g. the cleaner) can be retried on its own.
+
+create type public.research_step_name as enum (
+  'planning',
+  'searching',
+  'scraping',
+  'cleaning',
+  'refining'
+);
+
+create type public.research_step_status as enum (
+  'running',
+  'succeeded',
+  'failed',
+  'cancelled'
+);
+
+create table public.research_pipeline_steps (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.research_sessions (id) on delete cascade,
+  iteration integer not null default 0,
+  step public.research_step_name not null,
+  status public.research_step_status not null default 'running',
+  input jsonb not null default '{}'::jsonb,
+  output jsonb,
+  error text,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index research_pipeline_steps_session_id_idx
+  on public.research_pipeline_steps (session_id, started_at);
+
+alter table public.research_pipeline_steps enable row level security;
+
+create policy "Session owners manage research pipeline steps"
+  on public.research_pipeline_steps
+  for all
+  using (public.can_access_research_session(session_id))
+  with check (public.can_access_research_session(session_id));
+
+-- Server jobs resolve search targets to URLs in a step of their own
+alter type public.research_job_step add value if not exists 'search' before 'scrape';
@@ -0,0 +1,5 @@
+-- Search providers picked per session (see supabase/functions/_shared/searchProviders.ts);
+-- results from several providers are merged and deduplicated.
+
+alter table public.research_sessions
+  add column search_providers text[] not null default array['serpapi'];
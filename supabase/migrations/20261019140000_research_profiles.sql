@@ -0,0 +1,32 @@
+-- Research profiles: per-project search settings (fallback sources, locale and
+-- date window) that sessions pick instead of relying on hardcoded defaults.
+
+create table public.research_profiles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade default auth.uid(),
+  name text not null,
+  fallback_sources text[] not null default '{}',
+  country text,
+  language text,
+  date_window_months integer not null default 12 check (date_window_months between 1 and 120),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index research_profiles_user_id_idx on public.research_profiles (user_id, name);
+
+create trigger research_profiles_set_updated_at
+  before update on public.research_profiles
+  for each row execute function public.set_updated_at();
+
+alter table public.research_profiles enable row level security;
+
+create policy "Users manage their own research profiles"
+  on public.research_profiles
+  for all
+  using (user_id is null or user_id = auth.uid())
+  with check (user_id is null or user_id = auth.uid());
+
+-- Sessions without a profile use the built-in defaults: no fallbacks, no locale, twelve months
+alter table public.research_sessions
+  add column profile_id uuid references public.research_profiles (id) on delete set null;
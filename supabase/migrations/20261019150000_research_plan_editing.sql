@@ -0,0 +1,7 @@
+-- Editable research plans: analysts can mark search focus entries as URL or
+-- query and lock entries so regenerating the plan only replaces the others.
+
+alter table public.research_plans
+  add column target_kinds jsonb not null default '{}'::jsonb,
+  add column locked_search_focus jsonb not null default '[]'::jsonb,
+  add column locked_information_goals jsonb not null default '[]'::jsonb;
@@ -0,0 +1,5 @@
+-- Which sources the map-reduce cleaner read fully, partially or not at all,
+-- so analysts can tell when an analysis rests on incomplete material.
+
+alter table public.research_insights
+  add column source_coverage jsonb not null default '[]'::jsonb;
@@ -0,0 +1,6 @@
+-- Claim verification: after cleaning, every fact is checked against the text
+-- of the source it cites. The verdicts are stored on the facts inside
+-- research_insights.structured_insights; only the step names are new.
+
+alter type public.research_step_name add value if not exists 'verifying' before 'refining';
+alter type public.research_job_step add value if not exists 'verify' before 'refine';
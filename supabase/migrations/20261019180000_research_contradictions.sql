@@ -0,0 +1,32 @@
+-- Contradictions between sources found after verification. Each row groups the
+-- conflicting claims about one subject; resolution holds the claim the analyst
+-- picked as authoritative and survives later detection runs for the session.
+
+create table public.research_contradictions (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.research_sessions (id) on delete cascade,
+  subject_key text not null,
+  subject text not null,
+  summary text,
+  claims jsonb not null default '[]'::jsonb,
+  resolution jsonb,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (session_id, subject_key)
+);
+
+create index research_contradictions_session_id_idx
+  on public.research_contradictions (session_id, created_at);
+
+create trigger research_contradictions_set_updated_at
+  before update on public.research_contradictions
+  for each row execute function public.set_updated_at();
+
+alter table public.research_contradictions enable row level security;
+
+create policy "Session owners manage research contradictions"
+  on public.research_contradictions
+  for all
+  using (public.can_access_research_session(session_id))
+  with check (public.can_access_research_session(session_id));
@@ -0,0 +1,6 @@
+-- Events the cleaner extracted from the sources (name, organizer, dates,
+-- location and who takes part in what role), shown as a timeline and
+-- exportable as an iCalendar file.
+
+alter table public.research_insights
+  add column events jsonb not null default '[]'::jsonb;
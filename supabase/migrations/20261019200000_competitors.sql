@@ -0,0 +1,92 @@
+-- Competitor profiles: persistent entities (name, domains, products, known
+-- event pages) that collect the verified facts of every research session
+-- mentioning them. A session can also be started for a competitor, which seeds
+-- its research plan with the competitor's known pages.
+
+create table public.competitors (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade default auth.uid(),
+  name text not null,
+  domains text[] not null default '{}',
+  products text[] not null default '{}',
+  event_pages text[] not null default '{}',
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index competitors_user_id_idx on public.competitors (user_id, name);
+
+create trigger competitors_set_updated_at
+  before update on public.competitors
+  for each row execute function public.set_updated_at();
+
+alter table public.competitors enable row level security;
+
+create policy "Users manage their own competitors"
+  on public.competitors
+  for all
+  using (user_id is null or user_id = auth.uid())
+  with check (user_id is null or user_id = auth.uid());
+
+create or replace function public.can_access_competitor(target_competitor_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.competitors c
+    where c.id = target_competitor_id
+      and (c.user_id is null or c.user_id = auth.uid())
+  );
+$$;
+
+-- One row per distinct fact; session_id is the session that first found it
+create table public.competitor_facts (
+  id uuid primary key default gen_random_uuid(),
+  competitor_id uuid not null references public.competitors (id) on delete cascade,
+  session_id uuid references public.research_sessions (id) on delete set null,
+  fact_key text not null,
+  fact text not null,
+  category text not null,
+  source text not null,
+  quote text,
+  confidence jsonb,
+  first_seen_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  unique (competitor_id, fact_key)
+);
+
+create index competitor_facts_competitor_id_idx
+  on public.competitor_facts (competitor_id, last_seen_at desc);
+
+alter table public.competitor_facts enable row level security;
+
+create policy "Competitor owners manage competitor facts"
+  on public.competitor_facts
+  for all
+  using (public.can_access_competitor(competitor_id))
+  with check (public.can_access_competitor(competitor_id));
+
+-- The sessions that mentioned a competitor, for the history on its profile
+create table public.competitor_sessions (
+  competitor_id uuid not null references public.competitors (id) on delete cascade,
+  session_id uuid not null references public.research_sessions (id) on delete cascade,
+  fact_count integer not null default 0,
+  recorded_at timestamptz not null default now(),
+  primary key (competitor_id, session_id)
+);
+
+alter table public.competitor_sessions enable row level security;
+
+create policy "Competitor owners manage competitor sessions"
+  on public.competitor_sessions
+  for all
+  using (public.can_access_competitor(competitor_id))
+  with check (public.can_access_competitor(competitor_id) and public.can_access_research_session(session_id));
+
+alter table public.research_sessions
+  add column competitor_id uuid references public.competitors (id) on delete set null;
@@ -0,0 +1,95 @@
+-- Research monitors: a saved plan rerun on a schedule by the run-monitors Edge
+-- Function. Every run is a regular research session; when it completes, its
+-- insights and sources are compared with the previous run's and the report of
+-- what changed is stored with the run.
+
+create table public.research_monitors (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade default auth.uid(),
+  name text not null,
+  question text not null,
+  -- The research plan every run starts from
+  plan jsonb not null,
+  search_providers text[] not null default '{}',
+  profile_id uuid references public.research_profiles (id) on delete set null,
+  competitor_id uuid references public.competitors (id) on delete set null,
+  interval_days integer not null default 7 check (interval_days between 1 and 90),
+  max_iterations integer not null default 2 check (max_iterations between 1 and 5),
+  enabled boolean not null default true,
+  next_run_at timestamptz not null default now(),
+  last_run_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index research_monitors_user_id_idx on public.research_monitors (user_id, name);
+create index research_monitors_due_idx on public.research_monitors (next_run_at) where enabled;
+
+create trigger research_monitors_set_updated_at
+  before update on public.research_monitors
+  for each row execute function public.set_updated_at();
+
+alter table public.research_monitors enable row level security;
+
+create policy "Users manage their own research monitors"
+  on public.research_monitors
+  for all
+  using (user_id is null or user_id = auth.uid())
+  with check (user_id is null or user_id = auth.uid());
+
+create or replace function public.can_access_research_monitor(target_monitor_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.research_monitors m
+    where m.id = target_monitor_id
+      and (m.user_id is null or m.user_id = auth.uid())
+  );
+$$;
+
+create table public.research_monitor_runs (
+  id uuid primary key default gen_random_uuid(),
+  monitor_id uuid not null references public.research_monitors (id) on delete cascade,
+  session_id uuid not null unique references public.research_sessions (id) on delete cascade,
+  -- The run this one is compared with; null for a monitor's first run
+  previous_session_id uuid references public.research_sessions (id) on delete set null,
+  -- What changed since the previous run, written when the research completes
+  changes jsonb,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index research_monitor_runs_monitor_id_idx on public.research_monitor_runs (monitor_id, created_at desc);
+
+-- Runs are written by the Edge Functions with the service role; clients only read them
+alter table public.research_monitor_runs enable row level security;
+
+create policy "Monitor owners read research monitor runs"
+  on public.research_monitor_runs
+  for select
+  using (public.can_access_research_monitor(monitor_id));
+
+-- Check for due monitors every hour. The project URL and service role key are
+-- read from Vault secrets named 'project_url' and 'service_role_key'.
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'run-research-monitors',
+  '0 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/run-monitors',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,39 @@
+-- Scrape cache: the last fetch of every page, shared by the browser (through
+-- the scrape-page Edge Function) and the research Edge Functions so the same
+-- URL is not crawled again while its entry is fresh. Failures and empty pages
+-- are cached too, for a shorter time. Stale entries with an ETag or
+-- Last-Modified date are revalidated with a conditional request.
+
+create table public.scrape_cache (
+  -- Normalized: lowercase host, no fragment, tracking parameters or trailing slash
+  url text primary key,
+  scraper text not null,
+  status text not null check (status in ('ok', 'empty', 'error')),
+  content text,
+  metadata jsonb not null default '{}'::jsonb,
+  -- SHA-256 of the content, to tell a changed page from a refetched one
+  content_hash text,
+  etag text,
+  last_modified text,
+  error text,
+  fetched_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index scrape_cache_expires_at_idx on public.scrape_cache (expires_at);
+
+create trigger scrape_cache_set_updated_at
+  before update on public.scrape_cache
+  for each row execute function public.set_updated_at();
+
+-- Only the Edge Functions read and write the cache, with the service role
+alter table public.scrape_cache enable row level security;
+
+-- Drop entries that have not been used or refreshed for a month
+select cron.schedule(
+  'prune-scrape-cache',
+  '30 3 * * *',
+  $$ delete from public.scrape_cache where expires_at < now() - interval '30 days' $$
+);
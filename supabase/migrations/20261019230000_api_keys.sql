@@ -0,0 +1,34 @@
+-- API key vault: the FireCrawl, SerpAPI, Brave and Bing keys of a workspace,
+-- encrypted with AES-GCM by the api-keys Edge Function and only decrypted by
+-- the Edge Functions that call the providers. A workspace is the signed-in
+-- user; keys saved without signing in belong to the shared workspace with no
+-- user, like sessions created without one. Research falls back on the keys
+-- configured for the Edge Functions when a workspace has none.
+
+create table public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  provider text not null check (provider in ('firecrawl', 'serpapi', 'brave', 'bing')),
+  -- Base64 AES-GCM ciphertext and its initialization vector
+  ciphertext text not null,
+  iv text not null,
+  -- The last characters of the key, the only part the browser ever sees
+  masked_key text not null,
+  validation_status text not null default 'unverified'
+    check (validation_status in ('valid', 'invalid', 'unverified')),
+  validation_error text,
+  validated_at timestamptz,
+  last_used_at timestamptz,
+  -- When the key was last replaced with a new one
+  rotated_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique nulls not distinct (user_id, provider)
+);
+
+create trigger api_keys_set_updated_at
+  before update on public.api_keys
+  for each row execute function public.set_updated_at();
+
+-- Only the Edge Functions read and write keys, with the service role
+alter table public.api_keys enable row level security;
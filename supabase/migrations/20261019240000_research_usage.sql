@@ -0,0 +1,53 @@
+-- Research usage: one row per model call, search request and crawled page the
+-- Edge Functions make, with the tokens it took and its estimated cost at the
+-- prices of the day. Rows belong to the session and iteration they were made
+-- for and to the workspace (the session owner, or the caller without a
+-- session), so monthly totals survive deleting a session.
+
+create table public.research_usage (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid references public.research_sessions (id) on delete set null,
+  user_id uuid references auth.users (id) on delete cascade,
+  iteration integer,
+  -- The Edge Function that made the call
+  source text not null,
+  kind text not null check (kind in ('llm', 'search', 'crawl')),
+  provider text not null,
+  model text,
+  -- The pipeline step of a model call
+  step text,
+  input_tokens integer not null default 0,
+  output_tokens integer not null default 0,
+  -- Calls for models, requests for searches, pages for crawls
+  units integer not null default 1,
+  cost_usd numeric(12, 6) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index research_usage_session_id_idx on public.research_usage (session_id, created_at);
+create index research_usage_user_id_idx on public.research_usage (user_id, created_at);
+
+-- The Edge Functions write usage with the service role; users read their own
+alter table public.research_usage enable row level security;
+
+create policy "Users read their own research usage"
+  on public.research_usage
+  for select
+  using (user_id is null or user_id = auth.uid());
+
+-- Monthly totals per workspace, provider and model; security_invoker keeps the policy above in force
+create view public.research_usage_monthly
+  with (security_invoker = true)
+as
+  select
+    user_id,
+    date_trunc('month', created_at)::date as month,
+    kind,
+    provider,
+    model,
+    sum(units)::integer as units,
+    sum(input_tokens)::bigint as input_tokens,
+    sum(output_tokens)::bigint as output_tokens,
+    sum(cost_usd)::double precision as cost_usd
+  from public.research_usage
+  group by user_id, date_trunc('month', created_at)::date, kind, provider, model;
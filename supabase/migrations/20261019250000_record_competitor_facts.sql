@@ -0,0 +1,33 @@
+-- Files a session's facts under one competitor in a single statement, so two
+-- sessions finishing at once cannot both insert the same fact. A fact keeps
+-- the session that first found it and its first_seen_at; later sessions only
+-- refresh it. Runs with the caller's rights, so row level security still
+-- decides which competitors the browser may write to.
+
+create or replace function public.record_competitor_facts(
+  target_competitor_id uuid,
+  target_session_id uuid,
+  facts jsonb
+)
+returns void
+language sql
+security invoker
+set search_path = public
+as $$
+  insert into public.competitor_facts (competitor_id, session_id, fact_key, fact, category, source, quote, confidence)
+  select target_competitor_id, target_session_id, f.fact_key, f.fact, f.category, f.source, f.quote, f.confidence
+  from jsonb_to_recordset(facts) as f (fact_key text, fact text, category text, source text, quote text, confidence jsonb)
+  on conflict (competitor_id, fact_key) do update
+    set fact = excluded.fact,
+        category = excluded.category,
+        source = excluded.source,
+        quote = excluded.quote,
+        confidence = excluded.confidence,
+        last_seen_at = now();
+
+  insert into public.competitor_sessions (competitor_id, session_id, fact_count, recorded_at)
+  values (target_competitor_id, target_session_id, jsonb_array_length(facts), now())
+  on conflict (competitor_id, session_id) do update
+    set fact_count = excluded.fact_count,
+        recorded_at = excluded.recorded_at;
+$$;
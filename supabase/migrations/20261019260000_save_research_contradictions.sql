@@ -0,0 +1,29 @@
+-- Replaces a session's detected contradictions in one call: subjects found
+-- again are updated, unresolved ones no longer found are removed, and resolved
+-- ones always stay. Runs with the caller's rights, so row level security still
+-- decides which sessions the browser may write to.
+
+create or replace function public.save_research_contradictions(
+  target_session_id uuid,
+  contradictions jsonb
+)
+returns void
+language sql
+security invoker
+set search_path = public
+as $$
+  delete from public.research_contradictions
+  where session_id = target_session_id
+    and resolved_at is null
+    and subject_key not in (
+      select c.subject_key from jsonb_to_recordset(contradictions) as c (subject_key text)
+    );
+
+  insert into public.research_contradictions (session_id, subject_key, subject, summary, claims)
+  select target_session_id, c.subject_key, c.subject, c.summary, c.claims
+  from jsonb_to_recordset(contradictions) as c (subject_key text, subject text, summary text, claims jsonb)
+  on conflict (session_id, subject_key) do update
+    set subject = excluded.subject,
+        summary = excluded.summary,
+        claims = excluded.claims;
+$$;